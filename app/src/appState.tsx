@@ -0,0 +1,358 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { Box, Button, Text, useColorMode, useToast } from '@chakra-ui/react'
+import type {
+  CombinedSettlementDraft,
+  Course,
+  CurrencyCode,
+  JunkType,
+  LedgerAliases,
+  LedgerEntry,
+  MoneyFormat,
+  PlayerId,
+  Round,
+  StablefordTable,
+} from './types'
+import type { LedgerPeriod } from './logic/ledger'
+import { PAYMENT_METHODS } from './logic/paymentMethods'
+import { setMoneyFormat } from './logic/money'
+import {
+  loadCombinedDraft,
+  loadCourses,
+  loadLedger,
+  loadLedgerAliases,
+  loadMoneyFormat,
+  loadRounds,
+  saveCombinedDraft,
+  saveLedger,
+  saveRounds,
+  upsertRound,
+} from './storage'
+import { flushTrackedEvents } from './logic/track'
+import { createEmptySkinsRound } from './newRound'
+
+type Theme = 'dark' | 'light'
+
+type Screen = 'game' | 'setup' | 'holes' | 'quick' | 'settlement' | 'ledger' | 'combined'
+
+const THEME_KEY = 'rubislabs:golf-bets:theme:v1'
+export const IOS_HINT_DISMISSED_AT_KEY = 'rubislabs:golf-bets:ios-hint:dismissed-at:v1'
+const IOS_HINT_COOLDOWN_MS = 30 * 24 * 60 * 60 * 1000
+const ROUND_SAVE_DEBOUNCE_MS = 200
+
+function loadTheme(): Theme {
+  try {
+    const raw = localStorage.getItem(THEME_KEY)
+    if (raw === 'light' || raw === 'dark') return raw
+  } catch {
+    // ignore
+  }
+  // default: light for first-time users
+  return 'light'
+}
+
+function applyTheme(theme: Theme) {
+  document.documentElement.dataset.theme = theme
+  try {
+    localStorage.setItem(THEME_KEY, theme)
+  } catch {
+    // ignore
+  }
+}
+
+function isIOSSafari(): boolean {
+  if (typeof navigator === 'undefined') return false
+  const ua = navigator.userAgent || ''
+  const touchMac = /Macintosh/i.test(ua) && typeof document !== 'undefined' && 'ontouchend' in document
+  const isIOS = /iPad|iPhone|iPod/i.test(ua) || touchMac
+  const isWebKit = /WebKit/i.test(ua)
+  const notSafari = /CriOS|FxiOS|EdgiOS|OPiOS/i.test(ua)
+  return isIOS && isWebKit && !notSafari
+}
+
+function shouldShowIOSHint(): boolean {
+  if (!isIOSSafari()) return false
+  try {
+    const raw = localStorage.getItem(IOS_HINT_DISMISSED_AT_KEY)
+    if (!raw) return true
+    const ts = Number(raw)
+    if (!Number.isFinite(ts)) return true
+    return Date.now() - ts >= IOS_HINT_COOLDOWN_MS
+  } catch {
+    return true
+  }
+}
+
+// The app's state: the round on screen, saved rounds, the ledger and each screen's UI state, plus the effects that persist them.
+export function useAppState() {
+  const [screen, setScreen] = useState<Screen>('game')
+  const [theme, setTheme] = useState<Theme>(() => loadTheme())
+  const [showAdvanced, setShowAdvanced] = useState(false)
+  const toast = useToast()
+  const [prefersReducedMotion, setPrefersReducedMotion] = useState(false)
+  const { colorMode, setColorMode } = useColorMode()
+
+  useEffect(() => {
+    // Keep legacy CSS theme in sync while we migrate UI to Chakra.
+    applyTheme(theme)
+    if (theme !== colorMode) setColorMode(theme)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [theme])
+
+  // Local persistence
+  const [stored, setStored] = useState(() => loadRounds())
+  const [savedCourses, setSavedCourses] = useState<Course[]>(() => loadCourses())
+  const [ledger, setLedger] = useState<LedgerEntry[]>(() => loadLedger())
+  const [ledgerPeriod, setLedgerPeriod] = useState<LedgerPeriod>('all')
+  const [ledgerCurrency, setLedgerCurrency] = useState<CurrencyCode | null>(null)
+  const [ledgerAliases, setLedgerAliases] = useState<LedgerAliases>(() => loadLedgerAliases())
+  const [ledgerMerge, setLedgerMerge] = useState({ from: '', into: '' })
+  const [paymentMethod, setPaymentMethod] = useState(PAYMENT_METHODS[0])
+  const [auditPlayerId, setAuditPlayerId] = useState<PlayerId | null>(null)
+  const [showPaymentHandles, setShowPaymentHandles] = useState(false)
+  // The device's locale and default currency; main.tsx puts them (with the active round's currency) into the money
+  // module before the first render.
+  const [moneyFormat, setMoneyFormatState] = useState<MoneyFormat>(() => loadMoneyFormat())
+  const [combinedDraft, setCombinedDraft] = useState<CombinedSettlementDraft>(() => loadCombinedDraft())
+  const [adjustmentForm, setAdjustmentForm] = useState({ label: '', amount: '', owedTo: '', owedBy: [] as string[] })
+  const [courseEditorOpen, setCourseEditorOpen] = useState(false)
+  const [showIOSHint, setShowIOSHint] = useState<boolean>(() => shouldShowIOSHint())
+  const [round, setRound] = useState<Round>(() => {
+    const st = loadRounds()
+    const active = st.activeRoundId ? st.rounds.find((r) => r.id === st.activeRoundId) : undefined
+    // If there is an active round, resume it, but keep landing page available.
+    return active || { ...createEmptySkinsRound(), currency: moneyFormat.currency }
+  })
+
+  // Avoid writing on initial mount before state settles
+  const hydrated = useRef(false)
+  const roundSaveTimerRef = useRef<number | null>(null)
+  const pendingStoredRef = useRef<ReturnType<typeof loadRounds> | null>(null)
+
+  const flushPendingRoundSave = useCallback(() => {
+    if (roundSaveTimerRef.current !== null) {
+      window.clearTimeout(roundSaveTimerRef.current)
+      roundSaveTimerRef.current = null
+    }
+    if (!pendingStoredRef.current) return
+    saveRounds(pendingStoredRef.current)
+    pendingStoredRef.current = null
+  }, [])
+
+  const scheduleRoundSave = useCallback((next: ReturnType<typeof loadRounds>) => {
+    pendingStoredRef.current = next
+    if (roundSaveTimerRef.current !== null) window.clearTimeout(roundSaveTimerRef.current)
+    roundSaveTimerRef.current = window.setTimeout(() => {
+      roundSaveTimerRef.current = null
+      flushPendingRoundSave()
+    }, ROUND_SAVE_DEBOUNCE_MS)
+  }, [flushPendingRoundSave])
+
+  useEffect(() => {
+    if (!hydrated.current) {
+      hydrated.current = true
+      return
+    }
+    setStored((prev) => {
+      const next = upsertRound(prev, round)
+      scheduleRoundSave(next)
+      return next
+    })
+  }, [round, scheduleRoundSave])
+
+  useEffect(() => {
+    const flushOnHide = () => {
+      flushPendingRoundSave()
+      flushTrackedEvents()
+    }
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flushOnHide()
+    }
+    window.addEventListener('pagehide', flushOnHide)
+    document.addEventListener('visibilitychange', onVisibilityChange)
+    return () => {
+      window.removeEventListener('pagehide', flushOnHide)
+      document.removeEventListener('visibilitychange', onVisibilityChange)
+      flushOnHide()
+    }
+  }, [flushPendingRoundSave])
+  // Group rounds enter one foursome at a time; a scramble enters one score per team (stored on every member).
+  const [groupTeamIndex, setGroupTeamIndex] = useState(0)
+  const recentRounds = useMemo(
+    () =>
+      stored.rounds
+        .slice()
+        .sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0))
+        .slice(0, 10),
+    [stored],
+  )
+
+  // Percentages as typed ("60/30/10"); anything unparseable falls back to the default split.
+  const [groupPayoutDraft, setGroupPayoutDraft] = useState<string | null>(null)
+
+  const [junkValueDrafts, setJunkValueDrafts] = useState<Partial<Record<JunkType, string>>>({})
+
+  const [stablefordDrafts, setStablefordDrafts] = useState<Partial<Record<keyof StablefordTable, string>>>({})
+
+  // Keep the raw text while typing ("+", "12.") and store the parsed index.
+  const [handicapDrafts, setHandicapDrafts] = useState<Record<PlayerId, string>>({})
+
+  const focusPlayerId = useRef<PlayerId | null>(null)
+  const undoActionId = useRef(0)
+  const undoRef = useRef<{ id: number; timeoutId: number; restore: () => void; toastId: string } | null>(null)
+  const lastQuickHoleRef = useRef<number | null>(null)
+
+  useEffect(() => {
+    return () => {
+      if (undoRef.current) window.clearTimeout(undoRef.current.timeoutId)
+    }
+  }, [])
+
+  useEffect(() => {
+    const media = window.matchMedia('(prefers-reduced-motion: reduce)')
+    const apply = () => setPrefersReducedMotion(media.matches)
+    apply()
+    media.addEventListener('change', apply)
+    return () => media.removeEventListener('change', apply)
+  }, [])
+
+  // Quick-entry mode
+  const [quickHole, setQuickHole] = useState<number>(1)
+
+  function registerUndo(params: { label: string; restore: () => void }) {
+    if (undoRef.current) {
+      window.clearTimeout(undoRef.current.timeoutId)
+      toast.close(undoRef.current.toastId)
+      undoRef.current = null
+    }
+
+    const id = ++undoActionId.current
+    const toastId = `undo-${id}`
+    const timeoutId = window.setTimeout(() => {
+      if (undoRef.current?.id === id) undoRef.current = null
+      toast.close(toastId)
+    }, 8000)
+
+    undoRef.current = { id, timeoutId, restore: params.restore, toastId }
+
+    toast({
+      id: toastId,
+      duration: 8000,
+      position: 'bottom',
+      isClosable: true,
+      render: () => (
+        <Box className="undoToast">
+          <Text fontSize="sm" fontWeight={700}>
+            {params.label}
+          </Text>
+          <Button
+            size="sm"
+            minH="44px"
+            variant="secondary"
+            onClick={() => {
+              const cur = undoRef.current
+              if (!cur || cur.id !== id) return
+              window.clearTimeout(cur.timeoutId)
+              undoRef.current = null
+              toast.close(toastId)
+              cur.restore()
+            }}
+            type="button"
+          >
+            Undo
+          </Button>
+        </Box>
+      ),
+    })
+  }
+
+  // Amounts show in the round's own currency.
+  function showRoundCurrency(currency: CurrencyCode | undefined) {
+    setMoneyFormat({ ...moneyFormat, currency: currency || moneyFormat.currency })
+  }
+
+  function loadExistingRound(r: Round, nextScreen: Screen = 'holes') {
+    showRoundCurrency(r.currency)
+    setRound(r)
+    setScreen(nextScreen)
+    setStored((prev) => {
+      const next = { ...prev, activeRoundId: r.id }
+      saveRounds(next)
+      return next
+    })
+  }
+
+  function updateCombinedDraft(next: CombinedSettlementDraft) {
+    setCombinedDraft(next)
+    saveCombinedDraft(next)
+  }
+
+  function updateLedger(next: LedgerEntry[]) {
+    setLedger(next)
+    saveLedger(next)
+  }
+
+  return {
+    screen,
+    setScreen,
+    theme,
+    setTheme,
+    showAdvanced,
+    setShowAdvanced,
+    prefersReducedMotion,
+    stored,
+    setStored,
+    savedCourses,
+    setSavedCourses,
+    ledger,
+    ledgerPeriod,
+    setLedgerPeriod,
+    ledgerCurrency,
+    setLedgerCurrency,
+    ledgerAliases,
+    setLedgerAliases,
+    ledgerMerge,
+    setLedgerMerge,
+    paymentMethod,
+    setPaymentMethod,
+    auditPlayerId,
+    setAuditPlayerId,
+    showPaymentHandles,
+    setShowPaymentHandles,
+    moneyFormat,
+    setMoneyFormatState,
+    combinedDraft,
+    adjustmentForm,
+    setAdjustmentForm,
+    courseEditorOpen,
+    setCourseEditorOpen,
+    showIOSHint,
+    setShowIOSHint,
+    round,
+    setRound,
+    groupTeamIndex,
+    setGroupTeamIndex,
+    recentRounds,
+    groupPayoutDraft,
+    setGroupPayoutDraft,
+    junkValueDrafts,
+    setJunkValueDrafts,
+    stablefordDrafts,
+    setStablefordDrafts,
+    handicapDrafts,
+    setHandicapDrafts,
+    focusPlayerId,
+    lastQuickHoleRef,
+    quickHole,
+    setQuickHole,
+    registerUndo,
+    showRoundCurrency,
+    loadExistingRound,
+    updateCombinedDraft,
+    updateLedger,
+  }
+}
+
+export type AppState = ReturnType<typeof useAppState>
+
+// Every lazy-loaded screen reads the app state it needs from here.
+export type ScreenProps = { app: AppState }
@@ -43,3 +43,76 @@ export const BBBBadge = (props: SVGProps<SVGSVGElement>) => (
     </text>
   </svg>
 )
+
+export const NassauBadge = (props: SVGProps<SVGSVGElement>) => (
+  <svg viewBox="0 0 24 24" {...props}>
+    <path d="M6 20.5V3.5" {...common} />
+    <path d="M6 4.2h11.5l-2.4 3 2.4 3H6" {...common} />
+    <path d="M10 14.5h8M10 17.5h8M10 20.5h8" {...common} />
+  </svg>
+)
+
+export const StablefordBadge = (props: SVGProps<SVGSVGElement>) => (
+  <svg viewBox="0 0 24 24" {...props}>
+    <path d="M4 20.5h16" {...common} />
+    <path d="M6.5 20.5v-5M11 20.5v-9M15.5 20.5v-7M20 20.5V6" {...common} />
+    <path d="m4.5 11 4-3.5 4 2.5 6-6" {...common} />
+  </svg>
+)
+
+export const VegasBadge = (props: SVGProps<SVGSVGElement>) => (
+  <svg viewBox="0 0 24 24" {...props}>
+    <rect x="3" y="6" width="8" height="12" rx="1.6" {...common} />
+    <rect x="13" y="6" width="8" height="12" rx="1.6" {...common} />
+    <text x="7" y="14.2" textAnchor="middle" fontSize="6" fill="currentColor" fontWeight="700">
+      4
+    </text>
+    <text x="17" y="14.2" textAnchor="middle" fontSize="6" fill="currentColor" fontWeight="700">
+      5
+    </text>
+  </svg>
+)
+
+export const MatchBadge = (props: SVGProps<SVGSVGElement>) => (
+  <svg viewBox="0 0 24 24" {...props}>
+    <path d="M4 20.5h16" {...common} />
+    <path d="M8 20.5V8M16 20.5V4" {...common} />
+    <path d="M8 8.5l-3.5-2 3.5-2M16 4.5l3.5 2-3.5 2" {...common} />
+  </svg>
+)
+
+export const SixesBadge = (props: SVGProps<SVGSVGElement>) => (
+  <svg viewBox="0 0 24 24" {...props}>
+    <path d="M20 12a8 8 0 0 1-13.7 5.6M4 12a8 8 0 0 1 13.7-5.6" {...common} />
+    <path d="M17.7 3v3.6h-3.6M6.3 21v-3.6h3.6" {...common} />
+    <text x="12" y="14.2" textAnchor="middle" fontSize="6" fill="currentColor" fontWeight="700">
+      6
+    </text>
+  </svg>
+)
+
+export const HammerBadge = (props: SVGProps<SVGSVGElement>) => (
+  <svg viewBox="0 0 24 24" {...props}>
+    <path d="m15 12-8.4 8.4a2 2 0 0 1-2.8-2.8L12.2 9" {...common} />
+    <path d="m17.6 14.6 3.9-3.9-7.2-7.2-3.9 3.9z" {...common} />
+    <path d="M14.3 3.5 12.7 2" {...common} />
+  </svg>
+)
+
+export const QuotaBadge = (props: SVGProps<SVGSVGElement>) => (
+  <svg viewBox="0 0 24 24" {...props}>
+    <circle cx="12" cy="12" r="8.5" {...common} />
+    <circle cx="12" cy="12" r="4.5" {...common} />
+    <path d="M12 12l6-6M18 6h-2.5M18 6v2.5" {...common} />
+  </svg>
+)
+
+export const GroupBadge = (props: SVGProps<SVGSVGElement>) => (
+  <svg viewBox="0 0 24 24" {...props}>
+    <circle cx="8" cy="8" r="2.5" {...common} />
+    <circle cx="16" cy="8" r="2.5" {...common} />
+    <circle cx="8" cy="16" r="2.5" {...common} />
+    <circle cx="16" cy="16" r="2.5" {...common} />
+    <path d="M12 3v18M3 12h18" {...common} />
+  </svg>
+)
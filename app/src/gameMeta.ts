@@ -0,0 +1,162 @@
+import type { ComponentType } from 'react'
+import type { GameType } from './types'
+import {
+  BBBBadge,
+  GroupBadge,
+  HammerBadge,
+  MatchBadge,
+  NassauBadge,
+  QuotaBadge,
+  SixesBadge,
+  SkinsBadge,
+  StablefordBadge,
+  VegasBadge,
+  WolfBadge,
+} from './assets/gameBadges'
+
+type GameMeta = {
+  label: string
+  short: string
+  Icon: ComponentType
+  rules: string[]
+}
+
+export const GAME_BADGE_ICON: Record<GameType, ComponentType> = {
+  skins: SkinsBadge,
+  wolf: WolfBadge,
+  bbb: BBBBadge,
+  nassau: NassauBadge,
+  stableford: StablefordBadge,
+  vegas: VegasBadge,
+  match: MatchBadge,
+  sixes: SixesBadge,
+  hammer: HammerBadge,
+  quota: QuotaBadge,
+  group: GroupBadge,
+}
+
+// Rules write ¤ (the generic currency sign) where the selected currency's symbol goes; GameRules swaps it in.
+export const GAME_META: Record<GameType, GameMeta> = {
+  skins: {
+    label: 'Skins',
+    short: 'Skins',
+    Icon: GAME_BADGE_ICON.skins,
+    rules: [
+      'Each hole is worth 1 skin (+ carries).',
+      'Lowest score wins the skin. Ties carry to the next hole.',
+      'Winner collects stake from each opponent, or everyone buys into a pot split by skins won.',
+      'Optional: net (handicap strokes by stroke index), or gross + net pots.',
+      'Optional: cap the carry; validation (a carry needs par or better to collect); skins still carrying after the last hole split among those tied for low, go to a playoff, or are forfeited (a carry held by validation on the last hole is forfeited under split).',
+    ],
+  },
+  wolf: {
+    label: 'Wolf',
+    short: 'Wolf',
+    Icon: GAME_BADGE_ICON.wolf,
+    rules: [
+      '3–5 players. Wolf rotates each hole. Choose partner (or Lone).',
+      'Best-ball teams compete each hole (2v1 with 3 players, 2v3 with 5): every loser pays half the hole’s points to every winner, so 2v2 is ±1× each and every hole nets to zero.',
+      'Blind Wolf: declared before the tee shot, plays alone for extra points. Pig: the picked partner rejects the Wolf and plays alone against everyone.',
+      'Optional: tied holes carry their points to the next decided hole; last place is the Wolf on the final two holes.',
+      'Optional: ¤/pt settlement based on points.',
+    ],
+  },
+  bbb: {
+    label: 'Bingo Bango Bongo',
+    short: 'BBB',
+    Icon: GAME_BADGE_ICON.bbb,
+    rules: [
+      'Each hole has 3 awards: Bingo (first on green), Bango (closest), Bongo (first in).',
+      'Award-entry only (no strokes). 1 point per award won.',
+      'Optional: ¤/pt settlement based on points.',
+    ],
+  },
+  nassau: {
+    label: 'Nassau',
+    short: 'Nassau',
+    Icon: GAME_BADGE_ICON.nassau,
+    rules: [
+      'Three match-play bets: Front 9, Back 9 and Overall 18.',
+      '2 players head-to-head, or 4 players as teams (1+2 vs 3+4, best ball).',
+      'Presses start a new bet to the end of that nine (auto when a side goes N down, or manual on any hole).',
+      'Each finished bet pays the stake per player.',
+    ],
+  },
+  stableford: {
+    label: 'Stableford',
+    short: 'Stableford',
+    Icon: GAME_BADGE_ICON.stableford,
+    rules: [
+      'Points per hole by score vs par; highest total wins.',
+      'Standard: bogey 1, par 2, birdie 3, eagle 4, albatross 5. Modified (Tour): double+ −3, bogey −1, par 0, birdie 2, eagle 5, albatross 8.',
+      'Optional: net of handicap strokes, or a custom table.',
+      'Pay per point (difference between each pair) or a pot to the winner.',
+    ],
+  },
+  vegas: {
+    label: 'Vegas',
+    short: 'Vegas',
+    Icon: GAME_BADGE_ICON.vegas,
+    rules: [
+      '4 players, fixed teams (1+2 vs 3+4).',
+      "Each team's two scores make a number, low score first (4 and 5 = 45). A 10+ goes first (4 and 10 = 104).",
+      "A birdie flips the other team's number, high score first (45 becomes 54), unless both teams birdie.",
+      'The difference between the numbers is the points won; each player pays or collects ¤/pt.',
+    ],
+  },
+  match: {
+    label: 'Match Play',
+    short: 'Match',
+    Icon: GAME_BADGE_ICON.match,
+    rules: [
+      '2 players (singles) or 4 players (four-ball: 1+2 vs 3+4, best ball).',
+      'Low score wins the hole; the match is holes up or down ("2 UP thru 11").',
+      'The match ends once a side is up by more holes than are left ("3&2"). Dormie: up by exactly the holes left.',
+      'Net by default: strokes off the low man by stroke index. The winning side collects the stake from each opponent.',
+    ],
+  },
+  sixes: {
+    label: 'Six Sixes',
+    short: 'Sixes',
+    Icon: GAME_BADGE_ICON.sixes,
+    rules: [
+      '4 players. Partners rotate every six holes: 1+2 vs 3+4, then 1+3 vs 2+4, then 1+4 vs 2+3.',
+      'Each six-hole segment is a best-ball match; the winning side collects the stake from each opponent.',
+      'Optional overall bet: after the round, each pair of players settles it, most holes won collects.',
+      'No partner picks — the rotation decides the teams.',
+    ],
+  },
+  hammer: {
+    label: 'Hammer',
+    short: 'Hammer',
+    Icon: GAME_BADGE_ICON.hammer,
+    rules: [
+      '2 players, or 4 players in fixed teams (1+2 vs 3+4, best ball). Each hole starts at 1 point.',
+      'Either side can hammer mid-hole. The other side accepts (the hole doubles) or concedes (loses the hole at its value before the hammer).',
+      'After an accepted hammer only the side that accepted can hammer back, doubling it again.',
+      'Each player pays or collects ¤/pt on their side’s points.',
+    ],
+  },
+  quota: {
+    label: 'Quota (Chicago)',
+    short: 'Quota',
+    Icon: GAME_BADGE_ICON.quota,
+    rules: [
+      "Each player's quota is 36 minus their handicap (half that over nine holes); Setup can change it.",
+      'Gross points per hole: bogey 1, par 2, birdie 4, eagle 8, albatross 16. Double bogey or worse scores 0.',
+      'Your result is points minus quota: 33 points on a 30 quota is +3.',
+      'Each pair settles the difference in +/- at ¤/pt, so the table is zero-sum.',
+    ],
+  },
+  group: {
+    label: 'Team Pot (Best Ball / Scramble)',
+    short: 'Team Pot',
+    Icon: GAME_BADGE_ICON.group,
+    rules: [
+      'Up to 16 players in foursomes; Setup assigns the teams and each foursome enters its own scores.',
+      'Best ball: the low N scores on each team count every hole (optionally net). Scramble: one team score per hole.',
+      'Teams rank by score vs par, so foursomes on different holes compare fairly.',
+      "Everyone buys into one pot, paid by place (e.g. 60/30/10). Tied teams split the places they cover; a team's prize is split evenly.",
+    ],
+  },
+}
@@ -0,0 +1,77 @@
+import type { GameType, Round } from './types'
+import { skinsPayoutLabel, stakeLabel } from './logic/skins'
+import { wolfLabel } from './logic/wolf'
+import { nassauLabel } from './logic/nassau'
+import { stablefordPayoutLabel } from './logic/stableford'
+import { vegasLabel } from './logic/vegas'
+import { matchLabel } from './logic/match'
+import { sixesLabel } from './logic/sixes'
+import { hammerLabel } from './logic/hammer'
+import { quotaLabel } from './logic/quota'
+import { groupPotLabel } from './logic/group'
+import { roundGames } from './logic/games'
+import type { SettlementSource } from './logic/combinedSettlement'
+import { formatMoneyShort, withMoneyCurrency } from './logic/money'
+import { GAME_META } from './gameMeta'
+
+function gameStakeOrPointsLabel(round: Round, game: GameType): string {
+  if (game === 'wolf') return wolfLabel(round.wolfPointsPerHole)
+  if (game === 'bbb') return `${formatMoneyShort(round.bbbDollarsPerPointCents || 0)}/pt`
+  if (game === 'nassau') return nassauLabel(round.nassauStakeCents || 0)
+  if (game === 'stableford') return stablefordPayoutLabel(round)
+  if (game === 'vegas') return vegasLabel(round.vegasDollarsPerPointCents)
+  if (game === 'match') return matchLabel(round.matchStakeCents || 0)
+  if (game === 'sixes') return sixesLabel(round.sixesStakeCents || 0)
+  if (game === 'hammer') return hammerLabel(round.hammerDollarsPerPointCents)
+  if (game === 'quota') return quotaLabel(round.quotaDollarsPerPointCents)
+  if (game === 'group') return groupPotLabel(round)
+  if (round.skinsPayout === 'pot') return skinsPayoutLabel(round)
+  return stakeLabel(round.stakeCents || 0)
+}
+
+// Saved rounds list their stakes in their own currency.
+export function roundStakeOrPointsLabel(round: Round): string {
+  return withMoneyCurrency(round.currency, () =>
+    roundGames(round)
+      .map((g) => gameStakeOrPointsLabel(round, g))
+      .join(' • '),
+  )
+}
+
+export function roundGamesShortLabel(round: Round): string {
+  return roundGames(round)
+    .map((g) => GAME_META[g].short)
+    .join(' + ')
+}
+
+export function settlementSourceLabel(source: SettlementSource): string {
+  if (source === 'junk') return 'Junk'
+  if (source === 'rabbit') return 'Rabbit'
+  if (source === 'snake') return 'Snake'
+  if (source === 'cap') return 'Cap'
+  if (source === 'rounding') return 'Rounding'
+  return GAME_META[source].short
+}
+
+export function roundLastUpdatedLabel(round: Round): string | null {
+  if (!round.createdAt || !Number.isFinite(round.createdAt)) return null
+  return new Date(round.createdAt).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+export function paidAtLabel(ts: number): string {
+  return new Date(ts).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+export function withSelectedMark(selected: boolean, label: string | number): string {
+  return selected ? `✓ ${label}` : String(label)
+}
@@ -1,4 +1,5 @@
 import type { HoleNumber, Player, PlayerId, Round } from '../types'
+import { roundHoles } from './holes'
 
 export type BBBAwardType = 'bingo' | 'bango' | 'bongo'
 
@@ -9,7 +10,7 @@ export type BBBHoleAwards = {
 }
 
 export type BBBSummary = {
-  through: number
+  through: number // holes entered, counted in play order
   pointsByPlayer: Record<PlayerId, number>
   holeAwards: Record<HoleNumber, BBBHoleAwards>
 }
@@ -25,13 +26,13 @@ export function computeBBB(round: Round): BBBSummary {
   const holeAwards = (round.bbbAwardsByHole || {}) as Record<HoleNumber, BBBHoleAwards>
 
   let through = 0
-  for (let h = 1 as HoleNumber; h <= 18; h = (h + 1) as HoleNumber) {
+  for (const h of roundHoles(round)) {
     const a = holeAwards[h]
     if (!a) break
 
     // Through is defined as “hole has at least one award assigned or explicitly present”
     // (So a fully empty hole record still counts as entered if the record exists.)
-    through = h
+    through += 1
 
     for (const key of ['bingo', 'bango', 'bongo'] as const) {
       const winner = a[key]
@@ -49,7 +50,7 @@ export function playerInitials(name: string): string {
   return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase()
 }
 
-export function bbbStatusText(players: Player[], through: number, pointsByPlayer: Record<PlayerId, number>): string {
+export function bbbStatusText(players: Player[], through: number, pointsByPlayer: Record<PlayerId, number>, holesTotal = 18): string {
   const sorted = players
     .map((p) => ({ name: p.name, pts: pointsByPlayer[p.id] || 0 }))
     .sort((a, b) => b.pts - a.pts)
@@ -58,5 +59,5 @@ export function bbbStatusText(players: Player[], through: number, pointsByPlayer
   const leaderLine = leader ? `Leader: ${leader.name} (${leader.pts})` : ''
   const inline = sorted.map((x) => `${x.name} ${x.pts}`).join(' • ')
 
-  return `BBB — Through ${through}/18\n${leaderLine}\n${inline}`
+  return `BBB — Through ${through}/${holesTotal}\n${leaderLine}\n${inline}`
 }
@@ -1,12 +1,17 @@
-import type { Player, PlayerId } from '../types'
+import type { Player, PlayerId, SettlementMatcher } from '../types'
 import type { Settlement, SettlementLine } from './wolfSettlement'
-import { settlementLinesFromNet } from './settlementMatcher'
+import { settlementLinesForMatcher } from './settlementMatcher'
 
 // BBB points are non-negative, so we need a zero-sum money model.
 // Model (v1): each BBB point is worth $/pt paid by *each opponent*.
 // => net[p] = ($/pt) * (points[p] * N - totalPoints)
 // This is zero-sum by construction and matches the common "everyone pays winner per point" intuition.
-export function computeBBBSettlement(players: Player[], pointsByPlayer: Record<PlayerId, number>, dollarsPerPointCents: number): Settlement {
+export function computeBBBSettlement(
+  players: Player[],
+  pointsByPlayer: Record<PlayerId, number>,
+  dollarsPerPointCents: number,
+  matcher?: SettlementMatcher,
+): Settlement {
   const N = players.length
   if (N <= 1) return { netByPlayer: {}, lines: [] }
 
@@ -18,7 +23,7 @@ export function computeBBBSettlement(players: Player[], pointsByPlayer: Record<P
     netByPlayer[p.id] = (pts * N - totalPoints) * dollarsPerPointCents
   }
 
-  const lines = settlementLinesFromNet(players, netByPlayer) as SettlementLine[]
+  const lines = settlementLinesForMatcher(players, netByPlayer, matcher) as SettlementLine[]
 
   return { netByPlayer, lines }
 }
@@ -0,0 +1,30 @@
+import type { GameType, Player, PlayerId, SettlementMatcher } from '../types'
+import { settlementLinesForMatcher } from './settlementMatcher'
+import type { Settlement, SettlementLine } from './wolfSettlement'
+
+// Junk dots and the Rabbit/Snake holdovers are not games but settle alongside them;
+// 'cap' is the round's loss/win caps, when they change anyone's total; 'rounding' is the round's money
+// rounding, applied once to the total after the caps.
+export type SettlementSource = GameType | 'junk' | 'rabbit' | 'snake' | 'cap' | 'rounding'
+
+export type GameSettlement = {
+  game: SettlementSource
+  settlement: Settlement
+}
+
+export type CombinedSettlement = Settlement & {
+  byGame: GameSettlement[]
+}
+
+// One set of payments for every game on the scorecard: sum each game's net, then match once.
+export function computeCombinedSettlement(players: Player[], byGame: GameSettlement[], matcher?: SettlementMatcher): CombinedSettlement {
+  const netByPlayer: Record<PlayerId, number> = {}
+  for (const p of players) netByPlayer[p.id] = 0
+  for (const g of byGame) {
+    for (const p of players) netByPlayer[p.id] += g.settlement.netByPlayer[p.id] || 0
+  }
+
+  const lines = settlementLinesForMatcher(players, netByPlayer, matcher) as SettlementLine[]
+
+  return { netByPlayer, lines, byGame }
+}
@@ -0,0 +1,113 @@
+import type { Course, CourseHole, HoleNumber, Player, PlayerId, Round } from '../types'
+import { ALL_HOLES, roundHoles } from './holes'
+
+export type ToParTotals = {
+  strokes: number
+  par: number
+  toPar: number
+  holes: number // holes counted (entered score on a hole with par)
+}
+
+export function defaultCourseHoles(): Record<HoleNumber, CourseHole> {
+  const holes = {} as Record<HoleNumber, CourseHole>
+  for (const h of ALL_HOLES) holes[h] = { par: 4, strokeIndex: h }
+  return holes
+}
+
+// Par over the given holes (a 9-hole round passes its nine); the whole course by default.
+export function coursePar(course: Course, holes: HoleNumber[] = ALL_HOLES): number {
+  return holes.reduce((sum, h) => sum + (course.holes[h]?.par || 0), 0)
+}
+
+export function courseLabel(course: Course): string {
+  const tee = course.teeName ? ` (${course.teeName})` : ''
+  const rating = typeof course.courseRating === 'number' && typeof course.slope === 'number' ? ` • ${course.courseRating}/${course.slope}` : ''
+  return `${course.name || 'Course'}${tee} • Par ${coursePar(course)}${rating}`
+}
+
+// Human-readable problems; empty when the course is usable.
+export function courseErrors(course: Course): string[] {
+  const errors: string[] = []
+  const seen = new Set<number>()
+  for (const h of ALL_HOLES) {
+    const hole = course.holes[h]
+    if (!hole) {
+      errors.push(`Hole ${h} is missing`)
+      continue
+    }
+    if (!Number.isInteger(hole.par) || hole.par < 3 || hole.par > 6) errors.push(`Hole ${h}: par must be 3–6`)
+    if (!Number.isInteger(hole.strokeIndex) || hole.strokeIndex < 1 || hole.strokeIndex > 18) {
+      errors.push(`Hole ${h}: stroke index must be 1–18`)
+    } else if (seen.has(hole.strokeIndex)) {
+      errors.push(`Stroke index ${hole.strokeIndex} is used more than once`)
+    } else {
+      seen.add(hole.strokeIndex)
+    }
+  }
+  return errors
+}
+
+// Holes without a course par count as par 4.
+export const DEFAULT_PAR = 4
+
+export function parForHole(round: Round, hole: HoleNumber): number | null {
+  const par = round.course?.holes[hole]?.par
+  return typeof par === 'number' ? par : null
+}
+
+export function strokeIndexForHole(round: Round, hole: HoleNumber): number | null {
+  const si = round.course?.holes[hole]?.strokeIndex
+  return typeof si === 'number' ? si : null
+}
+
+// "E", "+2", "-1"
+export function toParLabel(toPar: number): string {
+  if (toPar === 0) return 'E'
+  return toPar > 0 ? `+${toPar}` : `${toPar}`
+}
+
+export function scoreName(strokes: number, par: number): string {
+  const d = strokes - par
+  // Half-stroke net scores (e.g. 3.5) have no name.
+  if (!Number.isInteger(d)) return toParLabel(d)
+  if (strokes === 1) return 'Ace'
+  if (d <= -3) return 'Albatross'
+  if (d === -2) return 'Eagle'
+  if (d === -1) return 'Birdie'
+  if (d === 0) return 'Par'
+  if (d === 1) return 'Bogey'
+  if (d === 2) return 'Double'
+  if (d === 3) return 'Triple'
+  return `+${d}`
+}
+
+export function toParByPlayer(round: Round): Record<PlayerId, ToParTotals> {
+  const out: Record<PlayerId, ToParTotals> = {}
+  for (const p of round.players) out[p.id] = { strokes: 0, par: 0, toPar: 0, holes: 0 }
+  if (!round.course) return out
+
+  for (const h of roundHoles(round)) {
+    const par = parForHole(round, h)
+    if (par === null) continue
+    const strokes = round.strokesByHole[h] || {}
+    for (const p of round.players) {
+      const v = strokes[p.id]
+      if (typeof v !== 'number') continue
+      out[p.id].strokes += v
+      out[p.id].par += par
+      out[p.id].toPar += v - par
+      out[p.id].holes += 1
+    }
+  }
+  return out
+}
+
+// e.g. "Ann +3 (thru 9) • Bob E (thru 9)"; empty when no course is set.
+export function toParInline(round: Round, players: Player[] = round.players): string {
+  if (!round.course) return ''
+  const totals = toParByPlayer(round)
+  return players
+    .filter((p) => totals[p.id]?.holes > 0)
+    .map((p) => `${p.name} ${toParLabel(totals[p.id].toPar)} (thru ${totals[p.id].holes})`)
+    .join(' • ')
+}
@@ -0,0 +1,189 @@
+import type { BBBHoleAwards, GameType, HoleNumber, PlayerId, Round, SkinsPot } from '../types'
+
+// Games played on the round's shared scorecard, primary game first.
+export function roundGames(round: Round): GameType[] {
+  const extra = (round.games || []).filter((g) => g !== round.game)
+  return [round.game, ...extra]
+}
+
+export function hasGame(round: Round, game: GameType): boolean {
+  return round.game === game || !!round.games?.includes(game)
+}
+
+// Roster sizes each game supports; `counts` narrows the range when only some sizes work.
+const PLAYER_LIMITS: Record<GameType, { min: number; max: number; counts?: number[] }> = {
+  skins: { min: 2, max: 4 },
+  wolf: { min: 3, max: 5 },
+  bbb: { min: 2, max: 4 },
+  nassau: { min: 2, max: 4, counts: [2, 4] }, // singles or 2v2
+  stableford: { min: 2, max: 4 },
+  vegas: { min: 4, max: 4 }, // fixed teams
+  match: { min: 2, max: 4, counts: [2, 4] }, // singles or four-ball
+  sixes: { min: 4, max: 4 }, // rotating partners
+  hammer: { min: 2, max: 4, counts: [2, 4] }, // singles or 2v2
+  quota: { min: 2, max: 4 },
+  group: { min: 4, max: 16 }, // up to 4 foursomes
+}
+
+// Roster size every game on the scorecard can handle.
+export function playerLimits(round: Round): { min: number; max: number } {
+  const games = roundGames(round)
+  return {
+    min: Math.max(...games.map((g) => PLAYER_LIMITS[g].min)),
+    max: Math.min(...games.map((g) => PLAYER_LIMITS[g].max)),
+  }
+}
+
+// Whether `game` can be played by exactly `n` players.
+export function playerCountOk(game: GameType, n: number): boolean {
+  const limits = PLAYER_LIMITS[game]
+  if (n < limits.min || n > limits.max) return false
+  return !limits.counts || limits.counts.includes(n)
+}
+
+// The round without one player: every per-player entry (scores, putts, junk, awards, partners, quotas,
+// teams, payments) drops them too, so nothing keyed to a stale id lingers.
+export function withoutPlayer(round: Round, id: PlayerId): Round {
+  const players = round.players.filter((p) => p.id !== id)
+
+  const strokesByHole: Round['strokesByHole'] = {}
+  for (const [holeStr, byPlayer] of Object.entries(round.strokesByHole)) {
+    const next: Record<PlayerId, number | null> = {}
+    for (const p of players) next[p.id] = byPlayer?.[p.id] ?? null
+    strokesByHole[Number(holeStr)] = next
+  }
+
+  const next: Round = { ...round, players, strokesByHole }
+
+  // Holes where they were the Wolf's partner fall back to Lone Wolf (and lose any Pig they called).
+  if (round.wolfPartnerByHole) {
+    const wolfPartnerByHole = { ...round.wolfPartnerByHole }
+    const wolfPigByHole = round.wolfPigByHole ? { ...round.wolfPigByHole } : undefined
+    for (const [holeStr, pid] of Object.entries(wolfPartnerByHole)) {
+      if (pid !== id) continue
+      const hole = Number(holeStr) as HoleNumber
+      delete wolfPartnerByHole[hole]
+      if (wolfPigByHole) delete wolfPigByHole[hole]
+    }
+    next.wolfPartnerByHole = wolfPartnerByHole
+    if (wolfPigByHole) next.wolfPigByHole = wolfPigByHole
+  }
+
+  if (round.bbbAwardsByHole) {
+    const bbbAwardsByHole: Record<HoleNumber, BBBHoleAwards> = {}
+    for (const [holeStr, a] of Object.entries(round.bbbAwardsByHole)) {
+      bbbAwardsByHole[Number(holeStr)] = {
+        bingo: a.bingo === id ? null : a.bingo,
+        bango: a.bango === id ? null : a.bango,
+        bongo: a.bongo === id ? null : a.bongo,
+      }
+    }
+    next.bbbAwardsByHole = bbbAwardsByHole
+  }
+
+  if (round.junkByHole) next.junkByHole = withoutKeyByHole(round.junkByHole, id)
+  if (round.puttsByHole) next.puttsByHole = withoutKeyByHole(round.puttsByHole, id)
+
+  if (round.quotaByPlayer && id in round.quotaByPlayer) {
+    const quotaByPlayer = { ...round.quotaByPlayer }
+    delete quotaByPlayer[id]
+    next.quotaByPlayer = quotaByPlayer
+  }
+
+  if (round.skinsPlayoffWinnerByPot) {
+    const byPot = { ...round.skinsPlayoffWinnerByPot }
+    for (const pot of Object.keys(byPot) as SkinsPot[]) if (byPot[pot] === id) byPot[pot] = null
+    next.skinsPlayoffWinnerByPot = byPot
+  }
+
+  if (round.groupTeams) {
+    next.groupTeams = round.groupTeams.map((t) => (t.playerIds.includes(id) ? { ...t, playerIds: t.playerIds.filter((pid) => pid !== id) } : t))
+  }
+
+  if (round.payments) next.payments = round.payments.filter((pay) => pay.from !== id && pay.to !== id)
+
+  return next
+}
+
+function withoutKeyByHole<T>(byHole: Record<HoleNumber, Record<PlayerId, T>>, id: PlayerId): Record<HoleNumber, Record<PlayerId, T>> {
+  const out: Record<HoleNumber, Record<PlayerId, T>> = {}
+  for (const [holeStr, byPlayer] of Object.entries(byHole)) {
+    const rest = { ...byPlayer }
+    delete rest[id]
+    out[Number(holeStr)] = rest
+  }
+  return out
+}
+
+// BBB is scored from awards only; every other game needs strokes.
+export function usesStrokes(round: Round): boolean {
+  return roundGames(round).some((g) => g !== 'bbb')
+}
+
+// Config a game needs when it is added to an existing round as a side game.
+export function gameDefaults(game: GameType, round: Round): Partial<Round> {
+  if (game === 'skins') return { stakeCents: round.stakeCents || 500 }
+  if (game === 'wolf') {
+    return {
+      wolfPointsPerHole: round.wolfPointsPerHole || 1,
+      wolfLoneMultiplier: round.wolfLoneMultiplier || 2,
+      wolfBlindMultiplier: round.wolfBlindMultiplier || 3,
+      wolfPigMultiplier: round.wolfPigMultiplier || 2,
+      wolfDollarsPerPointCents: round.wolfDollarsPerPointCents || 0,
+      wolfStartingIndex: round.wolfStartingIndex || 0,
+      wolfPartnerByHole: round.wolfPartnerByHole || {},
+    }
+  }
+  if (game === 'bbb') return { bbbAwardsByHole: round.bbbAwardsByHole || {} }
+  if (game === 'stableford') {
+    return {
+      stablefordTable: round.stablefordTable || 'standard',
+      stablefordPayout: round.stablefordPayout || 'points',
+      stablefordDollarsPerPointCents: round.stablefordDollarsPerPointCents ?? 100,
+    }
+  }
+  if (game === 'vegas') {
+    return {
+      vegasDollarsPerPointCents: round.vegasDollarsPerPointCents || 0,
+      vegasBirdieFlip: round.vegasBirdieFlip !== false,
+    }
+  }
+  if (game === 'match') {
+    return {
+      matchStakeCents: round.matchStakeCents || 500,
+      matchNet: round.matchNet !== false,
+    }
+  }
+  if (game === 'sixes') {
+    return {
+      sixesStakeCents: round.sixesStakeCents || 500,
+      sixesOverallCents: round.sixesOverallCents || 0,
+    }
+  }
+  if (game === 'hammer') {
+    return {
+      hammerDollarsPerPointCents: round.hammerDollarsPerPointCents || 100,
+      hammerByHole: round.hammerByHole || {},
+    }
+  }
+  if (game === 'quota') return { quotaDollarsPerPointCents: round.quotaDollarsPerPointCents ?? 100 }
+  if (game === 'group') {
+    return {
+      groupFormat: round.groupFormat || 'bestBall',
+      groupBestN: round.groupBestN || 2,
+      groupBuyInCents: round.groupBuyInCents ?? 2000,
+    }
+  }
+  return {
+    nassauStakeCents: round.nassauStakeCents || 500,
+    nassauAutoPressDown: round.nassauAutoPressDown ?? 2,
+    nassauPresses: round.nassauPresses || [],
+  }
+}
+
+export function withGameToggled(round: Round, game: GameType): Round {
+  if (game === round.game) return round
+  const games = roundGames(round)
+  if (games.includes(game)) return { ...round, games: games.filter((g) => g !== game) }
+  return { ...round, ...gameDefaults(game, round), games: [...games, game] }
+}
@@ -0,0 +1,181 @@
+import type { GroupFormat, GroupTeam, HoleNumber, PlayerId, Round } from '../types'
+import { DEFAULT_PAR, parForHole } from './course'
+import { hasGame } from './games'
+import { strokesReceivedByHole } from './handicap'
+import { roundHoles } from './holes'
+import { formatMoneyShort } from './money'
+
+// Group mode: up to 4 foursomes on one scorecard, one team score per hole, one pot paid by place.
+export const GROUP_MAX_TEAMS = 4
+export const GROUP_TEAM_SIZE = 4
+export const DEFAULT_GROUP_PAYOUT = [60, 30, 10]
+
+export type GroupTeamStanding = {
+  team: GroupTeam
+  total: number // strokes over holes scored
+  vsPar: number // total minus par for the balls counted; ranks teams that are on different holes
+  thru: number // holes with a team score
+  place: number // 1-based, ties share a place ("T2")
+  tied: boolean
+}
+
+export type GroupHoleResult = {
+  hole: HoleNumber
+  scores: Record<string, number | null> // by team id; null = not enough scores entered yet
+}
+
+export type GroupSummary = {
+  format: GroupFormat
+  bestN: number
+  teams: GroupTeam[]
+  holeResults: GroupHoleResult[]
+  standings: GroupTeamStanding[] // best first
+}
+
+export function groupFormat(round: Round): GroupFormat {
+  return round.groupFormat === 'scramble' ? 'scramble' : 'bestBall'
+}
+
+export function groupBestN(round: Round): number {
+  return Math.max(1, Math.min(GROUP_TEAM_SIZE, round.groupBestN || 2))
+}
+
+export function groupFormatLabel(round: Round): string {
+  if (groupFormat(round) === 'scramble') return 'Scramble'
+  const n = groupBestN(round)
+  return `Best ${n} ball${n === 1 ? '' : 's'}${round.groupNet ? ' (net)' : ''}`
+}
+
+export function groupPayoutPercents(round: Round): number[] {
+  const set = (round.groupPayoutPercents || []).filter((x) => Number.isFinite(x) && x > 0)
+  return set.length > 0 ? set : DEFAULT_GROUP_PAYOUT
+}
+
+// e.g. "$20 buy-in • 60/30/10"
+export function groupPotLabel(round: Round): string {
+  const cents = round.groupBuyInCents || 0
+  if (cents <= 0) return 'No pot'
+  return `${formatMoneyShort(cents)} buy-in • ${groupPayoutPercents(round).join('/')}`
+}
+
+export function groupTeamName(index: number): string {
+  return `Team ${index + 1}`
+}
+
+// Teams as stored, minus players no longer on the round; anyone unassigned joins the first foursome with room.
+export function groupTeams(round: Round): GroupTeam[] {
+  const known = new Set(round.players.map((p) => p.id))
+  const seen = new Set<PlayerId>()
+  const teams: GroupTeam[] = (round.groupTeams || []).slice(0, GROUP_MAX_TEAMS).map((t) => {
+    const playerIds = t.playerIds.filter((id) => known.has(id) && !seen.has(id))
+    for (const id of playerIds) seen.add(id)
+    return { ...t, playerIds }
+  })
+
+  for (const p of round.players) {
+    if (seen.has(p.id)) continue
+    let team = teams.find((t) => t.playerIds.length < GROUP_TEAM_SIZE)
+    if (!team && teams.length < GROUP_MAX_TEAMS) {
+      team = { id: `team${teams.length + 1}`, name: groupTeamName(teams.length), playerIds: [] }
+      teams.push(team)
+    }
+    if (!team) team = teams[teams.length - 1]
+    team.playerIds = [...team.playerIds, p.id]
+  }
+
+  return teams.filter((t) => t.playerIds.length > 0)
+}
+
+export function groupTeamForPlayer(teams: GroupTeam[], pid: PlayerId): GroupTeam | null {
+  return teams.find((t) => t.playerIds.includes(pid)) || null
+}
+
+// Moves a player to another foursome (creating it when it's the next team number).
+export function withPlayerInTeam(round: Round, pid: PlayerId, teamIndex: number): Round {
+  const teams = groupTeams(round).map((t) => ({ ...t, playerIds: t.playerIds.filter((id) => id !== pid) }))
+  while (teams.length <= teamIndex && teams.length < GROUP_MAX_TEAMS) {
+    teams.push({ id: `team${teams.length + 1}`, name: groupTeamName(teams.length), playerIds: [] })
+  }
+  const target = teams[Math.min(teamIndex, teams.length - 1)]
+  if (target.playerIds.length >= GROUP_TEAM_SIZE) return round
+  target.playerIds = [...target.playerIds, pid]
+  return { ...round, groupTeams: teams.filter((t) => t.playerIds.length > 0) }
+}
+
+// Who a score entry is written to: in a scramble it's the whole team.
+export function groupScoreTargets(round: Round, pid: PlayerId): PlayerId[] {
+  if (!hasGame(round, 'group') || groupFormat(round) !== 'scramble') return [pid]
+  return groupTeamForPlayer(groupTeams(round), pid)?.playerIds || [pid]
+}
+
+// Ready to play: at least two teams, each with enough players to count N balls.
+export function groupReady(round: Round): boolean {
+  const teams = groupTeams(round)
+  if (teams.length < 2) return false
+  if (groupFormat(round) === 'scramble') return true
+  return teams.every((t) => t.playerIds.length >= groupBestN(round))
+}
+
+// Scramble scores are entered once per team and stored on every member, so the team score is any member's.
+export function computeGroup(round: Round): GroupSummary {
+  const format = groupFormat(round)
+  const bestN = format === 'scramble' ? 1 : groupBestN(round)
+  const teams = groupTeams(round)
+  const received = format === 'bestBall' && round.groupNet ? strokesReceivedByHole(round) : null
+
+  const totals: Record<string, { total: number; vsPar: number; thru: number }> = {}
+  for (const t of teams) totals[t.id] = { total: 0, vsPar: 0, thru: 0 }
+
+  const holeResults: GroupHoleResult[] = []
+  for (const hole of roundHoles(round)) {
+    const par = parForHole(round, hole) ?? DEFAULT_PAR
+    const strokes = round.strokesByHole[hole] || {}
+    const scores: Record<string, number | null> = {}
+
+    for (const t of teams) {
+      const entered = t.playerIds
+        .map((id) => {
+          const v = strokes[id]
+          return typeof v === 'number' ? v - (received?.[hole]?.[id] || 0) : null
+        })
+        .filter((v): v is number => v !== null)
+        .sort((a, b) => a - b)
+      if (entered.length < bestN) {
+        scores[t.id] = null
+        continue
+      }
+      const score = entered.slice(0, bestN).reduce((sum, v) => sum + v, 0)
+      scores[t.id] = score
+      totals[t.id].total += score
+      totals[t.id].vsPar += score - par * bestN
+      totals[t.id].thru += 1
+    }
+
+    holeResults.push({ hole, scores })
+  }
+
+  const ranked = teams
+    .map((team) => ({ team, ...totals[team.id] }))
+    .filter((x) => x.thru > 0)
+    .sort((a, b) => a.vsPar - b.vsPar)
+  const unplayed = teams.filter((t) => totals[t.id].thru === 0)
+
+  const standings: GroupTeamStanding[] = ranked.map((x) => ({
+    ...x,
+    place: ranked.findIndex((y) => y.vsPar === x.vsPar) + 1,
+    tied: ranked.filter((y) => y.vsPar === x.vsPar).length > 1,
+  }))
+  for (const team of unplayed) standings.push({ team, total: 0, vsPar: 0, thru: 0, place: ranked.length + 1, tied: unplayed.length > 1 })
+
+  return { format, bestN, teams, holeResults, standings }
+}
+
+// e.g. "-3", "E", "+2"
+export function groupVsParLabel(vsPar: number): string {
+  if (vsPar === 0) return 'E'
+  return vsPar > 0 ? `+${vsPar}` : String(vsPar)
+}
+
+export function groupPlaceLabel(s: Pick<GroupTeamStanding, 'place' | 'tied'>): string {
+  return `${s.tied ? 'T' : ''}${s.place}`
+}
@@ -0,0 +1,64 @@
+import type { Player, PlayerId, Round } from '../types'
+import { groupPayoutPercents, type GroupSummary } from './group'
+import { settlementLinesFromNet } from './settlementMatcher'
+import type { Settlement, SettlementLine } from './wolfSettlement'
+
+// Splits cents by weight; leftover cents go to the first shares so the parts always add back up.
+export function splitCents(total: number, weights: number[]): number[] {
+  const sum = weights.reduce((a, w) => a + w, 0)
+  if (sum <= 0) return weights.map(() => 0)
+  const parts = weights.map((w) => Math.floor((total * w) / sum))
+  let remainder = total - parts.reduce((a, v) => a + v, 0)
+  for (let i = 0; remainder > 0 && i < parts.length; i += 1) {
+    if (weights[i] <= 0) continue
+    parts[i] += 1
+    remainder -= 1
+  }
+  return parts
+}
+
+// Prize money per team: places past the payout list win nothing, and tied teams pool the places they cover.
+// Teams without a score yet can't place; the whole pot is always paid out, so unused places scale up the rest.
+export function groupPrizeByTeam(round: Round, summary: GroupSummary): Record<string, number> {
+  const pot = (round.groupBuyInCents || 0) * round.players.length
+  const percents = groupPayoutPercents(round).slice(0, summary.standings.length)
+
+  const weights = summary.standings.map((s) => {
+    if (s.thru === 0) return 0
+    const sharing = summary.standings.filter((x) => x.place === s.place).length
+    let pooled = 0
+    for (let place = s.place; place < s.place + sharing; place += 1) pooled += percents[place - 1] || 0
+    return pooled / sharing
+  })
+
+  // Nobody has a score yet: everyone keeps their buy-in.
+  const prizes = weights.some((w) => w > 0)
+    ? splitCents(pot, weights)
+    : summary.standings.map((s) => (round.groupBuyInCents || 0) * s.team.playerIds.length)
+  const out: Record<string, number> = {}
+  summary.standings.forEach((s, i) => {
+    out[s.team.id] = prizes[i]
+  })
+  return out
+}
+
+// One pot: everyone buys in, each team's prize is split evenly across its players.
+export function computeGroupSettlement(round: Round, summary: GroupSummary): Settlement | null {
+  const buyIn = round.groupBuyInCents || 0
+  if (buyIn <= 0 || round.players.length === 0) return null
+
+  const netByPlayer: Record<PlayerId, number> = {}
+  for (const p of round.players) netByPlayer[p.id] = -buyIn
+
+  const prizes = groupPrizeByTeam(round, summary)
+  for (const team of summary.teams) {
+    const shares = splitCents(prizes[team.id] || 0, team.playerIds.map(() => 1))
+    team.playerIds.forEach((id, i) => {
+      netByPlayer[id] += shares[i]
+    })
+  }
+
+  const lines = settlementLinesFromNet(round.players as Player[], netByPlayer) as SettlementLine[]
+
+  return { netByPlayer, lines }
+}
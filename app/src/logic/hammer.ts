@@ -0,0 +1,108 @@
+import type { HammerCall, HammerSide, HoleNumber, PlayerId, Round } from '../types'
+import { roundHoles } from './holes'
+import { formatMoneyShort } from './money'
+import { nassauSides } from './nassau'
+import { bestBall } from './wolf'
+
+export type HammerHoleResult = {
+  hole: HoleNumber
+  calls: HammerCall[] // valid calls only, in order
+  multiplier: number // hole value in points: 2 per accepted hammer
+  concededBy: HammerSide | null // the side that folded on a hammer
+  pending: boolean // last hammer still waiting on an answer
+  winner: HammerSide | 'halved' | null // null = not decided yet (scores missing or hammer pending)
+  points: number // to the winning side
+}
+
+export type HammerSummary = {
+  sides: Record<HammerSide, PlayerId[]>
+  holeResults: HammerHoleResult[]
+  pointsBySide: Record<HammerSide, number> // zero-sum: A = -B
+  pointsByPlayer: Record<PlayerId, number>
+}
+
+export function otherSide(side: HammerSide): HammerSide {
+  return side === 'A' ? 'B' : 'A'
+}
+
+// Drops calls that break the sequence: after an accepted hammer only the accepting side may hammer back,
+// and nothing follows a pending or conceded hammer.
+export function validHammerCalls(calls: HammerCall[] | undefined): HammerCall[] {
+  const out: HammerCall[] = []
+  for (const c of calls || []) {
+    const last = out[out.length - 1]
+    if (last && (last.response !== 'accepted' || c.side === last.side)) break
+    out.push(c)
+  }
+  return out
+}
+
+export function hammerMultiplier(calls: HammerCall[]): number {
+  return 2 ** calls.filter((c) => c.response === 'accepted').length
+}
+
+// Who may throw the next hammer: either side before the first one, then only the side that accepted.
+// Null while a hammer is waiting on an answer or after a concession.
+export function nextHammerSide(calls: HammerCall[]): HammerSide | 'either' | null {
+  const last = calls[calls.length - 1]
+  if (!last) return 'either'
+  if (last.response !== 'accepted') return null
+  return otherSide(last.side)
+}
+
+export function hammerLabel(dollarsPerPointCents?: number): string {
+  const cents = dollarsPerPointCents || 0
+  if (cents <= 0) return 'Points'
+  return `${formatMoneyShort(cents)}/pt`
+}
+
+// e.g. "Ann + Bob hammer ✓ → Cy + Di hammer ✗"
+export function hammerHistoryLabel(calls: HammerCall[], sideNames: Record<HammerSide, string>): string {
+  return calls
+    .map((c) => `${sideNames[c.side]} hammer ${c.response === 'accepted' ? '✓' : c.response === 'conceded' ? '✗' : '?'}`)
+    .join(' → ')
+}
+
+// Concessions end the hole at the value before that hammer; otherwise best ball decides it at the final multiplier.
+export function computeHammer(round: Round): HammerSummary {
+  const sides = nassauSides(round.players)
+  const pointsByPlayer: Record<PlayerId, number> = {}
+  for (const p of round.players) pointsByPlayer[p.id] = 0
+  const pointsBySide: Record<HammerSide, number> = { A: 0, B: 0 }
+
+  const holeResults: HammerHoleResult[] = []
+
+  for (const hole of roundHoles(round)) {
+    const calls = validHammerCalls(round.hammerByHole?.[hole])
+    const multiplier = hammerMultiplier(calls)
+    const last = calls[calls.length - 1]
+    const concededBy = last?.response === 'conceded' ? otherSide(last.side) : null
+    const pending = !!last && last.response === null
+    const base = { hole, calls, multiplier, concededBy, pending }
+
+    let winner: HammerHoleResult['winner'] = null
+    if (concededBy) {
+      winner = otherSide(concededBy)
+    } else if (!pending && sides.A.length > 0 && sides.B.length > 0) {
+      const strokes = round.strokesByHole[hole] || {}
+      if (round.players.every((p) => typeof strokes[p.id] === 'number')) {
+        const bestA = bestBall(strokes, sides.A)
+        const bestB = bestBall(strokes, sides.B)
+        winner = bestA < bestB ? 'A' : bestB < bestA ? 'B' : 'halved'
+      }
+    }
+
+    const points = winner === 'A' || winner === 'B' ? multiplier : 0
+    if (winner === 'A' || winner === 'B') {
+      const loser = otherSide(winner)
+      pointsBySide[winner] += points
+      pointsBySide[loser] -= points
+      for (const id of sides[winner]) pointsByPlayer[id] += points
+      for (const id of sides[loser]) pointsByPlayer[id] -= points
+    }
+
+    holeResults.push({ ...base, winner, points })
+  }
+
+  return { sides, holeResults, pointsBySide, pointsByPlayer }
+}
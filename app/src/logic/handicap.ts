@@ -0,0 +1,67 @@
+import type { Course, HoleNumber, PlayerId, Round } from '../types'
+import { coursePar, strokeIndexForHole } from './course'
+import { roundHoles } from './holes'
+
+export type StrokeOptions = {
+  halfStrokes?: boolean // each stroke received is worth half a shot
+  offLow?: boolean // strokes relative to the lowest handicap in the group
+}
+
+// WHS course handicap when the course has rating + slope; otherwise the index rounded.
+// Nine holes play off half the index against half the (18-hole) rating and the par of those nine.
+export function courseHandicap(index: number, course?: Course, holes?: HoleNumber[]): number {
+  const nine = !!holes && holes.length === 9
+  const idx = nine ? index / 2 : index
+  if (course && typeof course.slope === 'number' && typeof course.courseRating === 'number') {
+    const rating = nine ? course.courseRating / 2 : course.courseRating
+    return Math.round((idx * course.slope) / 113 + (rating - coursePar(course, holes)))
+  }
+  return Math.round(idx)
+}
+
+export function playingHandicaps(round: Round, opts: StrokeOptions = {}): Record<PlayerId, number> {
+  const out: Record<PlayerId, number> = {}
+  for (const p of round.players) {
+    out[p.id] = typeof p.handicapIndex === 'number' ? courseHandicap(p.handicapIndex, round.course, roundHoles(round)) : 0
+  }
+  if (opts.offLow && round.players.length > 0) {
+    const low = Math.min(...round.players.map((p) => out[p.id]))
+    for (const p of round.players) out[p.id] -= low
+  }
+  return out
+}
+
+// Strokes a handicap gets on a hole of the given stroke index (1 = hardest) out of `holeCount` holes.
+// Plus handicaps give strokes back, starting on the easiest holes.
+export function strokesOnHole(handicap: number, strokeIndex: number, holeCount = 18): number {
+  if (handicap >= 0) {
+    return Math.floor(handicap / holeCount) + (strokeIndex <= handicap % holeCount ? 1 : 0)
+  }
+  const plus = -handicap
+  return -(Math.floor(plus / holeCount) + (strokeIndex > holeCount - (plus % holeCount) ? 1 : 0))
+}
+
+// Strokes fall on the round's own holes, ranked by stroke index among them (so a back nine gets its own
+// 1–9). Without a course, stroke index falls back to the hole number.
+export function strokesReceivedByHole(round: Round, opts: StrokeOptions = {}): Record<HoleNumber, Record<PlayerId, number>> {
+  const hcps = playingHandicaps(round, opts)
+  const holes = roundHoles(round)
+  const ranked = holes.slice().sort((a, b) => (strokeIndexForHole(round, a) ?? a) - (strokeIndexForHole(round, b) ?? b))
+  const out = {} as Record<HoleNumber, Record<PlayerId, number>>
+  for (const h of holes) {
+    const si = ranked.indexOf(h) + 1
+    const by: Record<PlayerId, number> = {}
+    for (const p of round.players) by[p.id] = strokesOnHole(hcps[p.id], si, holes.length)
+    out[h] = by
+  }
+  return out
+}
+
+export function netScore(gross: number, strokesReceived: number, opts: StrokeOptions = {}): number {
+  return gross - strokesReceived * (opts.halfStrokes ? 0.5 : 1)
+}
+
+export function handicapLabel(index: number | undefined): string {
+  if (typeof index !== 'number') return '—'
+  return index < 0 ? `+${Math.abs(index)}` : String(index)
+}
@@ -0,0 +1,33 @@
+import type { Player, PlayerId } from '../types'
+import type { RabbitSummary, SnakeSummary } from './holdovers'
+import { settlementLinesFromNet } from './settlementMatcher'
+import type { Settlement, SettlementLine } from './wolfSettlement'
+
+function holderNet(players: Player[], holderIds: PlayerId[], cents: number, sign: 1 | -1): Settlement {
+  const N = players.length
+  const netByPlayer: Record<PlayerId, number> = {}
+  for (const p of players) netByPlayer[p.id] = 0
+  if (N <= 1 || cents <= 0) return { netByPlayer, lines: [] }
+
+  // The holder collects from (or pays) each other player: +cents*(N-1) vs -cents each.
+  for (const holderId of holderIds) {
+    for (const p of players) {
+      netByPlayer[p.id] += sign * (p.id === holderId ? cents * (N - 1) : -cents)
+    }
+  }
+
+  const lines = settlementLinesFromNet(players, netByPlayer) as SettlementLine[]
+
+  return { netByPlayer, lines }
+}
+
+// Paid at each checkpoint reached (9th and 18th hole); a loose rabbit pays nobody.
+export function computeRabbitSettlement(players: Player[], rabbit: RabbitSummary, cents: number): Settlement {
+  const holders = rabbit.paidTo.map((x) => x.holderId).filter((id): id is PlayerId => id !== null)
+  return holderNet(players, holders, cents, 1)
+}
+
+// Only settles once the round is done; until then the snake can still move.
+export function computeSnakeSettlement(players: Player[], snake: SnakeSummary, cents: number): Settlement {
+  return holderNet(players, snake.final && snake.holderId ? [snake.holderId] : [], cents, -1)
+}
@@ -0,0 +1,105 @@
+import type { HoleNumber, Player, PlayerId, Round } from '../types'
+import { roundHoles } from './holes'
+
+// Holdover side games: one player "holds" it from hole to hole until someone takes it.
+// Rabbit: the last player to win a hole outright holds it; the holder at the 9th and 18th hole played gets paid.
+// Snake: the last player to three-putt holds it and pays everyone once the round is done.
+
+export type RabbitHoleResult = {
+  hole: HoleNumber
+  winnerId: PlayerId | null // outright low score; null on a tie or an incomplete hole
+  holderAfter: PlayerId | null
+  payout: boolean // a checkpoint: the holder gets paid here and the rabbit runs loose again
+}
+
+export type RabbitSummary = {
+  holderId: PlayerId | null // current holder
+  holeResults: RabbitHoleResult[] // up to the first incomplete hole
+  paidTo: { hole: HoleNumber; holderId: PlayerId | null }[] // checkpoints reached (null = rabbit was loose)
+}
+
+export type SnakeHoleResult = {
+  hole: HoleNumber
+  threePutters: PlayerId[]
+  holderAfter: PlayerId | null
+}
+
+export type SnakeSummary = {
+  holderId: PlayerId | null
+  holeResults: SnakeHoleResult[]
+  final: boolean // every hole is in, so the holder pays
+}
+
+export function rabbitEnabled(round: Round): boolean {
+  return (round.rabbitCents || 0) > 0
+}
+
+export function snakeEnabled(round: Round): boolean {
+  return (round.snakeCents || 0) > 0
+}
+
+function holeComplete(round: Round, hole: HoleNumber): boolean {
+  const strokes = round.strokesByHole[hole] || {}
+  return round.players.every((p) => typeof strokes[p.id] === 'number')
+}
+
+// Holdovers depend on order, so the rabbit stops at the first hole that isn't fully entered.
+export function computeRabbit(round: Round): RabbitSummary {
+  const holes = roundHoles(round)
+  const checkpoints = new Set([Math.min(9, holes.length), holes.length])
+
+  const holeResults: RabbitHoleResult[] = []
+  const paidTo: RabbitSummary['paidTo'] = []
+  let holder: PlayerId | null = null
+
+  for (const [i, hole] of holes.entries()) {
+    if (!holeComplete(round, hole)) break
+    const strokes = round.strokesByHole[hole] || {}
+    const low = Math.min(...round.players.map((p) => strokes[p.id] as number))
+    const lows = round.players.filter((p) => strokes[p.id] === low)
+    const winnerId = lows.length === 1 ? lows[0].id : null
+    if (winnerId) holder = winnerId
+
+    const payout = checkpoints.has(i + 1)
+    holeResults.push({ hole, winnerId, holderAfter: holder, payout })
+    if (payout) {
+      paidTo.push({ hole, holderId: holder })
+      holder = null
+    }
+  }
+
+  return { holderId: holder, holeResults, paidTo }
+}
+
+// Missing putts count as no three-putt. When two players three-putt the same hole, the most putts takes it;
+// a tie keeps it with the current holder if they're one of them, else the first of them in player order.
+export function computeSnake(round: Round): SnakeSummary {
+  const holes = roundHoles(round)
+  const holeResults: SnakeHoleResult[] = []
+  let holder: PlayerId | null = null
+
+  for (const hole of holes) {
+    const putts = round.puttsByHole?.[hole] || {}
+    const threePutters = round.players.filter((p) => (putts[p.id] || 0) >= 3).map((p) => p.id)
+    if (threePutters.length > 0) {
+      const most = Math.max(...threePutters.map((id) => putts[id] || 0))
+      const worst = threePutters.filter((id) => (putts[id] || 0) === most)
+      holder = holder && worst.includes(holder) ? holder : worst[0]
+    }
+    holeResults.push({ hole, threePutters, holderAfter: holder })
+  }
+
+  return { holderId: holder, holeResults, final: holes.every((h) => holeComplete(round, h)) }
+}
+
+// Share-text section, e.g. "Rabbit: Ann (Bob paid on 9)\nSnake: Cy".
+export function holdoverStatusText(players: Player[], rabbit: RabbitSummary | null, snake: SnakeSummary | null): string {
+  const name = (id: PlayerId | null) => (id ? players.find((p) => p.id === id)?.name || '—' : 'loose')
+  const lines: string[] = []
+  if (rabbit) {
+    const paid = rabbit.paidTo.map((x) => (x.holderId ? `${name(x.holderId)} paid on ${x.hole}` : `loose on ${x.hole}, no payout`))
+    lines.push(`Rabbit: ${name(rabbit.holderId)}${paid.length > 0 ? ` (${paid.join('; ')})` : ''}`)
+  }
+  if (snake) lines.push(`Snake: ${snake.holderId ? name(snake.holderId) : 'nobody yet'}${snake.final && snake.holderId ? ' (pays everyone)' : ''}`)
+  return lines.join('\n')
+}
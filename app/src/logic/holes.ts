@@ -0,0 +1,33 @@
+import type { HoleNumber, Round } from '../types'
+
+export const ALL_HOLES: HoleNumber[] = Array.from({ length: 18 }, (_, i) => (i + 1) as HoleNumber)
+
+// Play order starting on `startHole`. 18 holes wrap around the course;
+// 9 holes wrap within the nine the start hole belongs to (e.g. a shotgun on 4 plays 4–9, then 1–3).
+export function holeSequence(startHole: number, count: 9 | 18): HoleNumber[] {
+  const start = Math.max(1, Math.min(18, Math.round(startHole)))
+  if (count === 18) {
+    return ALL_HOLES.map((_, i) => (((start - 1 + i) % 18) + 1) as HoleNumber)
+  }
+  const nineBase = start <= 9 ? 0 : 9
+  return Array.from({ length: 9 }, (_, i) => (nineBase + ((start - 1 - nineBase + i) % 9) + 1) as HoleNumber)
+}
+
+// Holes in play order; rounds saved before hole sequences existed play 1–18.
+export function roundHoles(round: Round): HoleNumber[] {
+  return round.holes && round.holes.length > 0 ? round.holes : ALL_HOLES
+}
+
+// 1-based position of a hole in play order; 0 when the hole is not part of the round.
+export function holePosition(round: Round, hole: number): number {
+  return roundHoles(round).indexOf(hole as HoleNumber) + 1
+}
+
+export function roundLengthLabel(round: Round): string {
+  const holes = roundHoles(round)
+  const start = holes[0]
+  if (holes.length === 18) return start === 1 ? '18 holes' : `18 holes from ${start}`
+  if (start === 1) return 'Front 9'
+  if (start === 10) return 'Back 9'
+  return `9 holes from ${start}`
+}
@@ -0,0 +1,98 @@
+import type { HoleNumber, JunkType, Player, PlayerId, Round } from '../types'
+import { parForHole } from './course'
+import { roundHoles } from './holes'
+import { formatSignedMoney } from './money'
+
+export const JUNK_TYPES: JunkType[] = ['greenie', 'sandie', 'barkie', 'polie', 'chipIn', 'threePutt']
+
+export const JUNK_LABEL: Record<JunkType, string> = {
+  greenie: 'Greenie',
+  sandie: 'Sandie',
+  barkie: 'Barkie',
+  polie: 'Polie',
+  chipIn: 'Chip-in',
+  threePutt: '3-putt',
+}
+
+export const JUNK_HINT: Record<JunkType, string> = {
+  greenie: 'Closest to the pin on a par 3, on the green',
+  sandie: 'Par or better after being in a bunker',
+  barkie: 'Par or better after hitting a tree',
+  polie: 'Made a putt longer than the flagstick',
+  chipIn: 'Holed out from off the green',
+  threePutt: 'Three putts or more (penalty)',
+}
+
+export const DEFAULT_JUNK_VALUE_CENTS: Record<JunkType, number> = {
+  greenie: 100,
+  sandie: 100,
+  barkie: 100,
+  polie: 100,
+  chipIn: 100,
+  threePutt: -100,
+}
+
+export type JunkSummary = {
+  countsByPlayer: Record<PlayerId, Partial<Record<JunkType, number>>>
+  dotsByPlayer: Record<PlayerId, number> // all dots, penalties included
+  valueCentsByPlayer: Record<PlayerId, number> // sum of dot values (before settling against the group)
+}
+
+export function junkEnabled(round: Round): boolean {
+  return (round.junkTypes || []).length > 0
+}
+
+export function junkValueCents(round: Round, type: JunkType): number {
+  const v = round.junkValueCents?.[type]
+  return typeof v === 'number' ? v : DEFAULT_JUNK_VALUE_CENTS[type]
+}
+
+// Greenies only exist on par 3s; without a course every hole may have one.
+export function junkTypesForHole(round: Round, hole: HoleNumber): JunkType[] {
+  const par = parForHole(round, hole)
+  return JUNK_TYPES.filter((t) => (round.junkTypes || []).includes(t) && (t !== 'greenie' || par === null || par === 3))
+}
+
+export function computeJunk(round: Round): JunkSummary {
+  const countsByPlayer: JunkSummary['countsByPlayer'] = {}
+  const dotsByPlayer: Record<PlayerId, number> = {}
+  const valueCentsByPlayer: Record<PlayerId, number> = {}
+  for (const p of round.players) {
+    countsByPlayer[p.id] = {}
+    dotsByPlayer[p.id] = 0
+    valueCentsByPlayer[p.id] = 0
+  }
+
+  for (const hole of roundHoles(round)) {
+    const dots = round.junkByHole?.[hole]
+    if (!dots) continue
+    // Dots switched off after being entered (or greenies on a hole that is no longer a par 3) don't count.
+    const allowed = junkTypesForHole(round, hole)
+    for (const p of round.players) {
+      for (const t of dots[p.id] || []) {
+        if (!allowed.includes(t)) continue
+        countsByPlayer[p.id][t] = (countsByPlayer[p.id][t] || 0) + 1
+        dotsByPlayer[p.id] += 1
+        valueCentsByPlayer[p.id] += junkValueCents(round, t)
+      }
+    }
+  }
+
+  return { countsByPlayer, dotsByPlayer, valueCentsByPlayer }
+}
+
+// e.g. "Greenie ×2, Sandie, 3-putt"; "—" when none.
+export function junkCountsLabel(counts: Partial<Record<JunkType, number>>): string {
+  const parts = JUNK_TYPES.filter((t) => (counts[t] || 0) > 0).map((t) => (counts[t] === 1 ? JUNK_LABEL[t] : `${JUNK_LABEL[t]} ×${counts[t]}`))
+  return parts.length > 0 ? parts.join(', ') : '—'
+}
+
+// Share-text section; pass the settled net to show each player's money.
+export function junkStatusText(players: Player[], summary: JunkSummary, netByPlayer?: Record<PlayerId, number>): string {
+  const lines = players.map((p) => {
+    const net = netByPlayer?.[p.id]
+    const money = typeof net === 'number' ? ` (${formatSignedMoney(net)})` : ''
+    return `${p.name}: ${junkCountsLabel(summary.countsByPlayer[p.id] || {})}${money}`
+  })
+  return `Junk\n${lines.join('\n')}`
+}
@@ -0,0 +1,21 @@
+import type { Player, PlayerId } from '../types'
+import { settlementLinesFromNet } from './settlementMatcher'
+import type { Settlement, SettlementLine } from './wolfSettlement'
+
+// Same zero-sum model as BBB: each dot's value is paid by *each opponent* (a penalty dot pays each opponent).
+// => net[p] = value[p] * N - totalValue
+export function computeJunkSettlement(players: Player[], valueCentsByPlayer: Record<PlayerId, number>): Settlement {
+  const N = players.length
+  if (N <= 1) return { netByPlayer: {}, lines: [] }
+
+  const totalValue = players.reduce((sum, p) => sum + (valueCentsByPlayer[p.id] || 0), 0)
+
+  const netByPlayer: Record<PlayerId, number> = {}
+  for (const p of players) {
+    netByPlayer[p.id] = (valueCentsByPlayer[p.id] || 0) * N - totalValue
+  }
+
+  const lines = settlementLinesFromNet(players, netByPlayer) as SettlementLine[]
+
+  return { netByPlayer, lines }
+}
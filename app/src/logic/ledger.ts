@@ -0,0 +1,230 @@
+import type { CurrencyCode, LedgerAliases, LedgerEntry, LedgerLine, LedgerPlayerKey, Player, PlayerId, Round } from '../types'
+import { roundGames } from './games'
+import { formatMoney, formatSignedMoney } from './money'
+import { optimalSettlementLines } from './settlementMatcher'
+import type { SettlementLine } from './wolfSettlement'
+
+// Cross-round ledger: every locked round's nets, so a group can settle monthly instead of after each round.
+// 'all', a season ('2026') or a month ('2026-10').
+export type LedgerPeriod = string
+
+export type LedgerPlayer = {
+  key: LedgerPlayerKey
+  name: string // most recent spelling
+  netCents: number // after recorded payments
+  rounds: number
+  merged: { key: LedgerPlayerKey; name: string }[] // other names merged into this player
+}
+
+// Running balance between two players: `from` owes `to`.
+export type LedgerPairBalance = LedgerLine & {
+  fromName: string
+  toName: string
+}
+
+export type LedgerSummary = {
+  currency: CurrencyCode // every amount below; other currencies have their own summary
+  entries: LedgerEntry[] // newest first
+  players: LedgerPlayer[] // biggest winner first
+  pairs: LedgerPairBalance[]
+  lines: SettlementLine[] // one netted set of payments for the whole period
+}
+
+export function ledgerPlayerKey(name: string): LedgerPlayerKey {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+// Players are keyed by name, so a rename or a typo starts a new balance until it is merged into the old one.
+export function resolveLedgerKey(key: LedgerPlayerKey, aliases: LedgerAliases): LedgerPlayerKey {
+  const seen = new Set<LedgerPlayerKey>()
+  let k = key
+  while (aliases[k] && !seen.has(k)) {
+    seen.add(k)
+    k = aliases[k]
+  }
+  return k
+}
+
+// Everything under `from` (and anything already merged into it) now counts as `into`.
+export function withLedgerAlias(aliases: LedgerAliases, from: LedgerPlayerKey, into: LedgerPlayerKey): LedgerAliases {
+  const target = resolveLedgerKey(into, aliases)
+  if (!from || from === target) return aliases
+  const next: LedgerAliases = {}
+  for (const [k, v] of Object.entries(aliases)) next[k] = v === from ? target : v
+  next[from] = target
+  return next
+}
+
+export function withoutLedgerAlias(aliases: LedgerAliases, key: LedgerPlayerKey): LedgerAliases {
+  const next = { ...aliases }
+  delete next[key]
+  return next
+}
+
+function ledgerKeysById(round: Round): Record<PlayerId, LedgerPlayerKey> {
+  const keyById: Record<PlayerId, LedgerPlayerKey> = {}
+  for (const p of round.players) keyById[p.id] = ledgerPlayerKey(p.name) || p.id
+  return keyById
+}
+
+// Payments recorded against the round's settle-up lines, by ledger key.
+function ledgerPayments(round: Round, keyById: Record<PlayerId, LedgerPlayerKey>): LedgerLine[] {
+  return (round.payments || [])
+    .filter((x) => keyById[x.from] && keyById[x.to] && keyById[x.from] !== keyById[x.to])
+    .map((x) => ({ from: keyById[x.from], to: keyById[x.to], amountCents: x.amountCents }))
+}
+
+function keyedLines(lines: SettlementLine[], keyById: Record<PlayerId, LedgerPlayerKey>): LedgerLine[] {
+  return lines
+    .map((l) => ({ from: keyById[l.from.id], to: keyById[l.to.id], amountCents: l.amountCents }))
+    .filter((l) => l.from !== l.to)
+}
+
+// Two players entered with the same name in one round count as one person in the ledger.
+export function ledgerEntryFromRound(
+  round: Round,
+  netByPlayer: Record<PlayerId, number>,
+  lines: SettlementLine[],
+  lockedAt: number,
+): LedgerEntry {
+  const keyById = ledgerKeysById(round)
+  const names: Record<LedgerPlayerKey, string> = {}
+  const net: Record<LedgerPlayerKey, number> = {}
+  for (const p of round.players) {
+    const key = keyById[p.id]
+    names[key] = names[key] || p.name.trim() || p.id
+    net[key] = (net[key] || 0) + (netByPlayer[p.id] || 0)
+  }
+
+  return {
+    roundId: round.id,
+    roundName: round.name,
+    games: roundGames(round),
+    playedAt: round.createdAt,
+    lockedAt,
+    currency: round.currency,
+    names,
+    netByPlayer: net,
+    lines: keyedLines(lines, keyById),
+    payments: ledgerPayments(round, keyById),
+  }
+}
+
+export function ledgerEntryHasMoney(entry: LedgerEntry): boolean {
+  return Object.values(entry.netByPlayer).some((v) => v !== 0)
+}
+
+// Re-locking a round replaces its earlier entry.
+export function withLedgerEntry(entries: LedgerEntry[], entry: LedgerEntry): LedgerEntry[] {
+  return [entry, ...entries.filter((e) => e.roundId !== entry.roundId)]
+}
+
+// Payments made after locking settle the round's balances in the ledger too.
+export function withLedgerPayments(entries: LedgerEntry[], round: Round): LedgerEntry[] {
+  return entries.map((e) => (e.roundId === round.id ? { ...e, payments: ledgerPayments(round, ledgerKeysById(round)) } : e))
+}
+
+export function withoutLedgerEntry(entries: LedgerEntry[], roundId: string): LedgerEntry[] {
+  return entries.filter((e) => e.roundId !== roundId)
+}
+
+function monthKey(ts: number): string {
+  const d = new Date(ts)
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`
+}
+
+export function entryInPeriod(entry: LedgerEntry, period: LedgerPeriod): boolean {
+  return period === 'all' || monthKey(entry.playedAt).startsWith(period)
+}
+
+// Newest first: all time, then each season, then each month with rounds in it.
+export function ledgerPeriods(entries: LedgerEntry[]): LedgerPeriod[] {
+  const months = [...new Set(entries.map((e) => monthKey(e.playedAt)))].sort().reverse()
+  const seasons = [...new Set(months.map((m) => m.slice(0, 4)))]
+  return ['all', ...seasons, ...months]
+}
+
+export function ledgerPeriodLabel(period: LedgerPeriod): string {
+  if (period === 'all') return 'All time'
+  if (period.length === 4) return `${period} season`
+  const [year, month] = period.split('-').map(Number)
+  return new Date(year, month - 1, 1).toLocaleDateString(undefined, { month: 'short', year: 'numeric' })
+}
+
+// Currencies with ledger entries, the most recently played first.
+export function ledgerCurrencies(entries: LedgerEntry[]): CurrencyCode[] {
+  const sorted = entries.slice().sort((a, b) => b.playedAt - a.playedAt)
+  return [...new Set(sorted.map((e) => e.currency).filter((c): c is CurrencyCode => !!c))]
+}
+
+// One currency at a time: balances in different currencies are never netted together.
+export function computeLedger(allEntries: LedgerEntry[], period: LedgerPeriod, currency: CurrencyCode, aliases: LedgerAliases = {}): LedgerSummary {
+  const entries = allEntries
+    .filter((e) => entryInPeriod(e, period) && e.currency === currency)
+    .sort((a, b) => b.playedAt - a.playedAt)
+  const keyOf = (key: LedgerPlayerKey) => resolveLedgerKey(key, aliases)
+
+  const byKey: Record<LedgerPlayerKey, LedgerPlayer> = {}
+  const playerFor = (key: LedgerPlayerKey, name: string) => byKey[key] || (byKey[key] = { key, name, netCents: 0, rounds: 0, merged: [] })
+  // Walk oldest to newest so the latest spelling of a name wins (a merged name never replaces the player's own).
+  for (const e of entries.slice().reverse()) {
+    const counted = new Set<LedgerPlayerKey>()
+    for (const [raw, cents] of Object.entries(e.netByPlayer)) {
+      const key = keyOf(raw)
+      const name = e.names[raw] || raw
+      const p = playerFor(key, name)
+      const merged = p.merged.find((m) => m.key === raw)
+      if (raw === key) p.name = name
+      else if (merged) merged.name = name
+      else p.merged.push({ key: raw, name })
+      p.netCents += cents
+      if (!counted.has(key)) p.rounds += 1
+      counted.add(key)
+    }
+    for (const pay of e.payments || []) {
+      playerFor(keyOf(pay.from), pay.from).netCents += pay.amountCents
+      playerFor(keyOf(pay.to), pay.to).netCents -= pay.amountCents
+    }
+  }
+  const players = Object.values(byKey).sort((a, b) => b.netCents - a.netCents || a.name.localeCompare(b.name))
+
+  // Pair balances net each round's payments in both directions (less what has been paid), keyed by the pair in sorted order.
+  const owed: Record<string, number> = {}
+  const addOwed = (fromRaw: LedgerPlayerKey, toRaw: LedgerPlayerKey, cents: number) => {
+    const from = keyOf(fromRaw)
+    const to = keyOf(toRaw)
+    if (from === to) return
+    const [a, b] = from < to ? [from, to] : [to, from]
+    const id = `${a}\u0000${b}`
+    owed[id] = (owed[id] || 0) + (from === a ? cents : -cents)
+  }
+  for (const e of entries) {
+    for (const l of e.lines) addOwed(l.from, l.to, l.amountCents)
+    for (const pay of e.payments || []) addOwed(pay.from, pay.to, -pay.amountCents)
+  }
+  const pairs: LedgerPairBalance[] = []
+  for (const [id, cents] of Object.entries(owed)) {
+    if (cents === 0) continue
+    const [a, b] = id.split('\u0000')
+    const [from, to] = cents > 0 ? [a, b] : [b, a]
+    pairs.push({ from, to, amountCents: Math.abs(cents), fromName: byKey[from]?.name || from, toName: byKey[to]?.name || to })
+  }
+  pairs.sort((x, y) => y.amountCents - x.amountCents)
+
+  const asPlayers: Player[] = players.map((p) => ({ id: p.key, name: p.name }))
+  const net: Record<LedgerPlayerKey, number> = {}
+  for (const p of players) net[p.key] = p.netCents
+  const lines = optimalSettlementLines(asPlayers, net) as SettlementLine[]
+
+  return { currency, entries, players, pairs, lines }
+}
+
+// Share text for the group chat, e.g. "Golf Bets ledger — Oct 2026 (4 rounds)", with the currency when it isn't the only one.
+export function ledgerText(summary: LedgerSummary, period: LedgerPeriod, showCurrency = false): string {
+  const count = summary.entries.length
+  const currency = showCurrency ? `, ${summary.currency}` : ''
+  const header = `Golf Bets ledger — ${ledgerPeriodLabel(period)} (${count} round${count === 1 ? '' : 's'}${currency})`
+  const totals = summary.players.map((p) => `${p.name}: ${formatSignedMoney(p.netCents, summary.currency)}`).join('\n')
+  const pay = summary.lines.map((l) => `${l.from.name} → ${l.to.name}: ${formatMoney(l.amountCents, summary.currency)}`).join('\n')
+  return [header, '', 'Totals', totals || 'No balances', '', 'Settle up', pay || 'No payments needed'].join('\n')
+}
@@ -0,0 +1,148 @@
+import type { HoleNumber, PlayerId, Round } from '../types'
+import { netScore, strokesReceivedByHole } from './handicap'
+import { roundHoles } from './holes'
+import { formatMoneyShort } from './money'
+import { nassauSides, type NassauSide } from './nassau'
+import { bestBall } from './wolf'
+
+export type MatchSide = NassauSide
+
+// 2 players = singles; 4 players = four-ball (1+2 vs 3+4, best ball).
+export type MatchFormat = 'singles' | 'fourball'
+
+export type MatchHoleResult = {
+  hole: HoleNumber
+  winner: MatchSide | 'halved' | null // null = hole not fully entered
+  best: Record<MatchSide, number | null> // side's low (net) score on the hole
+  strokesReceived: Record<PlayerId, number> // 0 everywhere when the match is gross
+  counted: boolean // false for holes played after the match was closed out
+  // Match status after this hole
+  up: number // + = side A up, - = side B up
+  through: number
+  dormie: boolean
+  closed: boolean
+}
+
+export type MatchPlaySummary = {
+  format: MatchFormat
+  sides: Record<MatchSide, PlayerId[]>
+  holeResults: MatchHoleResult[] // status series, one entry per hole in play order
+  up: number
+  through: number
+  holeCount: number
+  status: 'open' | 'won' | 'halved'
+  winner: MatchSide | null
+  closedOnHole: HoleNumber | null
+  holesRemaining: number // holes left unplayed when the match closed ("3&2" → 2)
+  dormie: boolean // up by exactly the holes left
+}
+
+export function matchFormat(round: Round): MatchFormat {
+  return round.players.length === 4 ? 'fourball' : 'singles'
+}
+
+export function matchFormatLabel(round: Round): string {
+  const format = matchFormat(round) === 'fourball' ? 'Four-ball' : 'Singles'
+  return round.matchNet === false ? `${format} (gross)` : `${format} (net)`
+}
+
+export function matchLabel(stakeCents: number): string {
+  return `${formatMoneyShort(stakeCents)}/match`
+}
+
+// e.g. "Ann 2 UP thru 11", "All square thru 3", "Ann 3 UP thru 15 (dormie)", "Ann wins 3&2", "Halved"
+export function matchStatusLabel(
+  s: Pick<MatchPlaySummary, 'up' | 'through' | 'dormie' | 'status' | 'winner' | 'holesRemaining'>,
+  sideNames: Record<MatchSide, string>,
+): string {
+  if (s.status === 'halved') return 'Halved'
+  if (s.status === 'won' && s.winner) {
+    const lead = Math.abs(s.up)
+    return s.holesRemaining > 0 ? `${sideNames[s.winner]} wins ${lead}&${s.holesRemaining}` : `${sideNames[s.winner]} wins ${lead} UP`
+  }
+  if (s.through === 0) return 'Not started'
+  if (s.up === 0) return `All square thru ${s.through}`
+  const leader: MatchSide = s.up > 0 ? 'A' : 'B'
+  return `${sideNames[leader]} ${Math.abs(s.up)} UP thru ${s.through}${s.dormie ? ' (dormie)' : ''}`
+}
+
+// Net matches play off the low man: the best player gives strokes, by stroke index.
+export function computeMatchPlay(round: Round): MatchPlaySummary {
+  const sides = nassauSides(round.players)
+  const holes = roundHoles(round)
+  const net = round.matchNet !== false
+  const received = strokesReceivedByHole(round, { offLow: true })
+
+  const holeResults: MatchHoleResult[] = []
+  let up = 0
+  let through = 0
+  let status: MatchPlaySummary['status'] = 'open'
+  let winner: MatchSide | null = null
+  let closedOnHole: HoleNumber | null = null
+  let holesRemaining = 0
+
+  for (const [i, hole] of holes.entries()) {
+    const strokes = round.strokesByHole[hole] || {}
+    const strokesReceived: Record<PlayerId, number> = {}
+    const scores: Record<PlayerId, number | null> = {}
+    for (const p of round.players) {
+      const dots = net ? received[hole]?.[p.id] || 0 : 0
+      const v = strokes[p.id]
+      strokesReceived[p.id] = dots
+      scores[p.id] = typeof v === 'number' ? netScore(v, dots) : null
+    }
+
+    const allEntered = round.players.every((p) => scores[p.id] !== null)
+    const ready = allEntered && sides.A.length > 0 && sides.B.length > 0
+    const best: Record<MatchSide, number | null> = {
+      A: ready ? bestBall(scores, sides.A) : null,
+      B: ready ? bestBall(scores, sides.B) : null,
+    }
+    const holeWinner: MatchHoleResult['winner'] =
+      best.A === null || best.B === null ? null : best.A < best.B ? 'A' : best.B < best.A ? 'B' : 'halved'
+
+    const remaining = holes.length - (i + 1)
+    const counted = status === 'open' && holeWinner !== null
+    if (counted) {
+      through += 1
+      if (holeWinner === 'A') up += 1
+      if (holeWinner === 'B') up -= 1
+
+      if (Math.abs(up) > remaining) {
+        status = 'won'
+        winner = up > 0 ? 'A' : 'B'
+        closedOnHole = hole
+        holesRemaining = remaining
+      } else if (remaining === 0) {
+        status = 'halved'
+        closedOnHole = hole
+      }
+    }
+
+    holeResults.push({
+      hole,
+      winner: holeWinner,
+      best,
+      strokesReceived,
+      counted,
+      up,
+      through,
+      dormie: status === 'open' && up !== 0 && Math.abs(up) === remaining,
+      closed: status !== 'open',
+    })
+  }
+
+  return {
+    format: matchFormat(round),
+    sides,
+    holeResults,
+    up,
+    through,
+    holeCount: holes.length,
+    status,
+    winner,
+    closedOnHole,
+    holesRemaining,
+    dormie: status === 'open' && up !== 0 && Math.abs(up) === holes.length - through,
+  }
+}
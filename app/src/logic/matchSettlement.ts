@@ -0,0 +1,21 @@
+import type { Player, PlayerId } from '../types'
+import type { MatchPlaySummary } from './match'
+import { settlementLinesFromNet } from './settlementMatcher'
+import type { Settlement, SettlementLine } from './wolfSettlement'
+
+// The match is worth the stake per player: each player on the winning side collects it from one opponent.
+// Only a finished match settles; an open or halved match pays nothing.
+export function computeMatchSettlement(players: Player[], summary: MatchPlaySummary, stakeCents: number): Settlement {
+  const netByPlayer: Record<PlayerId, number> = {}
+  for (const p of players) netByPlayer[p.id] = 0
+
+  if (summary.status === 'won' && summary.winner) {
+    const loser = summary.winner === 'A' ? 'B' : 'A'
+    for (const id of summary.sides[summary.winner]) netByPlayer[id] += stakeCents
+    for (const id of summary.sides[loser]) netByPlayer[id] -= stakeCents
+  }
+
+  const lines = settlementLinesFromNet(players, netByPlayer) as SettlementLine[]
+
+  return { netByPlayer, lines }
+}
@@ -0,0 +1,166 @@
+import type { CurrencyCode, MoneyFormat, MoneyRounding, Player, PlayerId } from '../types'
+import type { GameSettlement } from './combinedSettlement'
+import type { Settlement } from './wolfSettlement'
+
+// Money is integer cents everywhere; this is the one place that turns it into text.
+// The locale is a device setting; the currency is the round's own (the device's currency is only the default for
+// new rounds). main sets the format before the first render and App whenever the round on screen changes; amounts
+// from other rounds or the ledger pass their own currency.
+export const CURRENCIES: CurrencyCode[] = ['USD', 'CAD', 'GBP', 'EUR', 'AUD']
+export const LOCALES = ['', 'en-US', 'en-CA', 'fr-CA', 'en-GB', 'en-AU'] // '' = this device's language
+
+export const DEFAULT_MONEY_FORMAT: MoneyFormat = { currency: 'USD', locale: '' }
+
+let current: MoneyFormat = DEFAULT_MONEY_FORMAT
+const formatters = new Map<string, Intl.NumberFormat>()
+
+export function setMoneyFormat(format: MoneyFormat) {
+  current = format
+}
+
+export function getMoneyFormat(): MoneyFormat {
+  return current
+}
+
+// Runs `fn` with amounts in the given currency, for labels built from another round's settings.
+export function withMoneyCurrency<T>(currency: CurrencyCode | undefined, fn: () => T): T {
+  const before = current
+  if (currency) current = { ...current, currency }
+  try {
+    return fn()
+  } finally {
+    current = before
+  }
+}
+
+function formatter(fractionDigits: number, currency: CurrencyCode = current.currency): Intl.NumberFormat {
+  const id = `${current.locale}|${currency}|${fractionDigits}`
+  let f = formatters.get(id)
+  if (!f) {
+    const options = { style: 'currency', currency, minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits } as const
+    try {
+      f = new Intl.NumberFormat(current.locale || undefined, options)
+    } catch {
+      f = new Intl.NumberFormat(undefined, options) // a locale this browser doesn't know
+    }
+    formatters.set(id, f)
+  }
+  return f
+}
+
+// "$12.50", "£12.50", "12,50 $ CA"
+export function formatMoney(cents: number, currency?: CurrencyCode): string {
+  return formatter(2, currency).format(cents / 100)
+}
+
+// Stakes and labels drop the decimals when they're whole: "$5", "$2.50".
+export function formatMoneyShort(cents: number, currency?: CurrencyCode): string {
+  return formatter(cents % 100 === 0 ? 0 : 2, currency).format(cents / 100)
+}
+
+// "+$12.50" / "-$12.50"
+export function formatSignedMoney(cents: number, currency?: CurrencyCode): string {
+  return `${cents >= 0 ? '+' : '-'}${formatMoney(Math.abs(cents), currency)}`
+}
+
+function symbolFor(f: Intl.NumberFormat, code: CurrencyCode): string {
+  return f.formatToParts(0).find((p) => p.type === 'currency')?.value || code
+}
+
+export function currencySymbol(currency: CurrencyCode = current.currency): string {
+  return symbolFor(formatter(0, currency), currency)
+}
+
+// e.g. "CAD (CA$)" for the currency picker.
+export function currencyLabel(code: CurrencyCode): string {
+  return `${code} (${symbolFor(new Intl.NumberFormat(current.locale || undefined, { style: 'currency', currency: code }), code)})`
+}
+
+// The locale's decimal mark: "." (en) or "," (fr-CA).
+function decimalMark(): string {
+  return formatter(2).formatToParts(1.5).find((p) => p.type === 'decimal')?.value || '.'
+}
+
+// An amount for a text field, without symbol or grouping: "12", "12.50" / "12,50". Empty for 0.
+export function moneyInputString(cents: number): string {
+  if (!cents) return ''
+  const d = Math.abs(cents) / 100
+  const text = d % 1 === 0 ? d.toFixed(0) : d.toFixed(2).replace('.', decimalMark())
+  return `${cents < 0 ? '-' : ''}${text}`
+}
+
+// Cents from a typed amount, read with the locale's decimal mark ("12,50" in fr-CA); the other mark is taken as
+// a decimal point too when only one or two digits follow it, so "12.50" still works there. Symbols, signs, spaces
+// and grouping are ignored; 0 when there are no digits.
+export function parseMoneyInput(text: string): number {
+  const mark = decimalMark()
+  const other = mark === ',' ? '.' : ','
+  let s = text.trim()
+  const lastOther = s.lastIndexOf(other)
+  if (!s.includes(mark) && lastOther >= 0 && /^\d{1,2}$/.test(s.slice(lastOther + 1))) s = `${s.slice(0, lastOther)}${mark}${s.slice(lastOther + 1)}`
+
+  const at = s.lastIndexOf(mark)
+  const digits = (x: string) => x.replace(/[^0-9]/g, '')
+  const n = at >= 0 ? Number(`${digits(s.slice(0, at))}.${digits(s.slice(at + 1))}`) : Number(digits(s))
+  if (!Number.isFinite(n) || n <= 0) return 0
+  return Math.round(n * 100)
+}
+
+export function localeLabel(locale: string): string {
+  return locale || 'Device default'
+}
+
+// Settlement rounding: nobody pays in cents when the round says so.
+export function roundingUnitCents(rounding: MoneyRounding | undefined): number {
+  if (rounding === 'whole') return 100
+  if (rounding === 'five') return 500
+  return 1
+}
+
+export function moneyRoundingLabel(rounding: MoneyRounding | undefined): string {
+  if (rounding === 'whole') return `Nearest ${formatMoneyShort(100)}`
+  if (rounding === 'five') return `Nearest ${formatMoneyShort(500)}`
+  return 'Exact'
+}
+
+// Rounds every net to a multiple of `unit` and keeps the total at zero: each net is rounded down, then the
+// units that leaves over go to the biggest remainders, ties in player order. Nobody moves by a full unit or more.
+// A unit of 1 (exact) only touches nets with fractions of a cent.
+export function roundNetByPlayer(players: Player[], netByPlayer: Record<PlayerId, number>, unit: number): Record<PlayerId, number> {
+  const out: Record<PlayerId, number> = {}
+  if (unit <= 1 && players.every((p) => Number.isInteger(netByPlayer[p.id] || 0))) {
+    for (const p of players) out[p.id] = netByPlayer[p.id] || 0
+    return out
+  }
+  const step = Math.max(1, unit)
+
+  const floors = players.map((p) => Math.floor((netByPlayer[p.id] || 0) / step) * step)
+  const remainders = players.map((p, i) => (netByPlayer[p.id] || 0) - floors[i])
+  let left = -floors.reduce((sum, v) => sum + v, 0)
+  const order = players.map((_, i) => i).sort((a, b) => remainders[b] - remainders[a] || a - b)
+  for (const i of order) {
+    if (left < step) break
+    floors[i] += step
+    left -= step
+  }
+
+  players.forEach((p, i) => {
+    out[p.id] = floors[i]
+  })
+  return out
+}
+
+// The rounding as one more entry in the round's combined settlement: the rounded total minus the exact total of
+// every game, side bet and cap before it. null when the round plays exact cents or the total is already round.
+export function moneyRoundingSettlement(players: Player[], byGame: GameSettlement[], rounding: MoneyRounding | undefined): Settlement | null {
+  const unit = roundingUnitCents(rounding)
+  if (unit <= 1) return null
+  const total: Record<PlayerId, number> = {}
+  for (const p of players) total[p.id] = byGame.reduce((sum, g) => sum + (g.settlement.netByPlayer[p.id] || 0), 0)
+
+  const rounded = roundNetByPlayer(players, total, unit)
+  const netByPlayer: Record<PlayerId, number> = {}
+  for (const p of players) netByPlayer[p.id] = rounded[p.id] - total[p.id]
+  if (players.every((p) => netByPlayer[p.id] === 0)) return null
+  return { netByPlayer, lines: [] }
+}
@@ -0,0 +1,78 @@
+import type { Player, PlayerId, Round } from '../types'
+import type { GameSettlement } from './combinedSettlement'
+import { splitCents } from './groupSettlement'
+import { formatMoneyShort } from './money'
+import type { Settlement } from './wolfSettlement'
+
+// Optional per-round limits on what one player can lose or win, on the round's total across every game
+// and side bet. 0 / unset = no limit.
+export function moneyCapsEnabled(round: Round): boolean {
+  return (round.maxLossCents || 0) > 0 || (round.maxWinCents || 0) > 0
+}
+
+// e.g. "Max loss $50 • Max win $100"
+export function moneyCapsLabel(round: Round): string {
+  const parts: string[] = []
+  if ((round.maxLossCents || 0) > 0) parts.push(`Max loss ${formatMoneyShort(round.maxLossCents || 0)}`)
+  if ((round.maxWinCents || 0) > 0) parts.push(`Max win ${formatMoneyShort(round.maxWinCents || 0)}`)
+  return parts.join(' • ')
+}
+
+// Takes `amount` off the given side (winners: sign 1, losers: sign -1) in proportion to what each has.
+function shrink(players: Player[], net: Record<PlayerId, number>, amount: number, sign: 1 | -1) {
+  const side = players.filter((p) => net[p.id] * sign > 0)
+  const shares = splitCents(amount, side.map((p) => net[p.id] * sign))
+  side.forEach((p, i) => {
+    net[p.id] -= shares[i] * sign
+  })
+}
+
+// Clamps every net to the limits and stays zero-sum: what a capped loser no longer pays comes off each winner
+// in proportion to their winnings, then anything over the win cap goes back to each loser in proportion to
+// their losses. The second step only shrinks losses, so it can't push anyone back over the loss cap.
+export function capNetByPlayer(
+  players: Player[],
+  netByPlayer: Record<PlayerId, number>,
+  maxLossCents: number | undefined,
+  maxWinCents: number | undefined,
+): Record<PlayerId, number> {
+  const net: Record<PlayerId, number> = {}
+  for (const p of players) net[p.id] = netByPlayer[p.id] || 0
+
+  const maxLoss = maxLossCents || 0
+  const maxWin = maxWinCents || 0
+
+  if (maxLoss > 0) {
+    let excess = 0
+    for (const p of players) {
+      if (net[p.id] >= -maxLoss) continue
+      excess += -maxLoss - net[p.id]
+      net[p.id] = -maxLoss
+    }
+    shrink(players, net, excess, 1)
+  }
+  if (maxWin > 0) {
+    let excess = 0
+    for (const p of players) {
+      if (net[p.id] <= maxWin) continue
+      excess += net[p.id] - maxWin
+      net[p.id] = maxWin
+    }
+    shrink(players, net, excess, -1)
+  }
+  return net
+}
+
+// The caps as one more entry in the round's combined settlement: the capped total minus what the games add up
+// to. null when nobody hits a cap.
+export function moneyCapSettlement(players: Player[], byGame: GameSettlement[], round: Round): Settlement | null {
+  if (!moneyCapsEnabled(round)) return null
+  const total: Record<PlayerId, number> = {}
+  for (const p of players) total[p.id] = byGame.reduce((sum, g) => sum + (g.settlement.netByPlayer[p.id] || 0), 0)
+
+  const capped = capNetByPlayer(players, total, round.maxLossCents, round.maxWinCents)
+  const netByPlayer: Record<PlayerId, number> = {}
+  for (const p of players) netByPlayer[p.id] = capped[p.id] - total[p.id]
+  if (players.every((p) => netByPlayer[p.id] === 0)) return null
+  return { netByPlayer, lines: [] }
+}
@@ -0,0 +1,134 @@
+import type { HoleNumber, LedgerPlayerKey, Player, PlayerId, Round, SettlementAdjustment, SettlementMatcher } from '../types'
+import type { GameSettlement, SettlementSource } from './combinedSettlement'
+import { splitCents } from './groupSettlement'
+import { ledgerPlayerKey } from './ledger'
+import type { HoleMoney } from './roundSettlement'
+import { settlementLinesForMatcher } from './settlementMatcher'
+import type { SettlementLine } from './wolfSettlement'
+
+// Combined settlement: any number of game settlements (several games, several rounds on the same day)
+// plus manual adjustments, merged into one net per player and one set of payments.
+// Players are matched across rounds by name, like the ledger.
+
+export type MultiSettlementInput = {
+  roundId: string
+  roundName: string
+  players: Player[]
+  byGame: GameSettlement[]
+  byHole?: Partial<Record<SettlementSource, HoleMoney>> // per-hole trace; games without one show as a single amount
+}
+
+// One piece of a player's net: which round and game (or adjustment) and, when known, which hole.
+export type SettlementTraceItem = {
+  roundId: string | null // null = adjustment
+  roundName: string
+  source: SettlementSource | 'adjustment'
+  hole: HoleNumber | null
+  label: string // adjustment label, else ''
+  cents: number
+}
+
+export type MultiSettlementPlayer = {
+  key: LedgerPlayerKey
+  name: string
+  netCents: number
+  trace: SettlementTraceItem[]
+}
+
+export type MultiSettlement = {
+  players: MultiSettlementPlayer[] // biggest winner first
+  netByPlayer: Record<LedgerPlayerKey, number>
+  lines: SettlementLine[]
+}
+
+// Rounds played on the same calendar day as `ts`, newest first.
+export function sameDayRounds(rounds: Round[], ts: number): Round[] {
+  const day = new Date(ts).toDateString()
+  return rounds.filter((r) => new Date(r.createdAt).toDateString() === day).sort((a, b) => b.createdAt - a.createdAt)
+}
+
+// How an adjustment moves money: each of `owedBy` owes an even share (the payee's own share cancels out).
+export function adjustmentNets(adjustment: SettlementAdjustment): Record<LedgerPlayerKey, number> {
+  const net: Record<LedgerPlayerKey, number> = {}
+  const shares = splitCents(Math.max(0, adjustment.amountCents), adjustment.owedBy.map(() => 1))
+  adjustment.owedBy.forEach((key, i) => {
+    net[key] = (net[key] || 0) - shares[i]
+    net[adjustment.owedTo] = (net[adjustment.owedTo] || 0) + shares[i]
+  })
+  return net
+}
+
+export function mergeSettlements(inputs: MultiSettlementInput[], adjustments: SettlementAdjustment[], matcher?: SettlementMatcher): MultiSettlement {
+  const byKey: Record<LedgerPlayerKey, MultiSettlementPlayer> = {}
+  const playerFor = (key: LedgerPlayerKey, name: string) => byKey[key] || (byKey[key] = { key, name, netCents: 0, trace: [] })
+  const add = (key: LedgerPlayerKey, name: string, item: SettlementTraceItem) => {
+    if (item.cents === 0) return
+    const p = playerFor(key, name)
+    p.netCents += item.cents
+    p.trace.push(item)
+  }
+
+  for (const input of inputs) {
+    const keyById: Record<PlayerId, LedgerPlayerKey> = {}
+    for (const p of input.players) {
+      keyById[p.id] = ledgerPlayerKey(p.name) || p.id
+      playerFor(keyById[p.id], p.name.trim() || p.id)
+    }
+
+    for (const g of input.byGame) {
+      const holes = input.byHole?.[g.game] || {}
+      for (const p of input.players) {
+        const base = { roundId: input.roundId, roundName: input.roundName, source: g.game, label: '' }
+        const total = g.settlement.netByPlayer[p.id] || 0
+        let traced = 0
+        for (const [hole, byPlayer] of Object.entries(holes)) {
+          const cents = byPlayer[p.id] || 0
+          traced += cents
+          add(keyById[p.id], p.name, { ...base, hole: Number(hole), cents })
+        }
+        // Anything the hole trace doesn't cover stays with the game as a whole.
+        add(keyById[p.id], p.name, { ...base, hole: null, cents: total - traced })
+      }
+    }
+  }
+
+  for (const a of adjustments) {
+    for (const [key, cents] of Object.entries(adjustmentNets(a))) {
+      add(key, byKey[key]?.name || key, { roundId: null, roundName: '', source: 'adjustment', hole: null, label: a.label, cents })
+    }
+  }
+
+  const players = Object.values(byKey).sort((a, b) => b.netCents - a.netCents || a.name.localeCompare(b.name))
+  const netByPlayer: Record<LedgerPlayerKey, number> = {}
+  for (const p of players) netByPlayer[p.key] = p.netCents
+  const lines = settlementLinesForMatcher(
+    players.map((p) => ({ id: p.key, name: p.name })),
+    netByPlayer,
+    matcher,
+  ) as SettlementLine[]
+
+  return { players, netByPlayer, lines }
+}
+
+// Trace items grouped by round and game for display, e.g. "Sat skins: +$15.00 (H3 +$10.00, H7 +$5.00)".
+export type TraceGroup = {
+  roundName: string
+  source: SettlementSource | 'adjustment'
+  label: string
+  cents: number
+  holes: { hole: HoleNumber; cents: number }[]
+}
+
+export function traceGroups(trace: SettlementTraceItem[]): TraceGroup[] {
+  const groups: TraceGroup[] = []
+  for (const item of trace) {
+    let g = groups.find((x) => x.roundName === item.roundName && x.source === item.source && x.label === item.label)
+    if (!g) {
+      g = { roundName: item.roundName, source: item.source, label: item.label, cents: 0, holes: [] }
+      groups.push(g)
+    }
+    g.cents += item.cents
+    if (item.hole !== null) g.holes.push({ hole: item.hole, cents: item.cents })
+  }
+  return groups
+}
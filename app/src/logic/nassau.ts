@@ -0,0 +1,189 @@
+import type { HoleNumber, NassauBet, Player, PlayerId, Round } from '../types'
+import { roundHoles } from './holes'
+import { formatMoneyShort } from './money'
+
+export type NassauSide = 'A' | 'B'
+
+export type NassauHoleResult = {
+  hole: HoleNumber
+  winner: NassauSide | 'halved' | null // null = hole not fully entered
+}
+
+export type NassauMatch = {
+  id: string
+  bet: NassauBet
+  press: number // 0 = the original bet; n = nth press on that bet
+  auto: boolean
+  startHole: HoleNumber
+  endHole: HoleNumber
+  holeCount: number // holes in the match, in play order
+  through: number // holes played in this match
+  up: number // + = side A up, - = side B up
+  status: 'open' | 'won' | 'halved'
+  winner: NassauSide | null
+  closedOnHole: HoleNumber | null
+  holesRemaining: number // holes left unplayed when the match closed ("3&2" → 2)
+}
+
+export type NassauSummary = {
+  sides: Record<NassauSide, PlayerId[]>
+  holeResults: NassauHoleResult[]
+  matches: NassauMatch[]
+}
+
+const BET_LABEL: Record<NassauBet, string> = {
+  front: 'Front 9',
+  back: 'Back 9',
+  overall: 'Overall',
+}
+
+// Bets run over positions in play order: front = first nine played, back = second nine.
+// A 9-hole round only has the overall bet (plus presses).
+export function nassauBets(round: Round): NassauBet[] {
+  return roundHoles(round).length === 18 ? ['front', 'back', 'overall'] : ['overall']
+}
+
+function betRange(bet: NassauBet, holeCount: number): [number, number] {
+  if (bet === 'front') return [1, 9]
+  if (bet === 'back') return [10, 18]
+  return [1, holeCount]
+}
+
+// Which bet a "press this nine" on the given hole presses.
+export function nassauNineForHole(round: Round, hole: HoleNumber): NassauBet {
+  const holes = roundHoles(round)
+  if (holes.length !== 18) return 'overall'
+  return holes.indexOf(hole) < 9 ? 'front' : 'back'
+}
+
+// v1: 2 players = singles; 4 players = fixed teams (1+2 vs 3+4), best ball.
+export function nassauSides(players: Player[]): Record<NassauSide, PlayerId[]> {
+  if (players.length === 4) {
+    return { A: [players[0].id, players[1].id], B: [players[2].id, players[3].id] }
+  }
+  return { A: players[0] ? [players[0].id] : [], B: players[1] ? [players[1].id] : [] }
+}
+
+export function nassauSideName(players: Player[], ids: PlayerId[]): string {
+  return ids.map((id) => players.find((p) => p.id === id)?.name || '—').join(' + ')
+}
+
+export function nassauLabel(stakeCents: number): string {
+  return `${formatMoneyShort(stakeCents)}/bet`
+}
+
+export function nassauMatchLabel(m: NassauMatch): string {
+  if (m.press === 0) return BET_LABEL[m.bet]
+  return `${BET_LABEL[m.bet]} press ${m.press} (from ${m.startHole}${m.auto ? ', auto' : ''})`
+}
+
+// e.g. "Ann 2 UP thru 5", "All square thru 3", "Ann wins 3&2", "Halved"
+export function nassauMatchStatus(m: NassauMatch, sideNames: Record<NassauSide, string>): string {
+  if (m.status === 'halved') return 'Halved'
+  if (m.status === 'won' && m.winner) {
+    const lead = Math.abs(m.up)
+    const left = m.holesRemaining
+    return left > 0 ? `${sideNames[m.winner]} wins ${lead}&${left}` : `${sideNames[m.winner]} wins ${lead} UP`
+  }
+  if (m.through === 0) return 'Not started'
+  if (m.up === 0) return `All square thru ${m.through}`
+  const leader: NassauSide = m.up > 0 ? 'A' : 'B'
+  return `${sideNames[leader]} ${Math.abs(m.up)} UP thru ${m.through}`
+}
+
+type MatchState = { match: NassauMatch; startPos: number; endPos: number }
+
+function newMatch(holes: HoleNumber[], bet: NassauBet, press: number, auto: boolean, startPos: number): MatchState {
+  const endPos = betRange(bet, holes.length)[1]
+  const match: NassauMatch = {
+    id: press === 0 ? bet : `${bet}-p${press}`,
+    bet,
+    press,
+    auto,
+    startHole: holes[startPos - 1],
+    endHole: holes[endPos - 1],
+    holeCount: endPos - startPos + 1,
+    through: 0,
+    up: 0,
+    status: 'open',
+    winner: null,
+    closedOnHole: null,
+    holesRemaining: 0,
+  }
+  return { match, startPos, endPos }
+}
+
+export function computeNassau(round: Round): NassauSummary {
+  const sides = nassauSides(round.players)
+  const autoDown = typeof round.nassauAutoPressDown === 'number' ? round.nassauAutoPressDown : 0
+
+  const holes = roundHoles(round)
+  const bets = nassauBets(round)
+  const matches: MatchState[] = bets.map((bet) => newMatch(holes, bet, 0, false, betRange(bet, holes.length)[0]))
+  const pressCount: Record<NassauBet, number> = { front: 0, back: 0, overall: 0 }
+  // Each match may trigger at most one auto press; the press can then trigger its own.
+  const autoPressed = new Set<string>()
+
+  const addPress = (bet: NassauBet, auto: boolean, startPos: number) => {
+    if (!bets.includes(bet)) return
+    const [fromPos, toPos] = betRange(bet, holes.length)
+    if (startPos < fromPos || startPos > toPos) return
+    pressCount[bet] += 1
+    matches.push(newMatch(holes, bet, pressCount[bet], auto, startPos))
+  }
+
+  const manual = round.nassauPresses || []
+
+  const holeResults: NassauHoleResult[] = []
+
+  for (const [i, hole] of holes.entries()) {
+    const pos = i + 1
+    for (const p of manual) {
+      if (p.startHole === hole) addPress(p.bet, false, pos)
+    }
+
+    const strokes = round.strokesByHole[hole] || {}
+    const allEntered = round.players.every((p) => typeof strokes[p.id] === 'number')
+
+    if (!allEntered || sides.A.length === 0 || sides.B.length === 0) {
+      holeResults.push({ hole, winner: null })
+      continue
+    }
+
+    const bestA = Math.min(...sides.A.map((id) => strokes[id] as number))
+    const bestB = Math.min(...sides.B.map((id) => strokes[id] as number))
+    const winner: NassauHoleResult['winner'] = bestA < bestB ? 'A' : bestB < bestA ? 'B' : 'halved'
+    holeResults.push({ hole, winner })
+
+    for (const { match: m, startPos, endPos } of matches) {
+      if (m.status !== 'open' || pos < startPos || pos > endPos) continue
+
+      m.through += 1
+      if (winner === 'A') m.up += 1
+      if (winner === 'B') m.up -= 1
+
+      const remaining = endPos - pos
+      if (Math.abs(m.up) > remaining) {
+        m.status = 'won'
+        m.winner = m.up > 0 ? 'A' : 'B'
+        m.closedOnHole = hole
+        m.holesRemaining = remaining
+      } else if (remaining === 0) {
+        m.status = 'halved'
+        m.closedOnHole = hole
+      }
+    }
+
+    if (autoDown > 0) {
+      // Iterate over a snapshot: presses added here start on the next hole.
+      for (const { match: m } of matches.slice()) {
+        if (m.status !== 'open' || autoPressed.has(m.id)) continue
+        if (Math.abs(m.up) < autoDown) continue
+        autoPressed.add(m.id)
+        addPress(m.bet, true, pos + 1)
+      }
+    }
+  }
+
+  return { sides, holeResults, matches: matches.map((s) => s.match) }
+}
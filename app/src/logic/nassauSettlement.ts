@@ -0,0 +1,43 @@
+import type { Player, PlayerId } from '../types'
+import type { Settlement, SettlementLine } from './wolfSettlement'
+import type { NassauMatch, NassauSummary } from './nassau'
+import { settlementLinesFromNet } from './settlementMatcher'
+
+export type NassauMatchSettlement = {
+  match: NassauMatch
+  settlement: Settlement
+}
+
+export type NassauSettlement = Settlement & {
+  byMatch: NassauMatchSettlement[]
+}
+
+// Each bet (front, back, overall, every press) is worth the stake per player:
+// each player on the winning side collects the stake from one opponent.
+// Only finished matches (played out or closed out) settle; open ones pay nothing yet.
+export function computeNassauSettlement(players: Player[], summary: NassauSummary, stakeCents: number): NassauSettlement {
+  const netByPlayer: Record<PlayerId, number> = {}
+  for (const p of players) netByPlayer[p.id] = 0
+
+  const byMatch: NassauMatchSettlement[] = []
+
+  for (const match of summary.matches) {
+    const net: Record<PlayerId, number> = {}
+    for (const p of players) net[p.id] = 0
+
+    if (match.status === 'won' && match.winner) {
+      const loser = match.winner === 'A' ? 'B' : 'A'
+      for (const id of summary.sides[match.winner]) net[id] += stakeCents
+      for (const id of summary.sides[loser]) net[id] -= stakeCents
+    }
+
+    for (const p of players) netByPlayer[p.id] += net[p.id]
+
+    const lines = settlementLinesFromNet(players, net) as SettlementLine[]
+    byMatch.push({ match, settlement: { netByPlayer: net, lines } })
+  }
+
+  const lines = settlementLinesFromNet(players, netByPlayer) as SettlementLine[]
+
+  return { netByPlayer, lines, byMatch }
+}
@@ -0,0 +1,100 @@
+import type { CurrencyCode, LedgerPlayerKey, PaymentApp, Player, Round } from '../types'
+import { ledgerPlayerKey } from './ledger'
+import { getMoneyFormat } from './money'
+import type { SettlementLine } from './wolfSettlement'
+
+// Tap-to-pay links for a settle-up line, built from the payee's handles. Nothing is processed here:
+// the link opens the app (or its website) with the payee, amount and, where the app supports it, a memo.
+export const PAYMENT_APPS: PaymentApp[] = ['venmo', 'paypal', 'cashApp']
+
+export type PaymentHandles = Partial<Record<PaymentApp, string>>
+
+export type PaymentLink = {
+  app: PaymentApp
+  url: string
+}
+
+export function paymentAppLabel(app: PaymentApp): string {
+  if (app === 'venmo') return 'Venmo'
+  if (app === 'paypal') return 'PayPal'
+  return 'Cash App'
+}
+
+export function paymentHandlePlaceholder(app: PaymentApp): string {
+  if (app === 'venmo') return '@venmo-user'
+  if (app === 'paypal') return 'paypal.me name'
+  return '$cashtag'
+}
+
+// Accepts what people paste: "@jane", "$jane", "venmo.com/u/jane", "https://paypal.me/jane".
+export function normalizePaymentHandle(raw: string): string {
+  const path = raw.trim().split(/[?#]/)[0]
+  // The last path segment that isn't an amount ("paypal.me/jane/20USD").
+  const last = path.split('/').filter((seg) => seg && !/^\d+(\.\d+)?[A-Z]{0,3}$/.test(seg)).pop() || ''
+  return last.replace(/^[@$]+/, '')
+}
+
+// "Golf Bets: Saturday Skins"
+export function paymentMemo(roundName: string): string {
+  return roundName.trim() ? `Golf Bets: ${roundName.trim()}` : 'Golf Bets'
+}
+
+// Plain "12.50" for URLs, whatever the display locale.
+function urlAmount(cents: number): string {
+  return (cents / 100).toFixed(2)
+}
+
+// Handles from saved rounds by player name (newest round first), so a regular group only types them once.
+export function knownPaymentHandles(rounds: Round[]): Record<LedgerPlayerKey, PaymentHandles> {
+  const out: Record<LedgerPlayerKey, PaymentHandles> = {}
+  for (const r of rounds.slice().sort((a, b) => b.createdAt - a.createdAt)) {
+    for (const p of r.players) {
+      const key = ledgerPlayerKey(p.name)
+      if (!key) continue
+      const known = out[key] || (out[key] = {})
+      for (const app of PAYMENT_APPS) {
+        const handle = p.paymentHandles?.[app]?.trim()
+        if (handle && !known[app]) known[app] = handle
+      }
+    }
+  }
+  return out
+}
+
+// The payee's own handle, else one they used in an earlier round.
+function handleFor(app: PaymentApp, payee: Player, known: Record<LedgerPlayerKey, PaymentHandles>): string {
+  return normalizePaymentHandle(payee.paymentHandles?.[app] || known[ledgerPlayerKey(payee.name)]?.[app] || '')
+}
+
+// Venmo and Cash App only take US dollars; PayPal.me takes the currency in the link.
+export function paymentLink(
+  app: PaymentApp,
+  handle: string,
+  amountCents: number,
+  memo: string,
+  currency: CurrencyCode = getMoneyFormat().currency,
+): PaymentLink | null {
+  if (!handle || amountCents <= 0) return null
+  const amount = urlAmount(amountCents)
+  const user = encodeURIComponent(handle)
+
+  if (app === 'venmo') {
+    if (currency !== 'USD') return null
+    return { app, url: `https://venmo.com/${user}?txn=pay&amount=${amount}&note=${encodeURIComponent(memo)}` }
+  }
+  if (app === 'paypal') return { app, url: `https://paypal.me/${user}/${amount}${currency}` }
+  if (currency !== 'USD') return null
+  return { app, url: `https://cash.app/$${user}/${amount}` }
+}
+
+// Amounts are in the round on screen's currency unless the line comes from elsewhere (the ledger, combined rounds).
+export function paymentLinksForLine(
+  line: SettlementLine,
+  memo: string,
+  known: Record<LedgerPlayerKey, PaymentHandles> = {},
+  currency?: CurrencyCode,
+): PaymentLink[] {
+  return PAYMENT_APPS.map((app) => paymentLink(app, handleFor(app, line.to, known), line.amountCents, memo, currency)).filter(
+    (l): l is PaymentLink => !!l,
+  )
+}
@@ -0,0 +1,2 @@
+// How a payment was made, as offered by the Settle Up "Paid with" picker.
+export const PAYMENT_METHODS = ['Cash', 'Venmo', 'Zelle', 'PayPal', 'Cash App', 'Apple Pay']
@@ -0,0 +1,93 @@
+import type { CurrencyCode, LockedLine, Round, SettlementPayment } from '../types'
+import { ledgerPlayerKey } from './ledger'
+import { computeRoundSettlement } from './roundSettlement'
+import type { Settlement, SettlementLine } from './wolfSettlement'
+
+// Paid/unpaid tracking for a locked round's settle-up lines. Payments match a line by payer and payee,
+// so a line can be paid in parts; paying more than the line just marks it paid.
+export type PaymentStatus = 'unpaid' | 'partial' | 'paid'
+
+export type LinePayments = {
+  line: SettlementLine
+  payments: SettlementPayment[] // oldest first
+  paidCents: number
+  remainingCents: number
+  status: PaymentStatus
+}
+
+export type RoundPayments = {
+  lines: LinePayments[]
+  owedCents: number
+  paidCents: number
+  remainingCents: number
+  status: PaymentStatus
+}
+
+// Someone with money still to pay, across saved rounds; one per currency they owe in.
+export type StillOwes = {
+  key: string // currency and ledger player key (players are matched by name across rounds)
+  name: string
+  currency: CurrencyCode | undefined
+  remainingCents: number
+  items: { round: Round; line: SettlementLine; remainingCents: number }[]
+}
+
+function statusFor(paidCents: number, remainingCents: number): PaymentStatus {
+  if (remainingCents <= 0) return 'paid'
+  return paidCents > 0 ? 'partial' : 'unpaid'
+}
+
+export function linePayments(lines: SettlementLine[], payments: SettlementPayment[] | undefined): LinePayments[] {
+  return lines.map((line) => {
+    const made = (payments || []).filter((x) => x.from === line.from.id && x.to === line.to.id).sort((a, b) => a.paidAt - b.paidAt)
+    const paidCents = made.reduce((sum, x) => sum + x.amountCents, 0)
+    const remainingCents = Math.max(0, line.amountCents - paidCents)
+    return { line, payments: made, paidCents, remainingCents, status: statusFor(paidCents, remainingCents) }
+  })
+}
+
+export function lockedLinesFromSettlement(settlement: Settlement | null): LockedLine[] {
+  return (settlement?.lines || []).map((l) => ({ from: l.from.id, to: l.to.id, amountCents: l.amountCents }))
+}
+
+// The lines saved when the round was locked; rounds locked before lines were saved fall back to the live settlement.
+function lockedSettlementLines(round: Round, settlement: Settlement | null | undefined): SettlementLine[] {
+  if (!round.lockedLines) return (settlement === undefined ? computeRoundSettlement(round) : settlement)?.lines || []
+  const byId = new Map(round.players.map((p) => [p.id, p]))
+  return round.lockedLines.flatMap((l) => {
+    const from = byId.get(l.from)
+    const to = byId.get(l.to)
+    return from && to ? [{ from, to, amountCents: l.amountCents }] : []
+  })
+}
+
+// Only locked rounds are tracked: until then the lines can still change.
+export function roundPayments(round: Round, settlement?: Settlement | null): RoundPayments | null {
+  if (!round.locked) return null
+  const settled = lockedSettlementLines(round, settlement)
+  if (settled.length === 0) return null
+  const lines = linePayments(settled, round.payments)
+  const owedCents = lines.reduce((sum, l) => sum + l.line.amountCents, 0)
+  const remainingCents = lines.reduce((sum, l) => sum + l.remainingCents, 0)
+  const paidCents = owedCents - remainingCents
+  return { lines, owedCents, paidCents, remainingCents, status: statusFor(paidCents, remainingCents) }
+}
+
+export function paymentStatusLabel(status: PaymentStatus): string {
+  return status === 'paid' ? 'Paid' : status === 'partial' ? 'Part paid' : 'Unpaid'
+}
+
+// Biggest debt first.
+export function whoStillOwes(rounds: { round: Round; payments: RoundPayments | null }[]): StillOwes[] {
+  const byKey: Record<string, StillOwes> = {}
+  for (const { round, payments } of rounds) {
+    for (const l of payments?.lines || []) {
+      if (l.remainingCents <= 0) continue
+      const key = `${round.currency || ''}:${ledgerPlayerKey(l.line.from.name) || l.line.from.id}`
+      const owes = byKey[key] || (byKey[key] = { key, name: l.line.from.name, currency: round.currency, remainingCents: 0, items: [] })
+      owes.remainingCents += l.remainingCents
+      owes.items.push({ round, line: l.line, remainingCents: l.remainingCents })
+    }
+  }
+  return Object.values(byKey).sort((a, b) => b.remainingCents - a.remainingCents)
+}
@@ -0,0 +1,96 @@
+import type { HoleNumber, Player, PlayerId, Round, StablefordTable } from '../types'
+import { DEFAULT_PAR, parForHole } from './course'
+import { roundHoles } from './holes'
+import { formatMoneyShort } from './money'
+import { stablefordPoints } from './stableford'
+
+// Quota (Chicago): gross points by score relative to par, played against a personal target.
+// The target is 36 minus the player's handicap over 18 holes (half that over 9).
+export const QUOTA_TABLE: StablefordTable = { albatross: 16, eagle: 8, birdie: 4, par: 2, bogey: 1, double: 0 }
+
+export type QuotaHoleResult = {
+  hole: HoleNumber
+  par: number
+  points: Record<PlayerId, number | null> // null = no score entered
+  vsQuota: Record<PlayerId, number> // running points minus the quota pro-rated over holes scored
+}
+
+export type QuotaSummary = {
+  quotaByPlayer: Record<PlayerId, number>
+  holeResults: QuotaHoleResult[]
+  pointsByPlayer: Record<PlayerId, number>
+  holesByPlayer: Record<PlayerId, number> // holes scored
+  paceByPlayer: Record<PlayerId, number> // live +/-: points minus the quota pro-rated over holes scored
+  vsQuotaByPlayer: Record<PlayerId, number> // points minus the full quota; final once every hole is in
+}
+
+export function defaultQuota(player: Player, holeCount: number): number {
+  const hcp = Math.round(player.handicapIndex ?? 0)
+  return Math.max(0, Math.round(((36 - hcp) * holeCount) / 18))
+}
+
+// Setup can override a player's quota; otherwise it follows their stored handicap.
+export function playerQuota(round: Round, player: Player): number {
+  const set = round.quotaByPlayer?.[player.id]
+  return typeof set === 'number' ? set : defaultQuota(player, roundHoles(round).length)
+}
+
+export function quotaLabel(dollarsPerPointCents?: number): string {
+  const cents = dollarsPerPointCents || 0
+  if (cents <= 0) return 'Points'
+  return `${formatMoneyShort(cents)}/pt`
+}
+
+// e.g. "+3", "-1.5", "E"
+export function quotaDiffLabel(diff: number): string {
+  const rounded = Math.round(diff * 10) / 10
+  if (rounded === 0) return 'E'
+  const text = rounded % 1 === 0 ? Math.abs(rounded).toFixed(0) : Math.abs(rounded).toFixed(1)
+  return `${rounded > 0 ? '+' : '-'}${text}`
+}
+
+export function computeQuota(round: Round): QuotaSummary {
+  const holes = roundHoles(round)
+
+  const quotaByPlayer: Record<PlayerId, number> = {}
+  const pointsByPlayer: Record<PlayerId, number> = {}
+  const holesByPlayer: Record<PlayerId, number> = {}
+  for (const p of round.players) {
+    quotaByPlayer[p.id] = playerQuota(round, p)
+    pointsByPlayer[p.id] = 0
+    holesByPlayer[p.id] = 0
+  }
+
+  const holeResults: QuotaHoleResult[] = []
+  for (const hole of holes) {
+    const par = parForHole(round, hole) ?? DEFAULT_PAR
+    const strokes = round.strokesByHole[hole] || {}
+    const points: Record<PlayerId, number | null> = {}
+    const vsQuota: Record<PlayerId, number> = {}
+
+    for (const p of round.players) {
+      const v = strokes[p.id]
+      if (typeof v === 'number') {
+        const pts = stablefordPoints(v, par, QUOTA_TABLE)
+        points[p.id] = pts
+        pointsByPlayer[p.id] += pts
+        holesByPlayer[p.id] += 1
+      } else {
+        points[p.id] = null
+      }
+      const pace = holes.length > 0 ? (quotaByPlayer[p.id] * holesByPlayer[p.id]) / holes.length : 0
+      vsQuota[p.id] = pointsByPlayer[p.id] - pace
+    }
+
+    holeResults.push({ hole, par, points, vsQuota })
+  }
+
+  const paceByPlayer: Record<PlayerId, number> = {}
+  const vsQuotaByPlayer: Record<PlayerId, number> = {}
+  for (const p of round.players) {
+    paceByPlayer[p.id] = holeResults[holeResults.length - 1]?.vsQuota[p.id] ?? 0
+    vsQuotaByPlayer[p.id] = pointsByPlayer[p.id] - quotaByPlayer[p.id]
+  }
+
+  return { quotaByPlayer, holeResults, pointsByPlayer, holesByPlayer, paceByPlayer, vsQuotaByPlayer }
+}
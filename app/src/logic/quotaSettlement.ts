@@ -0,0 +1,10 @@
+import type { Player } from '../types'
+import type { QuotaSummary } from './quota'
+import { stablefordRelativePoints } from './stablefordSettlement'
+import { computeWolfSettlement, type Settlement } from './wolfSettlement'
+
+// Each pair settles the gap between how far they beat (or missed) their quotas, so the table is zero-sum.
+export function computeQuotaSettlement(players: Player[], summary: QuotaSummary, dollarsPerPointCents: number): Settlement | null {
+  if (players.length === 0 || dollarsPerPointCents <= 0) return null
+  return computeWolfSettlement(players, stablefordRelativePoints(players, summary.vsQuotaByPlayer), dollarsPerPointCents)
+}
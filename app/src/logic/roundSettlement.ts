@@ -0,0 +1,172 @@
+import type { GameType, HoleNumber, PlayerId, Round } from '../types'
+import { computeBBB } from './bbb'
+import { computeBBBSettlement } from './bbbSettlement'
+import { computeCombinedSettlement, type CombinedSettlement, type GameSettlement, type SettlementSource } from './combinedSettlement'
+import { roundGames } from './games'
+import { computeGroup } from './group'
+import { computeGroupSettlement } from './groupSettlement'
+import { computeHammer } from './hammer'
+import { roundHoles } from './holes'
+import { computeRabbit, computeSnake, rabbitEnabled, snakeEnabled } from './holdovers'
+import { computeRabbitSettlement, computeSnakeSettlement } from './holdoverSettlement'
+import { computeJunk, junkEnabled } from './junk'
+import { computeJunkSettlement } from './junkSettlement'
+import { computeMatchPlay } from './match'
+import { computeMatchSettlement } from './matchSettlement'
+import { moneyRoundingSettlement } from './money'
+import { moneyCapSettlement } from './moneyCaps'
+import { computeNassau } from './nassau'
+import { computeNassauSettlement } from './nassauSettlement'
+import { computeQuota } from './quota'
+import { computeQuotaSettlement } from './quotaSettlement'
+import { computeSettlement } from './settlement'
+import { computeSixes } from './sixes'
+import { computeSixesSettlement } from './sixesSettlement'
+import { computeStableford } from './stableford'
+import { computeStablefordSettlement } from './stablefordSettlement'
+import { computeVegas } from './vegas'
+import { computeVegasSettlement } from './vegasSettlement'
+import { computeWolf } from './wolf'
+import { computeWolfSettlement, type Settlement } from './wolfSettlement'
+
+// A round's money straight from the saved Round: the Settle Up cards for the round on screen, and rounds that
+// aren't (payments, recent rounds, the audit). Points games with no $/pt set have no settlement.
+function perPoint(cents: number | undefined): number | null {
+  return (cents || 0) > 0 ? (cents as number) : null
+}
+
+// Exact cents: the round's rounding applies once, to the combined total (see roundSettlementsByGame).
+export function gameSettlement(round: Round, game: GameType): Settlement | null {
+  const { players } = round
+  switch (game) {
+    case 'skins':
+      return computeSettlement(round)
+    case 'wolf': {
+      const cents = perPoint(round.wolfDollarsPerPointCents)
+      return cents ? computeWolfSettlement(players, computeWolf(round).pointsByPlayer, cents, round.settlementMatcher) : null
+    }
+    case 'bbb': {
+      const cents = perPoint(round.bbbDollarsPerPointCents)
+      return cents ? computeBBBSettlement(players, computeBBB(round).pointsByPlayer, cents, round.settlementMatcher) : null
+    }
+    case 'nassau':
+      return computeNassauSettlement(players, computeNassau(round), round.nassauStakeCents || 0)
+    case 'stableford':
+      return computeStablefordSettlement(round, computeStableford(round))
+    case 'vegas': {
+      const cents = perPoint(round.vegasDollarsPerPointCents)
+      return cents ? computeVegasSettlement(players, computeVegas(round).pointsByPlayer, cents) : null
+    }
+    case 'match': {
+      const cents = perPoint(round.matchStakeCents)
+      return cents ? computeMatchSettlement(players, computeMatchPlay(round), cents) : null
+    }
+    case 'sixes':
+      return players.length === 4
+        ? computeSixesSettlement(players, computeSixes(round), round.sixesStakeCents || 0, round.sixesOverallCents || 0)
+        : null
+    case 'hammer': {
+      const cents = perPoint(round.hammerDollarsPerPointCents)
+      return cents ? computeWolfSettlement(players, computeHammer(round).pointsByPlayer, cents) : null
+    }
+    case 'quota':
+      return computeQuotaSettlement(players, computeQuota(round), round.quotaDollarsPerPointCents || 0)
+    case 'group':
+      return computeGroupSettlement(round, computeGroup(round))
+  }
+}
+
+// Every game on the scorecard plus junk, holdovers, the caps and the rounding, in the order the combined card lists them.
+export function roundSettlementsByGame(round: Round): GameSettlement[] {
+  const byGame: GameSettlement[] = []
+  for (const game of roundGames(round)) {
+    const settlement = gameSettlement(round, game)
+    if (settlement) byGame.push({ game, settlement })
+  }
+  const sideBet = (game: SettlementSource, settlement: Settlement) => byGame.push({ game, settlement })
+  if (junkEnabled(round)) sideBet('junk', computeJunkSettlement(round.players, computeJunk(round).valueCentsByPlayer))
+  if (rabbitEnabled(round)) sideBet('rabbit', computeRabbitSettlement(round.players, computeRabbit(round), round.rabbitCents || 0))
+  if (snakeEnabled(round)) sideBet('snake', computeSnakeSettlement(round.players, computeSnake(round), round.snakeCents || 0))
+  const cap = moneyCapSettlement(round.players, byGame, round)
+  if (cap) byGame.push({ game: 'cap', settlement: cap })
+  const rounding = moneyRoundingSettlement(round.players, byGame, round.moneyRounding)
+  if (rounding) byGame.push({ game: 'rounding', settlement: rounding })
+  return byGame
+}
+
+// Every net summed into one set of payments; null when the round is one game alone (no side bets, caps or rounding kicking in).
+export function combinedRoundSettlement(round: Round, byGame: GameSettlement[] = roundSettlementsByGame(round)): CombinedSettlement | null {
+  if (roundGames(round).length === 1 && byGame.every((g) => g.game === round.game)) return null
+  return computeCombinedSettlement(round.players, byGame, round.settlementMatcher)
+}
+
+// One game alone keeps its own lines (and matcher); anything more is combined into one set of payments.
+export function computeRoundSettlement(round: Round, byGame: GameSettlement[] = roundSettlementsByGame(round)): Settlement | null {
+  return combinedRoundSettlement(round, byGame) || byGame.find((g) => g.game === round.game)?.settlement || null
+}
+
+// Money each player won (+) or lost (-) on each hole.
+export type HoleMoney = Record<HoleNumber, Record<PlayerId, number>>
+
+// The round as it stood after the given holes: everything entered per hole on later holes is dropped.
+function roundThroughHoles(round: Round, holes: Set<HoleNumber>): Round {
+  function keep<T>(byHole: Record<HoleNumber, T> | undefined): Record<HoleNumber, T> | undefined {
+    if (!byHole) return byHole
+    const out: Record<HoleNumber, T> = {}
+    for (const hole of holes) if (hole in byHole) out[hole] = byHole[hole]
+    return out
+  }
+  return {
+    ...round,
+    strokesByHole: keep(round.strokesByHole) || {},
+    wolfPartnerByHole: keep(round.wolfPartnerByHole),
+    wolfBlindByHole: keep(round.wolfBlindByHole),
+    wolfPigByHole: keep(round.wolfPigByHole),
+    bbbAwardsByHole: keep(round.bbbAwardsByHole),
+    hammerByHole: keep(round.hammerByHole),
+    junkByHole: keep(round.junkByHole),
+    puttsByHole: keep(round.puttsByHole),
+  }
+}
+
+// Games paid on end-of-round totals: a pot, or points settled against the group's totals. The change in
+// their nets after each hole only tracks who was leading, so they have no hole trace.
+export function settlesOnTotals(round: Round, source: SettlementSource): boolean {
+  if (source === 'stableford' || source === 'quota' || source === 'group') return true
+  return source === 'skins' && round.skinsPayout === 'pot'
+}
+
+// Where each game's money came from: the change in its nets after each hole in play order. End-of-round
+// payouts (a carry resolved on the last hole, the snake) land on the hole that decided them, and the
+// holes always add up to the game's settlement exactly. Games settled on totals are left out.
+export function roundSettlementsByHole(round: Round): Partial<Record<SettlementSource, HoleMoney>> {
+  const out: Partial<Record<SettlementSource, HoleMoney>> = {}
+  const prev: Partial<Record<SettlementSource, Record<PlayerId, number>>> = {}
+  const played = new Set<HoleNumber>()
+
+  for (const hole of roundHoles(round)) {
+    played.add(hole)
+    const byGame = roundSettlementsByGame(roundThroughHoles(round, played)).filter((g) => !settlesOnTotals(round, g.game))
+    const current = new Set(byGame.map((g) => g.game))
+    for (const g of byGame) {
+      const before = prev[g.game] || {}
+      const moved: Record<PlayerId, number> = {}
+      for (const p of round.players) {
+        const delta = (g.settlement.netByPlayer[p.id] || 0) - (before[p.id] || 0)
+        if (delta !== 0) moved[p.id] = delta
+      }
+      const byHole = out[g.game] || (out[g.game] = {})
+      if (Object.keys(moved).length > 0) byHole[hole] = moved
+      prev[g.game] = g.settlement.netByPlayer
+    }
+    // A source can drop out again (the caps stop applying): its money goes back on this hole.
+    for (const source of Object.keys(prev) as SettlementSource[]) {
+      if (current.has(source)) continue
+      const moved: Record<PlayerId, number> = {}
+      for (const [id, cents] of Object.entries(prev[source] || {})) if (cents !== 0) moved[id] = -cents
+      if (Object.keys(moved).length > 0) (out[source] || (out[source] = {}))[hole] = moved
+      delete prev[source]
+    }
+  }
+  return out
+}
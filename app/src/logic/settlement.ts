@@ -1,6 +1,6 @@
-import type { Player, PlayerId, Round } from '../types';
-import { computeSkins } from './skins';
-import { settlementLinesFromNet } from './settlementMatcher';
+import type { Player, PlayerId, Round, SkinsSummary } from '../types';
+import { computeSkins, skinsPots } from './skins';
+import { settlementLinesForMatcher } from './settlementMatcher';
 
 export type SettlementLine = {
   from: Player;
@@ -13,43 +13,69 @@ export type Settlement = {
   lines: SettlementLine[];
 };
 
-export function computeSettlement(round: Round): Settlement {
-  const skins = computeSkins(round);
-  const potPerSkin = round.stakeCents || 0;
-
-  const netByPlayer: Record<PlayerId, number> = {};
-  for (const p of round.players) {
-    const won = skins.skinsWon[p.id] || 0;
-    const gross = won * potPerSkin;
-    // Everyone pays into pot: stake per decided skin *? In skins, each skin is a bet between all players.
-    // For simple MVP: value transfers are relative to average.
-    // Net = gross - (totalPot / N)
-    netByPlayer[p.id] = gross;
-  }
-
-  // Total pot equals total decided skins * stakeCents * N? Actually in a common skins game,
-  // each skin is worth stakeCents per opponent (or per player). Rules vary.
-  // For MVP, we model: each skin pays stakeCents from each losing player to the winner.
-  // => winner receives stakeCents*(N-1), each loser pays stakeCents.
-  // We can compute this directly.
+// Per skin: each skin pays the stake from every opponent to the winner.
+function perSkinNet(round: Round, skins: SkinsSummary, net: Record<PlayerId, number>): void {
   const N = round.players.length;
-  const net2: Record<PlayerId, number> = {};
-  for (const p of round.players) net2[p.id] = 0;
+  const unit = round.stakeCents || 0;
 
   for (const hr of skins.holeResults) {
     if (!hr.winnerId || hr.wonSkins <= 0) continue;
     const winnerId = hr.winnerId;
-    const unit = round.stakeCents || 0;
     const skinsCount = hr.wonSkins;
 
-    net2[winnerId] += unit * skinsCount * (N - 1);
+    net[winnerId] += unit * skinsCount * (N - 1);
     for (const p of round.players) {
       if (p.id === winnerId) continue;
-      net2[p.id] -= unit * skinsCount;
+      net[p.id] -= unit * skinsCount;
     }
   }
 
-  const lines = settlementLinesFromNet(round.players, net2) as SettlementLine[];
+  // End-of-round carry: everyone outside the winners pays, the winners share it (odd cents to the earlier player).
+  const resolution = skins.carryResolution;
+  if (!resolution || resolution.winnerIds.length === 0) return;
+  const winners = round.players.filter((p) => resolution.winnerIds.includes(p.id));
+  const losers = round.players.filter((p) => !resolution.winnerIds.includes(p.id));
+  const pool = unit * resolution.skins * losers.length;
+  for (const p of losers) net[p.id] -= unit * resolution.skins;
+  const share = Math.floor(pool / winners.length);
+  let remainder = pool - share * winners.length;
+  for (const w of winners) {
+    net[w.id] += share + (remainder > 0 ? 1 : 0);
+    if (remainder > 0) remainder -= 1;
+  }
+}
+
+// Pot: everyone buys in, the pot is split by share of skins won (odd cents to the earlier player).
+// A pot with no skins won is a wash.
+function potNet(round: Round, skins: SkinsSummary, net: Record<PlayerId, number>): void {
+  const buyIn = round.skinsPotCents || 0;
+  // Split skins are fractions of at most 1/N; scale to whole units so shares sum exactly.
+  const weights = round.players.map((p) => Math.round((skins.skinsWon[p.id] || 0) * 60));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (buyIn <= 0 || total <= 0) return;
+
+  const pot = buyIn * round.players.length;
+  const shares = weights.map((w) => Math.floor((pot * w) / total));
+  let remainder = pot - shares.reduce((sum, x) => sum + x, 0);
+  round.players.forEach((p, i) => {
+    const extra = weights[i] > 0 && remainder > 0 ? 1 : 0;
+    remainder -= extra;
+    net[p.id] += shares[i] + extra - buyIn;
+  });
+}
+
+export function computeSettlement(round: Round): Settlement {
+  const net: Record<PlayerId, number> = {};
+  for (const p of round.players) net[p.id] = 0;
+
+  // Gross + net rounds play two independent pots under the same rules.
+  for (const pot of skinsPots(round)) {
+    const skins = computeSkins(round, pot);
+    if (round.skinsPayout === 'pot') potNet(round, skins, net);
+    else perSkinNet(round, skins, net);
+  }
+
+  const lines = settlementLinesForMatcher(round.players, net, round.settlementMatcher) as SettlementLine[];
 
-  return { netByPlayer: net2, lines };
+  return { netByPlayer: net, lines };
 }
@@ -0,0 +1,262 @@
+import type { HoleNumber, Player, PlayerId, Round } from '../types'
+import { computeBBB } from './bbb'
+import type { SettlementSource } from './combinedSettlement'
+import { computeGroup, groupPlaceLabel } from './group'
+import { roundHoles } from './holes'
+import { JUNK_LABEL } from './junk'
+import { moneyRoundingLabel } from './money'
+import { moneyCapsLabel } from './moneyCaps'
+import { computeQuota, quotaDiffLabel } from './quota'
+import { roundSettlementsByGame, roundSettlementsByHole } from './roundSettlement'
+import { computeSettlement } from './settlement'
+import { computeSkins, skinsCarryResolutionLabel, skinsCountLabel, skinsPots } from './skins'
+import { computeStableford } from './stableford'
+import { computeWolf, wolfModeLabel } from './wolf'
+
+// "Why do I owe this?": every player's net broken into the holes and events that made it.
+// Each item carries its money, and a player's items always add up to their net exactly.
+
+export type AuditItem = {
+  source: SettlementSource
+  hole: HoleNumber | null // null = not tied to one hole (end-of-round carry, pot share, rounding)
+  label: string
+  cents: number
+}
+
+export type PlayerAudit = {
+  player: Player
+  netCents: number
+  items: AuditItem[] // by game, then play order
+}
+
+type Items = Record<PlayerId, Omit<AuditItem, 'source'>[]>
+
+function emptyItems(round: Round): Items {
+  const out: Items = {}
+  for (const p of round.players) out[p.id] = []
+  return out
+}
+
+function nameOf(round: Round, id: PlayerId): string {
+  return round.players.find((p) => p.id === id)?.name || '—'
+}
+
+function skinsWord(n: number): string {
+  return `${skinsCountLabel(n)} skin${n === 1 ? '' : 's'}`
+}
+
+// Per pot: each won skin (carries included), then the end-of-round carry or the pot share as one item.
+// The last item per pot is whatever the pot's own settlement leaves, so odd cents land where computeSettlement put them.
+function skinsItems(round: Round): Items {
+  const out = emptyItems(round)
+  const pots = skinsPots(round)
+  const N = round.players.length
+  const unit = round.stakeCents || 0
+
+  for (const pot of pots) {
+    const prefix = pots.length > 1 ? `${pot === 'gross' ? 'Gross' : 'Net'} ` : ''
+    const skins = computeSkins(round, pot)
+    const potNet = computeSettlement({ ...round, skinsScoring: pot }).netByPlayer
+    const itemized: Record<PlayerId, number> = {}
+
+    if (round.skinsPayout === 'pot') {
+      const buyIn = round.skinsPotCents || 0
+      if (buyIn <= 0 || round.players.every((p) => !potNet[p.id])) continue
+      const won = skins.holeResults.filter((hr) => hr.winnerId && hr.wonSkins > 0)
+      for (const p of round.players) {
+        const holes = won.filter((hr) => hr.winnerId === p.id).map((hr) => `H${hr.hole}`)
+        out[p.id].push({ hole: null, label: `${prefix}Pot buy-in`, cents: -buyIn })
+        const share = (potNet[p.id] || 0) + buyIn
+        const detail = holes.length > 0 ? ` (${holes.join(', ')})` : ''
+        if (share !== 0) out[p.id].push({ hole: null, label: `${prefix}Pot share for ${skinsWord(skins.skinsWon[p.id] || 0)}${detail}`, cents: share })
+      }
+      continue
+    }
+
+    for (const hr of skins.holeResults) {
+      if (!hr.winnerId || hr.wonSkins <= 0) continue
+      const carried = hr.carrySkins > 0 ? ` (${hr.carrySkins} carried)` : ''
+      for (const p of round.players) {
+        const won = p.id === hr.winnerId
+        const cents = won ? unit * hr.wonSkins * (N - 1) : -unit * hr.wonSkins
+        const label = won ? `${prefix}Won ${skinsWord(hr.wonSkins)}${carried}` : `${prefix}${nameOf(round, hr.winnerId)} won ${skinsWord(hr.wonSkins)}${carried}`
+        out[p.id].push({ hole: hr.hole, label, cents })
+        itemized[p.id] = (itemized[p.id] || 0) + cents
+      }
+    }
+    if (skins.carryResolution) {
+      const label = `${prefix}${skinsCarryResolutionLabel(round.players, skins.carryResolution)}`
+      for (const p of round.players) {
+        const cents = (potNet[p.id] || 0) - (itemized[p.id] || 0)
+        if (cents !== 0) out[p.id].push({ hole: null, label, cents })
+      }
+    }
+  }
+  return out
+}
+
+// Each decided hole's point swing at the round's $/pt.
+function wolfItems(round: Round): Items {
+  const out = emptyItems(round)
+  const cents = round.wolfDollarsPerPointCents || 0
+  for (const hr of computeWolf(round).holeResults) {
+    if (hr.status !== 'wolfWin' && hr.status !== 'wolfLose') continue
+    const carried = hr.carriedTies > 0 ? ` (${hr.carriedTies} tie${hr.carriedTies === 1 ? '' : 's'} carried)` : ''
+    const label = `${wolfModeLabel(hr.mode)}: ${nameOf(round, hr.wolfId)} ${hr.status === 'wolfWin' ? 'won' : 'lost'}${carried}`
+    for (const p of round.players) {
+      const delta = hr.pointsDeltaByPlayer[p.id] || 0
+      if (delta !== 0) out[p.id].push({ hole: hr.hole, label, cents: delta * cents })
+    }
+  }
+  return out
+}
+
+// Each award is paid by every opponent (see computeBBBSettlement).
+function bbbItems(round: Round): Items {
+  const out = emptyItems(round)
+  const cents = round.bbbDollarsPerPointCents || 0
+  const { holeAwards } = computeBBB(round)
+  for (const hole of roundHoles(round)) {
+    const a = holeAwards[hole]
+    if (!a) break
+    for (const key of ['bingo', 'bango', 'bongo'] as const) {
+      const winner = a[key]
+      if (!winner || !out[winner]) continue
+      const award = key[0].toUpperCase() + key.slice(1)
+      for (const p of round.players) {
+        const won = p.id === winner
+        out[p.id].push({
+          hole,
+          label: won ? award : `${award} to ${nameOf(round, winner)}`,
+          cents: won ? cents * (round.players.length - 1) : -cents,
+        })
+      }
+    }
+  }
+  return out
+}
+
+function ptsWord(n: number): string {
+  return `${n} pt${n === 1 ? '' : 's'}`
+}
+
+type HolePoints = {
+  hole: HoleNumber
+  points: Record<PlayerId, number> // this hole's part of the total the game settles on; no score = 0
+  label: (id: PlayerId) => string
+}
+
+// Games settled on N × a player's points minus the group total (see stablefordRelativePoints), hole by hole.
+// Each item is the change in the player's rounded running total, so the game still rounds once.
+function relativePointItems(round: Round, holes: HolePoints[], centsPerPoint: number): Items {
+  const out = emptyItems(round)
+  const N = round.players.length
+  const running: Record<PlayerId, number> = {}
+  for (const h of holes) {
+    const total = round.players.reduce((sum, p) => sum + (h.points[p.id] || 0), 0)
+    for (const p of round.players) {
+      const before = Math.round(running[p.id] || 0)
+      running[p.id] = (running[p.id] || 0) + (N * (h.points[p.id] || 0) - total) * centsPerPoint
+      out[p.id].push({ hole: h.hole, label: h.label(p.id), cents: Math.round(running[p.id]) - before })
+    }
+  }
+  return out
+}
+
+// Each hole's points against the quota spread evenly over the round's holes.
+function quotaItems(round: Round): Items {
+  const summary = computeQuota(round)
+  const n = summary.holeResults.length
+  const holes = summary.holeResults.map((hr) => {
+    const points: Record<PlayerId, number> = {}
+    for (const p of round.players) {
+      const pts = hr.points[p.id]
+      if (pts !== null) points[p.id] = pts - summary.quotaByPlayer[p.id] / n
+    }
+    const label = (id: PlayerId) => {
+      const pts = hr.points[id]
+      return pts === null ? 'No score' : `${ptsWord(pts)} (${quotaDiffLabel(points[id])} vs quota)`
+    }
+    return { hole: hr.hole, points, label }
+  })
+  return relativePointItems(round, holes, round.quotaDollarsPerPointCents || 0)
+}
+
+// Each hole's points at the round's $/pt; a pot is one line.
+function stablefordItems(round: Round, net: Record<PlayerId, number>): Items {
+  const summary = computeStableford(round)
+  if (round.stablefordPayout === 'pot') {
+    const out = emptyItems(round)
+    const best = Math.max(...round.players.map((p) => summary.pointsByPlayer[p.id] || 0))
+    const winners = round.players.filter((p) => (summary.pointsByPlayer[p.id] || 0) === best).map((p) => p.name)
+    const label = `Pot (${winners.join(' & ')} won with ${ptsWord(best)})`
+    for (const p of round.players) out[p.id].push({ hole: null, label, cents: net[p.id] || 0 })
+    return out
+  }
+  const holes = summary.holeResults.map((hr) => {
+    const points: Record<PlayerId, number> = {}
+    for (const p of round.players) points[p.id] = hr.points[p.id] || 0
+    const label = (id: PlayerId) => {
+      const pts = hr.points[id]
+      return pts === null ? 'No score' : ptsWord(pts)
+    }
+    return { hole: hr.hole, points, label }
+  })
+  return relativePointItems(round, holes, round.stablefordDollarsPerPointCents || 0)
+}
+
+// One pot line: the player's buy-in and their team's share of the prizes.
+function groupItems(round: Round, net: Record<PlayerId, number>): Items {
+  const out = emptyItems(round)
+  for (const s of computeGroup(round).standings) {
+    const label = `Pot (${s.team.name} ${groupPlaceLabel(s)})`
+    for (const id of s.team.playerIds) out[id]?.push({ hole: null, label, cents: net[id] || 0 })
+  }
+  return out
+}
+
+// Games without their own breakdown: what the hole did to this player's money, plus their own dots for junk.
+function holeResultLabel(round: Round, source: SettlementSource, hole: HoleNumber, id: PlayerId, cents: number): string {
+  if (source === 'cap') return moneyCapsLabel(round)
+  const result = cents > 0 ? 'Won on this hole' : 'Lost on this hole'
+  const dots = source === 'junk' ? round.junkByHole?.[hole]?.[id] || [] : []
+  return dots.length > 0 ? `${result} (${dots.map((d) => JUNK_LABEL[d]).join(', ')})` : result
+}
+
+export function settlementAudit(round: Round): PlayerAudit[] {
+  const byGame = roundSettlementsByGame(round)
+  // Games without their own breakdown use the hole-by-hole change in their settlement.
+  const ownBreakdown: SettlementSource[] = ['skins', 'wolf', 'bbb', 'quota', 'stableford', 'group', 'rounding']
+  const needsByHole = byGame.some((g) => !ownBreakdown.includes(g.game))
+  const byHole = needsByHole ? roundSettlementsByHole(round) : {}
+
+  const audits: PlayerAudit[] = round.players.map((player) => ({ player, netCents: 0, items: [] }))
+  for (const g of byGame) {
+    let items: Items
+    if (g.game === 'skins') items = skinsItems(round)
+    else if (g.game === 'wolf') items = wolfItems(round)
+    else if (g.game === 'bbb') items = bbbItems(round)
+    else if (g.game === 'quota') items = quotaItems(round)
+    else if (g.game === 'stableford') items = stablefordItems(round, g.settlement.netByPlayer)
+    else if (g.game === 'group') items = groupItems(round, g.settlement.netByPlayer)
+    else if (g.game === 'rounding') items = emptyItems(round)
+    else {
+      items = emptyItems(round)
+      const holes = byHole[g.game] || {}
+      for (const hole of roundHoles(round)) {
+        for (const [id, cents] of Object.entries(holes[hole] || {})) items[id]?.push({ hole, label: holeResultLabel(round, g.game, hole, id, cents), cents })
+      }
+    }
+
+    for (const a of audits) {
+      const net = g.settlement.netByPlayer[a.player.id] || 0
+      const list = (items[a.player.id] || []).filter((x) => x.cents !== 0)
+      // The round's rounding is one line; anything a breakdown can't place closes the gap, so the lines always sum to the net.
+      const rest = net - list.reduce((sum, x) => sum + x.cents, 0)
+      if (rest !== 0) list.push({ hole: null, label: g.game === 'rounding' ? `Rounding (${moneyRoundingLabel(round.moneyRounding)})` : 'End of round', cents: rest })
+      a.items.push(...list.map((x) => ({ ...x, source: g.game })))
+      a.netCents += net
+    }
+  }
+  return audits
+}
@@ -1,4 +1,4 @@
-import type { Player, PlayerId } from '../types'
+import type { Player, PlayerId, SettlementMatcher } from '../types'
 
 type SettlementLineShape = {
   from: Player
@@ -10,7 +10,7 @@ function cloneNet(players: Player[], netById: Record<PlayerId, number>) {
   return players.map((p) => ({ p, net: netById[p.id] || 0 }))
 }
 
-// Greedy debtor/creditor matcher used by all money settlement modes.
+// Greedy debtor/creditor matcher used by all money settlement modes (at most N - 1 payments, not always the fewest).
 export function settlementLinesFromNet(players: Player[], netByPlayer: Record<PlayerId, number>): SettlementLineShape[] {
   const creditors = cloneNet(players, netByPlayer)
     .filter((x) => x.net > 0)
@@ -40,3 +40,67 @@ export function settlementLinesFromNet(players: Player[], netByPlayer: Record<Pl
 
   return lines
 }
+
+// Past this many players with a balance the exact solver's 2^n table gets too big; greedy takes over.
+export const OPTIMAL_MATCHER_MAX_PLAYERS = 16
+
+// Exact minimum-payment matcher. A group of k players whose nets sum to zero settles in k - 1 payments,
+// so the fewest payments overall come from splitting everyone into as many zero-sum groups as possible.
+// dp[mask] = most zero-sum groups the players in `mask` can be split into (sum of mask must be 0 to finish).
+export function optimalSettlementLines(players: Player[], netByPlayer: Record<PlayerId, number>): SettlementLineShape[] {
+  const open = cloneNet(players, netByPlayer).filter((x) => x.net !== 0)
+  const n = open.length
+  if (n === 0) return []
+  if (n > OPTIMAL_MATCHER_MAX_PLAYERS) return settlementLinesFromNet(players, netByPlayer)
+
+  const full = (1 << n) - 1
+  const sum = new Array<number>(full + 1).fill(0)
+  for (let mask = 1; mask <= full; mask += 1) {
+    const low = mask & -mask
+    sum[mask] = sum[mask ^ low] + open[Math.log2(low)].net
+  }
+  if (sum[full] !== 0) return settlementLinesFromNet(players, netByPlayer)
+
+  const dp = new Array<number>(full + 1).fill(0)
+  const dropped = new Array<number>(full + 1).fill(-1) // player removed on the best path
+  for (let mask = 1; mask <= full; mask += 1) {
+    for (let i = 0; i < n; i += 1) {
+      if (!(mask & (1 << i))) continue
+      const prev = dp[mask ^ (1 << i)]
+      if (dropped[mask] === -1 || prev > dp[mask]) {
+        dp[mask] = prev
+        dropped[mask] = i
+      }
+    }
+    if (sum[mask] === 0) dp[mask] += 1
+  }
+
+  // Walk the best path back; each zero-sum mask along it closes off one group.
+  const groups: number[][] = []
+  let current: number[] = []
+  let mask = full
+  while (mask) {
+    const i = dropped[mask]
+    current.push(i)
+    mask ^= 1 << i
+    if (sum[mask] === 0) {
+      groups.push(current)
+      current = []
+    }
+  }
+
+  const lines: SettlementLineShape[] = []
+  for (const group of groups) {
+    const members = group.map((i) => open[i].p)
+    lines.push(...settlementLinesFromNet(members, netByPlayer))
+  }
+  return lines
+}
+
+export function settlementLinesForMatcher(
+  players: Player[],
+  netByPlayer: Record<PlayerId, number>,
+  matcher: SettlementMatcher | undefined,
+): SettlementLineShape[] {
+  return matcher === 'optimal' ? optimalSettlementLines(players, netByPlayer) : settlementLinesFromNet(players, netByPlayer)
+}
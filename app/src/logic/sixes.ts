@@ -0,0 +1,144 @@
+import type { HoleNumber, PlayerId, Round } from '../types'
+import { holePosition, roundHoles } from './holes'
+import type { MatchSide } from './match'
+import { formatMoneyShort } from './money'
+import { bestBall } from './wolf'
+
+// Six Sixes: 4 players, partners rotate every six holes so everyone partners everyone once.
+// Holes 1–6: 1+2 vs 3+4, 7–12: 1+3 vs 2+4, 13–18: 1+4 vs 2+3 (thirds of a 9-hole round).
+export type SixesSegment = {
+  index: number // 0..2
+  startHole: HoleNumber
+  endHole: HoleNumber
+  holeCount: number
+  sides: Record<MatchSide, PlayerId[]>
+  // Best-ball match over the segment's holes
+  up: number // + = side A up, - = side B up
+  through: number
+  status: 'open' | 'won' | 'halved'
+  winner: MatchSide | null
+  closedOnHole: HoleNumber | null
+  holesRemaining: number
+  dormie: boolean
+}
+
+export type SixesHoleResult = {
+  hole: HoleNumber
+  segment: number
+  winner: MatchSide | 'halved' | null // null = hole not fully entered
+  counted: boolean // false once the segment is closed out
+  up: number // segment status after this hole
+  through: number
+}
+
+export type SixesSummary = {
+  segments: SixesSegment[]
+  holeResults: SixesHoleResult[]
+  holesWonByPlayer: Record<PlayerId, number> // every hole the player's side won (overall bet)
+  complete: boolean // every hole entered
+}
+
+const PAIRINGS: [number, number, number, number][] = [
+  [0, 1, 2, 3],
+  [0, 2, 1, 3],
+  [0, 3, 1, 2],
+]
+
+export function sixesLabel(stakeCents: number): string {
+  return `${formatMoneyShort(stakeCents)}/segment`
+}
+
+function segmentLength(round: Round): number {
+  return Math.max(1, Math.ceil(roundHoles(round).length / 3))
+}
+
+// Which segment a hole belongs to, by play order.
+export function sixesSegmentIndex(round: Round, hole: HoleNumber): number {
+  const pos = Math.max(1, holePosition(round, hole))
+  return Math.min(2, Math.floor((pos - 1) / segmentLength(round)))
+}
+
+function sidesForSegment(round: Round, index: number): Record<MatchSide, PlayerId[]> {
+  const ids = round.players.map((p) => p.id)
+  if (ids.length !== 4) return { A: [], B: [] }
+  const [a1, a2, b1, b2] = PAIRINGS[index]
+  return { A: [ids[a1], ids[a2]], B: [ids[b1], ids[b2]] }
+}
+
+// Team pairing for a hole (Quick mode shows it the way Wolf shows the Wolf).
+export function sixesTeamsForHole(round: Round, hole: HoleNumber): { segment: number; sides: Record<MatchSide, PlayerId[]> } {
+  const segment = sixesSegmentIndex(round, hole)
+  return { segment, sides: sidesForSegment(round, segment) }
+}
+
+export function computeSixes(round: Round): SixesSummary {
+  const holes = roundHoles(round)
+  const len = segmentLength(round)
+
+  const segments: SixesSegment[] = []
+  for (let index = 0; index < 3; index += 1) {
+    const segHoles = holes.slice(index * len, (index + 1) * len)
+    if (segHoles.length === 0) continue
+    segments.push({
+      index,
+      startHole: segHoles[0],
+      endHole: segHoles[segHoles.length - 1],
+      holeCount: segHoles.length,
+      sides: sidesForSegment(round, index),
+      up: 0,
+      through: 0,
+      status: 'open',
+      winner: null,
+      closedOnHole: null,
+      holesRemaining: 0,
+      dormie: false,
+    })
+  }
+
+  const holesWonByPlayer: Record<PlayerId, number> = {}
+  for (const p of round.players) holesWonByPlayer[p.id] = 0
+
+  const holeResults: SixesHoleResult[] = []
+
+  for (const [i, hole] of holes.entries()) {
+    const seg = segments[Math.min(segments.length - 1, Math.floor(i / len))]
+    const strokes = round.strokesByHole[hole] || {}
+    const allEntered = round.players.every((p) => typeof strokes[p.id] === 'number')
+
+    if (!seg || !allEntered || seg.sides.A.length === 0) {
+      holeResults.push({ hole, segment: seg?.index ?? 0, winner: null, counted: false, up: seg?.up ?? 0, through: seg?.through ?? 0 })
+      continue
+    }
+
+    const bestA = bestBall(strokes, seg.sides.A)
+    const bestB = bestBall(strokes, seg.sides.B)
+    const winner: SixesHoleResult['winner'] = bestA < bestB ? 'A' : bestB < bestA ? 'B' : 'halved'
+    if (winner !== 'halved') {
+      for (const id of seg.sides[winner]) holesWonByPlayer[id] += 1
+    }
+
+    const counted = seg.status === 'open'
+    if (counted) {
+      seg.through += 1
+      if (winner === 'A') seg.up += 1
+      if (winner === 'B') seg.up -= 1
+
+      const remaining = seg.holeCount - (i - seg.index * len + 1)
+      if (Math.abs(seg.up) > remaining) {
+        seg.status = 'won'
+        seg.winner = seg.up > 0 ? 'A' : 'B'
+        seg.closedOnHole = hole
+        seg.holesRemaining = remaining
+      } else if (remaining === 0) {
+        seg.status = 'halved'
+        seg.closedOnHole = hole
+      }
+      seg.dormie = seg.status === 'open' && seg.up !== 0 && Math.abs(seg.up) === remaining
+    }
+
+    holeResults.push({ hole, segment: seg.index, winner, counted, up: seg.up, through: seg.through })
+  }
+
+  const complete = holeResults.length > 0 && holeResults.every((hr) => hr.winner !== null)
+  return { segments, holeResults, holesWonByPlayer, complete }
+}
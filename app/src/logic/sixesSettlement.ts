@@ -0,0 +1,63 @@
+import type { Player, PlayerId } from '../types'
+import type { SixesSegment, SixesSummary } from './sixes'
+import { settlementLinesFromNet } from './settlementMatcher'
+import type { Settlement, SettlementLine } from './wolfSettlement'
+
+export type SixesSegmentSettlement = {
+  segment: SixesSegment
+  settlement: Settlement
+}
+
+export type SixesSettlement = Settlement & {
+  bySegment: SixesSegmentSettlement[]
+  overall: Settlement | null // null when there is no overall bet
+}
+
+// Each segment is worth the stake per player: each player on the winning side collects it from one opponent.
+// Open or halved segments pay nothing yet.
+// Overall (optional, once every hole is in): each pair of players settles the stake, more holes won collects.
+export function computeSixesSettlement(players: Player[], summary: SixesSummary, segmentStakeCents: number, overallStakeCents: number): SixesSettlement {
+  const netByPlayer: Record<PlayerId, number> = {}
+  for (const p of players) netByPlayer[p.id] = 0
+
+  const bySegment: SixesSegmentSettlement[] = []
+
+  for (const segment of summary.segments) {
+    const net: Record<PlayerId, number> = {}
+    for (const p of players) net[p.id] = 0
+
+    if (segment.status === 'won' && segment.winner) {
+      const loser = segment.winner === 'A' ? 'B' : 'A'
+      for (const id of segment.sides[segment.winner]) net[id] += segmentStakeCents
+      for (const id of segment.sides[loser]) net[id] -= segmentStakeCents
+    }
+
+    for (const p of players) netByPlayer[p.id] += net[p.id]
+
+    const lines = settlementLinesFromNet(players, net) as SettlementLine[]
+    bySegment.push({ segment, settlement: { netByPlayer: net, lines } })
+  }
+
+  let overall: Settlement | null = null
+  if (overallStakeCents > 0) {
+    const net: Record<PlayerId, number> = {}
+    for (const p of players) net[p.id] = 0
+    if (summary.complete) {
+      for (const [i, a] of players.entries()) {
+        for (const b of players.slice(i + 1)) {
+          const diff = (summary.holesWonByPlayer[a.id] || 0) - (summary.holesWonByPlayer[b.id] || 0)
+          if (diff === 0) continue
+          const [w, l] = diff > 0 ? [a, b] : [b, a]
+          net[w.id] += overallStakeCents
+          net[l.id] -= overallStakeCents
+        }
+      }
+    }
+    for (const p of players) netByPlayer[p.id] += net[p.id]
+    overall = { netByPlayer: net, lines: settlementLinesFromNet(players, net) as SettlementLine[] }
+  }
+
+  const lines = settlementLinesFromNet(players, netByPlayer) as SettlementLine[]
+
+  return { netByPlayer, lines, bySegment, overall }
+}
@@ -1,53 +1,147 @@
-import type { HoleNumber, PlayerId, Round, SkinsSummary } from '../types';
+import type { Player, PlayerId, Round, SkinsCarryResolution, SkinsEndTies, SkinsPot, SkinsSummary } from '../types';
+import { parForHole } from './course';
+import { netScore, strokesReceivedByHole } from './handicap';
+import { roundHoles } from './holes';
+import { formatMoneyShort } from './money';
 
-function holes18(): HoleNumber[] {
-  return Array.from({ length: 18 }, (_, i) => (i + 1) as HoleNumber);
+export function stakeLabel(stakeCents: number): string {
+  return formatMoneyShort(stakeCents);
 }
 
-export function stakeLabel(stakeCents: number): string {
-  const dollars = stakeCents / 100;
-  return dollars % 1 === 0 ? `$${dollars.toFixed(0)}` : `$${dollars.toFixed(2)}`;
+// Pots played this round; 'both' plays a gross pot and a net pot side by side.
+export function skinsPots(round: Round): SkinsPot[] {
+  if (round.skinsScoring === 'net') return ['net'];
+  if (round.skinsScoring === 'both') return ['gross', 'net'];
+  return ['gross'];
+}
+
+export function skinsScoringLabel(round: Round): string {
+  if (round.skinsScoring === 'net') return 'Net';
+  if (round.skinsScoring === 'both') return 'Gross + Net';
+  return 'Gross';
+}
+
+export function skinsPayoutLabel(round: Round): string {
+  if (round.skinsPayout === 'pot') return `${stakeLabel(round.skinsPotCents || 0)} pot/player`;
+  return `${stakeLabel(round.stakeCents || 0)}/skin`;
+}
+
+export function skinsEndTiesLabel(rule: SkinsEndTies): string {
+  if (rule === 'split') return 'Split';
+  if (rule === 'playoff') return 'Playoff';
+  return 'Forfeit';
+}
+
+// Carry cap, validation and end-of-round ties; empty when the round plays the plain rules.
+export function skinsRulesLabel(round: Round): string {
+  const parts: string[] = [];
+  if ((round.skinsCarryCap || 0) > 0) parts.push(`Carry cap ${round.skinsCarryCap}`);
+  if (round.skinsValidation) parts.push('Validation');
+  if (round.skinsEndTies && round.skinsEndTies !== 'forfeit') parts.push(`End ties: ${skinsEndTiesLabel(round.skinsEndTies)}`);
+  return parts.join(' • ');
+}
+
+// Split skins can be fractional (3 skins between 2 players = 1.5 each).
+export function skinsCountLabel(n: number): string {
+  return Number.isInteger(n) ? String(n) : String(Number(n.toFixed(2)));
 }
 
-export function computeSkins(round: Round): SkinsSummary {
+export function skinsCarryResolutionLabel(players: Player[], resolution: SkinsCarryResolution): string {
+  const names = resolution.winnerIds.map((id) => players.find((p) => p.id === id)?.name || '—').join(', ');
+  const n = `${resolution.skins} carried skin${resolution.skins === 1 ? '' : 's'}`;
+  if (resolution.rule === 'split') return `${n} split: ${names}`;
+  if (resolution.rule === 'playoff') return resolution.pending ? `${n} to a playoff (pending)` : `${n} won in a playoff: ${names}`;
+  return `${n} forfeited`;
+}
+
+export function computeSkins(round: Round, pot: SkinsPot = skinsPots(round)[0]): SkinsSummary {
   const skinsWon: Record<PlayerId, number> = {};
   for (const p of round.players) skinsWon[p.id] = 0;
 
+  const strokeOpts = { halfStrokes: !!round.skinsHalfStrokes, offLow: !!round.skinsOffLow };
+  const received = strokesReceivedByHole(round, strokeOpts);
+
   const holeResults = [] as SkinsSummary['holeResults'];
+  const cap = round.skinsCarryCap || 0;
   let carry = 0;
+  let allEntered = true;
+  let lastLow: PlayerId[] = [];
 
-  for (const hole of holes18()) {
+  for (const hole of roundHoles(round)) {
+    const par = parForHole(round, hole);
     const strokes = round.strokesByHole[hole] || {};
+
+    const grossScores: Record<PlayerId, number | null> = {};
+    const netScores: Record<PlayerId, number | null> = {};
+    const strokesReceived: Record<PlayerId, number> = {};
+    for (const p of round.players) {
+      const v = strokes[p.id];
+      const dots = pot === 'net' ? received[hole]?.[p.id] || 0 : 0;
+      strokesReceived[p.id] = dots;
+      grossScores[p.id] = typeof v === 'number' ? v : null;
+      netScores[p.id] = typeof v === 'number' ? netScore(v, dots, strokeOpts) : null;
+    }
+    const scores = { grossScores, netScores, strokesReceived };
+
     const entries = round.players
-      .map((p) => ({ id: p.id, v: strokes[p.id] }))
+      .map((p) => ({ id: p.id, v: netScores[p.id] }))
       .filter((e) => typeof e.v === 'number') as { id: PlayerId; v: number }[];
 
     // If hole not fully entered, treat as no result yet.
     // (We still report carry so UI can show it.)
     if (entries.length < round.players.length) {
-      holeResults.push({ hole, carrySkins: carry, winnerId: null, wonSkins: 0 });
+      allEntered = false;
+      holeResults.push({ hole, carrySkins: carry, winnerId: null, wonSkins: 0, carryAfter: carry, carryHeld: false, par, lowScore: null, ...scores });
       continue;
     }
 
     const min = Math.min(...entries.map((e) => e.v));
     const winners = entries.filter((e) => e.v === min);
+    // Only a tie for low can split the leftover carry; an outright winner whose carry was held leaves nobody to split it.
+    lastLow = winners.length > 1 ? winners.map((e) => e.id) : [];
 
     if (winners.length === 1) {
       const winnerId = winners[0].id;
-      const wonSkins = 1 + carry;
+      // Validation: a carry needs par or better to be collected; otherwise the winner takes this hole's skin only.
+      const held = !!round.skinsValidation && carry > 0 && par !== null && min > par;
+      const wonSkins = held ? 1 : 1 + carry;
+      const carryAfter = held ? carry : 0;
       skinsWon[winnerId] += wonSkins;
-      holeResults.push({ hole, carrySkins: carry, winnerId, wonSkins });
-      carry = 0;
+      holeResults.push({ hole, carrySkins: carry, winnerId, wonSkins, carryAfter, carryHeld: held, par, lowScore: min, ...scores });
+      carry = carryAfter;
     } else {
-      // tie low: carry to next hole
-      holeResults.push({ hole, carrySkins: carry, winnerId: null, wonSkins: 0 });
-      carry += 1;
+      // tie low: carry to next hole (up to the cap)
+      const carryAfter = cap > 0 ? Math.min(carry + 1, cap) : carry + 1;
+      holeResults.push({ hole, carrySkins: carry, winnerId: null, wonSkins: 0, carryAfter, carryHeld: false, par, lowScore: min, ...scores });
+      carry = carryAfter;
     }
   }
 
+  const carryResolution = allEntered && carry > 0 ? resolveCarry(round, pot, carry, lastLow) : null;
+  if (carryResolution) {
+    for (const id of carryResolution.winnerIds) skinsWon[id] += carry / carryResolution.winnerIds.length;
+  }
+
   return {
+    pot,
     holeResults,
     skinsWon,
     carryToNext: carry,
+    carryResolution,
   };
 }
+
+function resolveCarry(round: Round, pot: SkinsPot, skins: number, lastLow: PlayerId[]): SkinsCarryResolution {
+  const rule = round.skinsEndTies || 'forfeit';
+  if (rule === 'split') {
+    if (lastLow.length > 1) return { rule, skins, winnerIds: lastLow, pending: false };
+    // Held by validation on the last hole: nobody tied, so the carry goes the forfeit way.
+    return { rule: 'forfeit', skins, winnerIds: [], pending: false };
+  }
+  if (rule === 'playoff') {
+    const winnerId = round.skinsPlayoffWinnerByPot?.[pot];
+    const valid = !!winnerId && round.players.some((p) => p.id === winnerId);
+    return { rule, skins, winnerIds: valid ? [winnerId] : [], pending: !valid };
+  }
+  return { rule, skins, winnerIds: [], pending: false };
+}
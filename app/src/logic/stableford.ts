@@ -0,0 +1,97 @@
+import type { HoleNumber, PlayerId, Round, StablefordTable, StablefordTableName } from '../types'
+import { DEFAULT_PAR, parForHole } from './course'
+import { strokesReceivedByHole } from './handicap'
+import { roundHoles } from './holes'
+import { formatMoneyShort } from './money'
+
+export const STABLEFORD_TABLES: Record<Exclude<StablefordTableName, 'custom'>, StablefordTable> = {
+  standard: { albatross: 5, eagle: 4, birdie: 3, par: 2, bogey: 1, double: 0 },
+  // PGA Tour modified Stableford.
+  modified: { albatross: 8, eagle: 5, birdie: 2, par: 0, bogey: -1, double: -3 },
+}
+
+export type StablefordHoleResult = {
+  hole: HoleNumber
+  par: number
+  scores: Record<PlayerId, number | null> // gross, or net when playing net
+  points: Record<PlayerId, number | null> // null = no score entered
+  strokesReceived: Record<PlayerId, number> // 0 unless playing net
+}
+
+export type StablefordSummary = {
+  holeResults: StablefordHoleResult[]
+  pointsByPlayer: Record<PlayerId, number>
+  holesByPlayer: Record<PlayerId, number> // holes scored
+}
+
+export function stablefordTable(round: Round): StablefordTable {
+  const name = round.stablefordTable || 'standard'
+  if (name === 'custom') return round.stablefordCustomTable || STABLEFORD_TABLES.standard
+  return STABLEFORD_TABLES[name]
+}
+
+export function stablefordTableLabel(round: Round): string {
+  const name = round.stablefordTable || 'standard'
+  const base = name === 'modified' ? 'Modified' : name === 'custom' ? 'Custom' : 'Standard'
+  return round.stablefordNet ? `${base} • Net` : base
+}
+
+export function stablefordPayoutLabel(round: Round): string {
+  if (round.stablefordPayout === 'pot') {
+    const cents = round.stablefordPotCents || 0
+    return cents > 0 ? `${formatMoneyShort(cents)} pot/player` : 'Points'
+  }
+  const cents = round.stablefordDollarsPerPointCents || 0
+  return cents > 0 ? `${formatMoneyShort(cents)}/pt` : 'Points'
+}
+
+export function stablefordPoints(strokes: number, par: number, table: StablefordTable): number {
+  const d = strokes - par
+  if (d <= -3) return table.albatross
+  if (d === -2) return table.eagle
+  if (d === -1) return table.birdie
+  if (d === 0) return table.par
+  if (d === 1) return table.bogey
+  return table.double
+}
+
+export function computeStableford(round: Round): StablefordSummary {
+  const table = stablefordTable(round)
+  const received = round.stablefordNet ? strokesReceivedByHole(round) : null
+
+  const pointsByPlayer: Record<PlayerId, number> = {}
+  const holesByPlayer: Record<PlayerId, number> = {}
+  for (const p of round.players) {
+    pointsByPlayer[p.id] = 0
+    holesByPlayer[p.id] = 0
+  }
+
+  const holeResults: StablefordHoleResult[] = []
+  for (const hole of roundHoles(round)) {
+    const par = parForHole(round, hole) ?? DEFAULT_PAR
+    const strokes = round.strokesByHole[hole] || {}
+    const scores: Record<PlayerId, number | null> = {}
+    const points: Record<PlayerId, number | null> = {}
+    const strokesReceived: Record<PlayerId, number> = {}
+
+    for (const p of round.players) {
+      strokesReceived[p.id] = received?.[hole]?.[p.id] || 0
+      const v = strokes[p.id]
+      if (typeof v !== 'number') {
+        scores[p.id] = null
+        points[p.id] = null
+        continue
+      }
+      const score = v - strokesReceived[p.id]
+      const pts = stablefordPoints(score, par, table)
+      scores[p.id] = score
+      points[p.id] = pts
+      pointsByPlayer[p.id] += pts
+      holesByPlayer[p.id] += 1
+    }
+
+    holeResults.push({ hole, par, scores, points, strokesReceived })
+  }
+
+  return { holeResults, pointsByPlayer, holesByPlayer }
+}
@@ -0,0 +1,45 @@
+import type { Player, PlayerId, Round } from '../types'
+import { settlementLinesFromNet } from './settlementMatcher'
+import type { StablefordSummary } from './stableford'
+import { computeWolfSettlement, type Settlement, type SettlementLine } from './wolfSettlement'
+
+// Stableford totals are not zero-sum, so per-point payouts settle the difference between each pair:
+// a player's relative points are N × their points minus the group total.
+export function stablefordRelativePoints(players: Player[], pointsByPlayer: Record<PlayerId, number>): Record<PlayerId, number> {
+  const total = players.reduce((sum, p) => sum + (pointsByPlayer[p.id] || 0), 0)
+  const out: Record<PlayerId, number> = {}
+  for (const p of players) out[p.id] = players.length * (pointsByPlayer[p.id] || 0) - total
+  return out
+}
+
+// Pot: everyone buys in, the high total takes it (ties split; odd cents go to the earlier player).
+function potSettlement(players: Player[], pointsByPlayer: Record<PlayerId, number>, buyInCents: number): Settlement {
+  const netByPlayer: Record<PlayerId, number> = {}
+  for (const p of players) netByPlayer[p.id] = -buyInCents
+
+  const best = Math.max(...players.map((p) => pointsByPlayer[p.id] || 0))
+  const winners = players.filter((p) => (pointsByPlayer[p.id] || 0) === best)
+  const pot = buyInCents * players.length
+  const share = Math.floor(pot / winners.length)
+  let remainder = pot - share * winners.length
+  for (const w of winners) {
+    netByPlayer[w.id] += share + (remainder > 0 ? 1 : 0)
+    if (remainder > 0) remainder -= 1
+  }
+
+  const lines = settlementLinesFromNet(players, netByPlayer) as SettlementLine[]
+  return { netByPlayer, lines }
+}
+
+// Null when the round has no money attached (standings only).
+export function computeStablefordSettlement(round: Round, summary: StablefordSummary): Settlement | null {
+  if (round.players.length === 0) return null
+  if (round.stablefordPayout === 'pot') {
+    const buyIn = round.stablefordPotCents || 0
+    if (buyIn <= 0) return null
+    return potSettlement(round.players, summary.pointsByPlayer, buyIn)
+  }
+  const cents = round.stablefordDollarsPerPointCents || 0
+  if (cents <= 0) return null
+  return computeWolfSettlement(round.players, stablefordRelativePoints(round.players, summary.pointsByPlayer), cents)
+}
@@ -7,8 +7,16 @@ export const TRACK_EVENTS = {
   round_unlock: 'round_unlock',
   share_status: 'share_status',
   share_settlement: 'share_settlement',
+  share_ledger: 'share_ledger',
+  payment_record: 'payment_record',
+  payment_link_open: 'payment_link_open',
   bbb_award_set: 'bbb_award_set',
   bbb_hole_clear: 'bbb_hole_clear',
+  nassau_press: 'nassau_press',
+  junk_dot_toggle: 'junk_dot_toggle',
+  hammer_call: 'hammer_call',
+  putts_set: 'putts_set',
+  course_save: 'course_save',
   debug_export: 'debug_export',
   debug_clear: 'debug_clear',
 } as const
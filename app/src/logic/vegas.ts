@@ -0,0 +1,102 @@
+import type { HoleNumber, Player, PlayerId, Round } from '../types'
+import { DEFAULT_PAR, parForHole } from './course'
+import { roundHoles } from './holes'
+import { formatMoneyShort } from './money'
+
+export type VegasSide = 'A' | 'B'
+
+export type VegasHoleResult = {
+  hole: HoleNumber
+  par: number
+  numbers: Record<VegasSide, number> | null // after any flip; null = hole not fully entered
+  flipped: VegasSide | null // side whose number was flipped by the other side's birdie
+  winner: VegasSide | 'halved' | null
+  points: number // difference between the numbers, won by `winner`
+  pointsDeltaByPlayer: Record<PlayerId, number>
+}
+
+export type VegasSummary = {
+  sides: Record<VegasSide, PlayerId[]>
+  holeResults: VegasHoleResult[]
+  pointsBySide: Record<VegasSide, number> // running total; + = that side is ahead
+  pointsByPlayer: Record<PlayerId, number>
+}
+
+// Fixed teams: 1+2 vs 3+4.
+export function vegasSides(players: Player[]): Record<VegasSide, PlayerId[]> {
+  return {
+    A: players.slice(0, 2).map((p) => p.id),
+    B: players.slice(2, 4).map((p) => p.id),
+  }
+}
+
+export function vegasLabel(dollarsPerPointCents?: number): string {
+  if (!dollarsPerPointCents) return 'Points'
+  return `${formatMoneyShort(dollarsPerPointCents)}/pt`
+}
+
+// Low score first (4 and 5 → 45). A score of 10+ can't be a single digit, so it leads (4 and 10 → 104).
+// Flipped puts the high score first (4 and 5 → 54).
+export function vegasNumber(a: number, b: number, flipped = false): number {
+  const low = Math.min(a, b)
+  const high = Math.max(a, b)
+  if (high >= 10 || flipped) return Number(`${high}${low}`)
+  return Number(`${low}${high}`)
+}
+
+export function computeVegas(round: Round): VegasSummary {
+  const sides = vegasSides(round.players)
+  const birdieFlip = round.vegasBirdieFlip !== false
+
+  const pointsBySide: Record<VegasSide, number> = { A: 0, B: 0 }
+  const pointsByPlayer: Record<PlayerId, number> = {}
+  for (const p of round.players) pointsByPlayer[p.id] = 0
+
+  const holeResults: VegasHoleResult[] = []
+
+  for (const hole of roundHoles(round)) {
+    const par = parForHole(round, hole) ?? DEFAULT_PAR
+    const strokes = round.strokesByHole[hole] || {}
+
+    const pointsDeltaByPlayer: Record<PlayerId, number> = {}
+    for (const p of round.players) pointsDeltaByPlayer[p.id] = 0
+
+    const allEntered = round.players.every((p) => typeof strokes[p.id] === 'number')
+    if (!allEntered || sides.A.length !== 2 || sides.B.length !== 2) {
+      holeResults.push({ hole, par, numbers: null, flipped: null, winner: null, points: 0, pointsDeltaByPlayer })
+      continue
+    }
+
+    const scoresA = sides.A.map((id) => strokes[id] as number)
+    const scoresB = sides.B.map((id) => strokes[id] as number)
+
+    // A birdie flips the other side's number, unless both sides birdied.
+    let flipped: VegasSide | null = null
+    if (birdieFlip) {
+      const birdieA = scoresA.some((s) => s < par)
+      const birdieB = scoresB.some((s) => s < par)
+      if (birdieA && !birdieB) flipped = 'B'
+      if (birdieB && !birdieA) flipped = 'A'
+    }
+
+    const numbers: Record<VegasSide, number> = {
+      A: vegasNumber(scoresA[0], scoresA[1], flipped === 'A'),
+      B: vegasNumber(scoresB[0], scoresB[1], flipped === 'B'),
+    }
+    const winner: VegasHoleResult['winner'] = numbers.A < numbers.B ? 'A' : numbers.B < numbers.A ? 'B' : 'halved'
+    const points = Math.abs(numbers.A - numbers.B)
+
+    if (winner !== 'halved') {
+      const loser: VegasSide = winner === 'A' ? 'B' : 'A'
+      pointsBySide[winner] += points
+      pointsBySide[loser] -= points
+      for (const id of sides[winner]) pointsDeltaByPlayer[id] = points
+      for (const id of sides[loser]) pointsDeltaByPlayer[id] = -points
+      for (const p of round.players) pointsByPlayer[p.id] += pointsDeltaByPlayer[p.id]
+    }
+
+    holeResults.push({ hole, par, numbers, flipped, winner, points, pointsDeltaByPlayer })
+  }
+
+  return { sides, holeResults, pointsBySide, pointsByPlayer }
+}
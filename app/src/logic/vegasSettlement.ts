@@ -0,0 +1,17 @@
+import type { Player, PlayerId } from '../types'
+import { settlementLinesFromNet } from './settlementMatcher'
+import type { Settlement, SettlementLine } from './wolfSettlement'
+
+// Vegas points are already zero-sum (each player carries their team's +/- difference),
+// so each point is simply worth $/pt to that player.
+export function computeVegasSettlement(players: Player[], pointsByPlayer: Record<PlayerId, number>, dollarsPerPointCents: number): Settlement {
+  const netByPlayer: Record<PlayerId, number> = {}
+  for (const p of players) {
+    const pts = pointsByPlayer[p.id] || 0
+    netByPlayer[p.id] = pts * dollarsPerPointCents
+  }
+
+  const lines = settlementLinesFromNet(players, netByPlayer) as SettlementLine[]
+
+  return { netByPlayer, lines }
+}
@@ -1,20 +1,34 @@
 import type { HoleNumber, PlayerId, Round } from '../types'
+import { parForHole } from './course'
+import { holePosition, roundHoles } from './holes'
+
+// team = Wolf + partner vs the rest; lone/blind = Wolf alone (blind is declared before the tee shot);
+// pig = the chosen partner rejects the Wolf and plays alone against everyone else.
+export type WolfMode = 'team' | 'lone' | 'blind' | 'pig'
 
 export type WolfHoleResult = {
   hole: HoleNumber
   wolfId: PlayerId
-  partnerId: PlayerId | null // null = lone wolf
+  partnerId: PlayerId | null // null = lone/blind wolf
+  mode: WolfMode
+  loneId: PlayerId | null // player going alone (the Wolf, or the Pig); null on team holes
+  // From the Wolf's side; on a Pig hole the Wolf plays with the field.
   status: 'incomplete' | 'tie' | 'wolfWin' | 'wolfLose'
+  carriedTies: number // tied holes carried into this one (always 0 unless ties carry)
+  lastPlaceWolf: boolean // Wolf picked by last place on the final two holes, not the rotation
+  par: number | null // from Round.course
   pointsDeltaByPlayer: Record<PlayerId, number>
 }
 
 export type WolfSummary = {
   pointsByPlayer: Record<PlayerId, number>
   holeResults: WolfHoleResult[]
+  carryToNext: number // tied holes waiting on the next decided hole
 }
 
-function holes18(): HoleNumber[] {
-  return Array.from({ length: 18 }, (_, i) => (i + 1) as HoleNumber)
+// Low score among a side's players (best ball); every score must be entered.
+export function bestBall(scores: Record<PlayerId, number | null>, ids: PlayerId[]): number {
+  return Math.min(...ids.map((id) => scores[id] as number))
 }
 
 export function wolfLabel(pointsPerHole?: number): string {
@@ -22,10 +36,44 @@ export function wolfLabel(pointsPerHole?: number): string {
   return `${p} pt/hole`
 }
 
-function getWolfId(round: Round, hole: HoleNumber): PlayerId {
+function rotationIndex(round: Round, hole: HoleNumber): number {
   const start = typeof round.wolfStartingIndex === 'number' ? round.wolfStartingIndex : 0
-  const idx = (start + (hole - 1)) % round.players.length
-  return round.players[idx].id
+  // Rotation follows play order, so a shotgun start on 7 still has the first Wolf on 7.
+  const pos = Math.max(1, holePosition(round, hole))
+  return (start + (pos - 1)) % round.players.length
+}
+
+// House rule: whoever is last on points is the Wolf on the final two holes.
+// Ties for last go to whoever comes first in the normal rotation from that hole.
+function lastPlaceRuleApplies(round: Round, hole: HoleNumber): boolean {
+  return !!round.wolfLastPlaceFinal && holePosition(round, hole) > roundHoles(round).length - 2
+}
+
+function getWolfId(round: Round, hole: HoleNumber, pointsByPlayer?: Record<PlayerId, number>): PlayerId {
+  const idx = rotationIndex(round, hole)
+  if (!pointsByPlayer || !lastPlaceRuleApplies(round, hole)) return round.players[idx].id
+  const inRotation = round.players.map((_, i) => round.players[(idx + i) % round.players.length])
+  const low = Math.min(...inRotation.map((p) => pointsByPlayer[p.id] || 0))
+  return (inRotation.find((p) => (pointsByPlayer[p.id] || 0) === low) || round.players[idx]).id
+}
+
+export function wolfModeLabel(mode: WolfMode): string {
+  if (mode === 'lone') return 'Lone Wolf'
+  if (mode === 'blind') return 'Blind Wolf'
+  if (mode === 'pig') return 'Pig'
+  return 'Wolf + partner'
+}
+
+function modeFor(round: Round, hole: HoleNumber, wolfId: PlayerId): WolfMode {
+  if (round.wolfBlindByHole?.[hole]) return 'blind'
+  const partnerId = round.wolfPartnerByHole?.[hole] ?? null
+  // If partner not chosen, treat as lone wolf.
+  if (!partnerId || partnerId === wolfId) return 'lone'
+  return round.wolfPigByHole?.[hole] ? 'pig' : 'team'
+}
+
+export function wolfMode(round: Round, hole: HoleNumber): WolfMode {
+  return modeFor(round, hole, wolfForHole(round, hole).wolfId)
 }
 
 export function computeWolf(round: Round): WolfSummary {
@@ -35,11 +83,22 @@ export function computeWolf(round: Round): WolfSummary {
   const holeResults: WolfHoleResult[] = []
 
   const pts = typeof round.wolfPointsPerHole === 'number' ? round.wolfPointsPerHole : 1
-  const loneMult = typeof round.wolfLoneMultiplier === 'number' ? round.wolfLoneMultiplier : 2
+  const multiplier: Record<Exclude<WolfMode, 'team'>, number> = {
+    lone: typeof round.wolfLoneMultiplier === 'number' ? round.wolfLoneMultiplier : 2,
+    blind: typeof round.wolfBlindMultiplier === 'number' ? round.wolfBlindMultiplier : 3,
+    pig: typeof round.wolfPigMultiplier === 'number' ? round.wolfPigMultiplier : 2,
+  }
 
-  for (const hole of holes18()) {
-    const wolfId = getWolfId(round, hole)
-    const partnerId = (round.wolfPartnerByHole?.[hole] ?? null) as PlayerId | null
+  const carryTies = !!round.wolfCarryTies
+  let carry = 0
+
+  for (const hole of roundHoles(round)) {
+    const wolfId = getWolfId(round, hole, pointsByPlayer)
+    const lastPlaceWolf = lastPlaceRuleApplies(round, hole)
+    const par = parForHole(round, hole)
+    const mode = modeFor(round, hole, wolfId)
+    const partnerId = mode === 'team' || mode === 'pig' ? ((round.wolfPartnerByHole?.[hole] ?? null) as PlayerId | null) : null
+    const loneId = mode === 'team' ? null : mode === 'pig' ? partnerId : wolfId
 
     const strokes = round.strokesByHole[hole] || {}
     const allEntered = round.players.every((p) => typeof strokes[p.id] === 'number')
@@ -47,56 +106,72 @@ export function computeWolf(round: Round): WolfSummary {
     const pointsDeltaByPlayer: Record<PlayerId, number> = {}
     for (const p of round.players) pointsDeltaByPlayer[p.id] = 0
 
+    const carriedTies = carry
+    const base = { hole, wolfId, partnerId, mode, loneId, carriedTies, lastPlaceWolf, par, pointsDeltaByPlayer }
+    // A decided hole also wins the points from tied holes carried into it.
+    const holePts = pts * (1 + carriedTies)
+
     if (!allEntered) {
-      holeResults.push({ hole, wolfId, partnerId, status: 'incomplete', pointsDeltaByPlayer })
+      holeResults.push({ ...base, status: 'incomplete' })
       continue
     }
 
-    // If partner not chosen, treat as lone wolf.
-    if (!partnerId || partnerId === wolfId) {
-      const wolfScore = strokes[wolfId] as number
-      const others = round.players.filter((p) => p.id !== wolfId)
-      const othersBest = Math.min(...others.map((p) => strokes[p.id] as number))
-
-      if (wolfScore < othersBest) {
-        pointsDeltaByPlayer[wolfId] += pts * loneMult
-        holeResults.push({ hole, wolfId, partnerId: null, status: 'wolfWin', pointsDeltaByPlayer })
-      } else if (wolfScore > othersBest) {
-        pointsDeltaByPlayer[wolfId] -= pts * loneMult
-        holeResults.push({ hole, wolfId, partnerId: null, status: 'wolfLose', pointsDeltaByPlayer })
+    // Zero-sum every hole: each player on the losing side pays half the hole's value to each player on the
+    // winning side. A 2v2 hole stays worth the hole's points to each player; uneven sides (2v1, 2v3, one
+    // against the field) are weighted by the other side's size.
+    if (mode !== 'team' && loneId) {
+      // One player against the best ball of everyone else.
+      const loneScore = strokes[loneId] as number
+      const others = round.players.filter((p) => p.id !== loneId)
+      const othersBest = bestBall(strokes, others.map((p) => p.id))
+      const value = (holePts * multiplier[mode]) / 2
+
+      if (loneScore === othersBest) {
+        holeResults.push({ ...base, status: 'tie' })
       } else {
-        holeResults.push({ hole, wolfId, partnerId: null, status: 'tie', pointsDeltaByPlayer })
+        const loneWon = loneScore < othersBest
+        pointsDeltaByPlayer[loneId] += (loneWon ? value : -value) * others.length
+        for (const p of others) pointsDeltaByPlayer[p.id] += loneWon ? -value : value
+        const wolfWon = loneWon === (loneId === wolfId)
+        holeResults.push({ ...base, status: wolfWon ? 'wolfWin' : 'wolfLose' })
       }
     } else {
-      // 2v2 best-ball
-      const wolfTeam = [wolfId, partnerId]
+      // Wolf + partner best ball vs the rest (2v2 with 4 players, 2v1 with 3, 2v3 with 5)
+      const wolfTeam = [wolfId, partnerId as PlayerId]
       const otherTeam = round.players.map((p) => p.id).filter((id) => id !== wolfId && id !== partnerId)
 
-      const wolfBest = Math.min(...wolfTeam.map((id) => strokes[id] as number))
-      const otherBest = Math.min(...otherTeam.map((id) => strokes[id] as number))
+      const wolfBest = bestBall(strokes, wolfTeam)
+      const otherBest = bestBall(strokes, otherTeam)
 
       if (wolfBest < otherBest) {
-        for (const id of wolfTeam) pointsDeltaByPlayer[id] += pts
-        for (const id of otherTeam) pointsDeltaByPlayer[id] -= pts
-        holeResults.push({ hole, wolfId, partnerId, status: 'wolfWin', pointsDeltaByPlayer })
+        for (const id of wolfTeam) pointsDeltaByPlayer[id] += (holePts * otherTeam.length) / 2
+        for (const id of otherTeam) pointsDeltaByPlayer[id] -= (holePts * wolfTeam.length) / 2
+        holeResults.push({ ...base, status: 'wolfWin' })
       } else if (wolfBest > otherBest) {
-        for (const id of wolfTeam) pointsDeltaByPlayer[id] -= pts
-        for (const id of otherTeam) pointsDeltaByPlayer[id] += pts
-        holeResults.push({ hole, wolfId, partnerId, status: 'wolfLose', pointsDeltaByPlayer })
+        for (const id of wolfTeam) pointsDeltaByPlayer[id] -= (holePts * otherTeam.length) / 2
+        for (const id of otherTeam) pointsDeltaByPlayer[id] += (holePts * wolfTeam.length) / 2
+        holeResults.push({ ...base, status: 'wolfLose' })
       } else {
-        holeResults.push({ hole, wolfId, partnerId, status: 'tie', pointsDeltaByPlayer })
+        holeResults.push({ ...base, status: 'tie' })
       }
     }
 
+    if (carryTies) carry = holeResults[holeResults.length - 1].status === 'tie' ? carry + 1 : 0
+
     // apply
     for (const [id, d] of Object.entries(pointsDeltaByPlayer)) {
       pointsByPlayer[id as PlayerId] = (pointsByPlayer[id as PlayerId] || 0) + d
     }
   }
 
-  return { pointsByPlayer, holeResults }
+  return { pointsByPlayer, holeResults, carryToNext: carry }
 }
 
 export function wolfForHole(round: Round, hole: HoleNumber): { wolfId: PlayerId } {
+  // Last place depends on the standings so far, so those holes need the round scored up to them.
+  if (lastPlaceRuleApplies(round, hole)) {
+    const hr = computeWolf(round).holeResults.find((x) => x.hole === hole)
+    if (hr) return { wolfId: hr.wolfId }
+  }
   return { wolfId: getWolfId(round, hole) }
 }
@@ -1,5 +1,6 @@
-import type { Player, PlayerId } from '../types'
-import { settlementLinesFromNet } from './settlementMatcher'
+import type { Player, PlayerId, SettlementMatcher } from '../types'
+import { roundNetByPlayer } from './money'
+import { settlementLinesForMatcher } from './settlementMatcher'
 
 export type SettlementLine = {
   from: Player
@@ -12,15 +13,22 @@ export type Settlement = {
   lines: SettlementLine[]
 }
 
-// Convert point standings to suggested payments given $/point.
-export function computeWolfSettlement(players: Player[], pointsByPlayer: Record<PlayerId, number>, dollarsPerPointCents: number): Settlement {
-  const netByPlayer: Record<PlayerId, number> = {}
+// Convert point standings to suggested payments given $/point (matcher defaults to greedy).
+export function computeWolfSettlement(
+  players: Player[],
+  pointsByPlayer: Record<PlayerId, number>,
+  dollarsPerPointCents: number,
+  matcher?: SettlementMatcher,
+): Settlement {
+  const exact: Record<PlayerId, number> = {}
   for (const p of players) {
     const pts = pointsByPlayer[p.id] || 0
-    netByPlayer[p.id] = pts * dollarsPerPointCents
+    exact[p.id] = pts * dollarsPerPointCents
   }
+  // Half points (uneven Wolf sides) can leave half cents; whole cents, still zero-sum.
+  const netByPlayer = roundNetByPlayer(players, exact, 1)
 
-  const lines = settlementLinesFromNet(players, netByPlayer) as SettlementLine[]
+  const lines = settlementLinesForMatcher(players, netByPlayer, matcher) as SettlementLine[]
 
   return { netByPlayer, lines }
 }
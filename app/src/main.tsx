@@ -3,8 +3,16 @@ import { createRoot } from 'react-dom/client'
 import { ChakraProvider } from '@chakra-ui/react'
 import './index.css'
 import App from './App.tsx'
+import { setMoneyFormat } from './logic/money'
+import { loadMoneyFormat, loadRounds } from './storage'
 import { theme } from './theme'
 
+// The device's locale and the active round's currency (the device default without one), so every amount
+// formats with them from the first render.
+const money = loadMoneyFormat()
+const stored = loadRounds()
+setMoneyFormat({ ...money, currency: stored.rounds.find((r) => r.id === stored.activeRoundId)?.currency || money.currency })
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <ChakraProvider theme={theme}>
@@ -0,0 +1,306 @@
+import type { Round } from './types'
+import { DEFAULT_GROUP_PAYOUT } from './logic/group'
+
+export function uid(prefix = 'id') {
+  return `${prefix}_${Math.random().toString(16).slice(2)}_${Date.now()}`
+}
+
+function pick<T>(arr: T[]): T {
+  return arr[Math.floor(Math.random() * arr.length)]
+}
+
+export function randomSkinsName(): string {
+  // A little funny/rowdy, but still "golf tournament" flavored.
+  const adjectives = [
+    'Back Nine',
+    'Cart Path',
+    'Breakfast Ball',
+    'Mulligan',
+    'Sand Trap',
+    'Fairway',
+    'Range Rat',
+    'Caddie Shack',
+    'Turn Dog',
+    'Sunset',
+    'Birdie Juice',
+    'Wedge Wizard',
+    'Short Game',
+    'Greenside',
+    'Dad Golf',
+  ]
+
+  const nouns = ['Open', 'Invitational', 'Classic', 'Cup', 'Championship', 'Showdown', 'Shootout', 'Rumble', 'Skins Game']
+
+  const suffixes = ['(No Gimmes)', '(All Gimmes)', '(Low Drama)', '(High Drama)', '(Respectfully)', '(Allegedly)']
+
+  const base = `${pick(adjectives)} ${pick(nouns)}`
+  // Keep it playful but not always noisy.
+  return Math.random() < 0.35 ? `${base} ${pick(suffixes)}` : base
+}
+
+export function randomWolfName(): string {
+  const adjectives = ['Wolf', 'Lone Wolf', 'Pack', 'Cart Path', 'Trash Talk', 'Breakfast Ball', 'Wedge Wizard', 'Birdie Juice', 'Back Nine']
+  const nouns = ['Classic', 'Open', 'Invitational', 'Showdown', 'Shootout', 'Rumble']
+  const suffixes = ['(No Mercy)', '(Respectfully)', '(Allegedly)', '(No Gimmes)']
+
+  const base = `${pick(adjectives)} ${pick(nouns)}`
+  return Math.random() < 0.35 ? `${base} ${pick(suffixes)}` : base
+}
+
+export function randomBBBName(): string {
+  const adjectives = ['Bingo', 'Bango', 'Bongo', 'Dots', 'Green Light', 'Pin High', 'Roller', 'Back Nine']
+  const nouns = ['Classic', 'Open', 'Invitational', 'Showdown', 'Shootout', 'Rumble']
+  const suffixes = ['(No Gimmes)', '(Respectfully)', '(Allegedly)']
+  const base = `${pick(adjectives)} ${pick(nouns)}`
+  return Math.random() < 0.35 ? `${base} ${pick(suffixes)}` : base
+}
+
+export function randomNassauName(): string {
+  const adjectives = ['Nassau', 'Press Box', 'Two Down', 'Front Nine', 'Back Nine', 'Match Play', 'Cart Path', 'Sunset']
+  const nouns = ['Classic', 'Open', 'Invitational', 'Showdown', 'Shootout', 'Cup']
+  const suffixes = ['(Auto Press)', '(No Gimmes)', '(Respectfully)', '(Allegedly)']
+  const base = `${pick(adjectives)} ${pick(nouns)}`
+  return Math.random() < 0.35 ? `${base} ${pick(suffixes)}` : base
+}
+
+export function randomStablefordName(): string {
+  const adjectives = ['Quota', 'Points', 'Steady', 'Plus', 'Bonus', 'Birdie']
+  const nouns = ['Chase', 'Hunt', 'Tally', 'Grind', 'Card', 'Race']
+  return `${pick(adjectives)} ${pick(nouns)}`
+}
+
+export function randomVegasName(): string {
+  const adjectives = ['Vegas', 'High Roller', 'Double Down', 'Flip Side', 'Jackpot', 'Strip']
+  const nouns = ['Classic', 'Open', 'Showdown', 'Shootout', 'Invitational', 'Heist']
+  const suffixes = ['(Birdies Flip)', '(No Gimmes)', '(Allegedly)']
+  const base = `${pick(adjectives)} ${pick(nouns)}`
+  return Math.random() < 0.35 ? `${base} ${pick(suffixes)}` : base
+}
+
+export function randomMatchName(): string {
+  const adjectives = ['Head to Head', 'Dormie', 'Fourball', 'Grudge', 'Closeout', 'Singles']
+  const nouns = ['Match', 'Classic', 'Cup', 'Showdown', 'Duel', 'Invitational']
+  const suffixes = ['(No Gimmes)', '(Allegedly)', '(All Square)']
+  const base = `${pick(adjectives)} ${pick(nouns)}`
+  return Math.random() < 0.35 ? `${base} ${pick(suffixes)}` : base
+}
+
+export function randomSixesName(): string {
+  const adjectives = ['Six Sixes', 'Round Robin', 'Musical Chairs', 'Swap Meet', 'Rotation', 'Partner Swap']
+  const nouns = ['Classic', 'Open', 'Shootout', 'Invitational', 'Scramble', 'Cup']
+  return `${pick(adjectives)} ${pick(nouns)}`
+}
+
+export function randomHammerName(): string {
+  const adjectives = ['Hammer', 'Sledge', 'Double Down', 'Nail Biter', 'Anvil', 'Mallet']
+  const nouns = ['Time', 'Classic', 'Showdown', 'Open', 'Shootout', 'Invitational']
+  const suffixes = ['(No Backing Down)', '(Allegedly)', '(Hold My Beer)']
+  const base = `${pick(adjectives)} ${pick(nouns)}`
+  return Math.random() < 0.35 ? `${base} ${pick(suffixes)}` : base
+}
+
+export function randomQuotaName(): string {
+  const adjectives = ['Chicago', 'Quota', 'Beat the Number', 'Target', 'Points', 'Windy City']
+  const nouns = ['Chase', 'Classic', 'Open', 'Grind', 'Shootout', 'Invitational']
+  const suffixes = ['(Honest Handicaps)', '(Allegedly)', '(Sandbaggers Beware)']
+  const base = `${pick(adjectives)} ${pick(nouns)}`
+  return Math.random() < 0.35 ? `${base} ${pick(suffixes)}` : base
+}
+
+export function randomGroupName(): string {
+  const adjectives = ['Member-Guest', 'Outing', 'Scramble', 'Best Ball', 'Shotgun', 'Club']
+  const nouns = ['Classic', 'Open', 'Invitational', 'Championship', 'Cup', 'Shootout']
+  const suffixes = ['(Mulligans Extra)', '(Allegedly)', '(Net of Excuses)']
+  const base = `${pick(adjectives)} ${pick(nouns)}`
+  return Math.random() < 0.35 ? `${base} ${pick(suffixes)}` : base
+}
+
+export function createEmptySkinsRound(): Round {
+  return {
+    id: uid('round'),
+    game: 'skins',
+    name: randomSkinsName(),
+    stakeCents: 500,
+    players: [
+      { id: uid('p'), name: 'Player 1' },
+      { id: uid('p'), name: 'Player 2' },
+    ],
+    strokesByHole: {},
+    createdAt: Date.now(),
+  }
+}
+
+export function createEmptyWolfRound(): Round {
+  return {
+    id: uid('round'),
+    game: 'wolf',
+    name: randomWolfName(),
+    wolfPointsPerHole: 1,
+    wolfLoneMultiplier: 2,
+    wolfBlindMultiplier: 3,
+    wolfPigMultiplier: 2,
+    wolfDollarsPerPointCents: 0,
+    wolfStartingIndex: 0,
+    wolfPartnerByHole: {},
+    players: [
+      { id: uid('p'), name: 'Player 1' },
+      { id: uid('p'), name: 'Player 2' },
+      { id: uid('p'), name: 'Player 3' },
+      { id: uid('p'), name: 'Player 4' },
+    ],
+    strokesByHole: {},
+    createdAt: Date.now(),
+  }
+}
+
+export function createEmptyBBBRound(): Round {
+  return {
+    id: uid('round'),
+    game: 'bbb',
+    name: randomBBBName(),
+    players: [
+      { id: uid('p'), name: 'Player 1' },
+      { id: uid('p'), name: 'Player 2' },
+    ],
+    strokesByHole: {},
+    bbbAwardsByHole: {},
+    createdAt: Date.now(),
+  }
+}
+
+export function createEmptyNassauRound(): Round {
+  return {
+    id: uid('round'),
+    game: 'nassau',
+    name: randomNassauName(),
+    nassauStakeCents: 500,
+    nassauAutoPressDown: 2,
+    nassauPresses: [],
+    players: [
+      { id: uid('p'), name: 'Player 1' },
+      { id: uid('p'), name: 'Player 2' },
+    ],
+    strokesByHole: {},
+    createdAt: Date.now(),
+  }
+}
+
+export function createEmptyStablefordRound(): Round {
+  return {
+    id: uid('round'),
+    game: 'stableford',
+    name: randomStablefordName(),
+    stablefordTable: 'standard',
+    stablefordPayout: 'points',
+    stablefordDollarsPerPointCents: 100,
+    stablefordPotCents: 0,
+    players: [
+      { id: uid('p'), name: 'Player 1' },
+      { id: uid('p'), name: 'Player 2' },
+    ],
+    strokesByHole: {},
+    createdAt: Date.now(),
+  }
+}
+
+export function createEmptyVegasRound(): Round {
+  return {
+    id: uid('round'),
+    game: 'vegas',
+    name: randomVegasName(),
+    vegasDollarsPerPointCents: 100,
+    vegasBirdieFlip: true,
+    players: [
+      { id: uid('p'), name: 'Player 1' },
+      { id: uid('p'), name: 'Player 2' },
+      { id: uid('p'), name: 'Player 3' },
+      { id: uid('p'), name: 'Player 4' },
+    ],
+    strokesByHole: {},
+    createdAt: Date.now(),
+  }
+}
+
+export function createEmptyMatchRound(): Round {
+  return {
+    id: uid('round'),
+    game: 'match',
+    name: randomMatchName(),
+    matchStakeCents: 500,
+    matchNet: true,
+    players: [
+      { id: uid('p'), name: 'Player 1' },
+      { id: uid('p'), name: 'Player 2' },
+    ],
+    strokesByHole: {},
+    createdAt: Date.now(),
+  }
+}
+
+export function createEmptySixesRound(): Round {
+  return {
+    id: uid('round'),
+    game: 'sixes',
+    name: randomSixesName(),
+    sixesStakeCents: 500,
+    sixesOverallCents: 0,
+    players: [
+      { id: uid('p'), name: 'Player 1' },
+      { id: uid('p'), name: 'Player 2' },
+      { id: uid('p'), name: 'Player 3' },
+      { id: uid('p'), name: 'Player 4' },
+    ],
+    strokesByHole: {},
+    createdAt: Date.now(),
+  }
+}
+
+export function createEmptyHammerRound(): Round {
+  return {
+    id: uid('round'),
+    game: 'hammer',
+    name: randomHammerName(),
+    hammerDollarsPerPointCents: 100,
+    hammerByHole: {},
+    players: [
+      { id: uid('p'), name: 'Player 1' },
+      { id: uid('p'), name: 'Player 2' },
+      { id: uid('p'), name: 'Player 3' },
+      { id: uid('p'), name: 'Player 4' },
+    ],
+    strokesByHole: {},
+    createdAt: Date.now(),
+  }
+}
+
+export function createEmptyQuotaRound(): Round {
+  return {
+    id: uid('round'),
+    game: 'quota',
+    name: randomQuotaName(),
+    quotaDollarsPerPointCents: 100,
+    quotaByPlayer: {},
+    players: [
+      { id: uid('p'), name: 'Player 1' },
+      { id: uid('p'), name: 'Player 2' },
+    ],
+    strokesByHole: {},
+    createdAt: Date.now(),
+  }
+}
+
+export function createEmptyGroupRound(): Round {
+  return {
+    id: uid('round'),
+    game: 'group',
+    name: randomGroupName(),
+    groupTeams: [],
+    groupFormat: 'bestBall',
+    groupBestN: 2,
+    groupBuyInCents: 2000,
+    groupPayoutPercents: DEFAULT_GROUP_PAYOUT,
+    players: Array.from({ length: 8 }, (_, i) => ({ id: uid('p'), name: `Player ${i + 1}` })),
+    strokesByHole: {},
+    createdAt: Date.now(),
+  }
+}
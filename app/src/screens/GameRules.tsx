@@ -0,0 +1,37 @@
+import { useState } from 'react'
+import { Button, Icon } from '@chakra-ui/react'
+import { BookOpen } from 'lucide-react'
+import type { GameType } from '../types'
+import { currencySymbol } from '../logic/money'
+import { GAME_META } from '../gameMeta'
+
+export function GameRules({ game, defaultOpen = false }: { game: GameType; defaultOpen?: boolean }) {
+  const meta = GAME_META[game]
+  const [open, setOpen] = useState<boolean>(defaultOpen)
+
+  return (
+    <div className="rulesCard">
+      <div className="rulesHeader">
+        <Button
+          variant="tertiary"
+          size="sm"
+          type="button"
+          onClick={() => setOpen((v) => !v)}
+          aria-expanded={open}
+          title={open ? 'Hide rules' : 'Show rules'}
+          leftIcon={<Icon as={BookOpen} boxSize={4} aria-hidden="true" />}
+        >
+          Rules
+        </Button>
+      </div>
+
+      {open && (
+        <ul className="rulesList">
+          {meta.rules.map((r) => (
+            <li key={r}>{r.replaceAll('¤', currencySymbol())}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -1,11 +1,961 @@
-import type { ReactNode } from 'react'
+import {
+  Box,
+  Button,
+  Card,
+  CardBody,
+  HStack,
+  Input,
+  SimpleGrid,
+  Stack,
+  Text,
+  Wrap,
+  WrapItem,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+} from '@chakra-ui/react'
+import type { HoleNumber, PlayerId, SkinsHoleResult } from '../types'
+import { skinsCarryResolutionLabel, skinsCountLabel, skinsEndTiesLabel, stakeLabel } from '../logic/skins'
+import { wolfForHole, wolfMode, wolfModeLabel, type WolfHoleResult } from '../logic/wolf'
+import { nassauMatchLabel, nassauMatchStatus } from '../logic/nassau'
+import { matchStatusLabel } from '../logic/match'
+import { quotaDiffLabel } from '../logic/quota'
+import { JUNK_LABEL, junkTypesForHole } from '../logic/junk'
+import { parForHole, scoreName } from '../logic/course'
+import { currencySymbol, formatMoneyShort } from '../logic/money'
+import { TRACK_EVENTS, track } from '../logic/track'
+import type { ScreenProps } from '../appState'
+import { GAME_META } from '../gameMeta'
+import { useRoundView } from './useRoundView'
 
-type HolesScreenProps = {
-  active: boolean
-  children: ReactNode
-}
+export function HolesScreen({ app }: ScreenProps) {
+  const { setScreen, theme, round, lastQuickHoleRef, quickHole, setQuickHole } = app
+  const {
+    skins,
+    netSkins,
+    bbb,
+    wolf,
+    nassau,
+    stableford,
+    vegas,
+    matchPlay,
+    sixes,
+    hammer,
+    quota,
+    group,
+    junk,
+    rabbit,
+    snake,
+    settlement,
+    wolfSettlement,
+    bbbSettlement,
+    nassauSettlement,
+    nassauSideNames,
+    matchSideNames,
+    entryRows,
+    playHoles,
+    enteredByHole,
+    completionByHole,
+    skinsByHole,
+    wolfByHole,
+    playerNameOrDash,
+    stablefordHoleLabel,
+    quotaHoleLabel,
+    groupHoleLabel,
+    groupStandingLabel,
+    quotaPaceLabel,
+    vegasHoleLabel,
+    matchHoleLabel,
+    sixesSideNames,
+    hammerHoleLabel,
+    hammerStandingLabel,
+    vegasStandingLabel,
+    holeParLabel,
+    skinsCarryLine,
+    setStroke,
+    clearHole,
+    copyStatus,
+    wolfSettlementText,
+    bbbSettlementText,
+    copyNassauSettlement,
+    isRoundComplete,
+    lockRound,
+    unlockRound,
+    shareSettlement,
+    groupTeamPicker,
+  } = useRoundView(app)
+
+  function playerNameOrNone(pid: PlayerId | null | undefined): string {
+    if (pid === null) return 'None'
+    return playerNameOrDash(pid)
+  }
+
+  function nassauHoleLabel(hole: number): string {
+    if (!nassau || !nassauSideNames) return '—'
+    const hr = nassau.holeResults.find((x) => x.hole === hole)
+    const entered = enteredByHole[hole as HoleNumber]
+    const presses = nassau.matches.filter((m) => m.press > 0 && m.startHole === hole).length
+    const pressTag = presses > 0 ? ` • ${presses} press${presses > 1 ? 'es' : ''} start` : ''
+    if (!hr || hr.winner === null) return `Incomplete (${entered}/${round.players.length})${pressTag}`
+    if (hr.winner === 'halved') return `Halved${pressTag}`
+    return `${nassauSideNames[hr.winner]} win${nassau.sides[hr.winner].length > 1 ? '' : 's'}${pressTag}`
+  }
+
+  // e.g. "Ann + Bob win • Ann + Bob 2 UP thru 4"
+  function sixesHoleLabel(hole: number): string {
+    if (!sixes) return '—'
+    const hr = sixes.holeResults.find((x) => x.hole === hole)
+    const seg = hr ? sixes.segments[hr.segment] : undefined
+    const entered = enteredByHole[hole as HoleNumber]
+    if (!hr || !seg || hr.winner === null) return `Incomplete (${entered}/${round.players.length})`
+    const names = sixesSideNames(seg.sides)
+    if (!hr.counted) return `Segment over • ${matchStatusLabel(seg, names)}`
+    const result = hr.winner === 'halved' ? 'Halved' : `${names[hr.winner]} win`
+    const status = seg.closedOnHole === hole ? matchStatusLabel(seg, names) : matchStatusLabel({ ...hr, dormie: false, status: 'open', winner: null, holesRemaining: 0 }, names)
+    return `${result} • ${status}`
+  }
+
+  // e.g. "Ann Greenie, Sandie • Bob 3-putt"; empty when nobody has a dot.
+  function junkHoleLabel(hole: number): string {
+    const dots = round.junkByHole?.[hole as HoleNumber]
+    if (!junk || !dots) return ''
+    const allowed = junkTypesForHole(round, hole as HoleNumber)
+    return round.players
+      .map((p) => ({ name: p.name, types: (dots[p.id] || []).filter((t) => allowed.includes(t)) }))
+      .filter((x) => x.types.length > 0)
+      .map((x) => `${x.name} ${x.types.map((t) => JUNK_LABEL[t]).join(', ')}`)
+      .join(' • ')
+  }
+
+  // e.g. "Rabbit → Ann • Snake → Bob"; empty when neither holdover changes hands on the hole.
+  function holdoverHoleLabel(hole: number): string {
+    const parts: string[] = []
+    const rh = rabbit?.holeResults.find((x) => x.hole === hole)
+    if (rh?.payout) parts.push(rh.holderAfter ? `Rabbit paid to ${playerNameOrDash(rh.holderAfter)}` : 'Rabbit loose (no payout)')
+    else if (rh?.winnerId) parts.push(`Rabbit → ${playerNameOrDash(rh.winnerId)}`)
+    const sh = snake?.holeResults.find((x) => x.hole === hole)
+    if (sh && sh.threePutters.length > 0 && sh.holderAfter) parts.push(`Snake → ${playerNameOrDash(sh.holderAfter)}`)
+    return parts.join(' • ')
+  }
+
+  // Handicap dots for the Holes grid: • per stroke received, ◦ per stroke given back.
+  function strokeDots(hole: number, pid: PlayerId): string {
+    const hr = netSkins ? netSkins.holeResults.find((x) => x.hole === hole) : skinsByHole[hole as HoleNumber]
+    const n =
+      hr?.strokesReceived[pid] ||
+      stableford?.holeResults.find((x) => x.hole === hole)?.strokesReceived[pid] ||
+      matchPlay?.holeResults.find((x) => x.hole === hole)?.strokesReceived[pid] ||
+      0
+    return n > 0 ? '•'.repeat(n) : n < 0 ? '◦'.repeat(-n) : ''
+  }
+
+  function parSuffix(hole: number, strokes: number | null | undefined): string {
+    const par = parForHole(round, hole as HoleNumber)
+    if (par === null || typeof strokes !== 'number') return ''
+    return ` • ${scoreName(strokes, par)}`
+  }
+
+  // Pot payouts have no fixed value per skin, so only per-skin rounds show dollars.
+  function skinsValueSuffix(count: number): string {
+    if (round.skinsPayout === 'pot') return ''
+    return `, ${stakeLabel(count * (round.stakeCents || 0))}`
+  }
+
+  function skinsHoleLabel(hr: SkinsHoleResult): string {
+    if (hr.winnerId) {
+      const held = hr.carryHeld ? ` • carry held (${hr.carryAfter})` : ''
+      return `${playerNameOrDash(hr.winnerId)} (+${hr.wonSkins}${skinsValueSuffix(hr.wonSkins)})${parSuffix(hr.hole, hr.lowScore)}${held}`
+    }
+    return `Tie (carry → ${hr.carryAfter}${skinsValueSuffix(hr.carryAfter)})`
+  }
+
+  const isHoleComplete = (h: number) => {
+    return !!completionByHole[h as HoleNumber]
+  }
+
+  async function copyWolfSettlement() {
+    try {
+      await navigator.clipboard.writeText(wolfSettlementText())
+      track(TRACK_EVENTS.share_settlement, { game: 'wolf', centsPerPoint: round.wolfDollarsPerPointCents || 0 })
+      alert('Copied settlement (ready to paste in the group chat)')
+    } catch {
+      alert('Could not copy. You can manually select and copy the text.')
+    }
+  }
+
+  async function copyBBBSettlement() {
+    try {
+      await navigator.clipboard.writeText(bbbSettlementText())
+      track(TRACK_EVENTS.share_settlement, { game: 'bbb', centsPerPoint: round.bbbDollarsPerPointCents || 0 })
+      alert('Copied settlement (ready to paste in the group chat)')
+    } catch {
+      alert('Could not copy. You can manually select and copy the text.')
+    }
+  }
+
+  // e.g. "Wolf +2 (Lone) • $2", "Pig -4 • $4"
+  function wolfResultLabel(hr: WolfHoleResult | undefined): string {
+    if (!hr || hr.status === 'incomplete') return '—'
+    if (hr.status === 'tie') return round.wolfCarryTies ? `Tie (carry → ${hr.carriedTies + 1})` : 'Tie (0)'
+    // Show the net change for whoever carried the hole (includes the lone/blind/pig multiplier)
+    const who = hr.mode === 'pig' ? 'Pig' : 'Wolf'
+    const dPts = hr.pointsDeltaByPlayer[hr.loneId ?? hr.wolfId] || 0
+    const sign = dPts > 0 ? '+' : ''
+    const centsPerPoint = round.wolfDollarsPerPointCents || 0
+    const money = centsPerPoint > 0 ? ` • ${formatMoneyShort(Math.abs(dPts) * centsPerPoint)}` : ''
+    const tag = hr.mode === 'lone' ? ' (Lone)' : hr.mode === 'blind' ? ' (Blind)' : ''
+    const carried = hr.carriedTies > 0 ? ` (+${hr.carriedTies} carried)` : ''
+    return `${who} ${sign}${dPts}${tag}${carried}${money}`
+  }
+
+  // e.g. "Wolf + Ann", "Lone Wolf", "Blind Wolf", "Pig: Ann"
+  function wolfPairingLabel(hole: HoleNumber): string {
+    const mode = wolfMode(round, hole)
+    const partnerName = playerNameOrDash(round.wolfPartnerByHole?.[hole] ?? null)
+    if (mode === 'team') return `Wolf + ${partnerName}`
+    if (mode === 'pig') return `Pig: ${partnerName}`
+    return wolfModeLabel(mode)
+  }
+
+  function openQuickHole(hole: number) {
+    lastQuickHoleRef.current = quickHole
+    setQuickHole(hole)
+    setScreen('quick')
+  }
+
+  return (
+    <Card variant="outline">
+      <CardBody pb={{ base: '96px', md: 6 }}>
+        <Stack spacing={4}>
+          <HStack justify="space-between" align="flex-start" spacing={4} flexWrap="wrap">
+            <Box>
+              <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800}>
+                Round
+              </Text>
+              <Text fontSize="lg" fontWeight={800}>
+                {round.name || GAME_META[round.game].short}
+              </Text>
+
+              {skins && (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={1}>
+                  {skinsCarryLine(skins)}
+                  {(() => {
+                    const leader = round.players
+                      .slice()
+                      .sort((a, b) => (skins.skinsWon[b.id] || 0) - (skins.skinsWon[a.id] || 0))[0]
+                    const n = leader ? skins.skinsWon[leader.id] || 0 : 0
+                    return leader ? ` • Leader: ${leader.name} (${skinsCountLabel(n)})` : ''
+                  })()}
+                </Text>
+              )}
+
+              {wolf && (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={1}>
+                  Points leader:{' '}
+                  {
+                    round.players
+                      .slice()
+                      .sort((a, b) => (wolf.pointsByPlayer[b.id] || 0) - (wolf.pointsByPlayer[a.id] || 0))[0]?.name
+                  }
+                </Text>
+              )}
+
+              {nassau && nassauSideNames && (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={1}>
+                  {nassau.matches
+                    .filter((m) => m.press === 0)
+                    .map((m) => `${nassauMatchLabel(m)}: ${nassauMatchStatus(m, nassauSideNames)}`)
+                    .join(' • ')}
+                </Text>
+              )}
+
+              {bbb && (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={1}>
+                  Points leader:{' '}
+                  {
+                    round.players
+                      .slice()
+                      .sort((a, b) => (bbb.pointsByPlayer[b.id] || 0) - (bbb.pointsByPlayer[a.id] || 0))[0]?.name
+                  }
+                </Text>
+              )}
+
+              {stableford && (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={1}>
+                  Stableford:{' '}
+                  {round.players
+                    .slice()
+                    .sort((a, b) => (stableford.pointsByPlayer[b.id] || 0) - (stableford.pointsByPlayer[a.id] || 0))
+                    .map((p) => `${p.name} ${stableford.pointsByPlayer[p.id] || 0}`)
+                    .join(' • ')}
+                </Text>
+              )}
+
+              {quota && (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={1}>
+                  Quota: {quotaPaceLabel()}
+                </Text>
+              )}
+
+              {group && (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={1}>
+                  Team Pot: {groupStandingLabel() || 'No team scores yet'}
+                </Text>
+              )}
+
+              {vegas && (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={1}>
+                  Vegas: {vegasStandingLabel()}
+                </Text>
+              )}
+
+              {matchPlay && matchSideNames && (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={1}>
+                  Match: {matchStatusLabel(matchPlay, matchSideNames)}
+                </Text>
+              )}
+
+              {hammer && (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={1}>
+                  Hammer: {hammerStandingLabel()}
+                </Text>
+              )}
+
+              {sixes && (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={1}>
+                  Sixes: {sixes.segments.map((seg) => matchStatusLabel(seg, sixesSideNames(seg.sides))).join(' • ')}
+                </Text>
+              )}
+            </Box>
+
+            <Wrap spacing={2} justify="flex-end">
+              <WrapItem>
+                {round.locked && (
+                  <Box className="pill" aria-label="Locked">
+                    Locked <span role="img" aria-label="Locked">✅</span>
+                  </Box>
+                )}
+              </WrapItem>
+
+              <WrapItem>
+                {!round.locked ? (
+                  <Button variant="secondary" size="sm" onClick={() => lockRound(false)} type="button" title="Lock disables edits (useful once a round is final)">
+                    Lock round
+                  </Button>
+                ) : (
+                  <Button variant="secondary" size="sm" onClick={unlockRound} type="button">
+                    Unlock
+                  </Button>
+                )}
+              </WrapItem>
+
+              <WrapItem>
+                <Button variant="tertiary" size="sm" onClick={() => setScreen('quick')} type="button">
+                  Quick mode
+                </Button>
+              </WrapItem>
+
+              <WrapItem>
+                <Button variant="tertiary" size="sm" onClick={() => setScreen('setup')} type="button">
+                  ← Setup
+                </Button>
+              </WrapItem>
+
+              <WrapItem>
+                <Button variant="secondary" size="sm" onClick={copyStatus} type="button" title="Copy a shareable status summary">
+                  Share status
+                </Button>
+              </WrapItem>
+
+              {round.game === 'skins' && settlement && (round.locked || isRoundComplete()) && (
+                <WrapItem>
+                  <Button variant={round.locked ? 'primary' : 'secondary'} size="sm" onClick={shareSettlement} type="button" title="Copy the settlement text to paste in the group chat">
+                    Share settlement
+                  </Button>
+                </WrapItem>
+              )}
+
+              {round.game === 'bbb' && bbbSettlement && (round.locked || isRoundComplete()) && (
+                <WrapItem>
+                  <Button variant={round.locked ? 'primary' : 'secondary'} size="sm" onClick={copyBBBSettlement} type="button" title="Copy the settlement text to paste in the group chat">
+                    Share settlement
+                  </Button>
+                </WrapItem>
+              )}
+
+              {round.game === 'nassau' && nassauSettlement && (round.locked || isRoundComplete()) && (
+                <WrapItem>
+                  <Button variant={round.locked ? 'primary' : 'secondary'} size="sm" onClick={copyNassauSettlement} type="button" title="Copy the settlement text to paste in the group chat">
+                    Share settlement
+                  </Button>
+                </WrapItem>
+              )}
+
+              <WrapItem>
+                <Button variant="primary" size="sm" onClick={() => setScreen('settlement')} type="button">
+                  {round.game === 'wolf' || round.game === 'bbb' ? 'Standings →' : 'Settlement →'}
+                </Button>
+              </WrapItem>
+            </Wrap>
+          </HStack>
+
+        {((round.game === 'skins' && settlement) || (round.game === 'nassau' && nassauSettlement)) && !round.locked && isRoundComplete() && (
+          <Card variant="outline" mt={3}>
+            <CardBody>
+              <Stack spacing={3}>
+                <Text fontWeight={800}>Round complete</Text>
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                  Lock the round to prevent edits, then share the settlement to the group.
+                </Text>
+                <Wrap spacing={2}>
+                  <WrapItem>
+                    <Button variant="primary" size="sm" onClick={() => lockRound(true)} type="button">
+                      Lock + open settlement →
+                    </Button>
+                  </WrapItem>
+                  <WrapItem>
+                    <Button variant="secondary" size="sm" onClick={round.game === 'nassau' ? copyNassauSettlement : shareSettlement} type="button">
+                      Share settlement
+                    </Button>
+                  </WrapItem>
+                </Wrap>
+              </Stack>
+            </CardBody>
+          </Card>
+        )}
+
+        {round.game === 'wolf' && wolf && !round.locked && isRoundComplete() && (
+          <Card variant="outline" mt={3}>
+            <CardBody>
+              <Stack spacing={3}>
+                <Text fontWeight={800}>Round complete</Text>
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                  Lock the round to prevent edits, then share standings (and settlement if {currencySymbol()}/pt is set).
+                </Text>
+                <Wrap spacing={2}>
+                  <WrapItem>
+                    <Button variant="primary" size="sm" onClick={() => lockRound(true)} type="button">
+                      Lock + open standings →
+                    </Button>
+                  </WrapItem>
+                  <WrapItem>
+                    <Button variant="secondary" size="sm" onClick={copyStatus} type="button">
+                      Share standings
+                    </Button>
+                  </WrapItem>
+                  {wolfSettlement && (
+                    <WrapItem>
+                      <Button variant="secondary" size="sm" onClick={copyWolfSettlement} type="button">
+                        Share settlement
+                      </Button>
+                    </WrapItem>
+                  )}
+                </Wrap>
+              </Stack>
+            </CardBody>
+          </Card>
+        )}
+
+        {groupTeamPicker}
+
+        <Box display={{ base: 'block', md: 'none' }} className="mobileHoleList">
+          <Stack spacing={3}>
+            {playHoles.map((hole) => {
+              if (round.game === 'bbb') {
+                const h = hole as HoleNumber
+                const a = round.bbbAwardsByHole?.[h]
+                const done = !!a && ['bingo', 'bango', 'bongo'].every((k) => k in a)
+                const nameFor = (pid: PlayerId | null | undefined) => playerNameOrNone(pid)
+                return (
+                  <Box key={hole} className="mobileHoleCard">
+                    <HStack justify="space-between" align="center" mb={2}>
+                      <Text fontWeight={800}>
+                        Hole {hole}
+                        {round.course ? ` • ${holeParLabel(hole)}` : ''}
+                      </Text>
+                      <Box className="pill">{done ? 'Complete' : 'Open'}</Box>
+                    </HStack>
+                    <Stack spacing={1} mb={3}>
+                      <Text className="small">Bingo: {nameFor(a?.bingo)}</Text>
+                      <Text className="small">Bango: {nameFor(a?.bango)}</Text>
+                      <Text className="small">Bongo: {nameFor(a?.bongo)}</Text>
+                    </Stack>
+                    <Button variant="secondary" size="sm" onClick={() => openQuickHole(hole)} type="button">
+                      Edit in Quick
+                    </Button>
+                  </Box>
+                )
+              }
+
+              if (round.game === 'wolf') {
+                const wid = wolfForHole(round, hole as HoleNumber).wolfId
+                const wolfName = playerNameOrDash(wid)
+                const pairingLabel = wolfPairingLabel(hole as HoleNumber)
+                const hr = wolfByHole[hole as HoleNumber]
+                const entered = enteredByHole[hole as HoleNumber]
+                const isComplete = entered === round.players.length
+                const resultLabel = wolfResultLabel(hr)
+
+                return (
+                  <Box key={hole} className="mobileHoleCard">
+                    <HStack justify="space-between" align="center" mb={2}>
+                      <Text fontWeight={800}>
+                        Hole {hole}
+                        {round.course ? ` • ${holeParLabel(hole)}` : ''}
+                      </Text>
+                      <Box className="pill">{isComplete ? 'Complete' : `${entered}/${round.players.length} entered`}</Box>
+                    </HStack>
+                    <Stack spacing={1} mb={3}>
+                      <Text className="small">Wolf: {wolfName}</Text>
+                      <Text className="small">Pairing: {pairingLabel}</Text>
+                      <Text className="small">Result: {resultLabel}</Text>
+                    </Stack>
+                    <Wrap spacing={2} mb={3}>
+                      {round.players.map((p) => (
+                        <WrapItem key={p.id}>
+                          <Box className="pill">{p.name}: {round.strokesByHole[hole]?.[p.id] ?? '—'}</Box>
+                        </WrapItem>
+                      ))}
+                    </Wrap>
+                    <Button variant="secondary" size="sm" onClick={() => openQuickHole(hole)} type="button">
+                      Edit in Quick
+                    </Button>
+                  </Box>
+                )
+              }
+
+              const hr = skinsByHole[hole as HoleNumber]
+              const isComplete = isHoleComplete(hole)
+              const entered = enteredByHole[hole as HoleNumber]
+              const label = round.game === 'nassau'
+                ? nassauHoleLabel(hole)
+                : round.game === 'stableford'
+                ? stablefordHoleLabel(hole)
+                : round.game === 'vegas'
+                ? vegasHoleLabel(hole)
+                : round.game === 'match'
+                ? matchHoleLabel(hole)
+                : round.game === 'sixes'
+                ? sixesHoleLabel(hole)
+                : round.game === 'hammer'
+                ? hammerHoleLabel(hole)
+                : round.game === 'quota'
+                ? quotaHoleLabel(hole)
+                : round.game === 'group'
+                ? groupHoleLabel(hole)
+                : !hr
+                ? '—'
+                : !isComplete
+                  ? `Incomplete (${entered}/${round.players.length})`
+                  : skinsHoleLabel(hr)
+
+              return (
+                <Box key={hole} className="mobileHoleCard">
+                  <HStack justify="space-between" align="center" mb={2}>
+                    <Text fontWeight={800}>
+                      Hole {hole}
+                      {round.course ? ` • ${holeParLabel(hole)}` : ''}
+                    </Text>
+                    <Box className="pill">{isComplete ? 'Complete' : `${entered}/${round.players.length} entered`}</Box>
+                  </HStack>
+                  <Text className="small" mb={3}>Result: {label}</Text>
+                  {junkHoleLabel(hole) && (
+                    <Text className="small" mb={3}>
+                      Junk: {junkHoleLabel(hole)}
+                    </Text>
+                  )}
+                  {holdoverHoleLabel(hole) && (
+                    <Text className="small" mb={3}>
+                      {holdoverHoleLabel(hole)}
+                    </Text>
+                  )}
+                  {quota && (
+                    <Text className="small" mb={3}>
+                      +/- vs quota: {quotaPaceLabel(hole)}
+                    </Text>
+                  )}
+                  <Wrap spacing={2} mb={3}>
+                    {entryRows.map((p) => (
+                      <WrapItem key={p.id}>
+                        <Box className="pill">
+                          {p.name}: {round.strokesByHole[hole]?.[p.id] ?? '—'}
+                          {strokeDots(hole, p.id) && ` ${strokeDots(hole, p.id)}`}
+                        </Box>
+                      </WrapItem>
+                    ))}
+                  </Wrap>
+                  <Button variant="secondary" size="sm" onClick={() => openQuickHole(hole)} type="button">
+                    Edit in Quick
+                  </Button>
+                </Box>
+              )
+            })}
+          </Stack>
+        </Box>
+
+        <Box display={{ base: 'none', md: 'block' }}>
+        <div className="holes">
+          <div className="holeGrid" style={{ minWidth: round.game === 'wolf' ? 980 : quota ? 860 : 720 }}>
+            {round.game === 'bbb' ? (
+              <>
+                <div className="holeRow skins header">
+                  <div className="holeCell">
+                    <span className="small">Hole</span>
+                  </div>
+                  <div className="holeCell">
+                    <span className="small">Bingo</span>
+                  </div>
+                  <div className="holeCell">
+                    <span className="small">Bango</span>
+                  </div>
+                  <div className="holeCell">
+                    <span className="small">Bongo</span>
+                  </div>
+                  <div className="holeCell" style={{ textAlign: 'right' }}>
+                    <span className="small">Done</span>
+                  </div>
+                </div>
+
+                {playHoles.map((hole) => {
+                  const h = hole as HoleNumber
+                  const a = round.bbbAwardsByHole?.[h]
+
+                  const nameFor = (pid: PlayerId | null | undefined) => playerNameOrNone(pid)
+
+                  const done = !!a && ['bingo', 'bango', 'bongo'].every((k) => k in a)
+
+                  return (
+                    <div key={hole} className="holeRow skins">
+                      <div className="holeCell">
+                        <Button
+                          variant="tertiary"
+                          size="sm"
+                          type="button"
+                          onClick={() => openQuickHole(hole)}
+                        >
+                          {hole}
+                        </Button>
+                      </div>
+                      <div className="holeCell">{nameFor(a?.bingo)}</div>
+                      <div className="holeCell">{nameFor(a?.bango)}</div>
+                      <div className="holeCell">{nameFor(a?.bongo)}</div>
+                      <div className="holeCell" style={{ textAlign: 'right' }}>
+                        {done ? <span role="img" aria-label="Complete">✅</span> : <span aria-label="Incomplete">—</span>}
+                      </div>
+                    </div>
+                  )
+                })}
+              </>
+            ) : round.game === 'wolf' ? (
+              <>
+                <div className="holeRow wolf header">
+                  <div className="holeCell">
+                    <span className="small">Hole</span>
+                  </div>
+                  <div className="holeCell">
+                    <span className="small">Wolf</span>
+                  </div>
+                  <div className="holeCell">
+                    <span className="small">Pairing</span>
+                  </div>
+                  <div className="holeCell">
+                    <span className="small">Result</span>
+                  </div>
+                  {round.players.map((p) => (
+                    <div key={p.id} className="holeCell">
+                      <span className="small">{p.name}</span>
+                    </div>
+                  ))}
+                </div>
+
+                {playHoles.map((hole) => {
+                  const wid = wolfForHole(round, hole as HoleNumber).wolfId
+                  const wolfName = playerNameOrDash(wid)
+                  const pairingLabel = wolfPairingLabel(hole as HoleNumber)
+
+                  const hr = wolfByHole[hole as HoleNumber]
+
+                  const resultLabel = wolfResultLabel(hr)
+
+                  return (
+                    <div key={hole} className="holeRow wolf">
+                      <div className="holeCell">
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+                          <span className="holeNum">{hole}</span>
+                          {round.course && <span className="small">{holeParLabel(hole)}</span>}
+                          <Button
+                            variant="tertiary"
+                            size="sm"
+                            onClick={() => clearHole(hole)}
+                            isDisabled={!!round.locked}
+                            type="button"
+                            aria-label={`Clear hole ${hole}`}
+                          >
+                            Clear
+                          </Button>
+                        </div>
+                      </div>
+                      <div className="holeCell">
+                        <span className="small" style={{ fontWeight: 700 }}>
+                          {wolfName}
+                        </span>
+                      </div>
+                      <div className="holeCell">
+                        <span className="small">{pairingLabel}</span>
+                      </div>
+                      <div className="holeCell">
+                        <span className="small">{resultLabel}</span>
+                      </div>
+                      {round.players.map((p) => (
+                        <div key={p.id} className="holeCell">
+                          <Input
+                            size="sm"
+                            value={String(round.strokesByHole[hole]?.[p.id] ?? '')}
+                            onChange={(e) => setStroke(hole, p.id, e.target.value)}
+                            inputMode="numeric"
+                            placeholder="-"
+                            textAlign="center"
+                            aria-label={`Hole ${hole}, ${p.name} strokes`}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )
+                })}
+              </>
+            ) : (
+              <>
+                <div className={quota ? 'holeRow skins quota header' : 'holeRow skins header'}>
+                  <div className="holeCell">
+                    <span className="small">Hole</span>
+                  </div>
+                  <div className="holeCell">
+                    <span className="small">Result</span>
+                  </div>
+                  {entryRows.map((p) => (
+                    <div key={p.id} className="holeCell">
+                      <span className="small">{p.name}</span>
+                    </div>
+                  ))}
+                  {quota && (
+                    <div className="holeCell quotaCell">
+                      <span className="small">+/- vs quota</span>
+                    </div>
+                  )}
+                </div>
+
+                {playHoles.map((hole) => {
+                  const hr = skinsByHole[hole as HoleNumber]
+                  const isComplete = isHoleComplete(hole)
+
+                  const label = round.game === 'nassau'
+                    ? nassauHoleLabel(hole)
+                    : round.game === 'stableford'
+                    ? stablefordHoleLabel(hole)
+                    : round.game === 'vegas'
+                    ? vegasHoleLabel(hole)
+                    : round.game === 'match'
+                    ? matchHoleLabel(hole)
+                    : round.game === 'sixes'
+                    ? sixesHoleLabel(hole)
+                    : round.game === 'hammer'
+                    ? hammerHoleLabel(hole)
+                    : round.game === 'quota'
+                    ? quotaHoleLabel(hole)
+                    : round.game === 'group'
+                    ? groupHoleLabel(hole)
+                    : !hr
+                    ? '—'
+                    : !isComplete
+                      ? `incomplete (${enteredByHole[hole as HoleNumber]}/${round.players.length})`
+                      : skinsHoleLabel(hr)
+
+                  return (
+                    <div key={hole} className={quota ? 'holeRow skins quota' : 'holeRow skins'}>
+                      <div className="holeCell">
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+                          <span className="holeNum">{hole}</span>
+                          {round.course && <span className="small">{holeParLabel(hole)}</span>}
+                          <Button
+                            variant="tertiary"
+                            size="sm"
+                            onClick={() => clearHole(hole)}
+                            isDisabled={!!round.locked}
+                            type="button"
+                            aria-label={`Clear hole ${hole}`}
+                          >
+                            Clear
+                          </Button>
+                        </div>
+                      </div>
+
+                      <div className="holeCell">
+                        <span className="small">{label}</span>
+                        {junkHoleLabel(hole) && <div className="small">Junk: {junkHoleLabel(hole)}</div>}
+                        {holdoverHoleLabel(hole) && <div className="small">{holdoverHoleLabel(hole)}</div>}
+                      </div>
+
+                      {entryRows.map((p) => (
+                        <div key={p.id} className="holeCell">
+                          <Input
+                            size="sm"
+                            value={String(round.strokesByHole[hole]?.[p.id] ?? '')}
+                            onChange={(e) => setStroke(hole, p.id, e.target.value)}
+                            inputMode="numeric"
+                            placeholder="-"
+                            textAlign="center"
+                            aria-label={`Hole ${hole}, ${p.name} strokes`}
+                          />
+                          {strokeDots(hole, p.id) && (
+                            <div className="small" style={{ textAlign: 'center' }} title="Handicap strokes on this hole">
+                              {strokeDots(hole, p.id)}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+
+                      {quota && (
+                        <div className="holeCell quotaCell">
+                          {round.players.map((p) => {
+                            const diff = quota.holeResults.find((x) => x.hole === hole)?.vsQuota[p.id] || 0
+                            return (
+                              <div key={p.id} className="small">
+                                {p.name} <span className={diff >= 0 ? 'positive' : 'negative'}>{quotaDiffLabel(diff)}</span>
+                              </div>
+                            )
+                          })}
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+              </>
+            )}
+          </div>
+        </div>
+        </Box>
+
+        <div style={{ height: 14 }} />
+
+        {skins && (
+          <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+            <Box>
+              <Text fontSize="sm" fontWeight={800} color={theme === 'dark' ? 'gray.300' : 'gray.600'} mb={2}>
+                Skins won{netSkins ? ' (gross / net)' : skins.pot === 'net' ? ' (net)' : ''}
+              </Text>
+              <Table size="sm">
+                <Tbody>
+                  {round.players.map((p) => (
+                    <Tr key={p.id}>
+                      <Td>{p.name}</Td>
+                      <Td textAlign="right">
+                        {skinsCountLabel(skins.skinsWon[p.id] || 0)}
+                        {netSkins ? ` / ${skinsCountLabel(netSkins.skinsWon[p.id] || 0)}` : ''}
+                      </Td>
+                    </Tr>
+                  ))}
+                </Tbody>
+              </Table>
+            </Box>
+
+            <Box>
+              <Text fontSize="sm" fontWeight={800} color={theme === 'dark' ? 'gray.300' : 'gray.600'} mb={2}>
+                Per-hole (winner / carry)
+              </Text>
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th>Hole</Th>
+                    <Th>Winner</Th>
+                    <Th textAlign="right">Skins</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {skins.holeResults.map((hr) => {
+                    const winner = hr.winnerId ? playerNameOrDash(hr.winnerId) : '—'
+                    const held = hr.carryHeld ? ' (carry held)' : ''
+                    const label = hr.winnerId ? `${winner}${parSuffix(hr.hole, hr.lowScore)}${held}` : `tie (carry)`
+                    return (
+                      <Tr key={hr.hole}>
+                        <Td>{hr.hole}</Td>
+                        <Td>{label}</Td>
+                        <Td textAlign="right">{hr.winnerId ? hr.wonSkins : hr.carrySkins ? `+${hr.carrySkins}` : '—'}</Td>
+                      </Tr>
+                    )
+                  })}
+                </Tbody>
+              </Table>
+              <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+                Note: ties carry 1 skin forward{(round.skinsCarryCap || 0) > 0 ? ` (up to ${round.skinsCarryCap})` : ''}. Carry resets on a win
+                {round.skinsValidation ? ' made with par or better' : ''}. Carry left after the last hole:{' '}
+                {skins.carryResolution ? skinsCarryResolutionLabel(round.players, skins.carryResolution) : skinsEndTiesLabel(round.skinsEndTies || 'forfeit').toLowerCase()}.
+              </Text>
+            </Box>
+          </SimpleGrid>
+        )}
+
+        {nassau && nassauSideNames && (
+          <Box>
+            <Text fontSize="sm" fontWeight={800} color={theme === 'dark' ? 'gray.300' : 'gray.600'} mb={2}>
+              Bets ({nassauSideNames.A} vs {nassauSideNames.B})
+            </Text>
+            <Table size="sm">
+              <Tbody>
+                {nassau.matches.map((m) => (
+                  <Tr key={m.id}>
+                    <Td>{nassauMatchLabel(m)}</Td>
+                    <Td textAlign="right">{nassauMatchStatus(m, nassauSideNames)}</Td>
+                  </Tr>
+                ))}
+              </Tbody>
+            </Table>
+            <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+              Presses run to the end of the bet they press. Add manual presses in Quick mode.
+            </Text>
+          </Box>
+        )}
+
+        {wolf && (
+          <Box>
+            <Text fontSize="sm" fontWeight={800} color={theme === 'dark' ? 'gray.300' : 'gray.600'} mb={2}>
+              Points (leaderboard)
+            </Text>
+            <Table size="sm">
+              <Tbody>
+                {round.players
+                  .slice()
+                  .sort((a, b) => (wolf.pointsByPlayer[b.id] || 0) - (wolf.pointsByPlayer[a.id] || 0))
+                  .map((p) => (
+                    <Tr key={p.id}>
+                      <Td>{p.name}</Td>
+                      <Td textAlign="right">{wolf.pointsByPlayer[p.id] || 0}</Td>
+                    </Tr>
+                  ))}
+              </Tbody>
+            </Table>
+            <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+              Wolf rotates each hole (starting from Player 1 on the first hole played). Choose partner in Quick mode (or play Lone Wolf).
+            </Text>
+          </Box>
+        )}
 
-export function HolesScreen({ active, children }: HolesScreenProps) {
-  if (!active) return null
-  return <>{children}</>
+        <Box display={{ base: 'block', md: 'none' }} className="gridEscapeRail" aria-label="Back to quick mode rail">
+          <Button
+            size="md"
+            minH="44px"
+            w="full"
+            variant="solid"
+            onClick={() => setScreen('quick')}
+            type="button"
+          >
+            Back to Quick
+          </Button>
+        </Box>
+        </Stack>
+      </CardBody>
+    </Card>
+  )
 }
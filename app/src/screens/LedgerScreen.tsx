@@ -0,0 +1,380 @@
+import { useMemo } from 'react'
+import {
+  Box,
+  Button,
+  Card,
+  CardBody,
+  HStack,
+  SimpleGrid,
+  Stack,
+  Text,
+  Wrap,
+  WrapItem,
+  Table,
+  TableContainer,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+} from '@chakra-ui/react'
+import type { LedgerAliases, LedgerEntry } from '../types'
+import {
+  computeLedger,
+  ledgerCurrencies,
+  ledgerPeriodLabel,
+  ledgerPeriods,
+  ledgerText,
+  withLedgerAlias,
+  withoutLedgerAlias,
+  withoutLedgerEntry,
+} from '../logic/ledger'
+import { paymentMemo } from '../logic/paymentLinks'
+import { currencyLabel, formatMoney, formatSignedMoney } from '../logic/money'
+import { saveLedgerAliases } from '../storage'
+import { TRACK_EVENTS, track } from '../logic/track'
+import type { ScreenProps } from '../appState'
+import { GAME_META } from '../gameMeta'
+import { withSelectedMark } from '../labels'
+import { usePaymentLinks } from './usePaymentLinks'
+
+export function LedgerScreen({ app }: ScreenProps) {
+  const {
+    setScreen,
+    theme,
+    ledger,
+    ledgerPeriod,
+    setLedgerPeriod,
+    ledgerCurrency,
+    setLedgerCurrency,
+    ledgerAliases,
+    setLedgerAliases,
+    ledgerMerge,
+    setLedgerMerge,
+    moneyFormat,
+    updateLedger,
+  } = app
+  const { payLinks } = usePaymentLinks(app)
+
+  const ledgerPeriodOptions = useMemo(() => ledgerPeriods(ledger), [ledger])
+  const activeLedgerPeriod = ledgerPeriodOptions.includes(ledgerPeriod) ? ledgerPeriod : 'all'
+  // One currency at a time, the most recently played first.
+  const ledgerCurrencyOptions = useMemo(() => ledgerCurrencies(ledger), [ledger])
+  const activeLedgerCurrency = ledgerCurrency && ledgerCurrencyOptions.includes(ledgerCurrency) ? ledgerCurrency : ledgerCurrencyOptions[0] || moneyFormat.currency
+  const ledgerSummary = useMemo(
+    () => computeLedger(ledger, activeLedgerPeriod, activeLedgerCurrency, ledgerAliases),
+    [ledger, activeLedgerPeriod, activeLedgerCurrency, ledgerAliases],
+  )
+
+  function removeLedgerEntry(entry: LedgerEntry) {
+    if (!confirm(`Remove “${entry.roundName || 'this round'}” from the ledger?`)) return
+    updateLedger(withoutLedgerEntry(ledger, entry.roundId))
+  }
+
+  function mergeLedgerPlayers() {
+    if (!ledgerMerge.from || !ledgerMerge.into || ledgerMerge.from === ledgerMerge.into) return
+    updateLedgerAliases(withLedgerAlias(ledgerAliases, ledgerMerge.from, ledgerMerge.into))
+    setLedgerMerge({ from: '', into: '' })
+  }
+
+  function updateLedgerAliases(next: LedgerAliases) {
+    setLedgerAliases(next)
+    saveLedgerAliases(next)
+  }
+
+  function clearLedger() {
+    if (!confirm('Clear the whole ledger? Saved rounds are kept.')) return
+    updateLedger([])
+  }
+
+  async function copyLedger() {
+    try {
+      await navigator.clipboard.writeText(ledgerText(ledgerSummary, activeLedgerPeriod, ledgerCurrencyOptions.length > 1))
+      track(TRACK_EVENTS.share_ledger, { period: activeLedgerPeriod, rounds: ledgerSummary.entries.length })
+      alert('Copied ledger (ready to paste in the group chat)')
+    } catch {
+      alert('Could not copy. You can manually select and copy the text.')
+    }
+  }
+
+  return (
+    <Card variant="outline">
+      <CardBody>
+        <Stack spacing={4}>
+          <HStack justify="space-between" align="flex-start" spacing={4} flexWrap="wrap">
+            <Box>
+              <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800}>
+                Ledger
+              </Text>
+              <Text fontSize="lg" fontWeight={800}>
+                {ledgerPeriodLabel(activeLedgerPeriod)}
+              </Text>
+              <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                {ledgerSummary.entries.length} locked round{ledgerSummary.entries.length === 1 ? '' : 's'}
+                {ledgerCurrencyOptions.length > 1 ? ` in ${ledgerSummary.currency}` : ''} • players matched by name
+              </Text>
+            </Box>
+            <Button variant="tertiary" size="sm" onClick={() => setScreen('game')} type="button">
+              Back
+            </Button>
+          </HStack>
+
+          {ledgerCurrencyOptions.length > 1 && (
+            <Wrap spacing={2}>
+              {ledgerCurrencyOptions.map((c) => {
+                const selected = activeLedgerCurrency === c
+                return (
+                  <WrapItem key={c}>
+                    <Button size="sm" variant={selected ? 'solid' : 'outline'} onClick={() => setLedgerCurrency(c)} type="button" aria-pressed={selected}>
+                      {withSelectedMark(selected, currencyLabel(c))}
+                    </Button>
+                  </WrapItem>
+                )
+              })}
+            </Wrap>
+          )}
+
+          {ledgerPeriodOptions.length > 1 && (
+            <Wrap spacing={2}>
+              {ledgerPeriodOptions.map((period) => {
+                const selected = activeLedgerPeriod === period
+                return (
+                  <WrapItem key={period}>
+                    <Button
+                      size="sm"
+                      variant={selected ? 'solid' : 'outline'}
+                      onClick={() => setLedgerPeriod(period)}
+                      type="button"
+                      aria-pressed={selected}
+                    >
+                      {withSelectedMark(selected, ledgerPeriodLabel(period))}
+                    </Button>
+                  </WrapItem>
+                )
+              })}
+            </Wrap>
+          )}
+
+          {ledgerSummary.entries.length === 0 ? (
+            <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+              Lock a round with money on it and its balances are added here, so the group can settle up once a month.
+            </Text>
+          ) : (
+            <>
+              <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+                <Box>
+                  <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} mb={2}>
+                    Running Totals
+                  </Text>
+                  <Table size="sm">
+                    <Thead>
+                      <Tr>
+                        <Th>Player</Th>
+                        <Th isNumeric>Rounds</Th>
+                        <Th textAlign="right">Net</Th>
+                      </Tr>
+                    </Thead>
+                    <Tbody>
+                      {ledgerSummary.players.map((p) => (
+                        <Tr key={p.key}>
+                          <Td>
+                            {p.name}
+                            {p.merged.map((m) => (
+                              <HStack key={m.key} spacing={1}>
+                                <Text fontSize="xs" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                                  also “{m.name}”
+                                </Text>
+                                <Button variant="tertiary" size="xs" onClick={() => updateLedgerAliases(withoutLedgerAlias(ledgerAliases, m.key))} type="button">
+                                  Unmerge
+                                </Button>
+                              </HStack>
+                            ))}
+                          </Td>
+                          <Td isNumeric>{p.rounds}</Td>
+                          <Td textAlign="right" className={p.netCents >= 0 ? 'positive' : 'negative'}>
+                            {formatSignedMoney(p.netCents, ledgerSummary.currency)}
+                          </Td>
+                        </Tr>
+                      ))}
+                    </Tbody>
+                  </Table>
+                  <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+                    Net after the payments recorded on each locked round's Settle Up.
+                  </Text>
+                </Box>
+
+                <Box>
+                  <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} mb={2}>
+                    Settle Up
+                  </Text>
+                  <Table size="sm">
+                    <Thead>
+                      <Tr>
+                        <Th>From</Th>
+                        <Th>To</Th>
+                        <Th textAlign="right">Amount</Th>
+                      </Tr>
+                    </Thead>
+                    <Tbody>
+                      {ledgerSummary.lines.length === 0 ? (
+                        <Tr>
+                          <Td colSpan={3}>
+                            <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                              No payments needed.
+                            </Text>
+                          </Td>
+                        </Tr>
+                      ) : (
+                        ledgerSummary.lines.map((l, idx) => (
+                          <Tr key={idx}>
+                            <Td>{l.from.name}</Td>
+                            <Td>{l.to.name}</Td>
+                            <Td textAlign="right">
+                              {formatMoney(l.amountCents, ledgerSummary.currency)}
+                              {payLinks(l, paymentMemo(`ledger ${ledgerPeriodLabel(activeLedgerPeriod)}`), ledgerSummary.currency)}
+                            </Td>
+                          </Tr>
+                        ))
+                      )}
+                    </Tbody>
+                  </Table>
+                  <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+                    One netted set of payments for every round above, using the fewest payments.
+                  </Text>
+                </Box>
+              </SimpleGrid>
+
+              <Box>
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} mb={2}>
+                  Between Players
+                </Text>
+                <Table size="sm">
+                  <Thead>
+                    <Tr>
+                      <Th>Owes</Th>
+                      <Th>To</Th>
+                      <Th textAlign="right">Balance</Th>
+                    </Tr>
+                  </Thead>
+                  <Tbody>
+                    {ledgerSummary.pairs.length === 0 ? (
+                      <Tr>
+                        <Td colSpan={3}>
+                          <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                            Everyone is square.
+                          </Text>
+                        </Td>
+                      </Tr>
+                    ) : (
+                      ledgerSummary.pairs.map((pair) => (
+                        <Tr key={`${pair.from}-${pair.to}`}>
+                          <Td>{pair.fromName}</Td>
+                          <Td>{pair.toName}</Td>
+                          <Td textAlign="right">{formatMoney(pair.amountCents, ledgerSummary.currency)}</Td>
+                        </Tr>
+                      ))
+                    )}
+                  </Tbody>
+                </Table>
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+                  Each round's suggested payments less what has been paid, netted pair by pair.
+                </Text>
+              </Box>
+
+              <Box>
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} mb={2}>
+                  Merge Players
+                </Text>
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mb={2}>
+                  Players are matched by name. If someone was renamed or misspelled, merge the extra name into theirs.
+                </Text>
+                <Stack spacing={3} borderWidth="1px" borderRadius="12px" p={3}>
+                  {(['from', 'into'] as const).map((side) => (
+                    <Box key={side}>
+                      <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mb={1}>
+                        {side === 'from' ? 'Merge' : 'Into'}
+                      </Text>
+                      <Wrap spacing={2}>
+                        {ledgerSummary.players.map((p) => {
+                          const selected = ledgerMerge[side] === p.key
+                          return (
+                            <WrapItem key={p.key}>
+                              <Button
+                                size="xs"
+                                variant={selected ? 'solid' : 'outline'}
+                                onClick={() => setLedgerMerge((m) => ({ ...m, [side]: p.key }))}
+                                type="button"
+                                aria-pressed={selected}
+                              >
+                                {withSelectedMark(selected, p.name)}
+                              </Button>
+                            </WrapItem>
+                          )
+                        })}
+                      </Wrap>
+                    </Box>
+                  ))}
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    alignSelf="flex-start"
+                    onClick={mergeLedgerPlayers}
+                    isDisabled={!ledgerMerge.from || !ledgerMerge.into || ledgerMerge.from === ledgerMerge.into}
+                    type="button"
+                  >
+                    Merge
+                  </Button>
+                </Stack>
+              </Box>
+
+              <Box>
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} mb={2}>
+                  Rounds
+                </Text>
+                <TableContainer w="full" overflowX="auto">
+                  <Table size="sm">
+                    <Thead>
+                      <Tr>
+                        <Th>Date</Th>
+                        <Th>Round</Th>
+                        <Th>Games</Th>
+                        <Th textAlign="right">Actions</Th>
+                      </Tr>
+                    </Thead>
+                    <Tbody>
+                      {ledgerSummary.entries.map((e) => (
+                        <Tr key={e.roundId}>
+                          <Td>{new Date(e.playedAt).toLocaleDateString()}</Td>
+                          <Td>{e.roundName || Object.values(e.names).join(', ')}</Td>
+                          <Td>
+                            <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                              {e.games.map((g) => GAME_META[g].short).join(' + ')}
+                            </Text>
+                          </Td>
+                          <Td textAlign="right">
+                            <Button variant="danger" size="sm" onClick={() => removeLedgerEntry(e)} type="button">
+                              Remove
+                            </Button>
+                          </Td>
+                        </Tr>
+                      ))}
+                    </Tbody>
+                  </Table>
+                </TableContainer>
+              </Box>
+
+              <HStack spacing={2} flexWrap="wrap">
+                <Button variant="primary" size="sm" onClick={copyLedger} type="button" title="Copy the ledger to paste in the group chat">
+                  Copy ledger
+                </Button>
+                <Button variant="danger" size="sm" onClick={clearLedger} type="button">
+                  Clear ledger
+                </Button>
+              </HStack>
+            </>
+          )}
+        </Stack>
+      </CardBody>
+    </Card>
+  )
+}
@@ -1,11 +1,1168 @@
-import type { ReactNode } from 'react'
+import { type ComponentType, useEffect, useMemo, useRef, useState } from 'react'
+import {
+  Box,
+  Button,
+  Card,
+  CardBody,
+  Divider,
+  FormControl,
+  HStack,
+  Icon,
+  IconButton,
+  Input,
+  SimpleGrid,
+  Stack,
+  Text,
+  Wrap,
+  WrapItem,
+} from '@chakra-ui/react'
+import { Hammer } from 'lucide-react'
+import type { HammerSide, HoleNumber, JunkType, NassauBet, PlayerId } from '../types'
+import { skinsCountLabel, stakeLabel } from '../logic/skins'
+import { emptyHoleAwards, type BBBAwardType } from '../logic/bbb'
+import { wolfForHole, wolfMode, wolfModeLabel } from '../logic/wolf'
+import { nassauNineForHole, nassauMatchLabel, nassauMatchStatus } from '../logic/nassau'
+import { matchStatusLabel } from '../logic/match'
+import { sixesTeamsForHole } from '../logic/sixes'
+import { hammerHistoryLabel, nextHammerSide, otherSide, validHammerCalls } from '../logic/hammer'
+import { groupScoreTargets } from '../logic/group'
+import { JUNK_HINT, JUNK_LABEL, junkEnabled, junkTypesForHole } from '../logic/junk'
+import { parForHole, scoreName } from '../logic/course'
+import { holePosition } from '../logic/holes'
+import { hasGame, usesStrokes } from '../logic/games'
+import { TRACK_EVENTS, track } from '../logic/track'
+import { anyIncompleteHole, firstIncompleteHoleFromMap, nextIncompleteHoleFromMap } from '../selectors/roundDerived'
+import type { ScreenProps } from '../appState'
+import { GAME_META } from '../gameMeta'
+import { withSelectedMark } from '../labels'
+import { uid } from '../newRound'
+import { useRoundView } from './useRoundView'
 
-type QuickScreenProps = {
-  active: boolean
-  children: ReactNode
-}
+export function QuickScreen({ app }: ScreenProps) {
+  const { setScreen, theme, prefersReducedMotion, round, setRound, lastQuickHoleRef, quickHole, setQuickHole, registerUndo } = app
+  const {
+    skins,
+    bbb,
+    nassau,
+    stableford,
+    vegas,
+    matchPlay,
+    sixes,
+    hammer,
+    quota,
+    group,
+    junk,
+    rabbit,
+    snake,
+    settlement,
+    nassauSettlement,
+    nassauSideNames,
+    hammerSideNames,
+    playerNamesById,
+    entryRows,
+    entryNameById,
+    playHoles,
+    enteredByHole,
+    completionByHole,
+    skinsByHole,
+    wolfByHole,
+    playerNameOrDash,
+    stablefordHoleLabel,
+    quotaHoleLabel,
+    groupHoleLabel,
+    groupStandingLabel,
+    quotaPaceLabel,
+    vegasHoleLabel,
+    matchHoleLabel,
+    sixesSideNames,
+    sixesSegmentName,
+    hammerHoleLabel,
+    hammerStandingLabel,
+    holdoverHoldersLabel,
+    vegasStandingLabel,
+    holeParLabel,
+    skinsCarryLine,
+    clampStroke,
+    setStroke,
+    clearHole,
+    resetToGamePicker,
+    lastCompletedHole,
+    copyStatus,
+    copyNassauSettlement,
+    isRoundComplete,
+    lockRound,
+    unlockRound,
+    shareSettlement,
+    groupTeamPicker,
+  } = useRoundView(app)
+
+  const [holeChangeFlash, setHoleChangeFlash] = useState(false)
+  const [holeChangeHint, setHoleChangeHint] = useState(false)
+  const [holeLiveMessage, setHoleLiveMessage] = useState('')
+  const firstIncompleteHoleValue = useMemo(() => firstIncompleteHoleFromMap(completionByHole, playHoles), [completionByHole, playHoles])
+  const hasIncompleteHolesValue = useMemo(() => anyIncompleteHole(completionByHole, playHoles), [completionByHole, playHoles])
+
+  function toggleJunkDot(hole: HoleNumber, pid: PlayerId, type: JunkType) {
+    if (round.locked) return
+    track(TRACK_EVENTS.junk_dot_toggle, { hole, type, playerId: pid })
+    setRound((r) => {
+      if (!junkEnabled(r)) return r
+      const cur = r.junkByHole || {}
+      const holeRec = cur[hole] || {}
+      const mine = holeRec[pid] || []
+      const next = mine.includes(type) ? mine.filter((t) => t !== type) : [...mine, type]
+      return { ...r, junkByHole: { ...cur, [hole]: { ...holeRec, [pid]: next } } }
+    })
+  }
+
+  // Tapping the selected count again clears it.
+  function setPutts(hole: HoleNumber, pid: PlayerId, putts: number) {
+    if (round.locked) return
+    track(TRACK_EVENTS.putts_set, { hole, playerId: pid, putts })
+    setRound((r) => {
+      const cur = r.puttsByHole || {}
+      const holeRec = cur[hole] || {}
+      const next = holeRec[pid] === putts ? null : putts
+      return { ...r, puttsByHole: { ...cur, [hole]: { ...holeRec, [pid]: next } } }
+    })
+  }
+  const holeFlashTimeoutRef = useRef<number | null>(null)
+  const holeHintTimeoutRef = useRef<number | null>(null)
+
+  useEffect(() => {
+    return () => {
+      if (holeFlashTimeoutRef.current !== null) window.clearTimeout(holeFlashTimeoutRef.current)
+      if (holeHintTimeoutRef.current !== null) window.clearTimeout(holeHintTimeoutRef.current)
+    }
+  }, [])
+
+  function incStroke(hole: number, playerId: PlayerId, delta: number) {
+    if (round.locked) return
+    if (!usesStrokes(round)) return
+
+    setRound((r) => {
+      const holeRec = { ...r.strokesByHole[hole] }
+      const cur = holeRec[playerId]
+      const base = typeof cur === 'number' ? cur : 4
+      const next = clampStroke(base + delta)
+      for (const id of groupScoreTargets(r, playerId)) holeRec[id] = next
+      return { ...r, strokesByHole: { ...r.strokesByHole, [hole]: holeRec } }
+    })
+  }
+  const nextIncompleteHole = useMemo(
+    () => nextIncompleteHoleFromMap(quickHole, completionByHole, playHoles),
+    [quickHole, completionByHole, playHoles],
+  )
+  // 1-based position of the quick-entry hole in play order.
+  const quickPos = playHoles.indexOf(quickHole as HoleNumber) + 1
+
+  const stepQuickHole = (delta: number) => {
+    setQuickHole((h) => {
+      const i = Math.max(0, playHoles.indexOf(h as HoleNumber))
+      return playHoles[Math.max(0, Math.min(playHoles.length - 1, i + delta))]
+    })
+  }
+
+  const firstIncompleteHole = () => {
+    return firstIncompleteHoleValue
+  }
+
+  const nextIncompleteHoleFrom = (fromHole: number): number | null => {
+    return nextIncompleteHoleFromMap(fromHole, completionByHole, playHoles)
+  }
+
+  const hasIncompleteHoles = () => {
+    return hasIncompleteHolesValue
+  }
+
+  const currentHole = () => {
+    const through = lastCompletedHole()
+    return playHoles[Math.min(playHoles.length - 1, through)]
+  }
+
+  function clearScoreWithUndo(hole: number, playerId: PlayerId) {
+    if (round.locked || !usesStrokes(round)) return
+    let previousValue: number | null | undefined
+    setRound((r) => {
+      const holeRec = { ...r.strokesByHole[hole] }
+      previousValue = holeRec[playerId] ?? null
+      if (previousValue === null) return r
+      for (const id of groupScoreTargets(r, playerId)) holeRec[id] = null
+      return { ...r, strokesByHole: { ...r.strokesByHole, [hole]: holeRec } }
+    })
+    if (typeof previousValue !== 'number') return
+    const playerName = entryNameById[playerId] || 'Player'
+    registerUndo({
+      label: `Cleared ${playerName} on hole ${hole}`,
+      restore: () =>
+        setRound((r) => {
+          const holeRec = { ...r.strokesByHole[hole] }
+          for (const id of groupScoreTargets(r, playerId)) holeRec[id] = previousValue ?? null
+          return { ...r, strokesByHole: { ...r.strokesByHole, [hole]: holeRec } }
+        }),
+    })
+  }
+
+  useEffect(() => {
+    // When entering quick mode, jump to first incomplete hole.
+    setQuickHole(firstIncompleteHole())
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  function setWolfPartnerForHole(hole: HoleNumber, partnerId: PlayerId | null) {
+    if (round.locked) return
+    setRound((r) => {
+      if (!hasGame(r, 'wolf')) return r
+      const cur = r.wolfPartnerByHole || {}
+      // Picking a partner (or Lone) after the tee shot undoes a Blind Wolf call; Pig belongs to the old partner.
+      return {
+        ...r,
+        wolfPartnerByHole: { ...cur, [hole]: partnerId },
+        wolfBlindByHole: { ...r.wolfBlindByHole, [hole]: false },
+        wolfPigByHole: { ...r.wolfPigByHole, [hole]: false },
+      }
+    })
+  }
+
+  function setWolfBlindForHole(hole: HoleNumber, blind: boolean) {
+    if (round.locked) return
+    setRound((r) => {
+      if (!hasGame(r, 'wolf')) return r
+      // Blind Wolf plays alone: no partner, no Pig.
+      return {
+        ...r,
+        wolfBlindByHole: { ...r.wolfBlindByHole, [hole]: blind },
+        ...(blind ? { wolfPartnerByHole: { ...r.wolfPartnerByHole, [hole]: null }, wolfPigByHole: { ...r.wolfPigByHole, [hole]: false } } : {}),
+      }
+    })
+  }
+
+  function setWolfPigForHole(hole: HoleNumber, pig: boolean) {
+    if (round.locked) return
+    setRound((r) => {
+      if (!hasGame(r, 'wolf')) return r
+      if (pig && !r.wolfPartnerByHole?.[hole]) return r
+      return { ...r, wolfPigByHole: { ...r.wolfPigByHole, [hole]: pig } }
+    })
+  }
+
+  function throwHammer(hole: HoleNumber, side: HammerSide) {
+    if (round.locked) return
+    track(TRACK_EVENTS.hammer_call, { hole, side })
+    setRound((r) => {
+      if (!hasGame(r, 'hammer')) return r
+      const calls = validHammerCalls(r.hammerByHole?.[hole])
+      const next = nextHammerSide(calls)
+      if (next === null || (next !== 'either' && next !== side)) return r
+      return { ...r, hammerByHole: { ...r.hammerByHole, [hole]: [...calls, { side, response: null }] } }
+    })
+  }
+
+  function answerHammer(hole: HoleNumber, response: 'accepted' | 'conceded') {
+    if (round.locked) return
+    track(TRACK_EVENTS.hammer_call, { hole, response })
+    setRound((r) => {
+      const calls = validHammerCalls(r.hammerByHole?.[hole])
+      const last = calls[calls.length - 1]
+      if (!last || last.response !== null) return r
+      return { ...r, hammerByHole: { ...r.hammerByHole, [hole]: [...calls.slice(0, -1), { ...last, response }] } }
+    })
+  }
+
+  // Undo steps back one answer or one hammer at a time.
+  function undoHammer(hole: HoleNumber) {
+    if (round.locked) return
+    setRound((r) => {
+      const calls = validHammerCalls(r.hammerByHole?.[hole])
+      const last = calls[calls.length - 1]
+      if (!last) return r
+      const next = last.response === null ? calls.slice(0, -1) : [...calls.slice(0, -1), { ...last, response: null }]
+      return { ...r, hammerByHole: { ...r.hammerByHole, [hole]: next } }
+    })
+  }
+
+  function addNassauPress(hole: HoleNumber, bet: NassauBet) {
+    if (round.locked) return
+    track(TRACK_EVENTS.nassau_press, { hole, bet })
+    setRound((r) => {
+      if (!hasGame(r, 'nassau')) return r
+      const cur = r.nassauPresses || []
+      return { ...r, nassauPresses: [...cur, { id: uid('press'), bet, startHole: hole }] }
+    })
+  }
+
+  function removeNassauPress(id: string) {
+    if (round.locked) return
+    setRound((r) => {
+      if (!hasGame(r, 'nassau')) return r
+      return { ...r, nassauPresses: (r.nassauPresses || []).filter((p) => p.id !== id) }
+    })
+  }
+
+  function setBBBAwardForHole(hole: HoleNumber, award: BBBAwardType, winnerId: PlayerId | null) {
+    if (round.locked) return
+    track(TRACK_EVENTS.bbb_award_set, { hole, award, winnerId })
+    setRound((r) => {
+      if (!hasGame(r, 'bbb')) return r
+      const cur = r.bbbAwardsByHole || {}
+      const holeRec = cur[hole] || emptyHoleAwards()
+      return {
+        ...r,
+        bbbAwardsByHole: {
+          ...cur,
+          [hole]: {
+            ...holeRec,
+            [award]: winnerId,
+          },
+        },
+      }
+    })
+  }
+
+  const wolfHole = useMemo(() => {
+    if (!hasGame(round, 'wolf')) return null
+    return wolfForHole(round, quickHole as HoleNumber)
+  }, [round, quickHole])
+
+  const sixesHole = useMemo(() => {
+    if (!hasGame(round, 'sixes') || round.players.length !== 4) return null
+    return sixesTeamsForHole(round, quickHole as HoleNumber)
+  }, [round, quickHole])
+
+  const quickPar = parForHole(round, quickHole as HoleNumber)
+
+  const quickThrough = !usesStrokes(round) ? bbb?.through ?? 0 : lastCompletedHole()
+
+  useEffect(() => {
+    const prev = lastQuickHoleRef.current
+    if (prev === null) {
+      lastQuickHoleRef.current = quickHole
+      return
+    }
+    if (prev === quickHole) return
+
+    lastQuickHoleRef.current = quickHole
+    setHoleLiveMessage(`Now editing hole ${quickHole} of ${playHoles.length}`)
+    setHoleChangeHint(true)
+    if (holeHintTimeoutRef.current !== null) window.clearTimeout(holeHintTimeoutRef.current)
+    holeHintTimeoutRef.current = window.setTimeout(() => setHoleChangeHint(false), 1200)
+
+    if (!prefersReducedMotion) {
+      setHoleChangeFlash(true)
+      if (holeFlashTimeoutRef.current !== null) window.clearTimeout(holeFlashTimeoutRef.current)
+      holeFlashTimeoutRef.current = window.setTimeout(() => setHoleChangeFlash(false), 220)
+    }
+  }, [quickHole, prefersReducedMotion, playHoles.length, lastQuickHoleRef])
+
+  return (
+    <Card variant="outline">
+      <CardBody pb={{ base: '112px', md: 6 }}>
+        <Box className="srOnly" aria-live="polite" aria-atomic="true">
+          {holeLiveMessage}
+        </Box>
+        <Stack spacing={4}>
+          <HStack justify="space-between" align="flex-start" spacing={3} flexWrap="wrap">
+            <Box>
+              <Box className={`holeContextHeader ${holeChangeFlash ? 'holeChanged' : ''}`} mb={2}>
+                <Text fontWeight={800} fontSize={{ base: '2xl', md: 'xl' }}>
+                  Hole {quickHole} ({quickPos} of {playHoles.length})
+                </Text>
+                <HStack spacing={2} flexWrap="wrap">
+                  <Box className="pill">Through {quickThrough}/{playHoles.length}</Box>
+                  {round.course && <Box className="pill">{holeParLabel(quickHole)}</Box>}
+                  {holeChangeHint && <Box className="pill">Hole changed</Box>}
+                </HStack>
+              </Box>
+              <HStack spacing={3} align="center" flexWrap="wrap">
+                <Icon as={GAME_META[round.game].Icon as ComponentType} boxSize={5} aria-hidden="true" />
+                <Text fontWeight={800} fontSize="lg">
+                  {round.name || GAME_META[round.game].short}
+                </Text>
+                <Button variant="tertiary" size="sm" onClick={() => setScreen('settlement')} type="button">
+                  Summary →
+                </Button>
+                {round.locked && (
+                  <Box className="pill" aria-label="Locked">
+                    Locked <span role="img" aria-label="Locked">✅</span>
+                  </Box>
+                )}
+              </HStack>
+
+              {skins && (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={1}>
+                  {skinsCarryLine(skins)}
+                  {(() => {
+                    const leader = round.players
+                      .slice()
+                      .sort((a, b) => (skins.skinsWon[b.id] || 0) - (skins.skinsWon[a.id] || 0))[0]
+                    const n = leader ? skins.skinsWon[leader.id] || 0 : 0
+                    return leader ? ` • Leader: ${leader.name} (${skinsCountLabel(n)})` : ''
+                  })()}
+                </Text>
+              )}
+
+              {wolfHole && (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={1}>
+                  {(() => {
+                    const wolfName = playerNameOrDash(wolfHole.wolfId)
+                    const partnerId = (round.wolfPartnerByHole?.[quickHole as HoleNumber] ?? null) as PlayerId | null
+                    const partnerName = partnerId ? playerNameOrDash(partnerId) : null
+                    const otherNames = round.players
+                      .filter((p) => p.id !== wolfHole.wolfId && p.id !== partnerId)
+                      .map((p) => p.name)
+                      .join(' + ')
+
+                    const mode = wolfMode(round, quickHole as HoleNumber)
+                    const teams =
+                      mode === 'team'
+                        ? `Teams: ${wolfName} + ${partnerName} vs ${otherNames}`
+                        : mode === 'pig'
+                          ? `Pig: ${partnerName} vs ${round.players.filter((p) => p.id !== partnerId).map((p) => p.name).join(' + ')}`
+                          : `${wolfModeLabel(mode)}: ${wolfName} vs ${otherNames}`
+
+                    const hr = wolfByHole[quickHole as HoleNumber]
+                    const lastPlace = hr?.lastPlaceWolf ? ' (last place)' : ''
+                    const carry = hr && hr.carriedTies > 0 ? ` • ${hr.carriedTies} tie(s) carried` : ''
+
+                    return `Hole ${quickHole}: Wolf = ${wolfName}${lastPlace} • ${teams}${carry}`
+                  })()}
+                </Text>
+              )}
+
+              {nassau && nassauSideNames && (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={1}>
+                  {nassau.matches
+                    .filter((m) => m.status === 'open' && holePosition(round, m.startHole) <= quickPos && quickPos <= holePosition(round, m.endHole))
+                    .map((m) => `${nassauMatchLabel(m)}: ${nassauMatchStatus(m, nassauSideNames)}`)
+                    .join(' • ')}
+                </Text>
+              )}
+
+              {bbb && (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={1}>
+                  BBB • Through {bbb.through}/{playHoles.length} • {round.players
+                    .slice()
+                    .sort((a, b) => (bbb.pointsByPlayer[b.id] || 0) - (bbb.pointsByPlayer[a.id] || 0))
+                    .map((p) => `${p.name} ${bbb.pointsByPlayer[p.id] || 0}`)
+                    .join(' • ')}
+                </Text>
+              )}
+
+              {stableford && (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={1}>
+                  {stablefordHoleLabel(quickHole)} • Total{' '}
+                  {round.players.map((p) => `${p.name} ${stableford.pointsByPlayer[p.id] || 0}`).join(' • ')}
+                </Text>
+              )}
+
+              {quota && (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={1}>
+                  {quotaHoleLabel(quickHole)} • Vs quota {quotaPaceLabel()}
+                </Text>
+              )}
+
+              {group && (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={1}>
+                  {groupHoleLabel(quickHole)}
+                  {groupStandingLabel() ? ` • ${groupStandingLabel()}` : ''}
+                </Text>
+              )}
+
+              {vegas && (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={1}>
+                  {vegasHoleLabel(quickHole)} • Total {vegasStandingLabel()}
+                </Text>
+              )}
+
+              {matchPlay && (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={1}>
+                  {matchHoleLabel(quickHole)}
+                </Text>
+              )}
+
+              {hammer && (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={1}>
+                  {hammerHoleLabel(quickHole)} • Total {hammerStandingLabel()}
+                </Text>
+              )}
+
+              {sixesHole && sixes && (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={1}>
+                  {(() => {
+                    const names = sixesSideNames(sixesHole.sides)
+                    const seg = sixes.segments[sixesHole.segment]
+                    const status = seg ? ` • ${sixesSegmentName(seg)}: ${matchStatusLabel(seg, names)}` : ''
+                    return `Hole ${quickHole}: Teams ${names.A} vs ${names.B}${status}`
+                  })()}
+                </Text>
+              )}
+
+              {(rabbit || snake) && (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={1}>
+                  {holdoverHoldersLabel()}
+                </Text>
+              )}
+            </Box>
+
+            <HStack spacing={2} align="center" flexWrap="wrap" justify="flex-end">
+              <Button variant="tertiary" size="sm" onClick={() => stepQuickHole(-1)} isDisabled={quickPos <= 1} type="button">
+                ←
+              </Button>
+
+              <FormControl w="120px">
+                <Input
+                  value={String(quickHole)}
+                  onChange={(e) => {
+                    const n = Number(e.target.value)
+                    if (!Number.isFinite(n)) return
+                    const h = Math.max(1, Math.min(18, Math.round(n)))
+                    if (playHoles.includes(h as HoleNumber)) setQuickHole(h)
+                  }}
+                  inputMode="numeric"
+                  aria-label="Hole"
+                />
+              </FormControl>
+
+              <Button variant="tertiary" size="sm" onClick={() => stepQuickHole(1)} isDisabled={quickPos >= playHoles.length} type="button">
+                →
+              </Button>
+
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => {
+                  const next = nextIncompleteHoleFrom(quickHole)
+                  if (next !== null) setQuickHole(next)
+                }}
+                isDisabled={nextIncompleteHoleFrom(quickHole) === null}
+                type="button"
+                title="Jump to next incomplete hole"
+              >
+                Next incomplete
+              </Button>
+
+              <Button variant="secondary" size="sm" onClick={() => setScreen('holes')} type="button">
+                Grid
+              </Button>
+            </HStack>
+          </HStack>
+
+          <Divider />
+
+          {skins && (
+            <div className="card" style={{ padding: 12, marginTop: 12, marginBottom: 12 }}>
+              <div className="label">Hole story</div>
+                {(() => {
+                  const hr = skinsByHole[quickHole as HoleNumber]
+                  if (!hr) return <div className="small">No data for this hole yet.</div>
+
+                  const entered = enteredByHole[quickHole as HoleNumber]
+                  const total = round.players.length
+
+                  if (entered < total) {
+                  const atStake = 1 + (hr.carrySkins || 0)
+                  const validate = round.skinsValidation && hr.carrySkins > 0 && hr.par !== null
+                  return (
+                  <div className="small">
+                  Enter scores ({entered}/{total}). If this hole has a winner: <b>{atStake}</b> skin(s) at stake
+                  {validate ? ` (the ${hr.carrySkins} carried need par or better)` : ''}.
+                  </div>
+                  )
+                  }
+
+                  if (hr.winnerId) {
+                  const winner = playerNamesById[hr.winnerId] || 'Winner'
+                  const wonCents = hr.wonSkins * (round.stakeCents || 0)
+                  return (
+                  <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center' }}>
+                  <span className="pill">Winner: {winner}</span>
+                  <span className="pill">Skins: {hr.wonSkins}</span>
+                  {round.skinsPayout !== 'pot' && <span className="pill">Value: {stakeLabel(wonCents)}</span>}
+                  {hr.par !== null && hr.lowScore !== null && <span className="pill">Score: {scoreName(hr.lowScore, hr.par)}</span>}
+                  <span className="pill">{hr.carryHeld ? `Carry held: ${hr.carryAfter} (no par)` : 'Carry resets'}</span>
+                  </div>
+                  )
+                  }
+
+                  // Tie
+                  const before = hr.carrySkins || 0
+                  const after = hr.carryAfter
+                  const stake = round.stakeCents || 0
+                  const nextSkins = after + 1
+                  const nextCents = nextSkins * stake
+                  return (
+                  <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center' }}>
+                  <span className="pill">Result: tie</span>
+                  <span className="pill">Carry: {before} → {after}</span>
+                  <span className="pill">Carry resets</span>
+                  <span className="pill">Next hole: {nextSkins} skin(s){round.skinsPayout === 'pot' ? '' : ` (${stakeLabel(nextCents)})`}</span>
+                  </div>
+                  )
+                })()}
+              </div>
+              )}
+      {hasGame(round, 'bbb') && (
+        <div className="card" style={{ padding: 12, marginTop: 12, marginBottom: 12 }}>
+          <div className="label">Hole awards</div>
+          <div className="small">Pick winners for Bingo/Bango/Bongo (or choose None). No ties in v1.</div>
+          <div style={{ height: 10 }} />
+          {(() => {
+            const hole = quickHole as HoleNumber
+            const awards = round.bbbAwardsByHole?.[hole] || emptyHoleAwards()
+
+            const renderAward = (award: BBBAwardType, label: string) => (
+              <div style={{ marginBottom: 10 }}>
+                <div className="small" style={{ fontWeight: 800, marginBottom: 6 }}>{label}</div>
+                <Wrap spacing={2}>
+                  <WrapItem>
+                        <Button
+                          size="sm"
+                          variant={awards[award] === null ? 'solid' : 'outline'}
+                      onClick={() => setBBBAwardForHole(hole, award, null)}
+                      isDisabled={!!round.locked}
+                      type="button"
+                      title="No winner / unknown"
+                      aria-pressed={awards[award] === null}
+                        >
+                          {withSelectedMark(awards[award] === null, 'None')}
+                        </Button>
+                      </WrapItem>
+                  {round.players.map((p) => (
+                    <WrapItem key={p.id}>
+                      <Button
+                        size="sm"
+                        variant={awards[award] === p.id ? 'solid' : 'outline'}
+                        onClick={() => setBBBAwardForHole(hole, award, p.id)}
+                        isDisabled={!!round.locked}
+                        type="button"
+                        aria-pressed={awards[award] === p.id}
+                      >
+                        {withSelectedMark(awards[award] === p.id, p.name)}
+                      </Button>
+                    </WrapItem>
+                  ))}
+                </Wrap>
+              </div>
+            )
+
+            return (
+              <>
+                {renderAward('bingo', 'Bingo (first on green)')}
+                {renderAward('bango', 'Bango (closest to pin)')}
+                {renderAward('bongo', 'Bongo (first to hole out)')}
+              </>
+            )
+          })()}
+        </div>
+      )}
+
+      {snake && (
+        <div className="card" style={{ padding: 12, marginTop: 12, marginBottom: 12 }}>
+          <div className="label">Snake • {snake.holderId ? `held by ${playerNameOrDash(snake.holderId)}` : 'nobody holds it yet'}</div>
+          <div className="small">Putts on this hole (tap again to clear). Three or more takes the snake.</div>
+          <div style={{ height: 10 }} />
+          {round.players.map((p) => {
+            const hole = quickHole as HoleNumber
+            const mine = round.puttsByHole?.[hole]?.[p.id] ?? null
+            return (
+              <div key={p.id} style={{ marginBottom: 10 }}>
+                <div className="small" style={{ fontWeight: 800, marginBottom: 6 }}>{p.name}</div>
+                <Wrap spacing={2}>
+                  {[0, 1, 2, 3, 4].map((n) => {
+                    const selected = mine === n
+                    return (
+                      <WrapItem key={n}>
+                        <Button
+                          size="sm"
+                          variant={selected ? 'solid' : 'outline'}
+                          onClick={() => setPutts(hole, p.id, n)}
+                          isDisabled={!!round.locked}
+                          type="button"
+                          aria-pressed={selected}
+                          aria-label={`${p.name} ${n === 4 ? '4 or more' : n} putts`}
+                        >
+                          {withSelectedMark(selected, n === 4 ? '4+' : String(n))}
+                        </Button>
+                      </WrapItem>
+                    )
+                  })}
+                </Wrap>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {junk && (
+        <div className="card" style={{ padding: 12, marginTop: 12, marginBottom: 12 }}>
+          <div className="label">Junk</div>
+          <div className="small">Tap each dot a player earned on this hole (tap again to remove).</div>
+          <div style={{ height: 10 }} />
+          {(() => {
+            const hole = quickHole as HoleNumber
+            const types = junkTypesForHole(round, hole)
+            if (types.length === 0) return <div className="small">No dots in play on this hole.</div>
+            return round.players.map((p) => {
+              const mine = round.junkByHole?.[hole]?.[p.id] || []
+              return (
+                <div key={p.id} style={{ marginBottom: 10 }}>
+                  <div className="small" style={{ fontWeight: 800, marginBottom: 6 }}>{p.name}</div>
+                  <Wrap spacing={2}>
+                    {types.map((t) => {
+                      const selected = mine.includes(t)
+                      return (
+                        <WrapItem key={t}>
+                          <Button
+                            size="sm"
+                            variant={selected ? 'solid' : 'outline'}
+                            onClick={() => toggleJunkDot(hole, p.id, t)}
+                            isDisabled={!!round.locked}
+                            type="button"
+                            aria-pressed={selected}
+                            title={JUNK_HINT[t]}
+                          >
+                            {withSelectedMark(selected, JUNK_LABEL[t])}
+                          </Button>
+                        </WrapItem>
+                      )
+                    })}
+                  </Wrap>
+                </div>
+              )
+            })
+          })()}
+        </div>
+      )}
+
+      {hammer && hammerSideNames && (
+        <div className="card" style={{ padding: 12, marginTop: 12, marginBottom: 12 }}>
+          {(() => {
+            const hr = hammer.holeResults.find((x) => x.hole === quickHole)
+            const calls = hr?.calls || []
+            const mult = hr?.multiplier || 1
+            const last = calls[calls.length - 1]
+            const next = nextHammerSide(calls)
+            const hammerSides: HammerSide[] = next === 'either' ? ['A', 'B'] : next ? [next] : []
+            return (
+              <Stack spacing={3}>
+                <div className="label">
+                  Hammer — hole worth {mult} pt{mult === 1 ? '' : 's'}
+                </div>
+                {calls.length > 0 && <div className="small">{hammerHistoryLabel(calls, hammerSideNames)}</div>}
+                {last && last.response === null ? (
+                  <SimpleGrid columns={2} spacing={2}>
+                    <Button size="lg" variant="primary" onClick={() => answerHammer(quickHole as HoleNumber, 'accepted')} type="button" isDisabled={round.locked}>
+                      {hammerSideNames[otherSide(last.side)]} accept (×{mult * 2})
+                    </Button>
+                    <Button size="lg" variant="secondary" onClick={() => answerHammer(quickHole as HoleNumber, 'conceded')} type="button" isDisabled={round.locked}>
+                      Concede (−{mult})
+                    </Button>
+                  </SimpleGrid>
+                ) : hammerSides.length > 0 ? (
+                  <SimpleGrid columns={hammerSides.length} spacing={2}>
+                    {hammerSides.map((side) => (
+                      <Button
+                        key={side}
+                        size="lg"
+                        h="64px"
+                        variant="primary"
+                        leftIcon={<Icon as={Hammer} boxSize={5} aria-hidden="true" />}
+                        onClick={() => throwHammer(quickHole as HoleNumber, side)}
+                        type="button"
+                        isDisabled={round.locked}
+                      >
+                        Hammer: {hammerSideNames[side]}
+                      </Button>
+                    ))}
+                  </SimpleGrid>
+                ) : (
+                  hr?.concededBy && <div className="small">{hammerSideNames[hr.concededBy]} conceded the hole.</div>
+                )}
+                {calls.length > 0 && (
+                  <Box>
+                    <Button size="sm" variant="tertiary" onClick={() => undoHammer(quickHole as HoleNumber)} type="button" isDisabled={round.locked}>
+                      Undo
+                    </Button>
+                  </Box>
+                )}
+              </Stack>
+            )
+          })()}
+        </div>
+      )}
+
+      {wolfHole && (
+        <div className="card" style={{ padding: 12, marginTop: 12, marginBottom: 12 }}>
+          <div className="label">Pick partner for this hole</div>
+          <Wrap spacing={2}>
+            {round.players
+              .filter((p) => p.id !== wolfHole.wolfId)
+              .map((p) => {
+                const selected = (round.wolfPartnerByHole?.[quickHole as HoleNumber] ?? null) === p.id
+                return (
+                  <WrapItem key={p.id}>
+                    <Button
+                      size="sm"
+                      variant={selected ? 'solid' : 'outline'}
+                      onClick={() => setWolfPartnerForHole(quickHole as HoleNumber, p.id)}
+                      isDisabled={!!round.locked}
+                      type="button"
+                      aria-pressed={selected}
+                    >
+                      {withSelectedMark(selected, p.name)}
+                    </Button>
+                  </WrapItem>
+                )
+              })}
+            {(() => {
+              const selected = (round.wolfPartnerByHole?.[quickHole as HoleNumber] ?? null) === null
+              return (
+                <WrapItem>
+                  <Button
+                    size="sm"
+                    variant={selected ? 'solid' : 'outline'}
+                    onClick={() => setWolfPartnerForHole(quickHole as HoleNumber, null)}
+                    isDisabled={!!round.locked}
+                    type="button"
+                    title="Play lone wolf"
+                    aria-pressed={selected}
+                  >
+                    {withSelectedMark(selected, 'Lone')}
+                  </Button>
+                </WrapItem>
+              )
+            })()}
+          </Wrap>
+          {(() => {
+            const hole = quickHole as HoleNumber
+            const blind = !!round.wolfBlindByHole?.[hole]
+            const partnerId = round.wolfPartnerByHole?.[hole] ?? null
+            const pig = !!partnerId && !!round.wolfPigByHole?.[hole]
+            return (
+              <Wrap spacing={2} mt={2} mb={2}>
+                <WrapItem>
+                  <Button
+                    size="sm"
+                    variant={blind ? 'solid' : 'outline'}
+                    onClick={() => setWolfBlindForHole(hole, !blind)}
+                    isDisabled={!!round.locked}
+                    type="button"
+                    title={`Declared before the tee shot: plays alone for ${round.wolfBlindMultiplier || 3}x`}
+                    aria-pressed={blind}
+                  >
+                    {withSelectedMark(blind, 'Blind Wolf')}
+                  </Button>
+                </WrapItem>
+                {partnerId && (
+                  <WrapItem>
+                    <Button
+                      size="sm"
+                      variant={pig ? 'solid' : 'outline'}
+                      onClick={() => setWolfPigForHole(hole, !pig)}
+                      isDisabled={!!round.locked}
+                      type="button"
+                      title={`${playerNameOrDash(partnerId)} rejects the Wolf and plays alone against everyone for ${round.wolfPigMultiplier || 2}x`}
+                      aria-pressed={pig}
+                    >
+                      {withSelectedMark(pig, `Pig (${playerNameOrDash(partnerId)} alone)`)}
+                    </Button>
+                  </WrapItem>
+                )}
+              </Wrap>
+            )
+          })()}
+          <div className="small">1) Confirm the Wolf above (Blind Wolf before the tee shot). 2) Tap a partner (or Lone); the partner may call Pig. 3) Enter scores. This pairing is saved per hole.</div>
+        </div>
+      )}
+
+      {nassau && (
+        <div className="card" style={{ padding: 12, marginTop: 12, marginBottom: 12 }}>
+          <div className="label">Press</div>
+          {(() => {
+            const hole = quickHole as HoleNumber
+            const nine = nassauNineForHole(round, hole)
+            const pressesHere = (round.nassauPresses || []).filter((p) => p.startHole === hole)
+            const autoHere = nassau.matches.filter((m) => m.auto && m.startHole === hole)
+            return (
+              <>
+                <Wrap spacing={2} mb={2}>
+                  {nine !== 'overall' && (
+                    <WrapItem>
+                      <Button size="sm" variant="outline" onClick={() => addNassauPress(hole, nine)} isDisabled={!!round.locked} type="button">
+                        Press {nine === 'front' ? 'Front 9' : 'Back 9'}
+                      </Button>
+                    </WrapItem>
+                  )}
+                  <WrapItem>
+                    <Button size="sm" variant="outline" onClick={() => addNassauPress(hole, 'overall')} isDisabled={!!round.locked} type="button">
+                      Press Overall
+                    </Button>
+                  </WrapItem>
+                  {pressesHere.map((p) => (
+                    <WrapItem key={p.id}>
+                      <Button
+                        size="sm"
+                        variant="tertiary"
+                        onClick={() => removeNassauPress(p.id)}
+                        isDisabled={!!round.locked}
+                        type="button"
+                        title="Remove this press"
+                      >
+                        Remove {p.bet} press
+                      </Button>
+                    </WrapItem>
+                  ))}
+                </Wrap>
+                <div className="small">
+                  A press is a new bet from hole {hole} to the end of that bet.
+                  {autoHere.length > 0 ? ` Auto press${autoHere.length > 1 ? 'es' : ''} started here: ${autoHere.map((m) => nassauMatchLabel(m)).join(', ')}.` : ''}
+                </div>
+              </>
+            )
+          })()}
+        </div>
+      )}
+
+      {groupTeamPicker}
+
+      {usesStrokes(round) && (
+        <div className="row">
+          {entryRows.map((p) => {
+            const val = round.strokesByHole[quickHole]?.[p.id]
+            return (
+              <div key={p.id} className="incRow">
+                <div>
+                  <div style={{ fontWeight: 800 }}>{p.name}</div>
+                  <div className="small">
+                    {quickPar !== null && typeof val === 'number' ? scoreName(val, quickPar) : 'Preset buttons or +/-'}
+                  </div>
+                </div>
+                <div className="quickScore">
+                  <Wrap spacing={2} aria-label={`${p.name} quick score buttons`}>
+                    {(quickPar !== null ? [quickPar - 1, quickPar, quickPar + 1, quickPar + 2, quickPar + 3] : [3, 4, 5, 6, 7]).map((n) => (
+                      <WrapItem key={n}>
+                        <Button
+                          size="sm"
+                          variant={val === n ? 'solid' : 'outline'}
+                          onClick={() => setStroke(quickHole, p.id, String(n))}
+                          isDisabled={!!round.locked}
+                          type="button"
+                          title={`Set ${p.name} to ${n}`}
+                          aria-pressed={val === n}
+                        >
+                          {withSelectedMark(val === n, n)}
+                        </Button>
+                      </WrapItem>
+                    ))}
+                  </Wrap>
+
+                  <HStack spacing={2} mt={2}>
+                    <IconButton
+                      aria-label={`Decrease ${p.name}`}
+                      icon={<span aria-hidden="true">−</span>}
+                      size="sm"
+                      variant="outline"
+                      onClick={() => incStroke(quickHole, p.id, -1)}
+                      isDisabled={!!round.locked}
+                      type="button"
+                    />
+                    <Box
+                      minW="44px"
+                      textAlign="center"
+                      fontWeight={800}
+                      color={typeof val === 'number' ? (theme === 'dark' ? 'brand.300' : 'brand.600') : undefined}
+                    >
+                      {typeof val === 'number' ? val : '—'}
+                    </Box>
+                    <IconButton
+                      aria-label={`Increase ${p.name}`}
+                      icon={<span aria-hidden="true">+</span>}
+                      size="sm"
+                      variant="outline"
+                      onClick={() => incStroke(quickHole, p.id, +1)}
+                      isDisabled={!!round.locked}
+                      type="button"
+                    />
+                  </HStack>
+                </div>
+                <Button
+                  size="sm"
+                  variant="tertiary"
+                  isDisabled={!!round.locked}
+                  onClick={() => clearScoreWithUndo(quickHole, p.id)}
+                  title="Clear score"
+                  type="button"
+                >
+                  Clear score
+                </Button>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <Stack spacing={3}>
+        {/* Navigation (clean, no weird wrap) */}
+        <SimpleGrid columns={3} spacing={2} display={{ base: 'none', md: 'grid' }}>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => stepQuickHole(-1)}
+            isDisabled={quickPos <= 1}
+            type="button"
+            w="full"
+            aria-label="Previous hole"
+          >
+            Prev
+          </Button>
+
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setQuickHole(currentHole())}
+            type="button"
+            title="Jump to the current hole"
+            w="full"
+            aria-label="Jump to current hole"
+          >
+            Current
+          </Button>
+
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => stepQuickHole(1)}
+            isDisabled={quickPos >= playHoles.length}
+            type="button"
+            w="full"
+            aria-label="Next hole"
+          >
+            Next
+          </Button>
+        </SimpleGrid>
+
+        <Button
+          size="sm"
+          variant="solid"
+          onClick={() => {
+            const nextHole = nextIncompleteHole
+            setQuickHole(nextHole ?? playHoles[playHoles.length - 1])
+          }}
+          isDisabled={!hasIncompleteHoles()}
+          type="button"
+          w="full"
+          display={{ base: 'none', md: 'inline-flex' }}
+        >
+          Next incomplete
+        </Button>
+
+        <Wrap spacing={2} justify={{ base: 'center', sm: 'space-between' }}>
+          <WrapItem>
+            <Button size="sm" variant="secondary" onClick={copyStatus} type="button" title="Copy a shareable status summary">
+              Share status
+            </Button>
+          </WrapItem>
+
+          {round.game === 'skins' && settlement && (round.locked || isRoundComplete()) && (
+            <WrapItem>
+              <Button size="sm" variant="secondary" onClick={shareSettlement} type="button" title="Copy the settlement text to paste in the group chat">
+                Share settlement
+              </Button>
+            </WrapItem>
+          )}
+
+          {round.game === 'nassau' && nassauSettlement && (round.locked || isRoundComplete()) && (
+            <WrapItem>
+              <Button size="sm" variant="secondary" onClick={copyNassauSettlement} type="button" title="Copy the settlement text to paste in the group chat">
+                Share settlement
+              </Button>
+            </WrapItem>
+          )}
+
+          <WrapItem>
+            <Button size="sm" variant="secondary" onClick={() => setScreen('settlement')} type="button">
+              {round.game === 'wolf' ? 'Standings →' : 'Settlement →'}
+            </Button>
+          </WrapItem>
+
+          <WrapItem>
+            <Button size="sm" variant="outline" onClick={() => clearHole(quickHole)} isDisabled={!!round.locked} type="button">
+              Clear hole
+            </Button>
+          </WrapItem>
+
+          <WrapItem>
+            <Button size="sm" variant="outline" onClick={() => setScreen('setup')} type="button">
+              Setup
+            </Button>
+          </WrapItem>
+
+          <WrapItem>
+            {round.locked ? (
+              <Button size="sm" variant="outline" onClick={unlockRound} type="button">
+                Unlock
+              </Button>
+            ) : (
+              <Button size="sm" variant="outline" onClick={() => lockRound(false)} type="button" title="Lock disables edits (useful once a round is final)">
+                Lock
+              </Button>
+            )}
+          </WrapItem>
+
+          <WrapItem>
+            <Button size="sm" variant="outline" onClick={resetToGamePicker} type="button">
+              New game
+            </Button>
+          </WrapItem>
+        </Wrap>
+      </Stack>
+
+      <Box display={{ base: 'block', md: 'none' }} className="quickRail" aria-label="Quick mode navigation rail">
+        <SimpleGrid columns={3} spacing={2}>
+          <Button
+            size="md"
+            minH="44px"
+            variant="outline"
+            onClick={() => stepQuickHole(-1)}
+            isDisabled={quickPos <= 1}
+            type="button"
+            w="full"
+            aria-label="Previous hole"
+          >
+            Prev
+          </Button>
+          <Button
+            size="md"
+            minH="44px"
+            variant="solid"
+            onClick={() => {
+              const nextHole = nextIncompleteHole
+              setQuickHole(nextHole ?? playHoles[playHoles.length - 1])
+            }}
+            isDisabled={!hasIncompleteHoles()}
+            type="button"
+            w="full"
+            aria-label="Next incomplete hole"
+          >
+            Next incomplete
+          </Button>
+          <Button
+            size="md"
+            minH="44px"
+            variant="outline"
+            onClick={() => stepQuickHole(1)}
+            isDisabled={quickPos >= playHoles.length}
+            type="button"
+            w="full"
+            aria-label="Next hole"
+          >
+            Next
+          </Button>
+        </SimpleGrid>
+      </Box>
 
-export function QuickScreen({ active, children }: QuickScreenProps) {
-  if (!active) return null
-  return <>{children}</>
+        </Stack>
+      </CardBody>
+    </Card>
+  )
 }
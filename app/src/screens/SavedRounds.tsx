@@ -0,0 +1,286 @@
+import { type ComponentType, useMemo } from 'react'
+import { Box, Button, HStack, Icon, SimpleGrid, Stack, Text, Table, TableContainer, Thead, Tbody, Tr, Th, Td } from '@chakra-ui/react'
+import type { Round } from '../types'
+import { roundPayments, whoStillOwes } from '../logic/payments'
+import { sameDayRounds } from '../logic/multiSettlement'
+import { formatMoney } from '../logic/money'
+import { deleteRound, saveRounds } from '../storage'
+import { TRACK_EVENTS, exportTrackedEvents, track } from '../logic/track'
+import type { ScreenProps } from '../appState'
+import { GAME_META, GAME_BADGE_ICON } from '../gameMeta'
+import { roundLastUpdatedLabel, roundGamesShortLabel, roundStakeOrPointsLabel } from '../labels'
+
+// Who still owes, the ledger and combine shortcuts, and the recent rounds under the game picker.
+export function SavedRounds({ app }: ScreenProps) {
+  const {
+    setScreen,
+    theme,
+    showAdvanced,
+    setShowAdvanced,
+    stored,
+    setStored,
+    ledger,
+    combinedDraft,
+    recentRounds,
+    loadExistingRound,
+    updateCombinedDraft,
+  } = app
+
+  // Paid/unpaid state of every saved locked round, for the recent-rounds badges and "who still owes".
+  const paymentsByRoundId = useMemo(() => {
+    const out: Record<string, ReturnType<typeof roundPayments>> = {}
+    for (const r of stored.rounds) out[r.id] = r.locked ? roundPayments(r) : null
+    return out
+  }, [stored])
+  const stillOwes = useMemo(
+    () => whoStillOwes(stored.rounds.map((r) => ({ round: r, payments: paymentsByRoundId[r.id] }))),
+    [stored, paymentsByRoundId],
+  )
+
+  function deleteExistingRound(id: string) {
+    if (!confirm('Delete this saved round?')) return
+    setStored((prev) => {
+      const next = deleteRound(prev, id)
+      saveRounds(next)
+      return next
+    })
+  }
+
+  // Recent rounds: what's still owed on a locked round, or that it's all paid.
+  function paymentBadge(r: Round) {
+    const p = paymentsByRoundId[r.id]
+    if (!p) return null
+    return (
+      <Box className="pill" whiteSpace="nowrap">
+        {p.remainingCents > 0 ? `Owed ${formatMoney(p.remainingCents, r.currency)}` : 'Paid up'}
+      </Box>
+    )
+  }
+
+  // Starts from the rounds played on the day of the newest saved round unless some are already picked.
+  function openCombinedSettlement() {
+    const known = combinedDraft.roundIds.filter((id) => stored.rounds.some((r) => r.id === id))
+    if (known.length === 0 && recentRounds[0]) {
+      updateCombinedDraft({ ...combinedDraft, roundIds: sameDayRounds(stored.rounds, recentRounds[0].createdAt).map((r) => r.id) })
+    } else if (known.length !== combinedDraft.roundIds.length) {
+      updateCombinedDraft({ ...combinedDraft, roundIds: known })
+    }
+    track(TRACK_EVENTS.nav_screen, { from: 'game', to: 'combined' })
+    setScreen('combined')
+  }
+
+  return (
+    <>
+      {stillOwes.length > 0 && (
+        <Box borderWidth="1px" borderRadius="12px" p={3} mb={4}>
+          <Text fontSize="sm" fontWeight={800} color={theme === 'dark' ? 'gray.300' : 'gray.600'} mb={2}>
+            Who still owes
+          </Text>
+          <Stack spacing={3}>
+            {stillOwes.map((o) => (
+              <Box key={o.key}>
+                <Text fontWeight={700}>
+                  {o.name}: {formatMoney(o.remainingCents, o.currency)}
+                </Text>
+                {o.items.map((item) => (
+                  <HStack key={`${item.round.id}-${item.line.to.id}`} justify="space-between" spacing={2}>
+                    <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                      {formatMoney(item.remainingCents, o.currency)} to {item.line.to.name} • {item.round.name || GAME_META[item.round.game].short}
+                    </Text>
+                    <Button variant="tertiary" size="xs" onClick={() => loadExistingRound(item.round, 'settlement')} type="button">
+                      Open
+                    </Button>
+                  </HStack>
+                ))}
+              </Box>
+            ))}
+          </Stack>
+        </Box>
+      )}
+
+      <HStack justify="space-between" align="center" mb={2}>
+        <Text fontSize="sm" fontWeight={800} color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+          Recent rounds
+        </Text>
+
+        <HStack spacing={2}>
+          <Button
+            variant="tertiary"
+            size="sm"
+            type="button"
+            onClick={() => {
+              track(TRACK_EVENTS.nav_screen, { from: 'game', to: 'ledger' })
+              setScreen('ledger')
+            }}
+          >
+            Ledger{ledger.length > 0 ? ` (${ledger.length})` : ''}
+          </Button>
+          {recentRounds.length > 0 && (
+            <Button variant="tertiary" size="sm" type="button" onClick={openCombinedSettlement}>
+              Combine rounds
+            </Button>
+          )}
+          <Button variant="tertiary" size="sm" type="button" onClick={() => setShowAdvanced((v) => !v)} aria-expanded={showAdvanced}>
+            {showAdvanced ? 'Hide advanced' : 'Advanced'}
+          </Button>
+        </HStack>
+      </HStack>
+
+      {showAdvanced && (
+        <Box borderWidth="1px" borderRadius="12px" p={3} mb={3}>
+          <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mb={2}>
+            Diagnostics
+          </Text>
+          <Button
+            variant="tertiary"
+            size="sm"
+            type="button"
+            onClick={async () => {
+              try {
+                const payload = exportTrackedEvents()
+                await navigator.clipboard.writeText(JSON.stringify(payload, null, 2))
+                track(TRACK_EVENTS.debug_export, { eventCount: payload.events.length })
+                alert('Copied debug export JSON to clipboard')
+              } catch {
+                alert('Could not copy debug export. You can open DevTools and read localStorage instead.')
+              }
+            }}
+            title="Copy local debug events (JSON)"
+          >
+            Debug export
+          </Button>
+        </Box>
+      )}
+
+      {recentRounds.length > 0 && (
+        <>
+          <Stack spacing={3} display={{ base: 'flex', md: 'none' }}>
+            {recentRounds.map((r) => {
+              const label = r.name || GAME_META[r.game].short
+              const lastUpdated = roundLastUpdatedLabel(r)
+
+              return (
+                <Box key={r.id} borderWidth="1px" borderRadius="12px" p={3}>
+                  <HStack justify="space-between" align="flex-start" spacing={2}>
+                    <Text fontWeight={700}>{label}</Text>
+                    {paymentBadge(r)}
+                  </HStack>
+                  <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                    <span style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+                      <Icon as={GAME_BADGE_ICON[r.game] as ComponentType} boxSize={4} aria-hidden="true" />
+                      {roundGamesShortLabel(r)}
+                    </span>
+                  </Text>
+                  <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                    {r.players.map((p) => p.name).join(', ')}
+                  </Text>
+                  <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                    {roundStakeOrPointsLabel(r)}
+                  </Text>
+                  {lastUpdated && (
+                    <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                      Last updated {lastUpdated}
+                    </Text>
+                  )}
+                  <SimpleGrid columns={2} spacing={2} mt={3}>
+                    <Button
+                      variant="tertiary"
+                      size="md"
+                      minH="44px"
+                      onClick={() => loadExistingRound(r)}
+                      type="button"
+                    >
+                      Open
+                    </Button>
+                    <Button
+                      variant="danger"
+                      size="md"
+                      minH="44px"
+                      onClick={() => {
+                        const ok = confirm(`Delete “${label}”?`)
+                        if (!ok) return
+                        deleteExistingRound(r.id)
+                      }}
+                      type="button"
+                    >
+                      Delete
+                    </Button>
+                  </SimpleGrid>
+                </Box>
+              )
+            })}
+          </Stack>
+
+          <TableContainer w="full" overflowX="auto" borderRadius="16px" display={{ base: 'none', md: 'block' }}>
+            <Table size="sm">
+            <Thead>
+              <Tr>
+                <Th>Game</Th>
+                <Th>Name</Th>
+                <Th>Players</Th>
+                <Th textAlign="right">Stake</Th>
+                <Th textAlign="right">Actions</Th>
+              </Tr>
+            </Thead>
+            <Tbody>
+              {recentRounds.map((r) => (
+                  <Tr key={r.id}>
+                    <Td>
+                      <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                        <span style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+                          <Icon as={GAME_BADGE_ICON[r.game] as ComponentType} boxSize={4} aria-hidden="true" />
+                          {roundGamesShortLabel(r)}
+                        </span>
+                      </Text>
+                    </Td>
+                    <Td>
+                      <HStack spacing={2}>
+                        <span>{r.name || GAME_META[r.game].short}</span>
+                        {paymentBadge(r)}
+                      </HStack>
+                    </Td>
+                    <Td>
+                      <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                        {r.players.map((p) => p.name).join(', ')}
+                      </Text>
+                    </Td>
+                    <Td textAlign="right">
+                      {roundStakeOrPointsLabel(r)}
+                    </Td>
+                    <Td textAlign="right">
+                      <Stack
+                        direction={{ base: 'column', sm: 'row' }}
+                        align={{ base: 'stretch', sm: 'center' }}
+                        justify={{ base: 'flex-end', sm: 'flex-end' }}
+                        spacing={2}
+                        w={{ base: '140px', sm: 'auto' }}
+                        ml="auto"
+                      >
+                        <Button variant="tertiary" size="sm" onClick={() => loadExistingRound(r)} type="button">
+                          Open
+                        </Button>
+                        <Button
+                          variant="danger"
+                          size="sm"
+                          onClick={() => {
+                            const label = r.name || GAME_META[r.game].short
+                            const ok = confirm(`Delete “${label}”?`)
+                            if (!ok) return
+                            deleteExistingRound(r.id)
+                          }}
+                          type="button"
+                        >
+                          Delete
+                        </Button>
+                      </Stack>
+                    </Td>
+                  </Tr>
+                ))}
+            </Tbody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,281 @@
+import type { ReactNode } from 'react'
+import {
+  Box,
+  Button,
+  Card,
+  CardBody,
+  HStack,
+  Icon,
+  SimpleGrid,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Textarea,
+  Th,
+  Thead,
+  Tr,
+  Wrap,
+  WrapItem,
+} from '@chakra-ui/react'
+import { CheckCircle2, HandCoins } from 'lucide-react'
+import type { Player } from '../types'
+import { formatMoney, formatSignedMoney } from '../logic/money'
+import type { Settlement, SettlementLine } from '../logic/wolfSettlement'
+
+type SettleUpCardProps = {
+  theme: 'dark' | 'light'
+  players: Player[]
+  // The game's own parts.
+  title: string
+  subtitle: ReactNode
+  standingsHeading: ReactNode
+  standings: ReactNode
+  settlement: Settlement | null
+  paymentsRequired: boolean
+  basis: ReactNode
+  setupHint: string
+  onShare: () => void
+  shareText: string
+  tip: string
+  // The same on every game's card.
+  preCapNote: ReactNode
+  payLinks: (l: SettlementLine) => ReactNode
+  onShareStatus: () => void
+  onQuick: () => void
+  onHoles: () => void
+  onNewGame: () => void
+  children: ReactNode
+}
+
+// A game's settlement card: header, standings, net by player, who pays who and sharing, then the round's shared cards.
+export function SettleUpCard({
+  theme,
+  players,
+  title,
+  subtitle,
+  standingsHeading,
+  standings,
+  settlement,
+  paymentsRequired,
+  basis,
+  setupHint,
+  onShare,
+  shareText,
+  tip,
+  preCapNote,
+  payLinks,
+  onShareStatus,
+  onQuick,
+  onHoles,
+  onNewGame,
+  children,
+}: SettleUpCardProps) {
+  const muted = theme === 'dark' ? 'gray.300' : 'gray.600'
+  const border = theme === 'dark' ? 'whiteAlpha.300' : 'blackAlpha.200'
+
+  return (
+    <Card variant="outline">
+      <CardBody>
+        <Stack spacing={4}>
+          <HStack justify="space-between" align="flex-start" spacing={4} flexWrap="wrap">
+            <Box>
+              <Text fontSize="sm" color={muted} fontWeight={800}>
+                Settlement
+              </Text>
+              <Text fontSize="lg" fontWeight={800}>
+                {title}
+              </Text>
+              <Text fontSize="sm" color={muted}>
+                {subtitle}
+              </Text>
+            </Box>
+          </HStack>
+
+          <Box>
+            <Text fontSize="sm" color={muted} fontWeight={800} mb={2}>
+              {standingsHeading}
+            </Text>
+            {standings}
+          </Box>
+
+          <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+            <Box>
+              <Text fontSize="sm" color={muted} fontWeight={800} mb={2}>
+                Net by Player
+              </Text>
+              {settlement ? (
+                <>
+                  <Table size="sm">
+                    <Tbody>
+                      {players.map((p) => {
+                        const net = settlement.netByPlayer[p.id] || 0
+                        return (
+                          <Tr key={p.id}>
+                            <Td>{p.name}</Td>
+                            <Td textAlign="right" className={net >= 0 ? 'positive' : 'negative'}>
+                              {formatSignedMoney(net)}
+                            </Td>
+                          </Tr>
+                        )
+                      })}
+                    </Tbody>
+                  </Table>
+                  <Text fontSize="sm" color={muted} mt={2}>
+                    Positive = they should receive money. Negative = they owe.
+                  </Text>
+                </>
+              ) : (
+                <Text fontSize="sm" color={muted}>
+                  No net balances yet. Set {setupHint} to enable settlement.
+                </Text>
+              )}
+            </Box>
+
+            <Box>
+              <Text fontSize="sm" color={muted} fontWeight={800} mb={2}>
+                Settle Up
+              </Text>
+              {preCapNote}
+              {settlement ? (
+                <>
+                  <Table size="sm">
+                    <Thead>
+                      <Tr>
+                        <Th>From</Th>
+                        <Th>To</Th>
+                        <Th textAlign="right">Amount</Th>
+                      </Tr>
+                    </Thead>
+                    <Tbody>
+                      {settlement.lines.length === 0 ? (
+                        <Tr>
+                          <Td colSpan={3}>
+                            <Text fontSize="sm" color={muted}>
+                              No payments needed.
+                            </Text>
+                          </Td>
+                        </Tr>
+                      ) : (
+                        settlement.lines.map((l, idx) => (
+                          <Tr key={idx}>
+                            <Td>{l.from.name}</Td>
+                            <Td>{l.to.name}</Td>
+                            <Td textAlign="right">
+                              {formatMoney(l.amountCents)}
+                              {payLinks(l)}
+                            </Td>
+                          </Tr>
+                        ))
+                      )}
+                    </Tbody>
+                  </Table>
+                  <Text fontSize="sm" color={muted} mt={2}>
+                    {basis}
+                  </Text>
+                </>
+              ) : (
+                <Text fontSize="sm" color={muted}>
+                  No settlement payments yet. Set {setupHint} to enable settlement.
+                </Text>
+              )}
+            </Box>
+          </SimpleGrid>
+
+          <Box>
+            <Text fontSize="sm" color={muted} fontWeight={800} mb={2}>
+              Share Results
+            </Text>
+            <Stack spacing={3}>
+              <Box
+                borderWidth="1px"
+                borderRadius="lg"
+                p={4}
+                bg={theme === 'dark' ? 'whiteAlpha.50' : 'blackAlpha.50'}
+                borderColor={border}
+              >
+                <Stack
+                  direction={{ base: 'column', md: 'row' }}
+                  align={{ base: 'stretch', md: 'center' }}
+                  justify="space-between"
+                  spacing={3}
+                >
+                  <HStack align="flex-start" spacing={3} flex="1">
+                    <Icon as={paymentsRequired ? HandCoins : CheckCircle2} boxSize={5} mt={0.5} aria-hidden="true" />
+                    <Box>
+                      <Text fontSize="xs" color={muted} fontWeight={800} textTransform="uppercase" letterSpacing="0.04em">
+                        Result
+                      </Text>
+                      <Text fontSize="lg" fontWeight={800}>
+                        {paymentsRequired ? 'Payments required — see who pays who below' : 'All square — No payments needed'}
+                      </Text>
+                    </Box>
+                  </HStack>
+                  <Button variant="primary" onClick={settlement ? onShare : onShareStatus} type="button" w={{ base: 'full', md: 'auto' }}>
+                    Share result
+                  </Button>
+                </Stack>
+              </Box>
+
+              <Box borderWidth="1px" borderRadius="md" p={3} borderColor={border}>
+                <Text fontSize="xs" color={muted} fontWeight={800} textTransform="uppercase" letterSpacing="0.04em" mb={2}>
+                  Secondary actions
+                </Text>
+                <Wrap spacing={2}>
+                  <WrapItem>
+                    <Button variant="secondary" size="md" onClick={onShareStatus} type="button" title="Copy a shareable status summary">
+                      Share status
+                    </Button>
+                  </WrapItem>
+                  <WrapItem>
+                    <Button variant="tertiary" size="md" onClick={onQuick} type="button">
+                      Quick mode
+                    </Button>
+                  </WrapItem>
+                  <WrapItem>
+                    <Button variant="tertiary" size="md" onClick={onHoles} type="button">
+                      ← Back to holes
+                    </Button>
+                  </WrapItem>
+                  <WrapItem>
+                    <Button variant="tertiary" size="md" onClick={onNewGame} type="button">
+                      New game
+                    </Button>
+                  </WrapItem>
+                </Wrap>
+              </Box>
+            </Stack>
+          </Box>
+
+          <Box>
+            <Text fontSize="sm" color={muted} fontWeight={800} mb={2}>
+              Preview Message
+            </Text>
+            <Box borderWidth="1px" borderRadius="md" p={3} borderColor={border}>
+              <Box as="details">
+                <Box as="summary" cursor="pointer">
+                  <Text as="span" fontSize="sm" color={muted} fontWeight={800}>
+                    Preview message
+                  </Text>
+                </Box>
+                <Box mt={3}>
+                  <Text fontSize="sm" color={muted} mb={2}>
+                    Edit message in your chat app after copying.
+                  </Text>
+                  <Textarea h="180px" readOnly value={shareText} />
+                </Box>
+              </Box>
+            </Box>
+          </Box>
+
+          {children}
+
+          <Text fontSize="sm" color={muted}>
+            Tip: {tip}
+          </Text>
+        </Stack>
+      </CardBody>
+    </Card>
+  )
+}
@@ -0,0 +1,342 @@
+import { useMemo } from 'react'
+import {
+  Box,
+  Button,
+  Card,
+  CardBody,
+  FormControl,
+  FormLabel,
+  HStack,
+  Input,
+  SimpleGrid,
+  Stack,
+  Text,
+  Wrap,
+  WrapItem,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+} from '@chakra-ui/react'
+import type { SettlementAdjustment } from '../types'
+import { mergeSettlements, traceGroups, type TraceGroup } from '../logic/multiSettlement'
+import { roundSettlementsByGame, roundSettlementsByHole } from '../logic/roundSettlement'
+import { paymentMemo } from '../logic/paymentLinks'
+import { currencySymbol, formatMoney, formatSignedMoney, parseMoneyInput } from '../logic/money'
+import { TRACK_EVENTS, track } from '../logic/track'
+import { SettlementMatcherButtons } from './SettlementMatcherButtons'
+import type { ScreenProps } from '../appState'
+import { GAME_META } from '../gameMeta'
+import { settlementSourceLabel, roundGamesShortLabel, withSelectedMark } from '../labels'
+import { uid } from '../newRound'
+import { usePaymentLinks } from './usePaymentLinks'
+
+export function SettlementCombinedScreen({ app }: ScreenProps) {
+  const { screen, setScreen, theme, stored, combinedDraft, adjustmentForm, setAdjustmentForm, recentRounds, updateCombinedDraft } = app
+  const { settleLineText, payLinks } = usePaymentLinks(app)
+
+  // Combined settlement across rounds: only worked out while that screen is open (it replays every hole).
+  // Only rounds in one currency combine: the first round picked sets it.
+  const combinedCurrency = stored.rounds.find((r) => r.id === combinedDraft.roundIds[0])?.currency
+  const combinedRounds = useMemo(
+    () =>
+      stored.rounds
+        .filter((r) => combinedDraft.roundIds.includes(r.id) && r.currency === combinedCurrency)
+        .sort((a, b) => a.createdAt - b.createdAt),
+    [stored, combinedDraft.roundIds, combinedCurrency],
+  )
+  const multiSettlement = useMemo(() => {
+    if (screen !== 'combined') return null
+    const inputs = combinedRounds.map((r) => ({
+      roundId: r.id,
+      roundName: r.name || GAME_META[r.game].short,
+      players: r.players,
+      byGame: roundSettlementsByGame(r),
+      byHole: roundSettlementsByHole(r),
+    }))
+    return mergeSettlements(inputs, combinedDraft.adjustments, combinedDraft.settlementMatcher)
+  }, [screen, combinedRounds, combinedDraft.adjustments, combinedDraft.settlementMatcher])
+  const combinedPlayers = multiSettlement?.players || []
+
+  function addAdjustment() {
+    const amountCents = parseMoneyInput(adjustmentForm.amount)
+    if (!adjustmentForm.owedTo || adjustmentForm.owedBy.length === 0 || amountCents <= 0) return
+    const adjustment: SettlementAdjustment = {
+      id: uid('adj'),
+      label: adjustmentForm.label.trim(),
+      owedTo: adjustmentForm.owedTo,
+      owedBy: adjustmentForm.owedBy,
+      amountCents,
+    }
+    updateCombinedDraft({ ...combinedDraft, adjustments: [...combinedDraft.adjustments, adjustment] })
+    setAdjustmentForm({ label: '', amount: '', owedTo: '', owedBy: [] })
+  }
+
+  function removeAdjustment(id: string) {
+    updateCombinedDraft({ ...combinedDraft, adjustments: combinedDraft.adjustments.filter((a) => a.id !== id) })
+  }
+
+  function combinedPlayerName(key: string): string {
+    return combinedPlayers.find((p) => p.key === key)?.name || key
+  }
+
+  // e.g. "Sat AM Skins: +$15.00 (H3 +$10.00, H7 +$5.00)" or "Cart fee: -$20.00"
+  function traceGroupLabel(g: TraceGroup): string {
+    const what = g.source === 'adjustment' ? g.label || 'Adjustment' : `${g.roundName} ${settlementSourceLabel(g.source)}`
+    const holes = g.holes.map((h) => `H${h.hole} ${formatSignedMoney(h.cents, combinedCurrency)}`).join(', ')
+    return `${what}: ${formatSignedMoney(g.cents, combinedCurrency)}${holes ? ` (${holes})` : ''}`
+  }
+
+  function multiPaymentMemo(): string {
+    return paymentMemo(combinedRounds.map((r) => r.name || roundGamesShortLabel(r)).join(', '))
+  }
+
+  function multiSettlementText(): string {
+    if (!multiSettlement) return ''
+    const rounds = combinedRounds.map((r) => r.name || roundGamesShortLabel(r)).join(', ')
+    const totals = multiSettlement.players
+      .map((p) => [`${p.name}: ${formatSignedMoney(p.netCents, combinedCurrency)}`, ...traceGroups(p.trace).map((g) => `  ${traceGroupLabel(g)}`)].join('\n'))
+      .join('\n')
+    const lines = multiSettlement.lines.map((l) => settleLineText(l, multiPaymentMemo(), combinedCurrency)).join('\n')
+    return `Golf Bets — Combined settlement\nRounds: ${rounds || '(none)'}\n\nNet:\n${totals || '(no money yet)'}\n\nSuggested payments:\n${lines || '(no payments)'}`
+  }
+
+  async function copyMultiSettlement() {
+    try {
+      await navigator.clipboard.writeText(multiSettlementText())
+      track(TRACK_EVENTS.share_settlement, { game: 'multi', rounds: combinedRounds.length, adjustments: combinedDraft.adjustments.length })
+      alert('Copied settlement (ready to paste in the group chat)')
+    } catch {
+      alert('Could not copy. You can manually select and copy the text.')
+    }
+  }
+
+  return (
+    <Card variant="outline">
+      <CardBody>
+        <Stack spacing={4}>
+          <HStack justify="space-between" align="flex-start" spacing={4} flexWrap="wrap">
+            <Box>
+              <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800}>
+                Settlement
+              </Text>
+              <Text fontSize="lg" fontWeight={800}>
+                Combined rounds
+              </Text>
+              <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                {combinedRounds.length} round{combinedRounds.length === 1 ? '' : 's'} • {combinedDraft.adjustments.length} adjustment
+                {combinedDraft.adjustments.length === 1 ? '' : 's'} • players matched by name
+              </Text>
+            </Box>
+            <Button variant="tertiary" size="sm" onClick={() => setScreen('game')} type="button">
+              Back
+            </Button>
+          </HStack>
+
+          <Box>
+            <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} mb={2}>
+              Rounds
+            </Text>
+            <Wrap spacing={2}>
+              {recentRounds.map((r) => {
+                const selected = combinedDraft.roundIds.includes(r.id)
+                const otherCurrency = !!combinedCurrency && r.currency !== combinedCurrency
+                return (
+                  <WrapItem key={r.id}>
+                    <Button
+                      size="sm"
+                      variant={selected ? 'solid' : 'outline'}
+                      isDisabled={!selected && otherCurrency}
+                      title={otherCurrency ? `In ${r.currency}; only rounds in ${combinedCurrency} combine` : undefined}
+                      onClick={() =>
+                        updateCombinedDraft({
+                          ...combinedDraft,
+                          roundIds: selected ? combinedDraft.roundIds.filter((id) => id !== r.id) : [...combinedDraft.roundIds, r.id],
+                        })
+                      }
+                      type="button"
+                      aria-pressed={selected}
+                    >
+                      {withSelectedMark(selected, `${r.name || GAME_META[r.game].short} • ${new Date(r.createdAt).toLocaleDateString()}`)}
+                    </Button>
+                  </WrapItem>
+                )
+              })}
+            </Wrap>
+          </Box>
+
+          <Box>
+            <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} mb={2}>
+              Adjustments
+            </Text>
+            <Stack spacing={2} mb={3}>
+              {combinedDraft.adjustments.map((a) => (
+                <HStack key={a.id} justify="space-between" spacing={2}>
+                  <Text fontSize="sm">
+                    {a.label || 'Adjustment'}: {formatMoney(a.amountCents, combinedCurrency)} owed to {combinedPlayerName(a.owedTo)}, split by{' '}
+                    {a.owedBy.map(combinedPlayerName).join(', ')}
+                  </Text>
+                  <Button variant="tertiary" size="xs" onClick={() => removeAdjustment(a.id)} type="button">
+                    Remove
+                  </Button>
+                </HStack>
+              ))}
+            </Stack>
+            <Stack spacing={3} borderWidth="1px" borderRadius="12px" p={3}>
+              <SimpleGrid columns={{ base: 1, md: 2 }} spacing={3}>
+                <FormControl>
+                  <FormLabel>What for</FormLabel>
+                  <Input
+                    value={adjustmentForm.label}
+                    onChange={(e) => setAdjustmentForm((f) => ({ ...f, label: e.target.value }))}
+                    placeholder="Cart fee, lunch, forgiven debt"
+                  />
+                </FormControl>
+                <FormControl>
+                  <FormLabel>Amount ({currencySymbol(combinedCurrency)})</FormLabel>
+                  <Input
+                    value={adjustmentForm.amount}
+                    onChange={(e) => setAdjustmentForm((f) => ({ ...f, amount: e.target.value }))}
+                    inputMode="decimal"
+                    placeholder="0.00"
+                  />
+                </FormControl>
+              </SimpleGrid>
+              <Box>
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mb={1}>
+                  Owed to
+                </Text>
+                <Wrap spacing={2}>
+                  {combinedPlayers.map((p) => {
+                    const selected = adjustmentForm.owedTo === p.key
+                    return (
+                      <WrapItem key={p.key}>
+                        <Button
+                          size="xs"
+                          variant={selected ? 'solid' : 'outline'}
+                          onClick={() => setAdjustmentForm((f) => ({ ...f, owedTo: p.key }))}
+                          type="button"
+                          aria-pressed={selected}
+                        >
+                          {withSelectedMark(selected, p.name)}
+                        </Button>
+                      </WrapItem>
+                    )
+                  })}
+                </Wrap>
+              </Box>
+              <Box>
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mb={1}>
+                  Split between (to forgive a debt, pick the person who forgives it)
+                </Text>
+                <Wrap spacing={2}>
+                  {combinedPlayers.map((p) => {
+                    const selected = adjustmentForm.owedBy.includes(p.key)
+                    return (
+                      <WrapItem key={p.key}>
+                        <Button
+                          size="xs"
+                          variant={selected ? 'solid' : 'outline'}
+                          onClick={() =>
+                            setAdjustmentForm((f) => ({
+                              ...f,
+                              owedBy: selected ? f.owedBy.filter((k) => k !== p.key) : [...f.owedBy, p.key],
+                            }))
+                          }
+                          type="button"
+                          aria-pressed={selected}
+                        >
+                          {withSelectedMark(selected, p.name)}
+                        </Button>
+                      </WrapItem>
+                    )
+                  })}
+                </Wrap>
+              </Box>
+              <Button
+                variant="secondary"
+                size="sm"
+                alignSelf="flex-start"
+                onClick={addAdjustment}
+                isDisabled={!adjustmentForm.owedTo || adjustmentForm.owedBy.length === 0 || parseMoneyInput(adjustmentForm.amount) <= 0}
+                type="button"
+              >
+                Add adjustment
+              </Button>
+            </Stack>
+          </Box>
+
+          {multiSettlement && (
+            <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+              <Box>
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} mb={2}>
+                  Net by player
+                </Text>
+                <Stack spacing={3}>
+                  {multiSettlement.players.map((p) => (
+                    <Box key={p.key}>
+                      <HStack justify="space-between">
+                        <Text fontWeight={700}>{p.name}</Text>
+                        <Text fontWeight={700} className={p.netCents >= 0 ? 'positive' : 'negative'}>
+                          {formatSignedMoney(p.netCents, combinedCurrency)}
+                        </Text>
+                      </HStack>
+                      {traceGroups(p.trace).map((g, idx) => (
+                        <Text key={idx} fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                          {traceGroupLabel(g)}
+                        </Text>
+                      ))}
+                    </Box>
+                  ))}
+                </Stack>
+              </Box>
+
+              <Box>
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} mb={2}>
+                  Settle Up
+                </Text>
+                <SettlementMatcherButtons current={combinedDraft.settlementMatcher} onSelect={(m) => updateCombinedDraft({ ...combinedDraft, settlementMatcher: m })} />
+                <Table size="sm">
+                  <Thead>
+                    <Tr>
+                      <Th>From</Th>
+                      <Th>To</Th>
+                      <Th textAlign="right">Amount</Th>
+                    </Tr>
+                  </Thead>
+                  <Tbody>
+                    {multiSettlement.lines.length === 0 ? (
+                      <Tr>
+                        <Td colSpan={3}>
+                          <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                            No payments needed.
+                          </Text>
+                        </Td>
+                      </Tr>
+                    ) : (
+                      multiSettlement.lines.map((l, idx) => (
+                        <Tr key={idx}>
+                          <Td>{l.from.name}</Td>
+                          <Td>{l.to.name}</Td>
+                          <Td textAlign="right">
+                            {formatMoney(l.amountCents, combinedCurrency)}
+                            {payLinks(l, multiPaymentMemo(), combinedCurrency)}
+                          </Td>
+                        </Tr>
+                      ))
+                    )}
+                  </Tbody>
+                </Table>
+                <Button variant="secondary" size="sm" mt={3} onClick={copyMultiSettlement} type="button">
+                  Share combined settlement
+                </Button>
+              </Box>
+            </SimpleGrid>
+          )}
+        </Stack>
+      </CardBody>
+    </Card>
+  )
+}
@@ -0,0 +1,105 @@
+import { Text, Table, Thead, Tbody, Tr, Th, Td } from '@chakra-ui/react'
+import type { PlayerId } from '../types'
+import { groupFormat, groupFormatLabel, groupPlaceLabel, groupPotLabel, groupVsParLabel } from '../logic/group'
+import { groupPrizeByTeam } from '../logic/groupSettlement'
+import { formatMoney, formatMoneyShort } from '../logic/money'
+import { TRACK_EVENTS, track } from '../logic/track'
+import { SettleUpCard } from './SettleUpCard'
+import type { ScreenProps } from '../appState'
+import { useRoundView } from './useRoundView'
+import { useSettleUp } from './useSettleUp'
+
+export function SettlementGroupScreen({ app }: ScreenProps) {
+  const { theme, round } = app
+  const view = useRoundView(app)
+  const { group, groupSettlement, playerNamesById, playHoles, suggestedPaymentsHeading, lastCompletedHole, settleLineText } = view
+  const { settleUpCardProps, settleUpCardExtras } = useSettleUp(app, view)
+
+  const groupPaymentsRequired = groupSettlement ? groupSettlement.lines.length > 0 : false
+
+  function groupTeamPlayersLabel(playerIds: PlayerId[]): string {
+    return playerIds.map((id) => playerNamesById[id] || '—').join(', ')
+  }
+
+  function groupSettlementText(): string {
+    if (!group || !groupSettlement) return ''
+    const through = lastCompletedHole()
+    const prizes = groupPrizeByTeam(round, group)
+    const standings = group.standings
+      .map((st) => {
+        const prize = prizes[st.team.id] || 0
+        const score = st.thru > 0 ? `${groupVsParLabel(st.vsPar)} thru ${st.thru}` : 'not started'
+        return `${groupPlaceLabel(st)}. ${st.team.name} (${groupTeamPlayersLabel(st.team.playerIds)}): ${score}${prize > 0 ? ` — ${formatMoney(prize)}` : ''}`
+      })
+      .join('\n')
+    const lines = groupSettlement.lines.map((l) => settleLineText(l)).join('\n')
+    return `Golf Bets — Team Pot settlement\nRound: ${round.name || 'Team Pot'}\n${groupFormatLabel(round)} • ${groupPotLabel(round)} • Through ${through}/${playHoles.length}\n\nStandings:\n${standings}\n\n${suggestedPaymentsHeading()}\n${lines || '(no payments)'}`
+  }
+
+  async function copyGroupSettlement() {
+    try {
+      await navigator.clipboard.writeText(groupSettlementText())
+      track(TRACK_EVENTS.share_settlement, { game: 'group', format: groupFormat(round) })
+      alert('Copied settlement (ready to paste in the group chat)')
+    } catch {
+      alert('Could not copy. You can manually select and copy the text.')
+    }
+  }
+
+  if (!group) return null
+  return (
+    <SettleUpCard
+      {...settleUpCardProps}
+      title={round.name || 'Team Pot'}
+      subtitle={
+        <>
+          {groupFormatLabel(round)} • {groupPotLabel(round)}
+        </>
+      }
+      standingsHeading="Standings"
+      standings={
+        <Table size="sm">
+          <Thead>
+            <Tr>
+              <Th>Place</Th>
+              <Th>Team</Th>
+              <Th textAlign="right">Score</Th>
+              <Th textAlign="right">Prize</Th>
+            </Tr>
+          </Thead>
+          <Tbody>
+            {(() => {
+              const prizes = groupPrizeByTeam(round, group)
+              return group.standings.map((st) => (
+                <Tr key={st.team.id}>
+                  <Td>{groupPlaceLabel(st)}</Td>
+                  <Td>
+                    {st.team.name}
+                    <Text fontSize="xs" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                      {groupTeamPlayersLabel(st.team.playerIds)}
+                    </Text>
+                  </Td>
+                  <Td textAlign="right">{st.thru > 0 ? `${groupVsParLabel(st.vsPar)} (${st.total}) thru ${st.thru}` : '—'}</Td>
+                  <Td textAlign="right">{(prizes[st.team.id] || 0) > 0 ? `${formatMoney((prizes[st.team.id] || 0))}` : '—'}</Td>
+                </Tr>
+              ))
+            })()}
+          </Tbody>
+        </Table>
+      }
+      settlement={groupSettlement}
+      paymentsRequired={groupPaymentsRequired}
+      basis={
+        <>
+          Pot of {formatMoneyShort((round.groupBuyInCents || 0) * round.players.length)}; each team's prize is split evenly among its players.
+        </>
+      }
+      setupHint="a buy-in"
+      onShare={copyGroupSettlement}
+      shareText={groupSettlementText()}
+      tip="each foursome can enter its own scores — pick the team above the score buttons in Quick mode."
+    >
+      {settleUpCardExtras}
+    </SettleUpCard>
+  )
+}
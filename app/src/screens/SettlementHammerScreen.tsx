@@ -0,0 +1,120 @@
+import { Table, Thead, Tbody, Tr, Th, Td } from '@chakra-ui/react'
+import type { HammerSide } from '../types'
+import { hammerHistoryLabel, hammerLabel } from '../logic/hammer'
+import { currencySymbol, formatMoneyShort, formatSignedMoney } from '../logic/money'
+import { TRACK_EVENTS, track } from '../logic/track'
+import { SettleUpCard } from './SettleUpCard'
+import type { ScreenProps } from '../appState'
+import { useRoundView } from './useRoundView'
+import { useSettleUp } from './useSettleUp'
+
+export function SettlementHammerScreen({ app }: ScreenProps) {
+  const { round } = app
+  const view = useRoundView(app)
+  const {
+    hammer,
+    hammerSettlement,
+    hammerSideNames,
+    playHoles,
+    hammerStandingLabel,
+    suggestedPaymentsHeading,
+    lastCompletedHole,
+    toParShareLine,
+    settleLineText,
+  } = view
+  const { settleUpCardProps, settleUpCardExtras } = useSettleUp(app, view)
+
+  const hammerPaymentsRequired = hammerSettlement ? hammerSettlement.lines.length > 0 : false
+
+  function hammerSettlementText(): string {
+    if (!hammer || !hammerSettlement || !hammerSideNames) return ''
+    const through = lastCompletedHole()
+    const hammered = hammer.holeResults
+      .filter((hr) => hr.calls.length > 0)
+      .map((hr) => `${hr.hole}: ${hammerHistoryLabel(hr.calls, hammerSideNames)} (×${hr.multiplier})`)
+      .join('\n')
+    const totals = round.players
+      .map((p) => ({ name: p.name, net: hammerSettlement.netByPlayer[p.id] || 0 }))
+      .sort((a, b) => b.net - a.net)
+      .map((x) => `${x.name} ${formatSignedMoney(x.net)}`)
+      .join('\n')
+    const lines = hammerSettlement.lines.map((l) => settleLineText(l)).join('\n')
+    return `Golf Bets — Hammer settlement\nRound: ${round.name || 'Hammer'}\n${hammerSideNames.A} vs ${hammerSideNames.B} • ${hammerLabel(round.hammerDollarsPerPointCents)} • Through ${through}/${playHoles.length}${toParShareLine()}\n\nPoints: ${hammerStandingLabel()}${hammered ? `\n\nHammers:\n${hammered}` : ''}\n\nNet:\n${totals}\n\n${suggestedPaymentsHeading()}\n${lines || '(no payments)'}`
+  }
+
+  async function copyHammerSettlement() {
+    try {
+      await navigator.clipboard.writeText(hammerSettlementText())
+      track(TRACK_EVENTS.share_settlement, { game: 'hammer' })
+      alert('Copied settlement (ready to paste in the group chat)')
+    } catch {
+      alert('Could not copy. You can manually select and copy the text.')
+    }
+  }
+
+  if (!hammer || !hammerSideNames) return null
+  return (
+    <SettleUpCard
+      {...settleUpCardProps}
+      title={round.name || 'Hammer'}
+      subtitle={
+        <>
+          {hammerSideNames.A} vs {hammerSideNames.B} • {hammerLabel(round.hammerDollarsPerPointCents)}
+        </>
+      }
+      standingsHeading="Points"
+      standings={
+        <>
+          <Table size="sm">
+            <Tbody>
+              {(['A', 'B'] as HammerSide[]).map((side) => (
+                <Tr key={side}>
+                  <Td>{hammerSideNames[side]}</Td>
+                  <Td textAlign="right">
+                    {hammer.pointsBySide[side] > 0 ? '+' : ''}
+                    {hammer.pointsBySide[side]} pts
+                  </Td>
+                </Tr>
+              ))}
+            </Tbody>
+          </Table>
+          {hammer.holeResults.some((hr) => hr.calls.length > 0) && (
+            <Table size="sm" mt={3}>
+              <Thead>
+                <Tr>
+                  <Th>Hole</Th>
+                  <Th>Hammers</Th>
+                  <Th textAlign="right">Value</Th>
+                </Tr>
+              </Thead>
+              <Tbody>
+                {hammer.holeResults
+                  .filter((hr) => hr.calls.length > 0)
+                  .map((hr) => (
+                    <Tr key={hr.hole}>
+                      <Td>{hr.hole}</Td>
+                      <Td>{hammerHistoryLabel(hr.calls, hammerSideNames)}</Td>
+                      <Td textAlign="right">×{hr.multiplier}</Td>
+                    </Tr>
+                  ))}
+              </Tbody>
+            </Table>
+          )}
+        </>
+      }
+      settlement={hammerSettlement}
+      paymentsRequired={hammerPaymentsRequired}
+      basis={
+        <>
+          Based on {formatMoneyShort(round.hammerDollarsPerPointCents || 0)} per point, per player.
+        </>
+      }
+      setupHint={`a ${currencySymbol()}/pt value`}
+      onShare={copyHammerSettlement}
+      shareText={hammerSettlementText()}
+      tip="hammer from Quick mode — it takes one tap on the green."
+    >
+      {settleUpCardExtras}
+    </SettleUpCard>
+  )
+}
@@ -0,0 +1,95 @@
+import { Table, Thead, Tbody, Tr, Th, Td } from '@chakra-ui/react'
+import { matchFormatLabel, matchLabel, matchStatusLabel } from '../logic/match'
+import { formatMoneyShort, formatSignedMoney } from '../logic/money'
+import { TRACK_EVENTS, track } from '../logic/track'
+import { SettleUpCard } from './SettleUpCard'
+import type { ScreenProps } from '../appState'
+import { useRoundView } from './useRoundView'
+import { useSettleUp } from './useSettleUp'
+
+export function SettlementMatchScreen({ app }: ScreenProps) {
+  const { round } = app
+  const view = useRoundView(app)
+  const { matchPlay, matchSettlement, matchSideNames, suggestedPaymentsHeading, toParShareLine, settleLineText } = view
+  const { settleUpCardProps, settleUpCardExtras } = useSettleUp(app, view)
+
+  const matchPaymentsRequired = matchSettlement ? matchSettlement.lines.length > 0 : false
+
+  function matchSettlementText(): string {
+    if (!matchPlay || !matchSettlement || !matchSideNames) return ''
+    const totals = round.players
+      .map((p) => ({ name: p.name, net: matchSettlement.netByPlayer[p.id] || 0 }))
+      .sort((a, b) => b.net - a.net)
+      .map((x) => `${x.name} ${formatSignedMoney(x.net)}`)
+      .join('\n')
+    const lines = matchSettlement.lines.map((l) => settleLineText(l)).join('\n')
+    return `Golf Bets — Match play settlement\nRound: ${round.name || 'Match'}\n${matchSideNames.A} vs ${matchSideNames.B} • ${matchFormatLabel(round)} • ${matchLabel(round.matchStakeCents || 0)}${toParShareLine()}\n\nMatch: ${matchStatusLabel(matchPlay, matchSideNames)}\n\nNet:\n${totals}\n\n${suggestedPaymentsHeading()}\n${lines || '(no payments)'}`
+  }
+
+  async function copyMatchSettlement() {
+    try {
+      await navigator.clipboard.writeText(matchSettlementText())
+      track(TRACK_EVENTS.share_settlement, { game: 'match' })
+      alert('Copied settlement (ready to paste in the group chat)')
+    } catch {
+      alert('Could not copy. You can manually select and copy the text.')
+    }
+  }
+
+  if (!matchPlay || !matchSideNames) return null
+  return (
+    <SettleUpCard
+      {...settleUpCardProps}
+      title={round.name || 'Match'}
+      subtitle={
+        <>
+          {matchSideNames.A} vs {matchSideNames.B} • {matchFormatLabel(round)} • {matchLabel(round.matchStakeCents || 0)}
+        </>
+      }
+      standingsHeading={
+        <>
+          Match: {matchStatusLabel(matchPlay, matchSideNames)}
+        </>
+      }
+      standings={
+        <Table size="sm">
+          <Thead>
+            <Tr>
+              <Th>Hole</Th>
+              <Th>Result</Th>
+              <Th>Status</Th>
+            </Tr>
+          </Thead>
+          <Tbody>
+            {matchPlay.holeResults
+              .filter((hr) => hr.counted)
+              .map((hr) => (
+                <Tr key={hr.hole}>
+                  <Td>{hr.hole}</Td>
+                  <Td>{hr.winner === 'halved' || hr.winner === null ? 'Halved' : matchSideNames[hr.winner]}</Td>
+                  <Td>
+                    {hr.closed
+                      ? matchStatusLabel(matchPlay, matchSideNames)
+                      : matchStatusLabel({ ...hr, status: 'open', winner: null, holesRemaining: 0 }, matchSideNames)}
+                  </Td>
+                </Tr>
+              ))}
+          </Tbody>
+        </Table>
+      }
+      settlement={matchSettlement}
+      paymentsRequired={matchPaymentsRequired}
+      basis={
+        <>
+          Only a finished match pays: {formatMoneyShort(round.matchStakeCents || 0)} per player.
+        </>
+      }
+      setupHint="a stake"
+      onShare={copyMatchSettlement}
+      shareText={matchSettlementText()}
+      tip="set a course and handicaps so strokes fall on the right holes."
+    >
+      {settleUpCardExtras}
+    </SettleUpCard>
+  )
+}
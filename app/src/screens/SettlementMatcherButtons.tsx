@@ -0,0 +1,27 @@
+import { Button, Wrap, WrapItem } from '@chakra-ui/react'
+import type { SettlementMatcher } from '../types'
+import { withSelectedMark } from '../labels'
+
+type SettlementMatcherButtonsProps = {
+  current: SettlementMatcher | undefined
+  onSelect: (m: SettlementMatcher) => void
+  isDisabled?: boolean
+}
+
+// Greedy vs fewest-payments matching for a Settle Up table.
+export function SettlementMatcherButtons({ current, onSelect, isDisabled = false }: SettlementMatcherButtonsProps) {
+  return (
+    <Wrap spacing={2} mb={2}>
+      {(['greedy', 'optimal'] as SettlementMatcher[]).map((m) => {
+        const selected = (current || 'greedy') === m
+        return (
+          <WrapItem key={m}>
+            <Button size="xs" variant={selected ? 'solid' : 'outline'} onClick={() => onSelect(m)} type="button" aria-pressed={selected} isDisabled={isDisabled}>
+              {withSelectedMark(selected, m === 'greedy' ? 'Quick match' : 'Fewest payments')}
+            </Button>
+          </WrapItem>
+        )
+      })}
+    </Wrap>
+  )
+}
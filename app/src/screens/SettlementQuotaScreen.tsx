@@ -0,0 +1,94 @@
+import { Table, Thead, Tbody, Tr, Th, Td } from '@chakra-ui/react'
+import { quotaDiffLabel, quotaLabel } from '../logic/quota'
+import { currencySymbol, formatMoneyShort } from '../logic/money'
+import { TRACK_EVENTS, track } from '../logic/track'
+import { SettleUpCard } from './SettleUpCard'
+import type { ScreenProps } from '../appState'
+import { useRoundView } from './useRoundView'
+import { useSettleUp } from './useSettleUp'
+
+export function SettlementQuotaScreen({ app }: ScreenProps) {
+  const { round } = app
+  const view = useRoundView(app)
+  const { quota, quotaSettlement, playHoles, suggestedPaymentsHeading, lastCompletedHole, toParShareLine, settleLineText } = view
+  const { settleUpCardProps, settleUpCardExtras } = useSettleUp(app, view)
+
+  const quotaPaymentsRequired = quotaSettlement ? quotaSettlement.lines.length > 0 : false
+
+  function quotaSettlementText(): string {
+    if (!quota || !quotaSettlement) return ''
+    const through = lastCompletedHole()
+    const standings = round.players
+      .map((p) => ({ name: p.name, pts: quota.pointsByPlayer[p.id] || 0, quota: quota.quotaByPlayer[p.id] || 0, diff: quota.vsQuotaByPlayer[p.id] || 0 }))
+      .sort((a, b) => b.diff - a.diff)
+      .map((x) => `${x.name}: ${x.pts} pts vs ${x.quota} (${quotaDiffLabel(x.diff)})`)
+      .join('\n')
+    const lines = quotaSettlement.lines.map((l) => settleLineText(l)).join('\n')
+    return `Golf Bets — Quota settlement\nRound: ${round.name || 'Quota'}\n${quotaLabel(round.quotaDollarsPerPointCents)} • Through ${through}/${playHoles.length}${toParShareLine()}\n\nVs quota:\n${standings}\n\n${suggestedPaymentsHeading()}\n${lines || '(no payments)'}`
+  }
+
+  async function copyQuotaSettlement() {
+    try {
+      await navigator.clipboard.writeText(quotaSettlementText())
+      track(TRACK_EVENTS.share_settlement, { game: 'quota' })
+      alert('Copied settlement (ready to paste in the group chat)')
+    } catch {
+      alert('Could not copy. You can manually select and copy the text.')
+    }
+  }
+
+  if (!quota) return null
+  return (
+    <SettleUpCard
+      {...settleUpCardProps}
+      title={round.name || 'Quota'}
+      subtitle={quotaLabel(round.quotaDollarsPerPointCents)}
+      standingsHeading="Vs quota"
+      standings={
+        <Table size="sm">
+          <Thead>
+            <Tr>
+              <Th>Player</Th>
+              <Th textAlign="right">Points</Th>
+              <Th textAlign="right">Quota</Th>
+              <Th textAlign="right">+/-</Th>
+            </Tr>
+          </Thead>
+          <Tbody>
+            {round.players
+              .slice()
+              .sort((x, y) => (quota.vsQuotaByPlayer[y.id] || 0) - (quota.vsQuotaByPlayer[x.id] || 0))
+              .map((p) => {
+                const diff = quota.vsQuotaByPlayer[p.id] || 0
+                return (
+                  <Tr key={p.id}>
+                    <Td>{p.name}</Td>
+                    <Td textAlign="right">
+                      {quota.pointsByPlayer[p.id] || 0} ({quota.holesByPlayer[p.id] || 0} holes)
+                    </Td>
+                    <Td textAlign="right">{quota.quotaByPlayer[p.id] || 0}</Td>
+                    <Td textAlign="right" className={diff >= 0 ? 'positive' : 'negative'}>
+                      {quotaDiffLabel(diff)}
+                    </Td>
+                  </Tr>
+                )
+              })}
+          </Tbody>
+        </Table>
+      }
+      settlement={quotaSettlement}
+      paymentsRequired={quotaPaymentsRequired}
+      basis={
+        <>
+          Based on {formatMoneyShort(round.quotaDollarsPerPointCents || 0)} per point of difference in +/- vs quota.
+        </>
+      }
+      setupHint={`a ${currencySymbol()}/pt value`}
+      onShare={copyQuotaSettlement}
+      shareText={quotaSettlementText()}
+      tip="quotas follow each player's handicap; set a course so points use real pars."
+    >
+      {settleUpCardExtras}
+    </SettleUpCard>
+  )
+}
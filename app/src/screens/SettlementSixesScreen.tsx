@@ -0,0 +1,125 @@
+import { Table, Thead, Tbody, Tr, Th, Td } from '@chakra-ui/react'
+import { matchStatusLabel } from '../logic/match'
+import { sixesLabel } from '../logic/sixes'
+import { formatMoneyShort, formatSignedMoney } from '../logic/money'
+import { TRACK_EVENTS, track } from '../logic/track'
+import { SettleUpCard } from './SettleUpCard'
+import type { ScreenProps } from '../appState'
+import { useRoundView } from './useRoundView'
+import { useSettleUp } from './useSettleUp'
+
+export function SettlementSixesScreen({ app }: ScreenProps) {
+  const { round } = app
+  const view = useRoundView(app)
+  const {
+    sixes,
+    sixesSettlement,
+    playHoles,
+    sixesSideNames,
+    sixesSegmentName,
+    suggestedPaymentsHeading,
+    lastCompletedHole,
+    toParShareLine,
+    settleLineText,
+  } = view
+  const { settleUpCardProps, settleUpCardExtras } = useSettleUp(app, view)
+
+  const sixesPaymentsRequired = sixesSettlement ? sixesSettlement.lines.length > 0 : false
+
+  function sixesSettlementText(): string {
+    if (!sixes || !sixesSettlement) return ''
+    const through = lastCompletedHole()
+    const segs = sixesSettlement.bySegment
+      .map(({ segment, settlement: s }) => {
+        const names = sixesSideNames(segment.sides)
+        const paid = round.players.filter((p) => (s.netByPlayer[p.id] || 0) !== 0).length > 0 ? '' : ' (no payment)'
+        return `${sixesSegmentName(segment)}: ${matchStatusLabel(segment, names)}${paid}`
+      })
+      .join('\n')
+    const overall = sixesSettlement.overall
+      ? `\nOverall: ${sixes.complete ? round.players.map((p) => `${p.name} ${sixes.holesWonByPlayer[p.id] || 0}`).join(' • ') : 'settles when every hole is in'}`
+      : ''
+    const totals = round.players
+      .map((p) => ({ name: p.name, net: sixesSettlement.netByPlayer[p.id] || 0 }))
+      .sort((a, b) => b.net - a.net)
+      .map((x) => `${x.name} ${formatSignedMoney(x.net)}`)
+      .join('\n')
+    const lines = sixesSettlement.lines.map((l) => settleLineText(l)).join('\n')
+    return `Golf Bets — Six Sixes settlement\nRound: ${round.name || 'Six Sixes'}\n${sixesLabel(round.sixesStakeCents || 0)} • Through ${through}/${playHoles.length}${toParShareLine()}\n\nSegments:\n${segs}${overall}\n\nNet:\n${totals}\n\n${suggestedPaymentsHeading()}\n${lines || '(no payments)'}`
+  }
+
+  async function copySixesSettlement() {
+    try {
+      await navigator.clipboard.writeText(sixesSettlementText())
+      track(TRACK_EVENTS.share_settlement, { game: 'sixes' })
+      alert('Copied settlement (ready to paste in the group chat)')
+    } catch {
+      alert('Could not copy. You can manually select and copy the text.')
+    }
+  }
+
+  if (!sixes || !sixesSettlement) return null
+  return (
+    <SettleUpCard
+      {...settleUpCardProps}
+      title={round.name || 'Six Sixes'}
+      subtitle={
+        <>
+          {sixesLabel(round.sixesStakeCents || 0)}
+          {(round.sixesOverallCents || 0) > 0 ? ` • Overall ${formatMoneyShort(round.sixesOverallCents || 0)}/pair` : ''}
+        </>
+      }
+      standingsHeading="Segments"
+      standings={
+        <Table size="sm">
+          <Thead>
+            <Tr>
+              <Th>Holes</Th>
+              <Th>Teams</Th>
+              <Th>Result</Th>
+            </Tr>
+          </Thead>
+          <Tbody>
+            {sixes.segments.map((seg) => {
+              const names = sixesSideNames(seg.sides)
+              return (
+                <Tr key={seg.index}>
+                  <Td>
+                    {seg.startHole}–{seg.endHole}
+                  </Td>
+                  <Td>
+                    {names.A} vs {names.B}
+                  </Td>
+                  <Td>{matchStatusLabel(seg, names)}</Td>
+                </Tr>
+              )
+            })}
+            {sixesSettlement.overall && (
+              <Tr>
+                <Td>Overall</Td>
+                <Td>Holes won</Td>
+                <Td>
+                  {round.players.map((p) => `${p.name} ${sixes.holesWonByPlayer[p.id] || 0}`).join(' • ')}
+                  {sixes.complete ? '' : ' (settles when every hole is in)'}
+                </Td>
+              </Tr>
+            )}
+          </Tbody>
+        </Table>
+      }
+      settlement={sixesSettlement}
+      paymentsRequired={sixesPaymentsRequired}
+      basis={
+        <>
+          Each finished segment pays {formatMoneyShort(round.sixesStakeCents || 0)} per player.
+        </>
+      }
+      setupHint="a stake"
+      onShare={copySixesSettlement}
+      shareText={sixesSettlementText()}
+      tip="player order sets the pairings (1+2, then 1+3, then 1+4)."
+    >
+      {settleUpCardExtras}
+    </SettleUpCard>
+  )
+}
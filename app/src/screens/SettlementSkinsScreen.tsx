@@ -1,11 +1,263 @@
-import type { ReactNode } from 'react'
+import {
+  Box,
+  Button,
+  Card,
+  CardBody,
+  HStack,
+  Icon,
+  SimpleGrid,
+  Stack,
+  Text,
+  Textarea,
+  Wrap,
+  WrapItem,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+} from '@chakra-ui/react'
+import { CheckCircle2, HandCoins } from 'lucide-react'
+import type { SkinsSummary } from '../types'
+import { skinsRulesLabel, skinsScoringLabel, stakeLabel } from '../logic/skins'
+import { formatMoney, formatSignedMoney } from '../logic/money'
+import type { ScreenProps } from '../appState'
+import { withSelectedMark } from '../labels'
+import { GameRules } from './GameRules'
+import { useRoundView } from './useRoundView'
+import { useSettleUp } from './useSettleUp'
 
-type SettlementSkinsScreenProps = {
-  active: boolean
-  children: ReactNode
-}
+export function SettlementSkinsScreen({ app }: ScreenProps) {
+  const { setScreen, theme, round, setRound } = app
+  const view = useRoundView(app)
+  const { skins, netSkins, settlement, resetToGamePicker, settlementText, copyStatus, payLinks } = view
+  const { junkCard, settlementMatcherToggle, holdoverCard, preCapNote, combinedSettlementCard, auditCard, paymentsCard } = useSettleUp(app, view)
+
+  const skinsPaymentsRequired = settlement ? settlement.lines.length > 0 : false
+
+  if (!settlement) return null
+  return (
+    <Card variant="outline">
+      <CardBody>
+        <Stack spacing={4}>
+          <HStack justify="space-between" align="flex-start" spacing={4} flexWrap="wrap">
+            <Box>
+              <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800}>
+                Settlement
+              </Text>
+              <Text fontSize="lg" fontWeight={800}>
+                {round.name || 'Skins'}
+              </Text>
+              <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                {round.skinsPayout === 'pot'
+                  ? `Skins pot: ${stakeLabel(round.skinsPotCents || 0)} per player${netSkins ? ' per pot' : ''} (split by skins won)`
+                  : `Skins stake: ${stakeLabel(round.stakeCents || 0)} (winner collects from each opponent)`}{' '}
+                • {skinsScoringLabel(round)}
+                {skinsRulesLabel(round) ? ` • ${skinsRulesLabel(round)}` : ''}
+              </Text>
+            </Box>
+          </HStack>
+
+          {[skins, netSkins]
+            .filter((x): x is SkinsSummary => x?.carryResolution?.rule === 'playoff')
+            .map((x) => (
+              <Box key={x.pot}>
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} mb={2}>
+                  Playoff{netSkins ? ` (${x.pot})` : ''}: {x.carryToNext} carried skin(s) — who won?
+                </Text>
+                <Wrap spacing={2}>
+                  {round.players.map((p) => {
+                    const selected = round.skinsPlayoffWinnerByPot?.[x.pot] === p.id
+                    return (
+                      <WrapItem key={p.id}>
+                        <Button
+                          size="sm"
+                          variant={selected ? 'solid' : 'outline'}
+                          onClick={() =>
+                            setRound((r) => ({
+                              ...r,
+                              skinsPlayoffWinnerByPot: { ...r.skinsPlayoffWinnerByPot, [x.pot]: selected ? null : p.id },
+                            }))
+                          }
+                          type="button"
+                          aria-pressed={selected}
+                        >
+                          {withSelectedMark(selected, p.name)}
+                        </Button>
+                      </WrapItem>
+                    )
+                  })}
+                </Wrap>
+              </Box>
+            ))}
+
+          <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+            <Box>
+              <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} mb={2}>
+                Net by Player
+              </Text>
+              <Table size="sm">
+                <Tbody>
+                  {round.players.map((p) => {
+                    const net = settlement.netByPlayer[p.id] || 0
+                    return (
+                      <Tr key={p.id}>
+                        <Td>{p.name}</Td>
+                        <Td textAlign="right" className={net >= 0 ? 'positive' : 'negative'}>
+                          {formatSignedMoney(net)}
+                        </Td>
+                      </Tr>
+                    )
+                  })}
+                </Tbody>
+              </Table>
+              <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+                Positive = they should receive money. Negative = they owe.
+              </Text>
+            </Box>
+
+            <Box>
+              <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} mb={2}>
+                Settle Up
+              </Text>
+              {preCapNote}
+              {settlementMatcherToggle}
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th>From</Th>
+                    <Th>To</Th>
+                    <Th textAlign="right">Amount</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {settlement.lines.length === 0 ? (
+                    <Tr>
+                      <Td colSpan={3}>
+                        <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                          No payments needed.
+                        </Text>
+                      </Td>
+                    </Tr>
+                  ) : (
+                    settlement.lines.map((l, idx) => (
+                      <Tr key={idx}>
+                        <Td>{l.from.name}</Td>
+                        <Td>{l.to.name}</Td>
+                        <Td textAlign="right">
+                          {formatMoney(l.amountCents)}
+                          {payLinks(l)}
+                        </Td>
+                      </Tr>
+                    ))
+                  )}
+                </Tbody>
+              </Table>
+              <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+                This is a suggestion to minimize transactions. Pay via Venmo/Cash App/etc.
+              </Text>
+            </Box>
+          </SimpleGrid>
+
+          <Box>
+            <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} mb={2}>
+              Share Results
+            </Text>
+            <Stack spacing={3}>
+              <Box
+                borderWidth="1px"
+                borderRadius="lg"
+                p={4}
+                bg={theme === 'dark' ? 'whiteAlpha.50' : 'blackAlpha.50'}
+                borderColor={theme === 'dark' ? 'whiteAlpha.300' : 'blackAlpha.200'}
+              >
+                <Stack
+                  direction={{ base: 'column', md: 'row' }}
+                  align={{ base: 'stretch', md: 'center' }}
+                  justify="space-between"
+                  spacing={3}
+                >
+                  <HStack align="flex-start" spacing={3} flex="1">
+                    <Icon as={skinsPaymentsRequired ? HandCoins : CheckCircle2} boxSize={5} mt={0.5} aria-hidden="true" />
+                    <Box>
+                      <Text fontSize="xs" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} textTransform="uppercase" letterSpacing="0.04em">
+                        Result
+                      </Text>
+                      <Text fontSize="lg" fontWeight={800}>
+                        {skinsPaymentsRequired ? 'Payments required — see who pays who below' : 'All square — No payments needed'}
+                      </Text>
+                    </Box>
+                  </HStack>
+                  <Button variant="primary" onClick={copyStatus} type="button" w={{ base: 'full', md: 'auto' }}>
+                    Share result
+                  </Button>
+                </Stack>
+              </Box>
+
+              <Box borderWidth="1px" borderRadius="md" p={3} borderColor={theme === 'dark' ? 'whiteAlpha.300' : 'blackAlpha.200'}>
+                <Text fontSize="xs" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} textTransform="uppercase" letterSpacing="0.04em" mb={2}>
+                  Secondary actions
+                </Text>
+                <Wrap spacing={2}>
+                  <WrapItem>
+                    <Button variant="secondary" size="md" onClick={copyStatus} type="button" title="Copy a shareable status summary">
+                      Share status
+                    </Button>
+                  </WrapItem>
+                  <WrapItem>
+                    <Button variant="tertiary" size="md" onClick={() => setScreen('quick')} type="button">
+                      Quick mode
+                    </Button>
+                  </WrapItem>
+                  <WrapItem>
+                    <Button variant="tertiary" size="md" onClick={() => setScreen('holes')} type="button">
+                      ← Back to holes
+                    </Button>
+                  </WrapItem>
+                  <WrapItem>
+                    <Button variant="tertiary" size="md" onClick={resetToGamePicker} type="button">
+                      New game
+                    </Button>
+                  </WrapItem>
+                </Wrap>
+              </Box>
+            </Stack>
+          </Box>
+
+          <Box>
+            <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} mb={2}>
+              Preview Message
+            </Text>
+            <Box borderWidth="1px" borderRadius="md" p={3} borderColor={theme === 'dark' ? 'whiteAlpha.300' : 'blackAlpha.200'}>
+              <Box as="details">
+                <Box as="summary" cursor="pointer">
+                  <Text as="span" fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800}>
+                    Preview message
+                  </Text>
+                </Box>
+                <Box mt={3}>
+                  <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mb={2}>
+                    Edit message in your chat app after copying.
+                  </Text>
+                  <Textarea h="180px" readOnly value={settlementText()} />
+                </Box>
+              </Box>
+            </Box>
+          </Box>
+
+          {junkCard}
+          {holdoverCard}
+
+          {combinedSettlementCard}
+
+          {paymentsCard}
+
+          {auditCard}
 
-export function SettlementSkinsScreen({ active, children }: SettlementSkinsScreenProps) {
-  if (!active) return null
-  return <>{children}</>
+          <GameRules game={round.game} defaultOpen={false} />
+        </Stack>
+      </CardBody>
+    </Card>
+  )
 }
@@ -0,0 +1,83 @@
+import { Table, Tbody, Tr, Td } from '@chakra-ui/react'
+import { stablefordPayoutLabel, stablefordTableLabel } from '../logic/stableford'
+import { currencySymbol, formatMoneyShort } from '../logic/money'
+import { TRACK_EVENTS, track } from '../logic/track'
+import { SettleUpCard } from './SettleUpCard'
+import type { ScreenProps } from '../appState'
+import { useRoundView } from './useRoundView'
+import { useSettleUp } from './useSettleUp'
+
+export function SettlementStablefordScreen({ app }: ScreenProps) {
+  const { round } = app
+  const view = useRoundView(app)
+  const { stableford, stablefordSettlement, playHoles, suggestedPaymentsHeading, lastCompletedHole, toParShareLine, settleLineText } = view
+  const { settleUpCardProps, settleUpCardExtras } = useSettleUp(app, view)
+
+  const stablefordPaymentsRequired = stablefordSettlement ? stablefordSettlement.lines.length > 0 : false
+
+  function stablefordSettlementText(): string {
+    if (!stableford || !stablefordSettlement) return ''
+    const through = lastCompletedHole()
+    const pts = round.players
+      .map((p) => ({ name: p.name, pts: stableford.pointsByPlayer[p.id] || 0 }))
+      .sort((a, b) => b.pts - a.pts)
+      .map((x) => `${x.name}: ${x.pts}`)
+      .join('\n')
+    const lines = stablefordSettlement.lines.map((l) => settleLineText(l)).join('\n')
+    return `Golf Bets — Stableford settlement\nRound: ${round.name || 'Stableford'}\n${stablefordTableLabel(round)} • ${stablefordPayoutLabel(round)} • Through ${through}/${playHoles.length}${toParShareLine()}\n\nPoints:\n${pts}\n\n${suggestedPaymentsHeading()}\n${lines || '(no payments)'}`
+  }
+
+  async function copyStablefordSettlement() {
+    try {
+      await navigator.clipboard.writeText(stablefordSettlementText())
+      track(TRACK_EVENTS.share_settlement, { game: 'stableford', payout: round.stablefordPayout || 'points' })
+      alert('Copied settlement (ready to paste in the group chat)')
+    } catch {
+      alert('Could not copy. You can manually select and copy the text.')
+    }
+  }
+
+  if (!stableford) return null
+  return (
+    <SettleUpCard
+      {...settleUpCardProps}
+      title={round.name || 'Stableford'}
+      subtitle={
+        <>
+          {stablefordTableLabel(round)} • {stablefordPayoutLabel(round)}
+        </>
+      }
+      standingsHeading="Points"
+      standings={
+        <Table size="sm">
+          <Tbody>
+            {round.players
+              .slice()
+              .sort((x, y) => (stableford.pointsByPlayer[y.id] || 0) - (stableford.pointsByPlayer[x.id] || 0))
+              .map((p) => (
+                <Tr key={p.id}>
+                  <Td>{p.name}</Td>
+                  <Td textAlign="right">
+                    {stableford.pointsByPlayer[p.id] || 0} pts ({stableford.holesByPlayer[p.id] || 0} holes)
+                  </Td>
+                </Tr>
+              ))}
+          </Tbody>
+        </Table>
+      }
+      settlement={stablefordSettlement}
+      paymentsRequired={stablefordPaymentsRequired}
+      basis={
+        round.stablefordPayout === 'pot'
+          ? 'High total takes the pot; ties split it.'
+          : `Based on ${formatMoneyShort(round.stablefordDollarsPerPointCents || 0)} per point of difference.`
+      }
+      setupHint={`a ${currencySymbol()}/pt value or pot buy-in`}
+      onShare={copyStablefordSettlement}
+      shareText={stablefordSettlementText()}
+      tip="set a course so points use real pars."
+    >
+      {settleUpCardExtras}
+    </SettleUpCard>
+  )
+}
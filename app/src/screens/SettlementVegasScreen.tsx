@@ -0,0 +1,91 @@
+import { Table, Tbody, Tr, Td } from '@chakra-ui/react'
+import { vegasLabel, type VegasSide } from '../logic/vegas'
+import { currencySymbol, formatMoneyShort, formatSignedMoney } from '../logic/money'
+import { TRACK_EVENTS, track } from '../logic/track'
+import { SettleUpCard } from './SettleUpCard'
+import type { ScreenProps } from '../appState'
+import { useRoundView } from './useRoundView'
+import { useSettleUp } from './useSettleUp'
+
+export function SettlementVegasScreen({ app }: ScreenProps) {
+  const { round } = app
+  const view = useRoundView(app)
+  const {
+    vegas,
+    vegasSettlement,
+    vegasSideNames,
+    playHoles,
+    suggestedPaymentsHeading,
+    vegasStandingLabel,
+    lastCompletedHole,
+    toParShareLine,
+    settleLineText,
+  } = view
+  const { settleUpCardProps, settleUpCardExtras } = useSettleUp(app, view)
+
+  const vegasPaymentsRequired = vegasSettlement ? vegasSettlement.lines.length > 0 : false
+
+  function vegasSettlementText(): string {
+    if (!vegas || !vegasSettlement || !vegasSideNames) return ''
+    const through = lastCompletedHole()
+    const totals = round.players
+      .map((p) => ({ name: p.name, net: vegasSettlement.netByPlayer[p.id] || 0 }))
+      .sort((a, b) => b.net - a.net)
+      .map((x) => `${x.name} ${formatSignedMoney(x.net)}`)
+      .join('\n')
+    const lines = vegasSettlement.lines.map((l) => settleLineText(l)).join('\n')
+    return `Golf Bets — Vegas settlement\nRound: ${round.name || 'Vegas'}\n${vegasSideNames.A} vs ${vegasSideNames.B} • ${vegasLabel(round.vegasDollarsPerPointCents)} • Through ${through}/${playHoles.length}${toParShareLine()}\n\nPoints: ${vegasStandingLabel()}\n\nNet:\n${totals}\n\n${suggestedPaymentsHeading()}\n${lines || '(no payments)'}`
+  }
+
+  async function copyVegasSettlement() {
+    try {
+      await navigator.clipboard.writeText(vegasSettlementText())
+      track(TRACK_EVENTS.share_settlement, { game: 'vegas' })
+      alert('Copied settlement (ready to paste in the group chat)')
+    } catch {
+      alert('Could not copy. You can manually select and copy the text.')
+    }
+  }
+
+  if (!vegas || !vegasSideNames) return null
+  return (
+    <SettleUpCard
+      {...settleUpCardProps}
+      title={round.name || 'Vegas'}
+      subtitle={
+        <>
+          {vegasSideNames.A} vs {vegasSideNames.B} • {vegasLabel(round.vegasDollarsPerPointCents)}
+        </>
+      }
+      standingsHeading="Points"
+      standings={
+        <Table size="sm">
+          <Tbody>
+            {(['A', 'B'] as VegasSide[]).map((side) => (
+              <Tr key={side}>
+                <Td>{vegasSideNames[side]}</Td>
+                <Td textAlign="right">
+                  {vegas.pointsBySide[side] > 0 ? '+' : ''}
+                  {vegas.pointsBySide[side]} pts
+                </Td>
+              </Tr>
+            ))}
+          </Tbody>
+        </Table>
+      }
+      settlement={vegasSettlement}
+      paymentsRequired={vegasPaymentsRequired}
+      basis={
+        <>
+          Based on {formatMoneyShort(round.vegasDollarsPerPointCents || 0)} per point, per player.
+        </>
+      }
+      setupHint={`a ${currencySymbol()}/pt value`}
+      onShare={copyVegasSettlement}
+      shareText={vegasSettlementText()}
+      tip="set a course so birdies use real pars."
+    >
+      {settleUpCardExtras}
+    </SettleUpCard>
+  )
+}
@@ -1,11 +1,245 @@
-import type { ReactNode } from 'react'
+import {
+  Box,
+  Button,
+  Card,
+  CardBody,
+  HStack,
+  Icon,
+  SimpleGrid,
+  Stack,
+  Text,
+  Textarea,
+  Wrap,
+  WrapItem,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+} from '@chakra-ui/react'
+import { CheckCircle2, HandCoins } from 'lucide-react'
+import { wolfLabel } from '../logic/wolf'
+import { currencySymbol, formatMoney, formatMoneyShort, formatSignedMoney } from '../logic/money'
+import type { ScreenProps } from '../appState'
+import { GameRules } from './GameRules'
+import { useRoundView } from './useRoundView'
+import { useSettleUp } from './useSettleUp'
 
-type SettlementWolfScreenProps = {
-  active: boolean
-  children: ReactNode
-}
+export function SettlementWolfScreen({ app }: ScreenProps) {
+  const { setScreen, theme, round } = app
+  const view = useRoundView(app)
+  const { wolf, wolfSettlement, resetToGamePicker, copyStatus, wolfSettlementText, payLinks } = view
+  const { junkCard, settlementMatcherToggle, holdoverCard, preCapNote, combinedSettlementCard, auditCard, paymentsCard } = useSettleUp(app, view)
+
+  const wolfPaymentsRequired = wolfSettlement ? wolfSettlement.lines.length > 0 : false
+
+  if (!wolf) return null
+  return (
+    <Card variant="outline">
+      <CardBody>
+        <Stack spacing={4}>
+          <HStack justify="space-between" align="flex-start" spacing={4} flexWrap="wrap">
+            <Box>
+              <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800}>
+                Settlement
+              </Text>
+              <Text fontSize="lg" fontWeight={800}>
+                {round.name || 'Wolf'}
+              </Text>
+              <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                {wolfLabel(round.wolfPointsPerHole)} • Lone Wolf = {round.wolfLoneMultiplier || 2}x • Blind = {round.wolfBlindMultiplier || 3}x • Pig ={' '}
+                {round.wolfPigMultiplier || 2}x
+              </Text>
+            </Box>
+          </HStack>
+
+          <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+            <Box>
+              <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} mb={2}>
+                Net by Player
+              </Text>
+              {wolfSettlement ? (
+                <>
+                  <Table size="sm">
+                    <Tbody>
+                      {round.players.map((p) => {
+                        const net = wolfSettlement.netByPlayer[p.id] || 0
+                        return (
+                          <Tr key={p.id}>
+                            <Td>{p.name}</Td>
+                            <Td textAlign="right" className={net >= 0 ? 'positive' : 'negative'}>
+                              {formatSignedMoney(net)}
+                            </Td>
+                          </Tr>
+                        )
+                      })}
+                    </Tbody>
+                  </Table>
+                  <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+                    Positive = they should receive money. Negative = they owe.
+                  </Text>
+                </>
+              ) : (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                  No net balances yet. Set a {currencySymbol()}/pt value to enable settlement.
+                </Text>
+              )}
+            </Box>
+
+            <Box>
+              <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} mb={2}>
+                Settle Up
+              </Text>
+              {preCapNote}
+              {settlementMatcherToggle}
+              {wolfSettlement ? (
+                <>
+                  <Table size="sm">
+                    <Thead>
+                      <Tr>
+                        <Th>From</Th>
+                        <Th>To</Th>
+                        <Th textAlign="right">Amount</Th>
+                      </Tr>
+                    </Thead>
+                    <Tbody>
+                      {wolfSettlement.lines.length === 0 ? (
+                        <Tr>
+                          <Td colSpan={3}>
+                            <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                              No payments needed.
+                            </Text>
+                          </Td>
+                        </Tr>
+                      ) : (
+                        wolfSettlement.lines.map((l, idx) => (
+                          <Tr key={idx}>
+                            <Td>{l.from.name}</Td>
+                            <Td>{l.to.name}</Td>
+                            <Td textAlign="right">
+                              {formatMoney(l.amountCents)}
+                              {payLinks(l)}
+                            </Td>
+                          </Tr>
+                        ))
+                      )}
+                    </Tbody>
+                  </Table>
+                  <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+                    Based on {formatMoneyShort(round.wolfDollarsPerPointCents || 0)} per point.
+                  </Text>
+                </>
+              ) : (
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                  No settlement payments yet. Set a {currencySymbol()}/pt value to enable settlement.
+                </Text>
+              )}
+            </Box>
+          </SimpleGrid>
+
+          <Box>
+            <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} mb={2}>
+              Share Results
+            </Text>
+            <Stack spacing={3}>
+              <Box
+                borderWidth="1px"
+                borderRadius="lg"
+                p={4}
+                bg={theme === 'dark' ? 'whiteAlpha.50' : 'blackAlpha.50'}
+                borderColor={theme === 'dark' ? 'whiteAlpha.300' : 'blackAlpha.200'}
+              >
+                <Stack
+                  direction={{ base: 'column', md: 'row' }}
+                  align={{ base: 'stretch', md: 'center' }}
+                  justify="space-between"
+                  spacing={3}
+                >
+                  <HStack align="flex-start" spacing={3} flex="1">
+                    <Icon as={wolfPaymentsRequired ? HandCoins : CheckCircle2} boxSize={5} mt={0.5} aria-hidden="true" />
+                    <Box>
+                      <Text fontSize="xs" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} textTransform="uppercase" letterSpacing="0.04em">
+                        Result
+                      </Text>
+                      <Text fontSize="lg" fontWeight={800}>
+                        {wolfPaymentsRequired ? 'Payments required — see who pays who below' : 'All square — No payments needed'}
+                      </Text>
+                    </Box>
+                  </HStack>
+                  <Button variant="primary" onClick={copyStatus} type="button" w={{ base: 'full', md: 'auto' }}>
+                    Share result
+                  </Button>
+                </Stack>
+              </Box>
+
+              <Box borderWidth="1px" borderRadius="md" p={3} borderColor={theme === 'dark' ? 'whiteAlpha.300' : 'blackAlpha.200'}>
+                <Text fontSize="xs" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} textTransform="uppercase" letterSpacing="0.04em" mb={2}>
+                  Secondary actions
+                </Text>
+                <Wrap spacing={2}>
+                  <WrapItem>
+                    <Button variant="secondary" size="md" onClick={copyStatus} type="button" title="Copy a shareable status summary">
+                      Share status
+                    </Button>
+                  </WrapItem>
+                  <WrapItem>
+                    <Button variant="tertiary" size="md" onClick={() => setScreen('quick')} type="button">
+                      Quick mode
+                    </Button>
+                  </WrapItem>
+                  <WrapItem>
+                    <Button variant="tertiary" size="md" onClick={() => setScreen('holes')} type="button">
+                      ← Back to holes
+                    </Button>
+                  </WrapItem>
+                  <WrapItem>
+                    <Button variant="tertiary" size="md" onClick={resetToGamePicker} type="button">
+                      New game
+                    </Button>
+                  </WrapItem>
+                </Wrap>
+              </Box>
+            </Stack>
+          </Box>
+
+          <Box>
+            <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} mb={2}>
+              Preview Message
+            </Text>
+            <Box borderWidth="1px" borderRadius="md" p={3} borderColor={theme === 'dark' ? 'whiteAlpha.300' : 'blackAlpha.200'}>
+              <Box as="details">
+                <Box as="summary" cursor="pointer">
+                  <Text as="span" fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800}>
+                    Preview message
+                  </Text>
+                </Box>
+                <Box mt={3}>
+                  <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mb={2}>
+                    Edit message in your chat app after copying.
+                  </Text>
+                  <Textarea h="180px" readOnly value={wolfSettlementText()} />
+                </Box>
+              </Box>
+            </Box>
+          </Box>
+
+          {junkCard}
+          {holdoverCard}
+
+          {combinedSettlementCard}
+
+          {paymentsCard}
+
+          {auditCard}
+
+          <GameRules game={round.game} defaultOpen={false} />
 
-export function SettlementWolfScreen({ active, children }: SettlementWolfScreenProps) {
-  if (!active) return null
-  return <>{children}</>
+          <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+            Tip: pick Wolf partner per hole in Quick mode (or tap Lone).
+          </Text>
+        </Stack>
+      </CardBody>
+    </Card>
+  )
 }
@@ -1,11 +1,1513 @@
-import type { ReactNode } from 'react'
+import { useMemo } from 'react'
+import {
+  Box,
+  Button,
+  Card,
+  CardBody,
+  Divider,
+  FormControl,
+  FormLabel,
+  HStack,
+  Icon,
+  IconButton,
+  Input,
+  SimpleGrid,
+  Stack,
+  Text,
+  VStack,
+  Wrap,
+  WrapItem,
+} from '@chakra-ui/react'
+import { RotateCw } from 'lucide-react'
+import type {
+  Course,
+  CourseHole,
+  GameType,
+  HoleNumber,
+  JunkType,
+  MoneyFormat,
+  MoneyRounding,
+  Player,
+  PlayerId,
+  SkinsEndTies,
+  SkinsPayout,
+  SkinsScoring,
+  StablefordPayout,
+  StablefordTable,
+  StablefordTableName,
+} from '../types'
+import { skinsEndTiesLabel } from '../logic/skins'
+import { handicapLabel } from '../logic/handicap'
+import { STABLEFORD_TABLES, stablefordTable } from '../logic/stableford'
+import { defaultQuota } from '../logic/quota'
+import {
+  DEFAULT_GROUP_PAYOUT,
+  GROUP_MAX_TEAMS,
+  GROUP_TEAM_SIZE,
+  groupBestN,
+  groupFormat,
+  groupPayoutPercents,
+  groupReady,
+  groupTeamForPlayer,
+  withPlayerInTeam,
+} from '../logic/group'
+import { JUNK_HINT, JUNK_LABEL, JUNK_TYPES, junkEnabled, junkValueCents } from '../logic/junk'
+import { courseErrors, courseLabel, coursePar, defaultCourseHoles } from '../logic/course'
+import { holeSequence, roundLengthLabel } from '../logic/holes'
+import { hasGame, playerCountOk, playerLimits, roundGames, withGameToggled, withoutPlayer } from '../logic/games'
+import { ledgerPlayerKey } from '../logic/ledger'
+import { PAYMENT_APPS, paymentAppLabel, paymentHandlePlaceholder } from '../logic/paymentLinks'
+import {
+  CURRENCIES,
+  currencyLabel,
+  currencySymbol,
+  LOCALES,
+  localeLabel,
+  moneyInputString,
+  moneyRoundingLabel,
+  parseMoneyInput,
+  setMoneyFormat,
+} from '../logic/money'
+import { deleteCourse, saveCourses, saveMoneyFormat, upsertCourse } from '../storage'
+import { TRACK_EVENTS, track } from '../logic/track'
+import { HOLES_18 } from '../selectors/roundDerived'
+import type { ScreenProps } from '../appState'
+import { GAME_META } from '../gameMeta'
+import { withSelectedMark } from '../labels'
+import {
+  uid,
+  randomSkinsName,
+  randomWolfName,
+  randomNassauName,
+  randomStablefordName,
+  randomVegasName,
+  randomMatchName,
+  randomSixesName,
+  randomHammerName,
+  randomQuotaName,
+  randomGroupName,
+  randomBBBName,
+} from '../newRound'
+import { GameRules } from './GameRules'
+import { useRoundView } from './useRoundView'
 
-type SetupScreenProps = {
-  active: boolean
-  children: ReactNode
-}
+const STABLEFORD_ROWS: [keyof StablefordTable, string][] = [
+  ['albatross', 'Albatross'],
+  ['eagle', 'Eagle'],
+  ['birdie', 'Birdie'],
+  ['par', 'Par'],
+  ['bogey', 'Bogey'],
+  ['double', 'Double+'],
+]
+
+export function SetupScreen({ app }: ScreenProps) {
+  const {
+    setScreen,
+    theme,
+    savedCourses,
+    setSavedCourses,
+    showPaymentHandles,
+    setShowPaymentHandles,
+    moneyFormat,
+    setMoneyFormatState,
+    courseEditorOpen,
+    setCourseEditorOpen,
+    round,
+    setRound,
+    groupPayoutDraft,
+    setGroupPayoutDraft,
+    junkValueDrafts,
+    setJunkValueDrafts,
+    stablefordDrafts,
+    setStablefordDrafts,
+    handicapDrafts,
+    setHandicapDrafts,
+    focusPlayerId,
+  } = app
+  const { group, playHoles, knownHandles, resetToGamePicker } = useRoundView(app)
+
+  const allPlayersHaveNames = round.players.every((p) => p.name.trim().length > 0)
+
+  const canStart = useMemo(() => {
+    if (!allPlayersHaveNames) return false
+    const n = round.players.length
+    // Every game on the scorecard must be playable by this group (see PLAYER_LIMITS) and have its stake set.
+    return roundGames(round).every((game) => {
+      if (!playerCountOk(game, n)) return false
+      if (game === 'skins') return (round.stakeCents || 0) > 0
+      if (game === 'nassau') return (round.nassauStakeCents || 0) > 0
+      // foursomes, each with enough players for the best-N count
+      if (game === 'group') return groupReady(round)
+      if (game === 'wolf') return (round.wolfPointsPerHole || 0) > 0
+      return true
+    })
+  }, [allPlayersHaveNames, round])
+
+  function setGroupPayout(raw: string) {
+    setGroupPayoutDraft(raw)
+    const percents = raw
+      .split(/[\s/,]+/)
+      .map((x) => Number(x))
+      .filter((x) => Number.isFinite(x) && x > 0)
+    setRound((r) => ({ ...r, groupPayoutPercents: percents.length > 0 ? percents : DEFAULT_GROUP_PAYOUT }))
+  }
+
+  function toggleJunkType(type: JunkType) {
+    setRound((r) => {
+      const cur = r.junkTypes || []
+      const junkTypes = cur.includes(type) ? cur.filter((t) => t !== type) : JUNK_TYPES.filter((t) => t === type || cur.includes(t))
+      return { ...r, junkTypes }
+    })
+  }
+
+  // Signed dollars: negative values are penalties (paid to each opponent).
+  function setJunkValue(type: JunkType, raw: string) {
+    setJunkValueDrafts((d) => ({ ...d, [type]: raw }))
+    if (!/\d/.test(raw)) return
+    const sign = raw.trim().startsWith('-') ? -1 : 1
+    const cents = Math.max(-10000, Math.min(10000, sign * parseMoneyInput(raw)))
+    setRound((r) => ({ ...r, junkValueCents: { ...r.junkValueCents, [type]: cents } }))
+  }
+
+  function setStablefordTable(name: StablefordTableName) {
+    setRound((r) => {
+      if (name !== 'custom') return { ...r, stablefordTable: name }
+      // Start a custom table from whatever is showing now.
+      return { ...r, stablefordTable: name, stablefordCustomTable: r.stablefordCustomTable || { ...stablefordTable(r) } }
+    })
+  }
+
+  function setStablefordCustomPoints(key: keyof StablefordTable, raw: string) {
+    setStablefordDrafts((d) => ({ ...d, [key]: raw }))
+    const n = Number(raw.trim())
+    if (raw.trim() === '' || !Number.isFinite(n)) return
+    setRound((r) => {
+      const cur = r.stablefordCustomTable || { ...STABLEFORD_TABLES.standard }
+      return { ...r, stablefordCustomTable: { ...cur, [key]: Math.max(-20, Math.min(20, Math.round(n))) } }
+    })
+  }
+
+  // Blank clears the override so the quota follows the player's handicap again.
+  function setQuota(pid: PlayerId, raw: string) {
+    const n = Number(raw.trim())
+    setRound((r) => {
+      const next = { ...r.quotaByPlayer }
+      if (raw.trim() === '' || !Number.isFinite(n)) delete next[pid]
+      else next[pid] = Math.max(0, Math.min(72, Math.round(n)))
+      return { ...r, quotaByPlayer: next }
+    })
+  }
+
+  function setRoundLength(startHole: number, count: 9 | 18) {
+    setRound((r) => ({ ...r, holes: holeSequence(startHole, count) }))
+  }
+
+  function startCourse() {
+    setRound((r) => ({ ...r, course: { id: uid('course'), name: '', holes: defaultCourseHoles() } }))
+    setCourseEditorOpen(true)
+  }
+
+  function applySavedCourse(course: Course) {
+    setRound((r) => ({ ...r, course: { ...course, holes: { ...course.holes } } }))
+    setCourseEditorOpen(false)
+  }
+
+  function clearCourse() {
+    setRound((r) => {
+      const next = { ...r }
+      delete next.course
+      return next
+    })
+  }
+
+  function updateCourse(patch: Partial<Course>) {
+    setRound((r) => (r.course ? { ...r, course: { ...r.course, ...patch } } : r))
+  }
+
+  function updateCourseHole(hole: HoleNumber, patch: Partial<CourseHole>) {
+    setRound((r) => {
+      if (!r.course) return r
+      const cur = r.course.holes[hole] || { par: 4, strokeIndex: hole }
+      return { ...r, course: { ...r.course, holes: { ...r.course.holes, [hole]: { ...cur, ...patch } } } }
+    })
+  }
+
+  function saveCurrentCourse() {
+    const course = round.course
+    if (!course) return
+    if (!course.name.trim()) {
+      alert('Name the course before saving it.')
+      return
+    }
+    const next = upsertCourse(savedCourses, course)
+    setSavedCourses(next)
+    saveCourses(next)
+    track(TRACK_EVENTS.course_save, { par: coursePar(course) })
+    alert('Course saved on this device')
+  }
+
+  function deleteSavedCourse(course: Course) {
+    if (!confirm(`Delete saved course “${course.name}”?`)) return
+    const next = deleteCourse(savedCourses, course.id)
+    setSavedCourses(next)
+    saveCourses(next)
+  }
+
+  function updatePlayer(id: PlayerId, patch: Partial<Player>) {
+    setRound((r) => ({
+      ...r,
+      players: r.players.map((p) => (p.id === id ? { ...p, ...patch } : p)),
+    }))
+  }
+  const showHandicaps =
+    (hasGame(round, 'skins') && (round.skinsScoring || 'gross') !== 'gross') || (hasGame(round, 'stableford') && !!round.stablefordNet) ||
+    (hasGame(round, 'match') && round.matchNet !== false) || hasGame(round, 'quota') ||
+    (hasGame(round, 'group') && groupFormat(round) === 'bestBall' && !!round.groupNet)
+
+  function setHandicapDraft(id: PlayerId, raw: string) {
+    setHandicapDrafts((d) => ({ ...d, [id]: raw }))
+    const trimmed = raw.trim()
+    if (trimmed === '') {
+      updatePlayer(id, { handicapIndex: undefined })
+      return
+    }
+    const plus = trimmed.startsWith('+')
+    const n = Number(trimmed.replace(/^\+/, ''))
+    if (!Number.isFinite(n)) return
+    const index = Math.max(-10, Math.min(54, plus ? -n : n))
+    updatePlayer(id, { handicapIndex: Math.round(index * 10) / 10 })
+  }
+
+  function addPlayer() {
+    setRound((r) => {
+      if (r.players.length >= playerLimits(r).max) return r
+      const id = uid('p')
+      focusPlayerId.current = id
+      return { ...r, players: [...r.players, { id, name: `Player ${r.players.length + 1}` }] }
+    })
+  }
+
+  function removePlayer(id: PlayerId) {
+    setRound((r) => {
+      if (r.players.length <= playerLimits(r).min) return r
+      // If we removed the focused player, clear.
+      if (focusPlayerId.current === id) focusPlayerId.current = null
+      return withoutPlayer(r, id)
+    })
+  }
+
+  // The locale is per device. Picking a currency sets the round on screen and the device's default for new rounds.
+  function updateMoneyFormat(patch: Partial<MoneyFormat>) {
+    const next = { ...moneyFormat, ...patch }
+    const currency = patch.currency || round.currency || next.currency
+    if (patch.currency) setRound((r) => ({ ...r, currency }))
+    setMoneyFormat({ ...next, currency })
+    setMoneyFormatState(next)
+    saveMoneyFormat(next)
+  }
+
+  return (
+    <Card variant="outline">
+      <CardBody>
+        <Stack spacing={5}>
+          <Box>
+            <Text fontSize="sm" fontWeight={800} color={theme === 'dark' ? 'gray.300' : 'gray.600'} mb={2}>
+              Games on this scorecard
+            </Text>
+            <Wrap spacing={2}>
+              {(Object.keys(GAME_META) as GameType[]).map((g) => {
+                const selected = hasGame(round, g)
+                const primary = round.game === g
+                return (
+                  <WrapItem key={g}>
+                    <Button
+                      size="sm"
+                      variant={selected ? 'solid' : 'outline'}
+                      onClick={() => setRound((r) => withGameToggled(r, g))}
+                      isDisabled={primary}
+                      type="button"
+                      aria-pressed={selected}
+                      title={primary ? 'Main game' : selected ? 'Remove side game' : 'Add as a side game'}
+                    >
+                      {withSelectedMark(selected, GAME_META[g].short)}
+                    </Button>
+                  </WrapItem>
+                )
+              })}
+            </Wrap>
+            <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+              Side games share the scorecard; each keeps its own stakes and settles separately and combined.
+            </Text>
+          </Box>
+
+          <Divider />
+
+          <Box>
+            <Text fontSize="sm" fontWeight={800} color={theme === 'dark' ? 'gray.300' : 'gray.600'} mb={2}>
+              Junk (dots)
+            </Text>
+            <Wrap spacing={2}>
+              {JUNK_TYPES.map((t) => {
+                const selected = (round.junkTypes || []).includes(t)
+                return (
+                  <WrapItem key={t}>
+                    <Button
+                      size="sm"
+                      variant={selected ? 'solid' : 'outline'}
+                      onClick={() => toggleJunkType(t)}
+                      type="button"
+                      aria-pressed={selected}
+                      title={JUNK_HINT[t]}
+                    >
+                      {withSelectedMark(selected, JUNK_LABEL[t])}
+                    </Button>
+                  </WrapItem>
+                )
+              })}
+            </Wrap>
+            {junkEnabled(round) && (
+              <SimpleGrid columns={{ base: 2, md: 3 }} spacing={3} mt={3}>
+                {JUNK_TYPES.filter((t) => (round.junkTypes || []).includes(t)).map((t) => (
+                  <FormControl key={t}>
+                    <FormLabel>{JUNK_LABEL[t]} ({currencySymbol()})</FormLabel>
+                    <Input
+                      value={junkValueDrafts[t] ?? moneyInputString(junkValueCents(round, t))}
+                      onChange={(e) => setJunkValue(t, e.target.value)}
+                      inputMode="decimal"
+                      placeholder="0"
+                    />
+                  </FormControl>
+                ))}
+              </SimpleGrid>
+            )}
+            <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+              Each dot is paid by every opponent; a negative value is a penalty (e.g. 3-putt -1). Greenies only count on par 3s.
+            </Text>
+          </Box>
+
+          <Divider />
+
+          <Box>
+            <Text fontSize="sm" fontWeight={800} color={theme === 'dark' ? 'gray.300' : 'gray.600'} mb={2}>
+              Rabbit & Snake
+            </Text>
+            <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+              <FormControl>
+                <FormLabel>Rabbit ({currencySymbol()})</FormLabel>
+                <Input
+                  value={moneyInputString(round.rabbitCents || 0)}
+                  onChange={(e) => setRound((r) => ({ ...r, rabbitCents: parseMoneyInput(e.target.value) }))}
+                  inputMode="decimal"
+                  placeholder="0"
+                />
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+                  Win a hole outright to grab the rabbit. Whoever holds it after the 9th and 18th hole collects from each player.
+                </Text>
+              </FormControl>
+              <FormControl>
+                <FormLabel>Snake ({currencySymbol()})</FormLabel>
+                <Input
+                  value={moneyInputString(round.snakeCents || 0)}
+                  onChange={(e) => setRound((r) => ({ ...r, snakeCents: parseMoneyInput(e.target.value) }))}
+                  inputMode="decimal"
+                  placeholder="0"
+                />
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+                  The last player to three-putt holds the snake and pays each player at the end. Putts are entered in Quick mode.
+                </Text>
+              </FormControl>
+            </SimpleGrid>
+          </Box>
+
+          <Divider />
+
+          <Box>
+            <Text fontSize="sm" fontWeight={800} color={theme === 'dark' ? 'gray.300' : 'gray.600'} mb={2}>
+              Money
+            </Text>
+            <Stack spacing={3}>
+              <FormControl>
+                <FormLabel>Currency</FormLabel>
+                <Wrap spacing={2}>
+                  {CURRENCIES.map((c) => {
+                    const selected = (round.currency || moneyFormat.currency) === c
+                    return (
+                      <WrapItem key={c}>
+                        <Button
+                          size="sm"
+                          variant={selected ? 'solid' : 'outline'}
+                          onClick={() => updateMoneyFormat({ currency: c })}
+                          type="button"
+                          aria-pressed={selected}
+                          isDisabled={!!round.locked}
+                        >
+                          {withSelectedMark(selected, currencyLabel(c))}
+                        </Button>
+                      </WrapItem>
+                    )
+                  })}
+                </Wrap>
+              </FormControl>
+              <FormControl>
+                <FormLabel>Number format</FormLabel>
+                <Wrap spacing={2}>
+                  {LOCALES.map((l) => {
+                    const selected = moneyFormat.locale === l
+                    return (
+                      <WrapItem key={l || 'device'}>
+                        <Button size="sm" variant={selected ? 'solid' : 'outline'} onClick={() => updateMoneyFormat({ locale: l })} type="button" aria-pressed={selected}>
+                          {withSelectedMark(selected, localeLabel(l))}
+                        </Button>
+                      </WrapItem>
+                    )
+                  })}
+                </Wrap>
+              </FormControl>
+              <FormControl>
+                <FormLabel>Round settlements to</FormLabel>
+                <Wrap spacing={2}>
+                  {(['none', 'whole', 'five'] as MoneyRounding[]).map((m) => {
+                    const selected = (round.moneyRounding || 'none') === m
+                    return (
+                      <WrapItem key={m}>
+                        <Button
+                          size="sm"
+                          variant={selected ? 'solid' : 'outline'}
+                          onClick={() => setRound((r) => ({ ...r, moneyRounding: m }))}
+                          isDisabled={!!round.locked}
+                          type="button"
+                          aria-pressed={selected}
+                        >
+                          {withSelectedMark(selected, moneyRoundingLabel(m))}
+                        </Button>
+                      </WrapItem>
+                    )
+                  })}
+                </Wrap>
+              </FormControl>
+              <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+                <FormControl>
+                  <FormLabel>Max loss per player ({currencySymbol()})</FormLabel>
+                  <Input
+                    value={moneyInputString(round.maxLossCents || 0)}
+                    onChange={(e) => setRound((r) => ({ ...r, maxLossCents: parseMoneyInput(e.target.value) }))}
+                    inputMode="decimal"
+                    placeholder="0"
+                    isDisabled={!!round.locked}
+                  />
+                </FormControl>
+                <FormControl>
+                  <FormLabel>Max win per player ({currencySymbol()})</FormLabel>
+                  <Input
+                    value={moneyInputString(round.maxWinCents || 0)}
+                    onChange={(e) => setRound((r) => ({ ...r, maxWinCents: parseMoneyInput(e.target.value) }))}
+                    inputMode="decimal"
+                    placeholder="0"
+                    isDisabled={!!round.locked}
+                  />
+                </FormControl>
+              </SimpleGrid>
+            </Stack>
+            <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+              Caps (0 = none) apply to each player's total across every game and side bet; what a capped player doesn't pay or collect is shared out in proportion among the others.
+            </Text>
+            <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+              Currency and number format apply on this device. Rounding is per round: nets round so they still add up to zero, and nobody moves by a full unit.
+            </Text>
+          </Box>
+
+          <Divider />
+
+          <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+            <FormControl>
+              <HStack justify="space-between" align="center" mb={2}>
+                <FormLabel m={0}>Round name</FormLabel>
+                <IconButton
+                  aria-label="Reroll name"
+                  icon={<Icon as={RotateCw} boxSize={5} aria-hidden="true" />}
+                  variant="tertiary"
+                  size="sm"
+                  onClick={() =>
+                    setRound((r) => ({
+                      ...r,
+                      name:
+                        r.game === 'skins'
+                          ? randomSkinsName()
+                          : r.game === 'wolf'
+                            ? randomWolfName()
+                            : r.game === 'nassau'
+                              ? randomNassauName()
+                              : r.game === 'stableford'
+                                ? randomStablefordName()
+                                : r.game === 'vegas'
+                                  ? randomVegasName()
+                                  : r.game === 'match'
+                                    ? randomMatchName()
+                                    : r.game === 'sixes'
+                                      ? randomSixesName()
+                                      : r.game === 'hammer'
+                                        ? randomHammerName()
+                                        : r.game === 'quota'
+                                          ? randomQuotaName()
+                                          : r.game === 'group'
+                                            ? randomGroupName()
+                                            : randomBBBName(),
+                    }))
+                  }
+                  title="Reroll name"
+                />
+              </HStack>
+              <Input
+                value={round.name}
+                onChange={(e) => setRound((r) => ({ ...r, name: e.target.value }))}
+                placeholder="Saturday skins"
+              />
+              <Box mt={3}>
+                <GameRules game={round.game} defaultOpen={false} />
+              </Box>
+            </FormControl>
+
+            {hasGame(round, 'skins') && (
+              <Stack spacing={3}>
+                <Wrap spacing={2}>
+                  {(['perSkin', 'pot'] as SkinsPayout[]).map((mode) => {
+                    const selected = (round.skinsPayout || 'perSkin') === mode
+                    return (
+                      <WrapItem key={mode}>
+                        <Button
+                          size="sm"
+                          variant={selected ? 'solid' : 'outline'}
+                          onClick={() => setRound((r) => ({ ...r, skinsPayout: mode }))}
+                          type="button"
+                          aria-pressed={selected}
+                        >
+                          {withSelectedMark(selected, mode === 'perSkin' ? 'Pay per skin' : 'Buy-in pot')}
+                        </Button>
+                      </WrapItem>
+                    )
+                  })}
+                </Wrap>
+
+                {(round.skinsPayout || 'perSkin') === 'perSkin' ? (
+                  <FormControl>
+                    <FormLabel>{currencySymbol()} per skin</FormLabel>
+                    <Input
+                      value={moneyInputString(round.stakeCents || 0)}
+                      onChange={(e) => setRound((r) => ({ ...r, stakeCents: parseMoneyInput(e.target.value) }))}
+                      inputMode="decimal"
+                      placeholder="5"
+                    />
+                  </FormControl>
+                ) : (
+                  <FormControl>
+                    <FormLabel>Pot buy-in per player</FormLabel>
+                    <Input
+                      value={moneyInputString(round.skinsPotCents || 0)}
+                      onChange={(e) => setRound((r) => ({ ...r, skinsPotCents: parseMoneyInput(e.target.value) }))}
+                      inputMode="decimal"
+                      placeholder="20"
+                    />
+                    <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+                      The pot is split by share of skins won{round.skinsScoring === 'both' ? ' (gross and net are separate pots)' : ''}.
+                    </Text>
+                  </FormControl>
+                )}
+
+                <FormControl>
+                  <FormLabel>Scoring</FormLabel>
+                  <Wrap spacing={2}>
+                    {(['gross', 'net', 'both'] as SkinsScoring[]).map((mode) => {
+                      const selected = (round.skinsScoring || 'gross') === mode
+                      return (
+                        <WrapItem key={mode}>
+                          <Button
+                            size="sm"
+                            variant={selected ? 'solid' : 'outline'}
+                            onClick={() => setRound((r) => ({ ...r, skinsScoring: mode }))}
+                            type="button"
+                            aria-pressed={selected}
+                          >
+                            {withSelectedMark(selected, mode === 'gross' ? 'Gross' : mode === 'net' ? 'Net' : 'Gross + Net')}
+                          </Button>
+                        </WrapItem>
+                      )
+                    })}
+                  </Wrap>
+                </FormControl>
+
+                {(round.skinsScoring === 'net' || round.skinsScoring === 'both') && (
+                  <Wrap spacing={2}>
+                    <WrapItem>
+                      <Button
+                        size="sm"
+                        variant={round.skinsHalfStrokes ? 'solid' : 'outline'}
+                        onClick={() => setRound((r) => ({ ...r, skinsHalfStrokes: !r.skinsHalfStrokes }))}
+                        type="button"
+                        aria-pressed={!!round.skinsHalfStrokes}
+                        title="Each stroke received counts as half a shot"
+                      >
+                        {withSelectedMark(!!round.skinsHalfStrokes, 'Half strokes')}
+                      </Button>
+                    </WrapItem>
+                    <WrapItem>
+                      <Button
+                        size="sm"
+                        variant={round.skinsOffLow ? 'solid' : 'outline'}
+                        onClick={() => setRound((r) => ({ ...r, skinsOffLow: !r.skinsOffLow }))}
+                        type="button"
+                        aria-pressed={!!round.skinsOffLow}
+                        title="Strokes relative to the lowest handicap"
+                      >
+                        {withSelectedMark(!!round.skinsOffLow, 'Off the low man')}
+                      </Button>
+                    </WrapItem>
+                  </Wrap>
+                )}
+
+                <SimpleGrid columns={2} spacing={3}>
+                  <FormControl>
+                    <FormLabel>Carry cap</FormLabel>
+                    <Input
+                      value={round.skinsCarryCap ? String(round.skinsCarryCap) : ''}
+                      onChange={(e) => {
+                        const n = Number(e.target.value)
+                        if (!Number.isFinite(n)) return
+                        setRound((r) => ({ ...r, skinsCarryCap: Math.max(0, Math.min(18, Math.round(n))) }))
+                      }}
+                      inputMode="numeric"
+                      placeholder="No cap"
+                    />
+                  </FormControl>
+                  <FormControl>
+                    <FormLabel>Validation</FormLabel>
+                    <Button
+                      size="sm"
+                      variant={round.skinsValidation ? 'solid' : 'outline'}
+                      onClick={() => setRound((r) => ({ ...r, skinsValidation: !r.skinsValidation }))}
+                      type="button"
+                      aria-pressed={!!round.skinsValidation}
+                      title="A carried skin is only collected with par or better; otherwise the winner takes one skin and the carry stays"
+                    >
+                      {withSelectedMark(!!round.skinsValidation, 'Par or better')}
+                    </Button>
+                  </FormControl>
+                </SimpleGrid>
+
+                <FormControl>
+                  <FormLabel>Still carrying after the last hole</FormLabel>
+                  <Wrap spacing={2}>
+                    {(['split', 'playoff', 'forfeit'] as SkinsEndTies[]).map((rule) => {
+                      const selected = (round.skinsEndTies || 'forfeit') === rule
+                      return (
+                        <WrapItem key={rule}>
+                          <Button
+                            size="sm"
+                            variant={selected ? 'solid' : 'outline'}
+                            onClick={() => setRound((r) => ({ ...r, skinsEndTies: rule }))}
+                            type="button"
+                            aria-pressed={selected}
+                          >
+                            {withSelectedMark(selected, skinsEndTiesLabel(rule))}
+                          </Button>
+                        </WrapItem>
+                      )
+                    })}
+                  </Wrap>
+                  <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+                    Split: shared by the players tied low on the last hole. Playoff: pick the winner on the settlement screen.
+                  </Text>
+                </FormControl>
+
+                {round.skinsValidation && !round.course && (
+                  <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                    No course set: validation needs par, so carries are collected on any win.
+                  </Text>
+                )}
+              </Stack>
+            )}
+            {hasGame(round, 'wolf') && (
+              <Stack spacing={3}>
+                <FormControl>
+                  <FormLabel>Points per hole</FormLabel>
+                  <Input
+                    value={String(round.wolfPointsPerHole ?? 1)}
+                    onChange={(e) => {
+                      const n = Number(e.target.value)
+                      if (!Number.isFinite(n)) return
+                      setRound((r) => ({ ...r, wolfPointsPerHole: Math.max(1, Math.min(10, Math.round(n))) }))
+                    }}
+                    inputMode="numeric"
+                    placeholder="1"
+                  />
+                </FormControl>
+
+                <Wrap spacing={2}>
+                  <WrapItem>
+                    <Button
+                      size="sm"
+                      variant={round.wolfCarryTies ? 'solid' : 'outline'}
+                      onClick={() => setRound((r) => ({ ...r, wolfCarryTies: !r.wolfCarryTies }))}
+                      type="button"
+                      aria-pressed={!!round.wolfCarryTies}
+                      title="A tied hole's points go to the next decided hole"
+                    >
+                      {withSelectedMark(!!round.wolfCarryTies, 'Ties carry')}
+                    </Button>
+                  </WrapItem>
+                  <WrapItem>
+                    <Button
+                      size="sm"
+                      variant={round.wolfLastPlaceFinal ? 'solid' : 'outline'}
+                      onClick={() => setRound((r) => ({ ...r, wolfLastPlaceFinal: !r.wolfLastPlaceFinal }))}
+                      type="button"
+                      aria-pressed={!!round.wolfLastPlaceFinal}
+                      title="Whoever is last on points is the Wolf on the final two holes"
+                    >
+                      {withSelectedMark(!!round.wolfLastPlaceFinal, 'Last place is Wolf on the last 2')}
+                    </Button>
+                  </WrapItem>
+                </Wrap>
+
+                <SimpleGrid columns={3} spacing={3}>
+                  {(
+                    [
+                      ['wolfLoneMultiplier', 'Lone ×', 2],
+                      ['wolfBlindMultiplier', 'Blind ×', 3],
+                      ['wolfPigMultiplier', 'Pig ×', 2],
+                    ] as const
+                  ).map(([key, label, fallback]) => (
+                    <FormControl key={key}>
+                      <FormLabel>{label}</FormLabel>
+                      <Input
+                        value={String(round[key] ?? fallback)}
+                        onChange={(e) => {
+                          const n = Number(e.target.value)
+                          if (!Number.isFinite(n)) return
+                          setRound((r) => ({ ...r, [key]: Math.max(1, Math.min(10, Math.round(n))) }))
+                        }}
+                        inputMode="numeric"
+                        placeholder={String(fallback)}
+                      />
+                    </FormControl>
+                  ))}
+                </SimpleGrid>
+
+                <FormControl>
+                  <FormLabel>{currencySymbol()} per point (optional)</FormLabel>
+                  <Input
+                    value={moneyInputString(round.wolfDollarsPerPointCents || 0)}
+                    onChange={(e) => setRound((r) => ({ ...r, wolfDollarsPerPointCents: parseMoneyInput(e.target.value) }))}
+                    inputMode="decimal"
+                    placeholder=""
+                  />
+                </FormControl>
+              </Stack>
+            )}
+            {hasGame(round, 'nassau') && (
+              <Stack spacing={3}>
+                <FormControl>
+                  <FormLabel>{currencySymbol()} per bet</FormLabel>
+                  <Input
+                    value={moneyInputString(round.nassauStakeCents || 0)}
+                    onChange={(e) => setRound((r) => ({ ...r, nassauStakeCents: parseMoneyInput(e.target.value) }))}
+                    inputMode="decimal"
+                    placeholder="5"
+                  />
+                </FormControl>
+
+                <FormControl>
+                  <FormLabel>Auto press when down (0 = off)</FormLabel>
+                  <Input
+                    value={String(round.nassauAutoPressDown ?? 0)}
+                    onChange={(e) => {
+                      const n = Number(e.target.value)
+                      if (!Number.isFinite(n)) return
+                      setRound((r) => ({ ...r, nassauAutoPressDown: Math.max(0, Math.min(9, Math.round(n))) }))
+                    }}
+                    inputMode="numeric"
+                    placeholder="2"
+                  />
+                  <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+                    2 players head-to-head, or 4 players as teams (1+2 vs 3+4).
+                  </Text>
+                </FormControl>
+              </Stack>
+            )}
+            {hasGame(round, 'stableford') && (
+              <Stack spacing={3}>
+                <FormControl>
+                  <FormLabel>Points table</FormLabel>
+                  <Wrap spacing={2}>
+                    {(['standard', 'modified', 'custom'] as StablefordTableName[]).map((name) => {
+                      const selected = (round.stablefordTable || 'standard') === name
+                      return (
+                        <WrapItem key={name}>
+                          <Button size="sm" variant={selected ? 'solid' : 'outline'} onClick={() => setStablefordTable(name)} type="button" aria-pressed={selected}>
+                            {withSelectedMark(selected, name === 'standard' ? 'Standard' : name === 'modified' ? 'Modified' : 'Custom')}
+                          </Button>
+                        </WrapItem>
+                      )
+                    })}
+                  </Wrap>
+                </FormControl>
+
+                <SimpleGrid columns={3} spacing={2}>
+                  {STABLEFORD_ROWS.map(([key, label]) => {
+                    const custom = round.stablefordTable === 'custom'
+                    return (
+                      <FormControl key={key}>
+                        <FormLabel fontSize="sm" mb={1}>
+                          {label}
+                        </FormLabel>
+                        <Input
+                          size="sm"
+                          value={custom ? stablefordDrafts[key] ?? String(stablefordTable(round)[key]) : String(stablefordTable(round)[key])}
+                          onChange={(e) => setStablefordCustomPoints(key, e.target.value)}
+                          isReadOnly={!custom}
+                          aria-label={`${label} points`}
+                        />
+                      </FormControl>
+                    )
+                  })}
+                </SimpleGrid>
+
+                <Wrap spacing={2}>
+                  <WrapItem>
+                    <Button
+                      size="sm"
+                      variant={round.stablefordNet ? 'solid' : 'outline'}
+                      onClick={() => setRound((r) => ({ ...r, stablefordNet: !r.stablefordNet }))}
+                      type="button"
+                      aria-pressed={!!round.stablefordNet}
+                      title="Score points from net scores (handicap strokes by stroke index)"
+                    >
+                      {withSelectedMark(!!round.stablefordNet, 'Net')}
+                    </Button>
+                  </WrapItem>
+                  {(['points', 'pot'] as StablefordPayout[]).map((mode) => {
+                    const selected = (round.stablefordPayout || 'points') === mode
+                    return (
+                      <WrapItem key={mode}>
+                        <Button
+                          size="sm"
+                          variant={selected ? 'solid' : 'outline'}
+                          onClick={() => setRound((r) => ({ ...r, stablefordPayout: mode }))}
+                          type="button"
+                          aria-pressed={selected}
+                        >
+                          {withSelectedMark(selected, mode === 'points' ? 'Pay per point' : 'Winner takes pot')}
+                        </Button>
+                      </WrapItem>
+                    )
+                  })}
+                </Wrap>
+
+                {(round.stablefordPayout || 'points') === 'points' ? (
+                  <FormControl>
+                    <FormLabel>{currencySymbol()} per point (optional)</FormLabel>
+                    <Input
+                      value={moneyInputString(round.stablefordDollarsPerPointCents || 0)}
+                      onChange={(e) => setRound((r) => ({ ...r, stablefordDollarsPerPointCents: parseMoneyInput(e.target.value) }))}
+                      inputMode="decimal"
+                      placeholder="1"
+                    />
+                    <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+                      Each pair settles the difference in points.
+                    </Text>
+                  </FormControl>
+                ) : (
+                  <FormControl>
+                    <FormLabel>Pot buy-in per player</FormLabel>
+                    <Input
+                      value={moneyInputString(round.stablefordPotCents || 0)}
+                      onChange={(e) => setRound((r) => ({ ...r, stablefordPotCents: parseMoneyInput(e.target.value) }))}
+                      inputMode="decimal"
+                      placeholder="10"
+                    />
+                    <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+                      High total takes the pot; ties split it.
+                    </Text>
+                  </FormControl>
+                )}
+
+                {!round.course && (
+                  <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                    No course set: every hole counts as par 4.
+                  </Text>
+                )}
+              </Stack>
+            )}
+            {hasGame(round, 'vegas') && (
+              <Stack spacing={3}>
+                <FormControl>
+                  <FormLabel>{currencySymbol()} per point (optional)</FormLabel>
+                  <Input
+                    value={moneyInputString(round.vegasDollarsPerPointCents || 0)}
+                    onChange={(e) => setRound((r) => ({ ...r, vegasDollarsPerPointCents: parseMoneyInput(e.target.value) }))}
+                    inputMode="decimal"
+                    placeholder="1"
+                  />
+                  <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+                    Teams are fixed: players 1+2 vs 3+4. Each player pays or collects the point difference.
+                  </Text>
+                </FormControl>
+
+                <FormControl>
+                  <FormLabel>Birdies</FormLabel>
+                  <Button
+                    size="sm"
+                    variant={round.vegasBirdieFlip !== false ? 'solid' : 'outline'}
+                    onClick={() => setRound((r) => ({ ...r, vegasBirdieFlip: r.vegasBirdieFlip === false }))}
+                    type="button"
+                    aria-pressed={round.vegasBirdieFlip !== false}
+                  >
+                    {withSelectedMark(round.vegasBirdieFlip !== false, "Birdie flips the other team's number")}
+                  </Button>
+                </FormControl>
+
+                {!round.course && round.vegasBirdieFlip !== false && (
+                  <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                    No course set: every hole counts as par 4 for birdies.
+                  </Text>
+                )}
+              </Stack>
+            )}
+            {hasGame(round, 'match') && (
+              <Stack spacing={3}>
+                <FormControl>
+                  <FormLabel>{currencySymbol()} per match</FormLabel>
+                  <Input
+                    value={moneyInputString(round.matchStakeCents || 0)}
+                    onChange={(e) => setRound((r) => ({ ...r, matchStakeCents: parseMoneyInput(e.target.value) }))}
+                    inputMode="decimal"
+                    placeholder="5"
+                  />
+                  <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+                    2 players = singles; 4 players = four-ball (1+2 vs 3+4). Each winner collects from one opponent.
+                  </Text>
+                </FormControl>
+
+                <FormControl>
+                  <FormLabel>Scoring</FormLabel>
+                  <Button
+                    size="sm"
+                    variant={round.matchNet !== false ? 'solid' : 'outline'}
+                    onClick={() => setRound((r) => ({ ...r, matchNet: r.matchNet === false }))}
+                    type="button"
+                    aria-pressed={round.matchNet !== false}
+                    title="Strokes off the low man by stroke index"
+                  >
+                    {withSelectedMark(round.matchNet !== false, 'Net strokes')}
+                  </Button>
+                </FormControl>
+              </Stack>
+            )}
+            {hasGame(round, 'sixes') && (
+              <Stack spacing={3}>
+                <FormControl>
+                  <FormLabel>{currencySymbol()} per segment</FormLabel>
+                  <Input
+                    value={moneyInputString(round.sixesStakeCents || 0)}
+                    onChange={(e) => setRound((r) => ({ ...r, sixesStakeCents: parseMoneyInput(e.target.value) }))}
+                    inputMode="decimal"
+                    placeholder="5"
+                  />
+                  <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+                    Partners rotate every six holes (player order sets the pairings). Each segment winner collects from one opponent.
+                  </Text>
+                </FormControl>
+
+                <FormControl>
+                  <FormLabel>Overall bet (optional)</FormLabel>
+                  <Input
+                    value={moneyInputString(round.sixesOverallCents || 0)}
+                    onChange={(e) => setRound((r) => ({ ...r, sixesOverallCents: parseMoneyInput(e.target.value) }))}
+                    inputMode="decimal"
+                    placeholder="0"
+                  />
+                  <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+                    Per pair of players: more holes won over the round collects.
+                  </Text>
+                </FormControl>
+              </Stack>
+            )}
+            {hasGame(round, 'hammer') && (
+              <FormControl>
+                <FormLabel>{currencySymbol()} per point (optional)</FormLabel>
+                <Input
+                  value={moneyInputString(round.hammerDollarsPerPointCents || 0)}
+                  onChange={(e) => setRound((r) => ({ ...r, hammerDollarsPerPointCents: parseMoneyInput(e.target.value) }))}
+                  inputMode="decimal"
+                  placeholder="1"
+                />
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+                  2 players, or teams 1+2 vs 3+4. Hammer from Quick mode; each accepted hammer doubles the hole.
+                </Text>
+              </FormControl>
+            )}
+            {hasGame(round, 'group') && group && (
+              <Stack spacing={3}>
+                <HStack spacing={2} flexWrap="wrap">
+                  {(['bestBall', 'scramble'] as const).map((f) => {
+                    const selected = group.format === f
+                    return (
+                      <Button key={f} size="sm" variant={selected ? 'solid' : 'outline'} onClick={() => setRound((r) => ({ ...r, groupFormat: f }))} type="button" aria-pressed={selected}>
+                        {withSelectedMark(selected, f === 'bestBall' ? 'Best ball' : 'Scramble')}
+                      </Button>
+                    )
+                  })}
+                </HStack>
+                {group.format === 'bestBall' && (
+                  <HStack spacing={2} flexWrap="wrap">
+                    <Text fontSize="sm" fontWeight={700}>
+                      Balls counted
+                    </Text>
+                    {Array.from({ length: GROUP_TEAM_SIZE }, (_, i) => i + 1).map((n) => {
+                      const selected = groupBestN(round) === n
+                      return (
+                        <Button key={n} size="sm" variant={selected ? 'solid' : 'outline'} onClick={() => setRound((r) => ({ ...r, groupBestN: n }))} type="button" aria-pressed={selected}>
+                          {withSelectedMark(selected, n)}
+                        </Button>
+                      )
+                    })}
+                    <Button
+                      size="sm"
+                      variant={round.groupNet ? 'solid' : 'outline'}
+                      onClick={() => setRound((r) => ({ ...r, groupNet: !r.groupNet }))}
+                      type="button"
+                      aria-pressed={!!round.groupNet}
+                    >
+                      {withSelectedMark(!!round.groupNet, 'Net')}
+                    </Button>
+                  </HStack>
+                )}
+                <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+                  <FormControl>
+                    <FormLabel>Buy-in per player ({currencySymbol()})</FormLabel>
+                    <Input
+                      value={moneyInputString(round.groupBuyInCents || 0)}
+                      onChange={(e) => setRound((r) => ({ ...r, groupBuyInCents: parseMoneyInput(e.target.value) }))}
+                      inputMode="decimal"
+                      placeholder="20"
+                    />
+                  </FormControl>
+                  <FormControl>
+                    <FormLabel>Payout by place (%)</FormLabel>
+                    <Input
+                      value={groupPayoutDraft ?? groupPayoutPercents(round).join('/')}
+                      onChange={(e) => setGroupPayout(e.target.value)}
+                      onBlur={() => setGroupPayoutDraft(null)}
+                      placeholder={DEFAULT_GROUP_PAYOUT.join('/')}
+                    />
+                  </FormControl>
+                </SimpleGrid>
+                <Box>
+                  <Text fontSize="sm" fontWeight={800} color={theme === 'dark' ? 'gray.300' : 'gray.600'} mb={2}>
+                    Foursomes
+                  </Text>
+                  <Stack spacing={2}>
+                    {round.players.map((p) => {
+                      const current = group.teams.findIndex((t) => t.id === groupTeamForPlayer(group.teams, p.id)?.id)
+                      return (
+                        <HStack key={p.id} spacing={2} flexWrap="wrap">
+                          <Text fontSize="sm" minW="120px">
+                            {p.name || 'Player'}
+                          </Text>
+                          {Array.from({ length: Math.min(GROUP_MAX_TEAMS, group.teams.length + 1) }, (_, i) => i).map((i) => {
+                            const selected = current === i
+                            const full = !selected && (group.teams[i]?.playerIds.length || 0) >= GROUP_TEAM_SIZE
+                            return (
+                              <Button
+                                key={i}
+                                size="xs"
+                                variant={selected ? 'solid' : 'outline'}
+                                onClick={() => setRound((r) => withPlayerInTeam(r, p.id, i))}
+                                isDisabled={full}
+                                type="button"
+                                aria-pressed={selected}
+                                aria-label={`${p.name} to team ${i + 1}`}
+                              >
+                                {withSelectedMark(selected, i + 1)}
+                              </Button>
+                            )
+                          })}
+                        </HStack>
+                      )
+                    })}
+                  </Stack>
+                  <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+                    Up to {GROUP_MAX_TEAMS} teams of {GROUP_TEAM_SIZE}. New players join the first team with room.
+                    {group.format === 'bestBall' ? ` Every team needs at least ${groupBestN(round)} players.` : ''}
+                  </Text>
+                </Box>
+              </Stack>
+            )}
+            {hasGame(round, 'quota') && (
+              <Stack spacing={3}>
+                <FormControl>
+                  <FormLabel>{currencySymbol()} per point (optional)</FormLabel>
+                  <Input
+                    value={moneyInputString(round.quotaDollarsPerPointCents || 0)}
+                    onChange={(e) => setRound((r) => ({ ...r, quotaDollarsPerPointCents: parseMoneyInput(e.target.value) }))}
+                    inputMode="decimal"
+                    placeholder="1"
+                  />
+                </FormControl>
+                <Box>
+                  <Text fontSize="sm" fontWeight={800} color={theme === 'dark' ? 'gray.300' : 'gray.600'} mb={2}>
+                    Quotas
+                  </Text>
+                  <SimpleGrid columns={{ base: 2, md: 4 }} spacing={3}>
+                    {round.players.map((p) => (
+                      <FormControl key={p.id}>
+                        <FormLabel>{p.name || 'Player'}</FormLabel>
+                        <Input
+                          value={String(round.quotaByPlayer?.[p.id] ?? '')}
+                          onChange={(e) => setQuota(p.id, e.target.value)}
+                          inputMode="numeric"
+                          placeholder={String(defaultQuota(p, playHoles.length))}
+                          aria-label={`${p.name} quota`}
+                        />
+                      </FormControl>
+                    ))}
+                  </SimpleGrid>
+                  <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+                    Blank = 36 minus handicap (half over nine holes). Points are gross; the quota carries the handicap.
+                  </Text>
+                </Box>
+              </Stack>
+            )}
+            {hasGame(round, 'bbb') && (
+              <FormControl>
+                <FormLabel>{currencySymbol()} per point (optional)</FormLabel>
+                <Input
+                  value={moneyInputString(round.bbbDollarsPerPointCents || 0)}
+                  onChange={(e) => setRound((r) => ({ ...r, bbbDollarsPerPointCents: parseMoneyInput(e.target.value) }))}
+                  inputMode="decimal"
+                  placeholder=""
+                />
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+                  Settlement uses points × {currencySymbol()}/pt when set.
+                </Text>
+              </FormControl>
+            )}
+          </SimpleGrid>
+
+          <Divider />
+
+          <Box>
+            <Text fontSize="sm" fontWeight={800} color={theme === 'dark' ? 'gray.300' : 'gray.600'} mb={2}>
+              Round length
+            </Text>
+            <Wrap spacing={2} mb={3}>
+              {(
+                [
+                  { label: '18 holes', start: 1, count: 18 },
+                  { label: 'Front 9', start: 1, count: 9 },
+                  { label: 'Back 9', start: 10, count: 9 },
+                  { label: '18 from 10', start: 10, count: 18 },
+                ] as { label: string; start: number; count: 9 | 18 }[]
+              ).map((opt) => {
+                const selected = playHoles[0] === opt.start && playHoles.length === opt.count
+                return (
+                  <WrapItem key={opt.label}>
+                    <Button
+                      size="sm"
+                      variant={selected ? 'solid' : 'outline'}
+                      onClick={() => setRoundLength(opt.start, opt.count)}
+                      type="button"
+                      aria-pressed={selected}
+                    >
+                      {withSelectedMark(selected, opt.label)}
+                    </Button>
+                  </WrapItem>
+                )
+              })}
+            </Wrap>
+            <SimpleGrid columns={{ base: 1, md: 2 }} spacing={3}>
+              <FormControl>
+                <FormLabel>Start hole (shotgun)</FormLabel>
+                <Input
+                  value={String(playHoles[0])}
+                  onChange={(e) => {
+                    const n = Number(e.target.value)
+                    if (!Number.isFinite(n) || n < 1 || n > 18) return
+                    setRoundLength(n, playHoles.length === 9 ? 9 : 18)
+                  }}
+                  inputMode="numeric"
+                />
+              </FormControl>
+              <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} alignSelf="end">
+                {roundLengthLabel(round)}: {playHoles.join(' → ')}
+              </Text>
+            </SimpleGrid>
+          </Box>
+
+          <Divider />
+
+          <Box>
+            <HStack justify="space-between" align="baseline" mb={2}>
+              <Text fontSize="sm" fontWeight={800} color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                Course (optional)
+              </Text>
+              {round.course ? (
+                <HStack spacing={2}>
+                  <Button variant="tertiary" size="sm" onClick={() => setCourseEditorOpen((v) => !v)} type="button" aria-expanded={courseEditorOpen}>
+                    {courseEditorOpen ? 'Hide holes' : 'Edit holes'}
+                  </Button>
+                  <Button variant="tertiary" size="sm" onClick={clearCourse} type="button">
+                    Remove
+                  </Button>
+                </HStack>
+              ) : (
+                <Button variant="secondary" size="sm" onClick={startCourse} type="button">
+                  + Enter course
+                </Button>
+              )}
+            </HStack>
+
+            {!round.course && (
+              <Stack spacing={2}>
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                  Add par and stroke index to see birdies, pars and scores relative to par.
+                </Text>
+                {savedCourses.length > 0 && (
+                  <Wrap spacing={2}>
+                    {savedCourses.map((c) => (
+                      <WrapItem key={c.id}>
+                        <HStack spacing={1}>
+                          <Button variant="outline" size="sm" onClick={() => applySavedCourse(c)} type="button" title={courseLabel(c)}>
+                            {c.name}
+                            {c.teeName ? ` (${c.teeName})` : ''}
+                          </Button>
+                          <IconButton
+                            aria-label={`Delete saved course ${c.name}`}
+                            icon={<span aria-hidden="true">×</span>}
+                            variant="tertiary"
+                            size="sm"
+                            onClick={() => deleteSavedCourse(c)}
+                            type="button"
+                          />
+                        </HStack>
+                      </WrapItem>
+                    ))}
+                  </Wrap>
+                )}
+              </Stack>
+            )}
+
+            {round.course && (
+              <Stack spacing={3}>
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                  {courseLabel(round.course)}
+                </Text>
+                <SimpleGrid columns={{ base: 2, md: 4 }} spacing={3}>
+                  <FormControl>
+                    <FormLabel>Course name</FormLabel>
+                    <Input value={round.course.name} onChange={(e) => updateCourse({ name: e.target.value })} placeholder="Pine Valley" />
+                  </FormControl>
+                  <FormControl>
+                    <FormLabel>Tee</FormLabel>
+                    <Input value={round.course.teeName || ''} onChange={(e) => updateCourse({ teeName: e.target.value || undefined })} placeholder="Blue" />
+                  </FormControl>
+                  <FormControl>
+                    <FormLabel>Rating</FormLabel>
+                    <Input
+                      value={round.course.courseRating === undefined ? '' : String(round.course.courseRating)}
+                      onChange={(e) => {
+                        const n = Number(e.target.value)
+                        updateCourse({ courseRating: e.target.value.trim() === '' || !Number.isFinite(n) ? undefined : n })
+                      }}
+                      inputMode="decimal"
+                      placeholder="71.2"
+                    />
+                  </FormControl>
+                  <FormControl>
+                    <FormLabel>Slope</FormLabel>
+                    <Input
+                      value={round.course.slope === undefined ? '' : String(round.course.slope)}
+                      onChange={(e) => {
+                        const n = Number(e.target.value)
+                        updateCourse({ slope: e.target.value.trim() === '' || !Number.isFinite(n) ? undefined : Math.round(n) })
+                      }}
+                      inputMode="numeric"
+                      placeholder="113"
+                    />
+                  </FormControl>
+                </SimpleGrid>
+
+                {courseEditorOpen && (
+                  <SimpleGrid columns={{ base: 3, md: 6 }} spacing={2}>
+                    {HOLES_18.map((hole) => {
+                      const h = round.course?.holes[hole]
+                      return (
+                        <Box key={hole} borderWidth="1px" borderRadius="10px" p={2}>
+                          <Text fontSize="xs" fontWeight={800} mb={1}>
+                            Hole {hole}
+                          </Text>
+                          <HStack spacing={1}>
+                            <Input
+                              size="sm"
+                              value={h?.par ?? ''}
+                              onChange={(e) => {
+                                const n = Number(e.target.value)
+                                if (!Number.isFinite(n)) return
+                                updateCourseHole(hole, { par: Math.round(n) })
+                              }}
+                              inputMode="numeric"
+                              textAlign="center"
+                              aria-label={`Hole ${hole} par`}
+                              title="Par"
+                            />
+                            <Input
+                              size="sm"
+                              value={h?.strokeIndex ?? ''}
+                              onChange={(e) => {
+                                const n = Number(e.target.value)
+                                if (!Number.isFinite(n)) return
+                                updateCourseHole(hole, { strokeIndex: Math.round(n) })
+                              }}
+                              inputMode="numeric"
+                              textAlign="center"
+                              aria-label={`Hole ${hole} stroke index`}
+                              title="Stroke index"
+                            />
+                          </HStack>
+                        </Box>
+                      )
+                    })}
+                  </SimpleGrid>
+                )}
+
+                {courseErrors(round.course).length > 0 && (
+                  <Text fontSize="sm" className="negative">
+                    {courseErrors(round.course).slice(0, 3).join(' • ')}
+                  </Text>
+                )}
+
+                <HStack spacing={2}>
+                  <Button variant="secondary" size="sm" onClick={saveCurrentCourse} isDisabled={courseErrors(round.course).length > 0} type="button">
+                    Save course
+                  </Button>
+                  <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                    Each hole: par, then stroke index (1 = hardest).
+                  </Text>
+                </HStack>
+              </Stack>
+            )}
+          </Box>
+
+          <Divider />
+
+          <Box>
+            <HStack justify="space-between" align="baseline" mb={2}>
+              <Text fontSize="sm" fontWeight={800} color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                Players
+              </Text>
+              <HStack spacing={2}>
+                <Button
+                  onClick={() => setShowPaymentHandles((v) => !v)}
+                  variant="tertiary"
+                  size="sm"
+                  type="button"
+                  aria-pressed={showPaymentHandles}
+                  title="Venmo, PayPal.me and Cash App names for tap-to-pay links"
+                >
+                  {withSelectedMark(showPaymentHandles, 'Payment handles')}
+                </Button>
+                {playerLimits(round).min < playerLimits(round).max && (
+                  <Button onClick={addPlayer} isDisabled={round.players.length >= playerLimits(round).max} variant="secondary" size="sm" type="button">
+                    + Add player
+                  </Button>
+                )}
+              </HStack>
+            </HStack>
+
+            <VStack spacing={3} align="stretch">
+              {round.players.map((p, idx) => (
+                <Box key={p.id}>
+                  <HStack spacing={3} align="center">
+                    <Input
+                      ref={(el) => {
+                        if (!el) return
+                        if (focusPlayerId.current && focusPlayerId.current === p.id) {
+                          queueMicrotask(() => el.focus())
+                          focusPlayerId.current = null
+                        }
+                      }}
+                      value={p.name}
+                      onChange={(e) => updatePlayer(p.id, { name: e.target.value })}
+                      placeholder={`Player ${idx + 1}`}
+                    />
+                    {showHandicaps && (
+                      <Input
+                        w="96px"
+                        value={handicapDrafts[p.id] ?? (typeof p.handicapIndex === 'number' ? handicapLabel(p.handicapIndex) : '')}
+                        onChange={(e) => setHandicapDraft(p.id, e.target.value)}
+                        inputMode="decimal"
+                        placeholder="Hcp"
+                        aria-label={`${p.name} handicap index`}
+                        title="Handicap index (use + for plus handicaps)"
+                      />
+                    )}
+                    {!hasGame(round, 'bbb') && round.players.length > playerLimits(round).min && (
+                      <Button variant="tertiary" size="sm" onClick={() => removePlayer(p.id)} type="button">
+                        Remove
+                      </Button>
+                    )}
+                  </HStack>
+                  {showPaymentHandles && (
+                    <SimpleGrid columns={{ base: 1, md: 3 }} spacing={2} mt={2}>
+                      {PAYMENT_APPS.map((app) => (
+                        <Input
+                          key={app}
+                          size="sm"
+                          value={p.paymentHandles?.[app] || ''}
+                          onChange={(e) => updatePlayer(p.id, { paymentHandles: { ...p.paymentHandles, [app]: e.target.value } })}
+                          placeholder={knownHandles[ledgerPlayerKey(p.name)]?.[app] || paymentHandlePlaceholder(app)}
+                          aria-label={`${p.name} ${paymentAppLabel(app)}`}
+                        />
+                      ))}
+                    </SimpleGrid>
+                  )}
+                </Box>
+              ))}
+            </VStack>
+          </Box>
+
+          <Divider />
+
+          <HStack spacing={3} flexWrap="wrap">
+            <Button
+              variant="primary"
+              isDisabled={!canStart}
+              onClick={() => {
+                track(TRACK_EVENTS.round_start, { game: round.game, games: roundGames(round), playerCount: round.players.length })
+                setScreen('quick')
+              }}
+              type="button"
+            >
+              Start round →
+            </Button>
+
+            <Button
+              variant="secondary"
+              isDisabled={!canStart}
+              onClick={() => {
+                track(TRACK_EVENTS.nav_screen, { from: 'setup', to: 'holes', game: round.game })
+                setScreen('holes')
+              }}
+              type="button"
+            >
+              Grid view
+            </Button>
 
-export function SetupScreen({ active, children }: SetupScreenProps) {
-  if (!active) return null
-  return <>{children}</>
+            <Button variant="tertiary" onClick={resetToGamePicker} type="button">
+              New game
+            </Button>
+          </HStack>
+        </Stack>
+      </CardBody>
+    </Card>
+  )
 }
@@ -0,0 +1,55 @@
+import { useMemo } from 'react'
+import { Button, Wrap, WrapItem } from '@chakra-ui/react'
+import type { CurrencyCode } from '../types'
+import { knownPaymentHandles, paymentAppLabel, paymentLinksForLine, paymentMemo } from '../logic/paymentLinks'
+import { formatMoney } from '../logic/money'
+import type { SettlementLine } from '../logic/wolfSettlement'
+import { TRACK_EVENTS, track } from '../logic/track'
+import type { AppState } from '../appState'
+import { roundGamesShortLabel } from '../labels'
+
+// Payment handles, memos and pay links for a settle-up line, from every saved round's players.
+export function usePaymentLinks(app: AppState) {
+  const { stored, round } = app
+
+  const knownHandles = useMemo(() => knownPaymentHandles(stored.rounds), [stored.rounds])
+
+  function roundPaymentMemo(): string {
+    return paymentMemo(round.name || roundGamesShortLabel(round))
+  }
+
+  // "Ann → Bob: $12.50", then a link per payment app Bob has a handle for.
+  // Lines from the ledger or combined rounds pass their own currency.
+  function settleLineText(l: SettlementLine, memo = roundPaymentMemo(), currency?: CurrencyCode): string {
+    const links = paymentLinksForLine(l, memo, knownHandles, currency).map((x) => `\n  ${paymentAppLabel(x.app)}: ${x.url}`)
+    return `${l.from.name} → ${l.to.name}: ${formatMoney(l.amountCents, currency)}${links.join('')}`
+  }
+
+  // Tap-to-pay buttons for the payer; nothing when the payee has no handles.
+  function payLinks(l: SettlementLine, memo = roundPaymentMemo(), currency?: CurrencyCode) {
+    const links = paymentLinksForLine(l, memo, knownHandles, currency)
+    if (links.length === 0) return null
+    return (
+      <Wrap spacing={1} justify="flex-end" mt={1}>
+        {links.map((x) => (
+          <WrapItem key={x.app}>
+            <Button
+              as="a"
+              href={x.url}
+              target="_blank"
+              rel="noreferrer"
+              size="xs"
+              variant="outline"
+              title={`Pay ${l.to.name} ${formatMoney(l.amountCents, currency)} with ${paymentAppLabel(x.app)}`}
+              onClick={() => track(TRACK_EVENTS.payment_link_open, { app: x.app })}
+            >
+              {paymentAppLabel(x.app)}
+            </Button>
+          </WrapItem>
+        ))}
+      </Wrap>
+    )
+  }
+
+  return { knownHandles, settleLineText, payLinks }
+}
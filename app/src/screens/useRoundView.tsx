@@ -0,0 +1,776 @@
+import { useMemo } from 'react'
+import { Button, Wrap, WrapItem } from '@chakra-ui/react'
+import type { GameType, HammerSide, HoleNumber, Player, PlayerId, SkinsSummary } from '../types'
+import {
+  computeSkins,
+  skinsCarryResolutionLabel,
+  skinsCountLabel,
+  skinsPayoutLabel,
+  skinsRulesLabel,
+  skinsScoringLabel,
+  stakeLabel,
+} from '../logic/skins'
+import { computeBBB, emptyHoleAwards, bbbStatusText } from '../logic/bbb'
+import { computeWolf, wolfForHole, wolfLabel } from '../logic/wolf'
+import { computeNassau, nassauLabel, nassauMatchLabel, nassauMatchStatus, nassauSideName, type NassauSide } from '../logic/nassau'
+import type { NassauSettlement } from '../logic/nassauSettlement'
+import { computeStableford, stablefordPayoutLabel, stablefordTableLabel } from '../logic/stableford'
+import { computeVegas, type VegasSide } from '../logic/vegas'
+import { computeMatchPlay, matchFormatLabel, matchLabel, matchStatusLabel, type MatchSide } from '../logic/match'
+import { computeSixes, sixesLabel, type SixesSegment } from '../logic/sixes'
+import type { SixesSettlement } from '../logic/sixesSettlement'
+import { computeHammer, hammerLabel, otherSide } from '../logic/hammer'
+import { computeQuota, quotaDiffLabel, quotaLabel } from '../logic/quota'
+import { computeGroup, groupFormatLabel, groupPlaceLabel, groupPotLabel, groupScoreTargets, groupVsParLabel } from '../logic/group'
+import { computeJunk, junkEnabled, junkStatusText } from '../logic/junk'
+import { computeRabbit, computeSnake, holdoverStatusText, rabbitEnabled, snakeEnabled } from '../logic/holdovers'
+import { parForHole, strokeIndexForHole, toParInline } from '../logic/course'
+import { roundHoles } from '../logic/holes'
+import { hasGame, roundGames, usesStrokes } from '../logic/games'
+import type { SettlementSource } from '../logic/combinedSettlement'
+import { ledgerEntryFromRound, ledgerEntryHasMoney, withLedgerEntry, withoutLedgerEntry } from '../logic/ledger'
+import { lockedLinesFromSettlement } from '../logic/payments'
+import { combinedRoundSettlement, roundSettlementsByGame } from '../logic/roundSettlement'
+import { moneyCapsLabel } from '../logic/moneyCaps'
+import { formatMoney, formatMoneyShort, formatSignedMoney, moneyRoundingLabel } from '../logic/money'
+import type { Settlement } from '../logic/wolfSettlement'
+import { TRACK_EVENTS, track } from '../logic/track'
+import {
+  enteredStrokeCountByHole,
+  holeCompletionByHole,
+  lastCompletedHoleFromMap,
+  playerNameMap,
+  roundIsComplete,
+  skinsResultByHoleMap,
+  wolfResultByHoleMap,
+} from '../selectors/roundDerived'
+import type { AppState } from '../appState'
+import { withSelectedMark } from '../labels'
+import { usePaymentLinks } from './usePaymentLinks'
+
+// What the round screens (setup, holes, quick entry and settle up) work out from the round on screen.
+export function useRoundView(app: AppState) {
+  const { screen, setScreen, ledger, round, setRound, groupTeamIndex, setGroupTeamIndex, registerUndo, updateLedger } = app
+  const { knownHandles, settleLineText, payLinks } = usePaymentLinks(app)
+
+  const skins = useMemo(() => (hasGame(round, 'skins') ? computeSkins(round) : null), [round])
+  // Second pot when playing gross + net.
+  const netSkins = useMemo(() => (hasGame(round, 'skins') && round.skinsScoring === 'both' ? computeSkins(round, 'net') : null), [round])
+  const bbb = useMemo(() => (hasGame(round, 'bbb') ? computeBBB(round) : null), [round])
+  const wolf = useMemo(() => (hasGame(round, 'wolf') ? computeWolf(round) : null), [round])
+  const nassau = useMemo(() => (hasGame(round, 'nassau') ? computeNassau(round) : null), [round])
+  const stableford = useMemo(() => (hasGame(round, 'stableford') ? computeStableford(round) : null), [round])
+  const vegas = useMemo(() => (hasGame(round, 'vegas') ? computeVegas(round) : null), [round])
+  const matchPlay = useMemo(() => (hasGame(round, 'match') ? computeMatchPlay(round) : null), [round])
+  const sixes = useMemo(() => (hasGame(round, 'sixes') && round.players.length === 4 ? computeSixes(round) : null), [round])
+  const hammer = useMemo(() => (hasGame(round, 'hammer') ? computeHammer(round) : null), [round])
+  const quota = useMemo(() => (hasGame(round, 'quota') ? computeQuota(round) : null), [round])
+  const group = useMemo(() => (hasGame(round, 'group') ? computeGroup(round) : null), [round])
+  const junk = useMemo(() => (junkEnabled(round) ? computeJunk(round) : null), [round])
+  const rabbit = useMemo(() => (rabbitEnabled(round) ? computeRabbit(round) : null), [round])
+  const snake = useMemo(() => (snakeEnabled(round) ? computeSnake(round) : null), [round])
+  // Every game's money (and junk, holdovers, caps) comes from roundSettlement, like saved rounds off screen.
+  const roundByGame = useMemo(() => roundSettlementsByGame(round), [round])
+  const sourceSettlement = (source: SettlementSource): Settlement | null => roundByGame.find((g) => g.game === source)?.settlement || null
+  const byGameSettlement = {
+    skins: sourceSettlement('skins'),
+    wolf: sourceSettlement('wolf'),
+    bbb: sourceSettlement('bbb'),
+    nassau: sourceSettlement('nassau') as NassauSettlement | null,
+    stableford: sourceSettlement('stableford'),
+    vegas: sourceSettlement('vegas'),
+    match: sourceSettlement('match'),
+    sixes: sourceSettlement('sixes') as SixesSettlement | null,
+    hammer: sourceSettlement('hammer'),
+    quota: sourceSettlement('quota'),
+    group: sourceSettlement('group'),
+  }
+  const {
+    skins: settlement,
+    wolf: wolfSettlement,
+    bbb: bbbSettlement,
+    nassau: nassauSettlement,
+    stableford: stablefordSettlement,
+    vegas: vegasSettlement,
+    match: matchSettlement,
+    sixes: sixesSettlement,
+    hammer: hammerSettlement,
+    quota: quotaSettlement,
+    group: groupSettlement,
+  } = byGameSettlement
+  const junkSettlement = sourceSettlement('junk')
+  // Multi-game rounds (or a game plus junk / holdovers, or caps that kick in): each net summed into one set of payments.
+  const combinedSettlement = useMemo(() => combinedRoundSettlement(round, roundByGame), [round, roundByGame])
+  // The whole round's money as one settlement; this is what a locked round records in the ledger.
+  const roundMoneySettlement = combinedSettlement || byGameSettlement[round.game]
+  const nassauSideNames = useMemo((): Record<NassauSide, string> | null => {
+    if (!nassau) return null
+    return { A: nassauSideName(round.players, nassau.sides.A), B: nassauSideName(round.players, nassau.sides.B) }
+  }, [round.players, nassau])
+  const vegasSideNames = useMemo((): Record<VegasSide, string> | null => {
+    if (!vegas) return null
+    return { A: nassauSideName(round.players, vegas.sides.A), B: nassauSideName(round.players, vegas.sides.B) }
+  }, [round.players, vegas])
+  const matchSideNames = useMemo((): Record<MatchSide, string> | null => {
+    if (!matchPlay) return null
+    return { A: nassauSideName(round.players, matchPlay.sides.A), B: nassauSideName(round.players, matchPlay.sides.B) }
+  }, [round.players, matchPlay])
+  const hammerSideNames = useMemo((): Record<HammerSide, string> | null => {
+    if (!hammer) return null
+    return { A: nassauSideName(round.players, hammer.sides.A), B: nassauSideName(round.players, hammer.sides.B) }
+  }, [round.players, hammer])
+  const playerNamesById = useMemo(() => playerNameMap(round.players), [round.players])
+  const entryRows = useMemo((): Player[] => {
+    if (!group) return round.players
+    if (group.format === 'scramble') return group.teams.map((t) => ({ id: t.playerIds[0], name: t.name }))
+    const team = group.teams[Math.min(groupTeamIndex, group.teams.length - 1)]
+    return team ? round.players.filter((p) => team.playerIds.includes(p.id)) : round.players
+  }, [round.players, group, groupTeamIndex])
+  const entryNameById = useMemo(() => ({ ...playerNamesById, ...playerNameMap(entryRows) }), [playerNamesById, entryRows])
+  const playHoles = useMemo(() => roundHoles(round), [round])
+  const enteredByHole = useMemo(() => enteredStrokeCountByHole(round), [round])
+  const completionByHole = useMemo(() => holeCompletionByHole(round, enteredByHole), [round, enteredByHole])
+  const lastCompletedHoleValue = useMemo(() => lastCompletedHoleFromMap(completionByHole, playHoles), [completionByHole, playHoles])
+  const isRoundCompleteValue = useMemo(() => roundIsComplete(completionByHole, playHoles), [completionByHole, playHoles])
+  const skinsByHole = useMemo(() => skinsResultByHoleMap(skins), [skins])
+  const wolfByHole = useMemo(() => wolfResultByHoleMap(wolf), [wolf])
+
+  function playerNameOrDash(pid: PlayerId | null | undefined): string {
+    if (!pid) return '—'
+    return playerNamesById[pid] || '—'
+  }
+
+  function stablefordHoleLabel(hole: number): string {
+    const hr = stableford?.holeResults.find((x) => x.hole === hole)
+    if (!hr) return '—'
+    const entered = enteredByHole[hole as HoleNumber]
+    const pts = round.players
+      .filter((p) => hr.points[p.id] !== null)
+      .map((p) => `${p.name} ${hr.points[p.id]}`)
+      .join(' • ')
+    if (entered < round.players.length) return `Incomplete (${entered}/${round.players.length})${pts ? ` • ${pts}` : ''}`
+    return `Points: ${pts}`
+  }
+
+  function quotaHoleLabel(hole: number): string {
+    const hr = quota?.holeResults.find((x) => x.hole === hole)
+    if (!hr) return '—'
+    const entered = enteredByHole[hole as HoleNumber]
+    const pts = round.players
+      .filter((p) => hr.points[p.id] !== null)
+      .map((p) => `${p.name} ${hr.points[p.id]}`)
+      .join(' • ')
+    if (entered < round.players.length) return `Incomplete (${entered}/${round.players.length})${pts ? ` • ${pts}` : ''}`
+    return `Points: ${pts}`
+  }
+
+  // e.g. "Team 1 8 • Team 2 9 • Team 3 —"
+  function groupHoleLabel(hole: number): string {
+    const hr = group?.holeResults.find((x) => x.hole === hole)
+    if (!group || !hr) return '—'
+    return group.teams.map((t) => `${t.name} ${hr.scores[t.id] ?? '—'}`).join(' • ')
+  }
+
+  // e.g. "1. Team 2 -4 thru 12 • T2. Team 1 E thru 11"
+  function groupStandingLabel(): string {
+    if (!group) return ''
+    return group.standings
+      .filter((st) => st.thru > 0)
+      .map((st) => `${groupPlaceLabel(st)}. ${st.team.name} ${groupVsParLabel(st.vsPar)} thru ${st.thru}`)
+      .join(' • ')
+  }
+
+  // Live +/- vs quota after a hole (pro-rated over holes scored), e.g. "Ann +1.5 • Bob -2".
+  function quotaPaceLabel(hole?: number): string {
+    if (!quota) return ''
+    const hr = hole === undefined ? null : quota.holeResults.find((x) => x.hole === hole)
+    const pace = hr ? hr.vsQuota : quota.paceByPlayer
+    return round.players
+      .slice()
+      .sort((a, b) => (pace[b.id] || 0) - (pace[a.id] || 0))
+      .map((p) => `${p.name} ${quotaDiffLabel(pace[p.id] || 0)}`)
+      .join(' • ')
+  }
+
+  // e.g. "Ann + Bob 45 vs Cy + Di 54 (flip) • Ann + Bob +9"
+  function vegasHoleLabel(hole: number): string {
+    if (!vegas || !vegasSideNames) return '—'
+    const hr = vegas.holeResults.find((x) => x.hole === hole)
+    if (!hr) return '—'
+    const entered = enteredByHole[hole as HoleNumber]
+    if (!hr.numbers) return `Incomplete (${entered}/${round.players.length})`
+    const flip = hr.flipped ? ' (flip)' : ''
+    const numbers = `${vegasSideNames.A} ${hr.numbers.A} vs ${vegasSideNames.B} ${hr.numbers.B}${flip}`
+    if (hr.winner === 'halved' || hr.winner === null) return `${numbers} • Push`
+    return `${numbers} • ${vegasSideNames[hr.winner]} +${hr.points}`
+  }
+
+  // e.g. "Ann wins • Ann 2 UP thru 11"; holes after a closeout show the final result only.
+  function matchHoleLabel(hole: number): string {
+    if (!matchPlay || !matchSideNames) return '—'
+    const hr = matchPlay.holeResults.find((x) => x.hole === hole)
+    const entered = enteredByHole[hole as HoleNumber]
+    if (!hr || hr.winner === null) return `Incomplete (${entered}/${round.players.length})`
+    if (!hr.counted) return `Match over • ${matchStatusLabel(matchPlay, matchSideNames)}`
+    const result = hr.winner === 'halved' ? 'Halved' : `${matchSideNames[hr.winner]} win${matchPlay.sides[hr.winner].length > 1 ? '' : 's'}`
+    const status = hr.closed
+      ? matchStatusLabel(matchPlay, matchSideNames)
+      : matchStatusLabel({ ...hr, status: 'open', winner: null, holesRemaining: 0 }, matchSideNames)
+    return `${result} • ${status}`
+  }
+
+  function sixesSideNames(sides: SixesSegment['sides']): Record<MatchSide, string> {
+    return { A: nassauSideName(round.players, sides.A), B: nassauSideName(round.players, sides.B) }
+  }
+
+  function sixesSegmentName(seg: SixesSegment): string {
+    return `Holes ${seg.startHole}–${seg.endHole}`
+  }
+
+  // e.g. "×4 • Ann + Bob +4", "Cy + Di conceded • Ann + Bob +2"
+  function hammerHoleLabel(hole: number): string {
+    if (!hammer || !hammerSideNames) return '—'
+    const hr = hammer.holeResults.find((x) => x.hole === hole)
+    if (!hr) return '—'
+    const entered = enteredByHole[hole as HoleNumber]
+    const mult = hr.multiplier > 1 ? `×${hr.multiplier} • ` : ''
+    if (hr.pending) return `${mult}Hammer pending (${hammerSideNames[otherSide(hr.calls[hr.calls.length - 1].side)]} to answer)`
+    if (hr.concededBy) return `${hammerSideNames[hr.concededBy]} conceded • ${hammerSideNames[otherSide(hr.concededBy)]} +${hr.points}`
+    if (hr.winner === null) return `${mult}Incomplete (${entered}/${round.players.length})`
+    if (hr.winner === 'halved') return `${mult}Push`
+    return `${mult}${hammerSideNames[hr.winner]} +${hr.points}`
+  }
+
+  // e.g. "Ann + Bob +6" / "All square"
+  function hammerStandingLabel(): string {
+    if (!hammer || !hammerSideNames) return ''
+    const a = hammer.pointsBySide.A
+    if (a === 0) return 'All square'
+    return a > 0 ? `${hammerSideNames.A} +${a}` : `${hammerSideNames.B} +${-a}`
+  }
+
+  // Who holds each holdover right now, e.g. "Rabbit: Ann • Snake: nobody yet".
+  function holdoverHoldersLabel(): string {
+    const parts: string[] = []
+    if (rabbit) parts.push(`Rabbit: ${rabbit.holderId ? playerNameOrDash(rabbit.holderId) : 'loose'}`)
+    if (snake) parts.push(`Snake: ${snake.holderId ? playerNameOrDash(snake.holderId) : 'nobody yet'}`)
+    return parts.join(' • ')
+  }
+
+  // " + Junk + Rabbit" etc. for the side bets riding along with the games.
+  // Each game's own payments are exact and ignore the round's caps; once a cap or the rounding changes anyone's
+  // total they say so, and the combined settlement has what is actually owed.
+  const capsApplied = !!combinedSettlement?.byGame.some((g) => g.game === 'cap')
+  const roundingApplied = !!combinedSettlement?.byGame.some((g) => g.game === 'rounding')
+  const beforeAdjustments = [capsApplied && `caps (${moneyCapsLabel(round)})`, roundingApplied && `rounding (${moneyRoundingLabel(round.moneyRounding)})`]
+    .filter((x): x is string => !!x)
+    .join(' and ')
+  function suggestedPaymentsHeading(): string {
+    return beforeAdjustments ? `Suggested payments (before the round's ${beforeAdjustments}; see the combined settlement):` : 'Suggested payments:'
+  }
+
+  // e.g. "Ann + Bob +12" / "All square"
+  function vegasStandingLabel(): string {
+    if (!vegas || !vegasSideNames) return ''
+    const a = vegas.pointsBySide.A
+    if (a === 0) return 'All square'
+    return a > 0 ? `${vegasSideNames.A} +${a}` : `${vegasSideNames.B} +${-a}`
+  }
+
+  function holeParLabel(hole: number): string {
+    const par = parForHole(round, hole as HoleNumber)
+    const si = strokeIndexForHole(round, hole as HoleNumber)
+    if (par === null) return ''
+    return si === null ? `Par ${par}` : `Par ${par} • SI ${si}`
+  }
+
+  function skinsCarryLine(summary: SkinsSummary): string {
+    if (summary.carryResolution) return skinsCarryResolutionLabel(round.players, summary.carryResolution)
+    return `Carry: ${summary.carryToNext} skin(s)${round.skinsPayout === 'pot' ? '' : ` (${stakeLabel(summary.carryToNext * (round.stakeCents || 0))})`}`
+  }
+
+  function clampStroke(n: number): number {
+    // Guardrails: keep plausible golf score range. Still allows bad holes.
+    return Math.max(1, Math.min(25, Math.round(n)))
+  }
+
+  function setStroke(hole: number, playerId: PlayerId, v: string) {
+    if (round.locked) return
+    if (!usesStrokes(round)) return
+
+    const n = v.trim() === '' ? null : Number(v)
+    if (n !== null && (!Number.isFinite(n) || n < 0 || !Number.isInteger(n))) return
+
+    // Error-proofing: confirm extreme values that are commonly fat-fingers.
+    if (n !== null) {
+      const extreme = n <= 1 || n >= 15
+      if (extreme) {
+        const who = entryNameById[playerId] || 'Player'
+        if (!confirm(`Set ${who} to ${n} on hole ${hole}?`)) return
+      }
+    }
+
+    // Wolf: prevent accidental Lone Wolf (must be intentional if no partner selected)
+    if (hasGame(round, 'wolf') && n !== null) {
+      const partnerId = (round.wolfPartnerByHole?.[hole as HoleNumber] ?? null) as PlayerId | null
+      if (partnerId === null && !round.wolfBlindByHole?.[hole as HoleNumber]) {
+        // only prompt when first score is being entered for the hole
+        const existing = round.strokesByHole[hole] || {}
+        const anyEntered = round.players.some((p) => typeof existing[p.id] === 'number')
+        if (!anyEntered) {
+          const wolfId = wolfForHole(round, hole as HoleNumber).wolfId
+          const wolfName = playerNamesById[wolfId] || 'Wolf'
+          if (!confirm(`No partner selected for hole ${hole}. Confirm ${wolfName} is playing Lone Wolf?`)) return
+        }
+      }
+    }
+
+    setRound((r) => {
+      const holeRec = { ...r.strokesByHole[hole] }
+      for (const id of groupScoreTargets(r, playerId)) holeRec[id] = n === null ? null : clampStroke(n)
+      return { ...r, strokesByHole: { ...r.strokesByHole, [hole]: holeRec } }
+    })
+  }
+
+  function clearHole(hole: number) {
+    if (round.locked) return
+
+    if (!usesStrokes(round)) {
+      if (!confirm(`Clear all awards for hole ${hole}?`)) return
+      track(TRACK_EVENTS.bbb_hole_clear, { hole })
+      let previousAwards: ReturnType<typeof emptyHoleAwards> | null = null
+      setRound((r) => {
+        if (!hasGame(r, 'bbb')) return r
+        const cur = r.bbbAwardsByHole || {}
+        previousAwards = cur[hole as HoleNumber] ? { ...cur[hole as HoleNumber] } : null
+        if (!previousAwards) return r
+        const next = { ...cur }
+        delete next[hole as HoleNumber]
+        return { ...r, bbbAwardsByHole: next }
+      })
+      if (previousAwards) {
+        const restoreAwards = previousAwards as ReturnType<typeof emptyHoleAwards>
+        registerUndo({
+          label: `Cleared hole ${hole}`,
+          restore: () =>
+            setRound((r) => {
+              if (!hasGame(r, 'bbb')) return r
+              const cur = r.bbbAwardsByHole || {}
+              return {
+                ...r,
+                bbbAwardsByHole: {
+                  ...cur,
+                  [hole as HoleNumber]: restoreAwards,
+                },
+              }
+            }),
+        })
+      }
+      return
+    }
+
+    if (!confirm(`Clear all scores for hole ${hole}?`)) return
+
+    let previousHole: Record<PlayerId, number | null> | null = null
+    let didClear = false
+    setRound((r) => {
+      const holeRec = r.strokesByHole[hole] || {}
+      previousHole = { ...holeRec }
+      const nextHole: Record<PlayerId, number | null> = { ...holeRec }
+      for (const p of r.players) nextHole[p.id] = null
+      const hadAnyValue = r.players.some((p) => typeof holeRec[p.id] === 'number')
+      if (!hadAnyValue) return r
+      didClear = true
+      return {
+        ...r,
+        strokesByHole: {
+          ...r.strokesByHole,
+          [hole]: nextHole,
+        },
+      }
+    })
+    if (didClear && previousHole) {
+      const restoreHole = previousHole as Record<PlayerId, number | null>
+      registerUndo({
+        label: `Cleared hole ${hole}`,
+        restore: () =>
+          setRound((r) => ({
+            ...r,
+            strokesByHole: {
+              ...r.strokesByHole,
+              [hole]: restoreHole,
+            },
+          })),
+      })
+    }
+  }
+
+  function resetToGamePicker() {
+    if (!confirm('Start a new game? This will clear the current round on screen (saved rounds remain in Recent).')) {
+      return
+    }
+    setScreen('game')
+  }
+
+  function lastCompletedHole(): number {
+    return lastCompletedHoleValue
+  }
+
+  // Empty unless the round has a course.
+  function toParShareLine(): string {
+    const inline = toParInline(round)
+    return inline ? `\n${round.course?.name || 'Course'} to par: ${inline}` : ''
+  }
+
+  function settlementText(): string {
+    if (!settlement) return ''
+
+    const through = lastCompletedHole()
+    const rules = skinsRulesLabel(round)
+
+    const totals = round.players
+      .map((p) => {
+        const net = settlement.netByPlayer[p.id] || 0
+        return { name: p.name, net }
+      })
+      .sort((a, b) => b.net - a.net)
+      .map((x) => `${x.name} ${formatSignedMoney(x.net)}`)
+      .join('\n')
+
+    const lines = settlement.lines
+      .map((l) => settleLineText(l))
+      .join('\n')
+
+    const carried = [skins, netSkins]
+      .filter((x): x is SkinsSummary => !!x?.carryResolution)
+      .map((x) => `\n${netSkins ? `${x.pot === 'net' ? 'Net' : 'Gross'}: ` : ''}${skinsCarryResolutionLabel(round.players, x.carryResolution!)}`)
+      .join('')
+
+    return `Golf Bets — Settlement\nRound: ${round.name || 'Skins'}\nSkins (${skinsScoringLabel(round)}) • ${skinsPayoutLabel(round)}${rules ? ` • ${rules}` : ''} • Through ${through}/${playHoles.length}${toParShareLine()}${carried}\n\nNet:\n${totals}\n\n${suggestedPaymentsHeading()}\n${lines || '(no payments)'}`
+  }
+
+  function gameStatusText(game: GameType): string | null {
+    const through = lastCompletedHole()
+
+    if (game === 'skins' && skins) {
+      const carry = skins.carryResolution ? skinsCarryResolutionLabel(round.players, skins.carryResolution) : `Carry ${skins.carryToNext}`
+
+      const sorted = round.players
+        .map((p) => ({ name: p.name, skins: skins.skinsWon[p.id] || 0 }))
+        .sort((a, b) => b.skins - a.skins)
+
+      const leader = sorted[0]
+      const leaderLine = leader ? `Leader: ${leader.name} (${skinsCountLabel(leader.skins)})` : ''
+      const inline = sorted.map((x) => `${x.name} ${skinsCountLabel(x.skins)}`).join(' • ')
+      const scoring = round.skinsScoring && round.skinsScoring !== 'gross' ? ` — ${skinsScoringLabel(round)}` : ''
+      const netLine = netSkins
+        ? `\nNet pot (${netSkins.carryResolution ? skinsCarryResolutionLabel(round.players, netSkins.carryResolution) : `carry ${netSkins.carryToNext}`}): ${round.players.map((p) => `${p.name} ${skinsCountLabel(netSkins.skinsWon[p.id] || 0)}`).join(' • ')}`
+        : ''
+
+      return `Skins — Through ${through}/${playHoles.length} — ${skinsPayoutLabel(round)}${scoring} — ${carry}\n${leaderLine}\n${inline}${netLine}`
+    }
+
+    if (game === 'wolf' && wolf) {
+      const pts = wolfLabel(round.wolfPointsPerHole)
+      const cents = round.wolfDollarsPerPointCents || 0
+      const money = cents > 0 ? ` — ${formatMoneyShort(cents)}/pt` : ''
+
+      const sorted = round.players
+        .map((p) => ({ name: p.name, pts: wolf.pointsByPlayer[p.id] || 0 }))
+        .sort((a, b) => b.pts - a.pts)
+
+      const leader = sorted[0]
+      const leaderLine = leader ? `Leader: ${leader.name} (${leader.pts})` : ''
+      const inline = sorted.map((x) => `${x.name} ${x.pts}`).join(' • ')
+
+      const carry = round.wolfCarryTies ? ` — Carry ${wolf.carryToNext}` : ''
+
+      return `Wolf — Through ${through}/${playHoles.length} — ${pts}${money}${carry}\n${leaderLine}\n${inline}`
+    }
+
+    if (game === 'bbb' && bbb) {
+      // Use BBB's own definition of through-hole progress.
+      return bbbStatusText(round.players, bbb.through, bbb.pointsByPlayer, playHoles.length)
+    }
+
+    if (game === 'stableford' && stableford) {
+      const sorted = round.players
+        .map((p) => ({ name: p.name, pts: stableford.pointsByPlayer[p.id] || 0 }))
+        .sort((a, b) => b.pts - a.pts)
+      const leader = sorted[0]
+      const leaderLine = leader ? `Leader: ${leader.name} (${leader.pts})` : ''
+      const inline = sorted.map((x) => `${x.name} ${x.pts}`).join(' • ')
+      return `Stableford — Through ${through}/${playHoles.length} — ${stablefordTableLabel(round)} — ${stablefordPayoutLabel(round)}\n${leaderLine}\n${inline}`
+    }
+
+    if (game === 'group' && group) {
+      const standings = group.standings
+        .map((st) => `${groupPlaceLabel(st)}. ${st.team.name}: ${st.thru > 0 ? `${groupVsParLabel(st.vsPar)} thru ${st.thru}` : 'not started'}`)
+        .join('\n')
+      return `Team Pot — Through ${through}/${playHoles.length} — ${groupFormatLabel(round)} — ${groupPotLabel(round)}\n${standings}`
+    }
+
+    if (game === 'quota' && quota) {
+      const lines = round.players
+        .map((p) => `${p.name}: ${quota.pointsByPlayer[p.id] || 0} pts, quota ${quota.quotaByPlayer[p.id] || 0} (${quotaDiffLabel(quota.paceByPlayer[p.id] || 0)})`)
+        .join('\n')
+      return `Quota — Through ${through}/${playHoles.length} — ${quotaLabel(round.quotaDollarsPerPointCents)}\n${lines}`
+    }
+
+    if (game === 'vegas' && vegas && vegasSideNames) {
+      const cents = round.vegasDollarsPerPointCents || 0
+      const money = cents > 0 ? ` — ${formatMoneyShort(cents)}/pt` : ''
+      const flip = round.vegasBirdieFlip === false ? ' — No birdie flip' : ''
+      return `Vegas — Through ${through}/${playHoles.length}${money}${flip}\n${vegasSideNames.A} vs ${vegasSideNames.B}\n${vegasStandingLabel()}`
+    }
+
+    if (game === 'match' && matchPlay && matchSideNames) {
+      return `Match play — ${matchFormatLabel(round)} — ${matchLabel(round.matchStakeCents || 0)}\n${matchSideNames.A} vs ${matchSideNames.B}\n${matchStatusLabel(matchPlay, matchSideNames)}`
+    }
+
+    if (game === 'sixes' && sixes) {
+      const segs = sixes.segments.map((seg) => {
+        const names = sixesSideNames(seg.sides)
+        return `${sixesSegmentName(seg)}: ${names.A} vs ${names.B} — ${matchStatusLabel(seg, names)}`
+      })
+      const overall = (round.sixesOverallCents || 0) > 0
+        ? `\nOverall holes won: ${round.players.map((p) => `${p.name} ${sixes.holesWonByPlayer[p.id] || 0}`).join(' • ')}`
+        : ''
+      return `Six Sixes — Through ${through}/${playHoles.length} — ${sixesLabel(round.sixesStakeCents || 0)}\n${segs.join('\n')}${overall}`
+    }
+
+    if (game === 'hammer' && hammer && hammerSideNames) {
+      const hammered = hammer.holeResults.filter((hr) => hr.calls.length > 0).length
+      return `Hammer — Through ${through}/${playHoles.length} — ${hammerLabel(round.hammerDollarsPerPointCents)}\n${hammerSideNames.A} vs ${hammerSideNames.B}\n${hammerStandingLabel()}${hammered ? ` • ${hammered} hole(s) hammered` : ''}`
+    }
+
+    if (game === 'nassau' && nassau && nassauSideNames) {
+      const stake = nassauLabel(round.nassauStakeCents || 0)
+      const bets = nassau.matches.map((m) => `${nassauMatchLabel(m)}: ${nassauMatchStatus(m, nassauSideNames)}`).join('\n')
+      return `Nassau — Through ${through}/${playHoles.length} — ${stake}\n${nassauSideNames.A} vs ${nassauSideNames.B}\n${bets}`
+    }
+
+    return null
+  }
+
+  // One section per game on the scorecard.
+  function statusText(): string {
+    const sections = roundGames(round)
+      .map((g) => gameStatusText(g))
+      .filter((t): t is string => !!t)
+    if (junk) sections.push(junkStatusText(round.players, junk, junkSettlement?.netByPlayer))
+    if (rabbit || snake) sections.push(holdoverStatusText(round.players, rabbit, snake))
+    if (sections.length === 0) {
+      return `Golf Bets status\nRound: ${round.name || 'Round'}\nThrough: ${lastCompletedHole()}/${playHoles.length}`
+    }
+    return `${sections.join('\n\n')}${toParShareLine()}`
+  }
+
+  async function copyStatus() {
+    try {
+      await navigator.clipboard.writeText(statusText())
+      track(TRACK_EVENTS.share_status, { game: round.game })
+      alert('Copied status to clipboard')
+    } catch {
+      alert('Could not copy. You can manually select and copy the text.')
+    }
+  }
+
+  function wolfSettlementText(): string {
+    if (round.game !== 'wolf' || !wolf || !wolfSettlement) return ''
+    const through = lastCompletedHole()
+    const dollarsPerPoint = formatMoneyShort(round.wolfDollarsPerPointCents || 0)
+
+    const pts = round.players
+      .map((p) => ({ name: p.name, pts: wolf.pointsByPlayer[p.id] || 0 }))
+      .sort((a, b) => b.pts - a.pts)
+      .map((x) => `${x.name} ${x.pts}`)
+      .join(' • ')
+
+    const lines = wolfSettlement.lines
+      .map((l) => settleLineText(l))
+      .join('\n')
+
+    return `Golf Bets — Wolf settlement\nRound: ${round.name || 'Wolf'}\nThrough ${through}/${playHoles.length} • ${dollarsPerPoint}/pt${toParShareLine()}\n\nPoints:\n${pts}\n\n${suggestedPaymentsHeading()}\n${lines || '(no payments)'}`
+  }
+
+  function bbbSettlementText(): string {
+    if (round.game !== 'bbb' || !bbb || !bbbSettlement) return ''
+    const through = bbb.through
+    const dollarsPerPoint = formatMoneyShort(round.bbbDollarsPerPointCents || 0)
+
+    const pts = round.players
+      .map((p) => ({ name: p.name, pts: bbb.pointsByPlayer[p.id] || 0 }))
+      .sort((a, b) => b.pts - a.pts)
+      .map((x) => `${x.name} ${x.pts}`)
+      .join(' • ')
+
+    const lines = bbbSettlement.lines
+      .map((l) => settleLineText(l))
+      .join('\n')
+
+    return `Golf Bets — BBB settlement\nRound: ${round.name || 'BBB'}\nThrough ${through}/${playHoles.length} • ${dollarsPerPoint}/pt\n\nPoints:\n${pts}\n\n${suggestedPaymentsHeading()}\n${lines || '(no payments)'}`
+  }
+
+  function nassauSettlementText(): string {
+    if (round.game !== 'nassau' || !nassau || !nassauSettlement || !nassauSideNames) return ''
+    const through = lastCompletedHole()
+    const stake = nassauLabel(round.nassauStakeCents || 0)
+
+    const bets = nassauSettlement.byMatch
+      .map(({ match, settlement: s }) => {
+        const paid = s.lines.map((l) => `${l.from.name} → ${l.to.name} ${formatMoney(l.amountCents)}`).join(', ')
+        return `${nassauMatchLabel(match)}: ${nassauMatchStatus(match, nassauSideNames)}${paid ? ` (${paid})` : ''}`
+      })
+      .join('\n')
+
+    const lines = nassauSettlement.lines
+      .map((l) => settleLineText(l))
+      .join('\n')
+
+    return `Golf Bets — Nassau settlement\nRound: ${round.name || 'Nassau'}\n${nassauSideNames.A} vs ${nassauSideNames.B} • ${stake} • Through ${through}/${playHoles.length}${toParShareLine()}\n\nBets:\n${bets}\n\n${suggestedPaymentsHeading()}\n${lines || '(no payments)'}`
+  }
+
+  async function copyNassauSettlement() {
+    try {
+      await navigator.clipboard.writeText(nassauSettlementText())
+      track(TRACK_EVENTS.share_settlement, { game: 'nassau', stakeCents: round.nassauStakeCents || 0 })
+      alert('Copied settlement (ready to paste in the group chat)')
+    } catch {
+      alert('Could not copy. You can manually select and copy the text.')
+    }
+  }
+
+  function isRoundComplete(): boolean {
+    return isRoundCompleteValue
+  }
+
+  function lockRound(andGoToSettlement = false) {
+    track(TRACK_EVENTS.round_lock, { game: round.game, screen, andGoToSettlement })
+    setRound((r) => ({ ...r, locked: true, lockedLines: lockedLinesFromSettlement(roundMoneySettlement) }))
+    if (roundMoneySettlement) {
+      const entry = ledgerEntryFromRound(round, roundMoneySettlement.netByPlayer, roundMoneySettlement.lines, Date.now())
+      if (ledgerEntryHasMoney(entry)) updateLedger(withLedgerEntry(ledger, entry))
+    }
+    if (andGoToSettlement) setScreen('settlement')
+  }
+
+  function unlockRound() {
+    if (!confirm('Unlock round? This allows edits and may change standings/settlement.')) return
+    track(TRACK_EVENTS.round_unlock, { game: round.game, screen })
+    setRound((r) => ({ ...r, locked: false, lockedLines: undefined }))
+    // Edits may change the money; locking again records it afresh.
+    updateLedger(withoutLedgerEntry(ledger, round.id))
+  }
+
+  async function shareSettlement() {
+    try {
+      await navigator.clipboard.writeText(settlementText())
+      alert('Copied settlement (ready to paste in the group chat)')
+    } catch {
+      alert('Could not copy. You can manually select and copy the settlement text.')
+    }
+  }
+
+  // Which foursome's scores are being entered (best ball); a scramble shows every team at once.
+  const groupTeamPicker =
+    group && group.format === 'bestBall' && group.teams.length > 1 ? (
+      <Wrap spacing={2} mb={3} aria-label="Foursome">
+        {group.teams.map((t, i) => {
+          const selected = i === Math.min(groupTeamIndex, group.teams.length - 1)
+          return (
+            <WrapItem key={t.id}>
+              <Button size="sm" variant={selected ? 'solid' : 'outline'} onClick={() => setGroupTeamIndex(i)} type="button" aria-pressed={selected}>
+                {withSelectedMark(selected, t.name)}
+              </Button>
+            </WrapItem>
+          )
+        })}
+      </Wrap>
+    ) : null
+
+  return {
+    skins,
+    netSkins,
+    bbb,
+    wolf,
+    nassau,
+    stableford,
+    vegas,
+    matchPlay,
+    sixes,
+    hammer,
+    quota,
+    group,
+    junk,
+    rabbit,
+    snake,
+    sourceSettlement,
+    settlement,
+    wolfSettlement,
+    bbbSettlement,
+    nassauSettlement,
+    stablefordSettlement,
+    vegasSettlement,
+    matchSettlement,
+    sixesSettlement,
+    hammerSettlement,
+    quotaSettlement,
+    groupSettlement,
+    junkSettlement,
+    combinedSettlement,
+    roundMoneySettlement,
+    nassauSideNames,
+    vegasSideNames,
+    matchSideNames,
+    hammerSideNames,
+    playerNamesById,
+    entryRows,
+    entryNameById,
+    playHoles,
+    enteredByHole,
+    completionByHole,
+    skinsByHole,
+    wolfByHole,
+    knownHandles,
+    playerNameOrDash,
+    stablefordHoleLabel,
+    quotaHoleLabel,
+    groupHoleLabel,
+    groupStandingLabel,
+    quotaPaceLabel,
+    vegasHoleLabel,
+    matchHoleLabel,
+    sixesSideNames,
+    sixesSegmentName,
+    hammerHoleLabel,
+    hammerStandingLabel,
+    holdoverHoldersLabel,
+    beforeAdjustments,
+    suggestedPaymentsHeading,
+    vegasStandingLabel,
+    holeParLabel,
+    skinsCarryLine,
+    clampStroke,
+    setStroke,
+    clearHole,
+    resetToGamePicker,
+    lastCompletedHole,
+    toParShareLine,
+    settlementText,
+    copyStatus,
+    wolfSettlementText,
+    bbbSettlementText,
+    nassauSettlementText,
+    copyNassauSettlement,
+    settleLineText,
+    payLinks,
+    isRoundComplete,
+    lockRound,
+    unlockRound,
+    shareSettlement,
+    groupTeamPicker,
+  }
+}
+
+export type RoundView = ReturnType<typeof useRoundView>
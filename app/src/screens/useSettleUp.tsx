@@ -0,0 +1,462 @@
+import { useMemo } from 'react'
+import { Box, Button, HStack, SimpleGrid, Stack, Text, Wrap, WrapItem, Table, Thead, Tbody, Tr, Th, Td } from '@chakra-ui/react'
+import type { SettlementPayment } from '../types'
+import { junkCountsLabel } from '../logic/junk'
+import { roundGames } from '../logic/games'
+import { withLedgerPayments } from '../logic/ledger'
+import { paymentStatusLabel, roundPayments, type LinePayments } from '../logic/payments'
+import { PAYMENT_METHODS } from '../logic/paymentMethods'
+import { settlementAudit, type AuditItem, type PlayerAudit } from '../logic/settlementAudit'
+import { moneyCapsLabel } from '../logic/moneyCaps'
+import { currencySymbol, formatMoney, formatSignedMoney, moneyInputString, parseMoneyInput } from '../logic/money'
+import type { SettlementLine } from '../logic/wolfSettlement'
+import { TRACK_EVENTS, track } from '../logic/track'
+import { SettlementMatcherButtons } from './SettlementMatcherButtons'
+import type { AppState } from '../appState'
+import { settlementSourceLabel, roundGamesShortLabel, withSelectedMark, paidAtLabel } from '../labels'
+import { uid } from '../newRound'
+import { GameRules } from './GameRules'
+import type { RoundView } from './useRoundView'
+
+// A payment toward one settle-up line, made now.
+function linePayment(l: LinePayments, amountCents: number, method: string): SettlementPayment {
+  return { id: uid('pay'), from: l.line.from.id, to: l.line.to.id, amountCents, method, paidAt: Date.now() }
+}
+
+// The cards every game's Settle Up screen shares: side bets, the combined settlement, payments and the audit.
+export function useSettleUp(app: AppState, view: RoundView) {
+  const { setScreen, theme, ledger, paymentMethod, setPaymentMethod, auditPlayerId, setAuditPlayerId, round, setRound, updateLedger } = app
+  const {
+    junk,
+    rabbit,
+    snake,
+    sourceSettlement,
+    junkSettlement,
+    combinedSettlement,
+    roundMoneySettlement,
+    playHoles,
+    holdoverHoldersLabel,
+    beforeAdjustments,
+    resetToGamePicker,
+    lastCompletedHole,
+    copyStatus,
+    settleLineText,
+    payLinks,
+  } = view
+
+  const rabbitSettlement = sourceSettlement('rabbit')
+  const snakeSettlement = sourceSettlement('snake')
+  const currentRoundPayments = useMemo(() => roundPayments(round, roundMoneySettlement), [round, roundMoneySettlement])
+  // Replays the round hole by hole for some games, so only while someone is looking.
+  const auditOpen = round.players.some((p) => p.id === auditPlayerId)
+  const audits = useMemo(() => (auditOpen ? settlementAudit(round) : null), [round, auditOpen])
+  const selectedAudit = audits?.find((a) => a.player.id === auditPlayerId) || null
+
+  function sideBetsSuffix(): string {
+    return [junk && 'Junk', rabbit && 'Rabbit', snake && 'Snake']
+      .filter((x): x is string => !!x)
+      .map((x) => ` + ${x}`)
+      .join('')
+  }
+
+  function combinedSettlementText(): string {
+    if (!combinedSettlement) return ''
+    const games = combinedSettlement.byGame
+      .map((g) => `${settlementSourceLabel(g.game)}: ${round.players.map((p) => `${p.name} ${formatSignedMoney(g.settlement.netByPlayer[p.id] || 0)}`).join(' • ')}`)
+      .join('\n')
+    const totals = round.players.map((p) => `${p.name}: ${formatSignedMoney(combinedSettlement.netByPlayer[p.id] || 0)}`).join('\n')
+    const lines = combinedSettlement.lines.map((l) => settleLineText(l)).join('\n')
+    return `Golf Bets — Combined settlement\nRound: ${round.name || roundGamesShortLabel(round)}\n${roundGamesShortLabel(round)}${sideBetsSuffix()} • Through ${lastCompletedHole()}/${playHoles.length}${moneyCapsLabel(round) ? `\n${moneyCapsLabel(round)}` : ''}\n\nBy game:\n${games || '(no money games)'}\n\nNet:\n${totals}\n\nSuggested payments:\n${lines || '(no payments)'}`
+  }
+
+  // e.g. "H5 Skins — Ann won 5 skins (4 carried)"
+  function auditItemLabel(item: AuditItem): string {
+    const where = item.hole !== null ? `H${item.hole} ` : ''
+    return `${where}${settlementSourceLabel(item.source)}${item.label ? ` — ${item.label}` : ''}`
+  }
+
+  function auditText(audit: PlayerAudit): string {
+    const owes = audit.netCents < 0 ? 'owes' : 'collects'
+    const items = audit.items.map((x) => `${auditItemLabel(x)}: ${formatSignedMoney(x.cents)}`).join('\n')
+    return `Golf Bets — Why ${audit.player.name} ${owes} ${formatMoney(Math.abs(audit.netCents))}\nRound: ${round.name || roundGamesShortLabel(round)}\n\n${items || '(no money yet)'}\n\nNet: ${formatSignedMoney(audit.netCents)}`
+  }
+
+  async function copyAudit(audit: PlayerAudit) {
+    try {
+      await navigator.clipboard.writeText(auditText(audit))
+      track(TRACK_EVENTS.share_settlement, { game: 'audit', items: audit.items.length })
+      alert('Copied breakdown (ready to paste in the group chat)')
+    } catch {
+      alert('Could not copy. You can manually select and copy the text.')
+    }
+  }
+
+  async function copyCombinedSettlement() {
+    try {
+      await navigator.clipboard.writeText(combinedSettlementText())
+      track(TRACK_EVENTS.share_settlement, { game: 'combined', games: roundGames(round) })
+      alert('Copied settlement (ready to paste in the group chat)')
+    } catch {
+      alert('Could not copy. You can manually select and copy the text.')
+    }
+  }
+
+  function recordPayment(l: LinePayments, amountCents: number) {
+    if (amountCents <= 0) return
+    track(TRACK_EVENTS.payment_record, { method: paymentMethod, partial: amountCents < l.remainingCents })
+    updatePayments([...(round.payments || []), linePayment(l, amountCents, paymentMethod)])
+  }
+
+  function recordPartialPayment(l: LinePayments) {
+    const raw = prompt(`How much did ${l.line.from.name} pay ${l.line.to.name}? (${currencySymbol()})`, moneyInputString(l.remainingCents))
+    if (raw === null) return
+    recordPayment(l, parseMoneyInput(raw))
+  }
+
+  function removePayment(id: string) {
+    updatePayments((round.payments || []).filter((x) => x.id !== id))
+  }
+
+  // Payments live on the round and are copied to its ledger entry, so ledger balances drop as lines are paid.
+  function updatePayments(payments: SettlementPayment[]) {
+    setRound((r) => ({ ...r, payments }))
+    updateLedger(withLedgerPayments(ledger, { ...round, payments }))
+  }
+
+  // Dot tally per player; money settles in the combined card.
+  const junkCard = junk ? (
+    <Box>
+      <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} mb={2}>
+        Junk
+      </Text>
+      <Table size="sm">
+        <Tbody>
+          {round.players.map((p) => {
+            const net = junkSettlement?.netByPlayer[p.id] || 0
+            return (
+              <Tr key={p.id}>
+                <Td>{p.name}</Td>
+                <Td>{junkCountsLabel(junk.countsByPlayer[p.id] || {})}</Td>
+                <Td textAlign="right" className={net >= 0 ? 'positive' : 'negative'}>
+                  {formatSignedMoney(net)}
+                </Td>
+              </Tr>
+            )
+          })}
+        </Tbody>
+      </Table>
+    </Box>
+  ) : null
+
+  // The round's matcher: the per-game Settle Up tables and the all-games card. Fixed once locked, like the other money settings.
+  const settlementMatcherToggle = (
+    <SettlementMatcherButtons
+      current={round.settlementMatcher}
+      onSelect={(m) => setRound((r) => ({ ...r, settlementMatcher: m }))}
+      isDisabled={!!round.locked}
+    />
+  )
+
+  // Current holders plus what each holdover pays; money also settles in the combined card.
+  const holdoverCard =
+    rabbit || snake ? (
+      <Box>
+        <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} mb={2}>
+          {holdoverHoldersLabel()}
+        </Text>
+        <Table size="sm">
+          <Thead>
+            <Tr>
+              <Th>Player</Th>
+              {rabbit && <Th textAlign="right">Rabbit</Th>}
+              {snake && <Th textAlign="right">Snake</Th>}
+            </Tr>
+          </Thead>
+          <Tbody>
+            {round.players.map((p) => {
+              const nets = [rabbit ? rabbitSettlement?.netByPlayer[p.id] || 0 : null, snake ? snakeSettlement?.netByPlayer[p.id] || 0 : null]
+              return (
+                <Tr key={p.id}>
+                  <Td>{p.name}</Td>
+                  {nets.map((net, i) =>
+                    net === null ? null : (
+                      <Td key={i} textAlign="right" className={net >= 0 ? 'positive' : 'negative'}>
+                        {formatSignedMoney(net)}
+                      </Td>
+                    ),
+                  )}
+                </Tr>
+              )
+            })}
+          </Tbody>
+        </Table>
+        {snake && !snake.final && (
+          <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+            The snake pays once every hole is in.
+          </Text>
+        )}
+      </Box>
+    ) : null
+
+  // Shown on every game's Settle Up once the caps or the rounding change the round's total.
+  const preCapNote = beforeAdjustments ? (
+    <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mb={2}>
+      Before the round's {beforeAdjustments}. All games below has the final payments.
+    </Text>
+  ) : null
+
+  const combinedSettlementCard = combinedSettlement ? (
+    <Box>
+      <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} mb={2}>
+        All games ({roundGamesShortLabel(round)}
+        {sideBetsSuffix()})
+        {moneyCapsLabel(round) ? ` • ${moneyCapsLabel(round)}` : ''}
+      </Text>
+      <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+        <Box overflowX="auto">
+          <Table size="sm">
+            <Thead>
+              <Tr>
+                <Th>Player</Th>
+                {combinedSettlement.byGame.map((g) => (
+                  <Th key={g.game} textAlign="right">
+                    {settlementSourceLabel(g.game)}
+                  </Th>
+                ))}
+                <Th textAlign="right">Net</Th>
+              </Tr>
+            </Thead>
+            <Tbody>
+              {round.players.map((p) => {
+                const net = combinedSettlement.netByPlayer[p.id] || 0
+                return (
+                  <Tr key={p.id}>
+                    <Td>{p.name}</Td>
+                    {combinedSettlement.byGame.map((g) => {
+                      const v = g.settlement.netByPlayer[p.id] || 0
+                      return (
+                        <Td key={g.game} textAlign="right">
+                          {formatSignedMoney(v)}
+                        </Td>
+                      )
+                    })}
+                    <Td textAlign="right" fontWeight={800} className={net >= 0 ? 'positive' : 'negative'}>
+                      {formatSignedMoney(net)}
+                    </Td>
+                  </Tr>
+                )
+              })}
+            </Tbody>
+          </Table>
+          <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} mt={2}>
+            Games without a money value (e.g. Wolf with no {currencySymbol()}/pt) are left out.
+          </Text>
+        </Box>
+
+        <Box>
+          {settlementMatcherToggle}
+          <Table size="sm">
+            <Thead>
+              <Tr>
+                <Th>From</Th>
+                <Th>To</Th>
+                <Th textAlign="right">Amount</Th>
+              </Tr>
+            </Thead>
+            <Tbody>
+              {combinedSettlement.lines.length === 0 ? (
+                <Tr>
+                  <Td colSpan={3}>
+                    <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                      No payments needed.
+                    </Text>
+                  </Td>
+                </Tr>
+              ) : (
+                combinedSettlement.lines.map((l, idx) => (
+                  <Tr key={idx}>
+                    <Td>{l.from.name}</Td>
+                    <Td>{l.to.name}</Td>
+                    <Td textAlign="right">
+                      {formatMoney(l.amountCents)}
+                      {payLinks(l)}
+                    </Td>
+                  </Tr>
+                ))
+              )}
+            </Tbody>
+          </Table>
+          <Button variant="secondary" size="sm" mt={3} onClick={copyCombinedSettlement} type="button">
+            Share combined settlement
+          </Button>
+        </Box>
+      </SimpleGrid>
+    </Box>
+  ) : null
+
+  // "Why do I owe this?": one player's net, hole by hole and event by event.
+  const auditCard = roundMoneySettlement ? (
+    <Box>
+      <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} mb={2}>
+        Why do I owe this?
+      </Text>
+      <Wrap spacing={2} mb={3}>
+        {round.players.map((p) => {
+          const selected = auditPlayerId === p.id
+          return (
+            <WrapItem key={p.id}>
+              <Button
+                size="sm"
+                variant={selected ? 'solid' : 'outline'}
+                onClick={() => setAuditPlayerId(selected ? null : p.id)}
+                type="button"
+                aria-pressed={selected}
+              >
+                {withSelectedMark(selected, p.name || 'Player')}
+              </Button>
+            </WrapItem>
+          )
+        })}
+      </Wrap>
+      {selectedAudit && (
+        <Box>
+          <Table size="sm">
+            <Tbody>
+              {selectedAudit.items.length === 0 ? (
+                <Tr>
+                  <Td colSpan={2}>
+                    <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                      No money won or lost yet.
+                    </Text>
+                  </Td>
+                </Tr>
+              ) : (
+                selectedAudit.items.map((x, idx) => (
+                  <Tr key={idx}>
+                    <Td>{auditItemLabel(x)}</Td>
+                    <Td textAlign="right" className={x.cents >= 0 ? 'positive' : 'negative'}>
+                      {formatSignedMoney(x.cents)}
+                    </Td>
+                  </Tr>
+                ))
+              )}
+              <Tr>
+                <Td fontWeight={800}>Net</Td>
+                <Td textAlign="right" fontWeight={800} className={selectedAudit.netCents >= 0 ? 'positive' : 'negative'}>
+                  {formatSignedMoney(selectedAudit.netCents)}
+                </Td>
+              </Tr>
+            </Tbody>
+          </Table>
+          <Button variant="secondary" size="sm" mt={3} onClick={() => copyAudit(selectedAudit)} type="button">
+            Share breakdown
+          </Button>
+        </Box>
+      )}
+    </Box>
+  ) : null
+
+  // Once the round is locked: who has paid which settle-up line (partial payments add up per line).
+  const paymentsCard = currentRoundPayments ? (
+    <Box>
+      <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'} fontWeight={800} mb={2}>
+        Payments • {paymentStatusLabel(currentRoundPayments.status)}
+        {currentRoundPayments.remainingCents > 0 ? ` • ${formatMoney(currentRoundPayments.remainingCents)} still owed` : ''}
+      </Text>
+      <Wrap spacing={2} mb={3} align="center">
+        <WrapItem>
+          <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+            Paid with
+          </Text>
+        </WrapItem>
+        {PAYMENT_METHODS.map((m) => {
+          const selected = paymentMethod === m
+          return (
+            <WrapItem key={m}>
+              <Button size="xs" variant={selected ? 'solid' : 'outline'} onClick={() => setPaymentMethod(m)} type="button" aria-pressed={selected}>
+                {withSelectedMark(selected, m)}
+              </Button>
+            </WrapItem>
+          )
+        })}
+      </Wrap>
+      <Stack spacing={3}>
+        {currentRoundPayments.lines.map((l) => (
+          <Box key={`${l.line.from.id}-${l.line.to.id}`} borderWidth="1px" borderRadius="12px" p={3}>
+            <HStack justify="space-between" align="flex-start" spacing={2} flexWrap="wrap">
+              <Box>
+                <Text fontWeight={700}>
+                  {l.line.from.name} → {l.line.to.name}: {formatMoney(l.line.amountCents)}
+                </Text>
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                  {paymentStatusLabel(l.status)}
+                  {l.status === 'partial' ? ` • ${formatMoney(l.remainingCents)} left` : ''}
+                </Text>
+              </Box>
+              {l.remainingCents > 0 && (
+                <HStack spacing={2}>
+                  <Button variant="primary" size="sm" onClick={() => recordPayment(l, l.remainingCents)} type="button">
+                    Paid {formatMoney(l.remainingCents)}
+                  </Button>
+                  <Button variant="tertiary" size="sm" onClick={() => recordPartialPayment(l)} type="button">
+                    Partial…
+                  </Button>
+                </HStack>
+              )}
+            </HStack>
+            {l.remainingCents > 0 && payLinks({ ...l.line, amountCents: l.remainingCents })}
+            {l.payments.map((x) => (
+              <HStack key={x.id} justify="space-between" spacing={2} mt={2}>
+                <Text fontSize="sm" color={theme === 'dark' ? 'gray.300' : 'gray.600'}>
+                  {formatMoney(x.amountCents)}
+                  {x.method ? ` via ${x.method}` : ''} • {paidAtLabel(x.paidAt)}
+                </Text>
+                <Button variant="tertiary" size="xs" onClick={() => removePayment(x.id)} type="button">
+                  Undo
+                </Button>
+              </HStack>
+            ))}
+          </Box>
+        ))}
+      </Stack>
+    </Box>
+  ) : null
+
+  // Every game's Settle Up card shares these; each game passes its own header, standings and share text.
+  const settleUpCardProps = {
+    theme,
+    players: round.players,
+    preCapNote,
+    payLinks: (l: SettlementLine) => payLinks(l),
+    onShareStatus: copyStatus,
+    onQuick: () => setScreen('quick'),
+    onHoles: () => setScreen('holes'),
+    onNewGame: resetToGamePicker,
+  }
+  const settleUpCardExtras = (
+    <>
+      {junkCard}
+      {holdoverCard}
+
+      {combinedSettlementCard}
+
+      {paymentsCard}
+
+      {auditCard}
+
+      <GameRules game={round.game} defaultOpen={false} />
+    </>
+  )
+
+  return {
+    junkCard,
+    settlementMatcherToggle,
+    holdoverCard,
+    preCapNote,
+    combinedSettlementCard,
+    auditCard,
+    paymentsCard,
+    settleUpCardProps,
+    settleUpCardExtras,
+  }
+}
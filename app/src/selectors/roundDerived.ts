@@ -1,8 +1,10 @@
 import type { BBBSummary } from '../logic/bbb'
+import { hasGame, usesStrokes } from '../logic/games'
+import { ALL_HOLES, roundHoles } from '../logic/holes'
 import type { WolfSummary } from '../logic/wolf'
 import type { HoleNumber, Player, PlayerId, Round, SkinsSummary } from '../types'
 
-export const HOLES_18: HoleNumber[] = Array.from({ length: 18 }, (_, i) => (i + 1) as HoleNumber)
+export const HOLES_18: HoleNumber[] = ALL_HOLES
 
 export function playerNameMap(players: Player[]): Record<PlayerId, string> {
   const byId = {} as Record<PlayerId, string>
@@ -12,7 +14,7 @@ export function playerNameMap(players: Player[]): Record<PlayerId, string> {
 
 export function enteredStrokeCountByHole(round: Round): Record<HoleNumber, number> {
   const out = {} as Record<HoleNumber, number>
-  for (const hole of HOLES_18) {
+  for (const hole of roundHoles(round)) {
     const by = round.strokesByHole[hole]
     let n = 0
     for (const p of round.players) {
@@ -25,50 +27,56 @@ export function enteredStrokeCountByHole(round: Round): Record<HoleNumber, numbe
 
 export function holeCompletionByHole(round: Round, enteredByHole: Record<HoleNumber, number>): Record<HoleNumber, boolean> {
   const out = {} as Record<HoleNumber, boolean>
-  for (const hole of HOLES_18) {
-    if (round.game === 'bbb') {
-      const a = round.bbbAwardsByHole?.[hole]
-      out[hole] = !!a && ['bingo', 'bango', 'bongo'].every((k) => k in a)
-    } else {
-      out[hole] = enteredByHole[hole] === round.players.length
-    }
+  const needsAwards = hasGame(round, 'bbb')
+  const needsStrokes = usesStrokes(round)
+  for (const hole of roundHoles(round)) {
+    // With several games a hole is complete once every game has what it needs.
+    const a = round.bbbAwardsByHole?.[hole]
+    const awardsDone = !needsAwards || (!!a && ['bingo', 'bango', 'bongo'].every((k) => k in a))
+    const strokesDone = !needsStrokes || enteredByHole[hole] === round.players.length
+    out[hole] = awardsDone && strokesDone
   }
   return out
 }
 
-export function lastCompletedHoleFromMap(completionByHole: Record<HoleNumber, boolean>): number {
-  for (let h = 18; h >= 1; h--) {
-    if (completionByHole[h as HoleNumber]) return h
+// Positions are 1-based indexes into the round's play order (see logic/holes).
+export function lastCompletedHoleFromMap(completionByHole: Record<HoleNumber, boolean>, holes: HoleNumber[] = HOLES_18): number {
+  for (let i = holes.length - 1; i >= 0; i--) {
+    if (completionByHole[holes[i]]) return i + 1
   }
   return 0
 }
 
-export function roundIsComplete(completionByHole: Record<HoleNumber, boolean>): boolean {
-  for (const hole of HOLES_18) {
+export function roundIsComplete(completionByHole: Record<HoleNumber, boolean>, holes: HoleNumber[] = HOLES_18): boolean {
+  for (const hole of holes) {
     if (!completionByHole[hole]) return false
   }
   return true
 }
 
-export function firstIncompleteHoleFromMap(completionByHole: Record<HoleNumber, boolean>): number {
-  for (const hole of HOLES_18) {
+export function firstIncompleteHoleFromMap(completionByHole: Record<HoleNumber, boolean>, holes: HoleNumber[] = HOLES_18): number {
+  for (const hole of holes) {
     if (!completionByHole[hole]) return hole
   }
-  return 18
+  return holes[holes.length - 1]
 }
 
-export function nextIncompleteHoleFromMap(fromHole: number, completionByHole: Record<HoleNumber, boolean>): number | null {
-  for (let h = Math.min(18, fromHole + 1); h <= 18; h++) {
-    if (!completionByHole[h as HoleNumber]) return h
-  }
-  for (let h = 1; h <= Math.max(1, fromHole); h++) {
-    if (!completionByHole[h as HoleNumber]) return h
+export function nextIncompleteHoleFromMap(
+  fromHole: number,
+  completionByHole: Record<HoleNumber, boolean>,
+  holes: HoleNumber[] = HOLES_18,
+): number | null {
+  const from = Math.max(0, holes.indexOf(fromHole as HoleNumber))
+  // Walk forward in play order, then wrap back around to (and including) the current hole.
+  for (let step = 1; step <= holes.length; step++) {
+    const hole = holes[(from + step) % holes.length]
+    if (!completionByHole[hole]) return hole
   }
   return null
 }
 
-export function anyIncompleteHole(completionByHole: Record<HoleNumber, boolean>): boolean {
-  for (const hole of HOLES_18) {
+export function anyIncompleteHole(completionByHole: Record<HoleNumber, boolean>, holes: HoleNumber[] = HOLES_18): boolean {
+  for (const hole of holes) {
     if (!completionByHole[hole]) return true
   }
   return false
@@ -1,7 +1,15 @@
-import type { Round } from './types'
+import type { CombinedSettlementDraft, Course, CurrencyCode, LedgerAliases, LedgerEntry, MoneyFormat, Round } from './types'
 
 const KEY = 'rubislabs:golf-bets:rounds:v1'
 const MAX = 25
+const COURSES_KEY = 'rubislabs:golf-bets:courses:v1'
+const MAX_COURSES = 20
+const LEDGER_KEY = 'rubislabs:golf-bets:ledger:v1'
+const LEDGER_ALIASES_KEY = 'rubislabs:golf-bets:ledger-aliases:v1'
+const MAX_LEDGER = 500
+const COMBINED_KEY = 'rubislabs:golf-bets:combined:v1'
+const MONEY_KEY = 'rubislabs:golf-bets:money:v1'
+const CURRENCY_CODES: CurrencyCode[] = ['USD', 'CAD', 'GBP', 'EUR', 'AUD']
 
 type AnyRecord = Record<string, unknown>
 
@@ -34,7 +42,12 @@ export function loadRounds(): StoredRounds {
       }
 
       if (game === 'skins') {
-        return { ...(r as AnyRecord), stakeCents: typeof r.stakeCents === 'number' ? r.stakeCents : 500 } as Round
+        return {
+          ...(r as AnyRecord),
+          stakeCents: typeof r.stakeCents === 'number' ? r.stakeCents : 500,
+          skinsPayout: r.skinsPayout === 'pot' ? 'pot' : 'perSkin',
+          skinsEndTies: r.skinsEndTies === 'split' || r.skinsEndTies === 'playoff' ? r.skinsEndTies : 'forfeit',
+        } as Round
       }
 
       if (game === 'wolf') {
@@ -42,6 +55,8 @@ export function loadRounds(): StoredRounds {
           ...(r as AnyRecord),
           wolfPointsPerHole: typeof r.wolfPointsPerHole === 'number' ? r.wolfPointsPerHole : 1,
           wolfLoneMultiplier: typeof r.wolfLoneMultiplier === 'number' ? r.wolfLoneMultiplier : 2,
+          wolfBlindMultiplier: typeof r.wolfBlindMultiplier === 'number' ? r.wolfBlindMultiplier : 3,
+          wolfPigMultiplier: typeof r.wolfPigMultiplier === 'number' ? r.wolfPigMultiplier : 2,
           wolfDollarsPerPointCents:
             typeof r.wolfDollarsPerPointCents === 'number'
               ? r.wolfDollarsPerPointCents
@@ -53,12 +68,82 @@ export function loadRounds(): StoredRounds {
         } as Round
       }
 
+      if (game === 'nassau') {
+        return {
+          ...(r as AnyRecord),
+          nassauStakeCents: typeof r.nassauStakeCents === 'number' ? r.nassauStakeCents : 500,
+          nassauAutoPressDown: typeof r.nassauAutoPressDown === 'number' ? r.nassauAutoPressDown : 0,
+          nassauPresses: Array.isArray(r.nassauPresses) ? r.nassauPresses : [],
+        } as Round
+      }
+
+      if (game === 'stableford') {
+        return {
+          ...(r as AnyRecord),
+          stablefordTable: typeof r.stablefordTable === 'string' ? r.stablefordTable : 'standard',
+          stablefordPayout: r.stablefordPayout === 'pot' ? 'pot' : 'points',
+        } as Round
+      }
+
+      if (game === 'vegas') {
+        return {
+          ...(r as AnyRecord),
+          vegasDollarsPerPointCents: typeof r.vegasDollarsPerPointCents === 'number' ? r.vegasDollarsPerPointCents : 0,
+          vegasBirdieFlip: r.vegasBirdieFlip !== false,
+        } as Round
+      }
+
+      if (game === 'match') {
+        return {
+          ...(r as AnyRecord),
+          matchStakeCents: typeof r.matchStakeCents === 'number' ? r.matchStakeCents : 500,
+          matchNet: r.matchNet !== false,
+        } as Round
+      }
+
+      if (game === 'sixes') {
+        return {
+          ...(r as AnyRecord),
+          sixesStakeCents: typeof r.sixesStakeCents === 'number' ? r.sixesStakeCents : 500,
+          sixesOverallCents: typeof r.sixesOverallCents === 'number' ? r.sixesOverallCents : 0,
+        } as Round
+      }
+
+      if (game === 'hammer') {
+        return {
+          ...(r as AnyRecord),
+          hammerDollarsPerPointCents: typeof r.hammerDollarsPerPointCents === 'number' ? r.hammerDollarsPerPointCents : 0,
+          hammerByHole: isRecord(r.hammerByHole) ? r.hammerByHole : {},
+        } as Round
+      }
+
+      if (game === 'quota') {
+        return {
+          ...(r as AnyRecord),
+          quotaDollarsPerPointCents: typeof r.quotaDollarsPerPointCents === 'number' ? r.quotaDollarsPerPointCents : 100,
+          quotaByPlayer: isRecord(r.quotaByPlayer) ? r.quotaByPlayer : {},
+        } as Round
+      }
+
+      if (game === 'group') {
+        return {
+          ...(r as AnyRecord),
+          groupTeams: Array.isArray(r.groupTeams) ? r.groupTeams : [],
+          groupFormat: r.groupFormat === 'scramble' ? 'scramble' : 'bestBall',
+          groupBestN: typeof r.groupBestN === 'number' ? r.groupBestN : 2,
+          groupBuyInCents: typeof r.groupBuyInCents === 'number' ? r.groupBuyInCents : 0,
+          groupPayoutPercents: Array.isArray(r.groupPayoutPercents) ? r.groupPayoutPercents : [60, 30, 10],
+        } as Round
+      }
+
       return r as Round
     })
 
+    // Rounds saved before each round kept its currency were shown in the device's; they keep that one.
+    const { currency } = loadMoneyFormat()
     return {
       activeRoundId: typeof parsed.activeRoundId === 'string' ? parsed.activeRoundId : undefined,
-      rounds: rounds as Round[],
+      rounds: (rounds as Round[]).map((r) => (r.currency && CURRENCY_CODES.includes(r.currency) ? r : { ...r, currency })),
     }
   } catch {
     return { rounds: [] }
@@ -90,3 +175,118 @@ export function deleteRound(data: StoredRounds, roundId: string): StoredRounds {
   const activeRoundId = data.activeRoundId === roundId ? rounds[0]?.id : data.activeRoundId
   return { rounds, activeRoundId }
 }
+
+// Saved courses (entered once in Setup, reused across rounds).
+export function loadCourses(): Course[] {
+  try {
+    const raw = localStorage.getItem(COURSES_KEY)
+    if (!raw) return []
+    const parsed: unknown = JSON.parse(raw)
+    if (!Array.isArray(parsed)) return []
+    return parsed.filter((c): c is Course => isRecord(c) && typeof c.id === 'string' && isRecord(c.holes))
+  } catch {
+    return []
+  }
+}
+
+export function saveCourses(courses: Course[]) {
+  localStorage.setItem(COURSES_KEY, JSON.stringify(courses.slice(0, MAX_COURSES)))
+}
+
+export function upsertCourse(courses: Course[], course: Course): Course[] {
+  const rest = courses.filter((c) => c.id !== course.id)
+  // Most recently saved first.
+  return [course, ...rest]
+}
+
+export function deleteCourse(courses: Course[], courseId: string): Course[] {
+  return courses.filter((c) => c.id !== courseId)
+}
+
+// Money ledger (one entry per locked round); kept separately so it outlives the saved-rounds cap.
+export function loadLedger(): LedgerEntry[] {
+  try {
+    const raw = localStorage.getItem(LEDGER_KEY)
+    if (!raw) return []
+    const parsed: unknown = JSON.parse(raw)
+    if (!Array.isArray(parsed)) return []
+    const { currency } = loadMoneyFormat()
+    return parsed
+      .filter((e): e is LedgerEntry => isRecord(e) && typeof e.roundId === 'string' && isRecord(e.netByPlayer))
+      .map((e) => ({
+        ...e,
+        currency: CURRENCY_CODES.includes(e.currency as CurrencyCode) ? e.currency : currency,
+        names: isRecord(e.names) ? e.names : {},
+        lines: Array.isArray(e.lines) ? e.lines : [],
+        payments: Array.isArray(e.payments) ? e.payments : [],
+      }))
+  } catch {
+    return []
+  }
+}
+
+export function saveLedger(entries: LedgerEntry[]) {
+  localStorage.setItem(LEDGER_KEY, JSON.stringify(entries.slice(0, MAX_LEDGER)))
+}
+
+export function loadLedgerAliases(): LedgerAliases {
+  try {
+    const raw = localStorage.getItem(LEDGER_ALIASES_KEY)
+    if (!raw) return {}
+    const parsed: unknown = JSON.parse(raw)
+    if (!isRecord(parsed)) return {}
+    const out: LedgerAliases = {}
+    for (const [k, v] of Object.entries(parsed)) if (typeof v === 'string') out[k] = v
+    return out
+  } catch {
+    return {}
+  }
+}
+
+export function saveLedgerAliases(aliases: LedgerAliases) {
+  localStorage.setItem(LEDGER_ALIASES_KEY, JSON.stringify(aliases))
+}
+
+export function loadCombinedDraft(): CombinedSettlementDraft {
+  try {
+    const raw = localStorage.getItem(COMBINED_KEY)
+    if (!raw) return { roundIds: [], adjustments: [] }
+    const parsed: unknown = JSON.parse(raw)
+    if (!isRecord(parsed)) return { roundIds: [], adjustments: [] }
+    return {
+      roundIds: Array.isArray(parsed.roundIds) ? parsed.roundIds.filter((id): id is string => typeof id === 'string') : [],
+      adjustments: Array.isArray(parsed.adjustments)
+        ? (parsed.adjustments as unknown[]).filter(
+            (a): a is CombinedSettlementDraft['adjustments'][number] => isRecord(a) && typeof a.owedTo === 'string' && Array.isArray(a.owedBy),
+          )
+        : [],
+      ...(parsed.settlementMatcher === 'optimal' || parsed.settlementMatcher === 'greedy' ? { settlementMatcher: parsed.settlementMatcher } : {}),
+    }
+  } catch {
+    return { roundIds: [], adjustments: [] }
+  }
+}
+
+export function saveCombinedDraft(draft: CombinedSettlementDraft) {
+  localStorage.setItem(COMBINED_KEY, JSON.stringify(draft))
+}
+
+// The device's locale, and the currency new rounds start in.
+export function loadMoneyFormat(): MoneyFormat {
+  try {
+    const raw = localStorage.getItem(MONEY_KEY)
+    if (!raw) return { currency: 'USD', locale: '' }
+    const parsed: unknown = JSON.parse(raw)
+    if (!isRecord(parsed)) return { currency: 'USD', locale: '' }
+    return {
+      currency: CURRENCY_CODES.includes(parsed.currency as CurrencyCode) ? (parsed.currency as CurrencyCode) : 'USD',
+      locale: typeof parsed.locale === 'string' ? parsed.locale : '',
+    }
+  } catch {
+    return { currency: 'USD', locale: '' }
+  }
+}
+
+export function saveMoneyFormat(format: MoneyFormat) {
+  localStorage.setItem(MONEY_KEY, JSON.stringify(format))
+}
@@ -3,11 +3,21 @@ export type PlayerId = string;
 export type Player = {
   id: PlayerId;
   name: string;
+  handicapIndex?: number; // optional; plus handicaps are negative
+  paymentHandles?: Partial<Record<PaymentApp, string>>; // for tap-to-pay links on settle-up lines
 };
 
-export type HoleNumber = number; // 1..18
+// Apps we can build a pre-filled payment link for.
+export type PaymentApp = 'venmo' | 'paypal' | 'cashApp';
 
-export type GameType = 'skins' | 'wolf' | 'bbb';
+export type HoleNumber = number; // 1..18 (play order lives in Round.holes)
+
+export type SkinsScoring = 'gross' | 'net' | 'both';
+export type SkinsPot = 'gross' | 'net';
+export type SkinsPayout = 'perSkin' | 'pot';
+export type SkinsEndTies = 'split' | 'playoff' | 'forfeit';
+
+export type GameType = 'skins' | 'wolf' | 'bbb' | 'nassau' | 'stableford' | 'vegas' | 'match' | 'sixes' | 'hammer' | 'quota' | 'group';
 
 export type BBBHoleAwards = {
   bingo: PlayerId | null;
@@ -15,41 +25,275 @@ export type BBBHoleAwards = {
   bongo: PlayerId | null;
 };
 
+export type JunkType = 'greenie' | 'sandie' | 'barkie' | 'polie' | 'chipIn' | 'threePutt';
+
+// Dots each player earned on a hole; each type at most once per player.
+export type JunkHoleDots = Record<PlayerId, JunkType[]>;
+
+export type CourseHole = {
+  par: number; // 3..6
+  strokeIndex: number; // handicap rank, 1 = hardest
+};
+
+export type Course = {
+  id: string;
+  name: string;
+  teeName?: string;
+  courseRating?: number; // e.g. 71.4
+  slope?: number; // 55..155
+  holes: Record<HoleNumber, CourseHole>;
+};
+
+export type NassauBet = 'front' | 'back' | 'overall';
+
+// Group mode: up to 4 foursomes on one round, each scored as a team.
+export type GroupTeam = {
+  id: string;
+  name: string;
+  playerIds: PlayerId[];
+};
+
+export type GroupFormat = 'bestBall' | 'scramble';
+
+export type StablefordTableName = 'standard' | 'modified' | 'custom';
+
+// Points by score relative to par; `double` covers double bogey or worse, `albatross` 3 under or better.
+export type StablefordTable = {
+  albatross: number;
+  eagle: number;
+  birdie: number;
+  par: number;
+  bogey: number;
+  double: number;
+};
+
+export type StablefordPayout = 'points' | 'pot';
+
+// How suggested payments are matched: greedy pairs the biggest debtor with the biggest creditor;
+// optimal finds the fewest payments (exact for up to 16 players with a balance).
+export type SettlementMatcher = 'greedy' | 'optimal';
+
+export type CurrencyCode = 'USD' | 'CAD' | 'GBP' | 'EUR' | 'AUD';
+
+// Money display; locale '' means this device's language. Saved per device, where the currency is the default
+// for new rounds; each round and ledger entry keeps its own.
+export type MoneyFormat = {
+  currency: CurrencyCode;
+  locale: string;
+};
+
+// What settlements round to: exact cents, the nearest whole unit, or the nearest 5.
+export type MoneyRounding = 'none' | 'whole' | 'five';
+
+export type SettlementPayment = {
+  id: string;
+  from: PlayerId;
+  to: PlayerId;
+  amountCents: number;
+  method?: string; // "Venmo", "Cash", …
+  paidAt: number;
+};
+
+// A settle-up line as it stood when the round was locked.
+export type LockedLine = {
+  from: PlayerId;
+  to: PlayerId;
+  amountCents: number;
+};
+
+export type NassauManualPress = {
+  id: string;
+  bet: NassauBet; // which bet is being pressed
+  startHole: HoleNumber; // press runs from here to the end of that bet
+};
+
+export type HammerSide = 'A' | 'B';
+
+// One hammer on a hole: the side that threw it, and the other side's answer.
+export type HammerCall = {
+  side: HammerSide;
+  response: 'accepted' | 'conceded' | null; // accepted doubles the hole; null = waiting on an answer
+};
+
 export type Round = {
   id: string;
-  game: GameType;
+  game: GameType; // primary game: drives the setup, holes and settlement screens
+  // Every game played on this scorecard (includes `game`); absent on single-game rounds.
+  games?: GameType[];
   name: string;
 
   // Skins
   stakeCents?: number; // per skin
+  skinsScoring?: SkinsScoring; // default gross; 'both' runs two pots
+  skinsHalfStrokes?: boolean; // strokes received count as half a shot
+  skinsOffLow?: boolean; // play off the low man
+  skinsPayout?: SkinsPayout; // default perSkin: each skin pays the stake from every opponent
+  skinsPotCents?: number; // 'pot': buy-in per player per pot, split by skins won
+  skinsCarryCap?: number; // most skins a carry can hold; 0/absent = no cap
+  skinsValidation?: boolean; // a carry only goes to a winner who makes par or better
+  skinsEndTies?: SkinsEndTies; // carry still alive after the last hole; default forfeit
+  skinsPlayoffWinnerByPot?: Partial<Record<SkinsPot, PlayerId | null>>; // 'playoff': who won the extra holes
 
-  // Wolf (4 players v1)
+  // Wolf (3–5 players)
   wolfPointsPerHole?: number; // match-play points
   wolfLoneMultiplier?: number; // e.g. 2x
+  wolfBlindMultiplier?: number; // e.g. 3x; Blind Wolf is declared before the tee shot
+  wolfPigMultiplier?: number; // e.g. 2x; the partner rejects the Wolf and goes alone
   wolfDollarsPerPointCents?: number; // optional: $ per point (money common)
-  wolfStartingIndex?: number; // 0..3 (which player is Wolf on hole 1)
+  wolfStartingIndex?: number; // 0..n-1 (which player is Wolf on hole 1)
   wolfPartnerByHole?: Record<HoleNumber, PlayerId | null>; // partner id, or null for lone wolf
+  wolfBlindByHole?: Record<HoleNumber, boolean>; // Blind Wolf declared (no partner)
+  wolfPigByHole?: Record<HoleNumber, boolean>; // the chosen partner called Pig
+  wolfCarryTies?: boolean; // tied holes carry their points to the next decided hole
+  wolfLastPlaceFinal?: boolean; // last place on points is the Wolf on the final two holes
 
   // BBB (award-entry)
   bbbDollarsPerPointCents?: number; // optional: $ per point
   // Winner for each award per hole; use null when unknown/unclear.
   bbbAwardsByHole?: Record<HoleNumber, BBBHoleAwards>;
 
+  // Nassau (front 9 / back 9 / overall, match play)
+  nassauStakeCents?: number; // per bet (each press is its own bet)
+  nassauAutoPressDown?: number; // auto press when a side goes N down; 0 = off
+  nassauPresses?: NassauManualPress[];
+
+  // Stableford (points vs par, highest total wins)
+  stablefordTable?: StablefordTableName; // default standard
+  stablefordCustomTable?: StablefordTable;
+  stablefordNet?: boolean; // points from net scores (full handicap strokes)
+  stablefordPayout?: StablefordPayout; // default points
+  stablefordDollarsPerPointCents?: number; // 'points': paid on the point difference between each pair
+  stablefordPotCents?: number; // 'pot': buy-in per player, winner(s) take all
+
+  // Vegas (4 players, fixed teams 1+2 vs 3+4; team scores read as two-digit numbers)
+  vegasDollarsPerPointCents?: number; // $ per point of difference, per player
+  vegasBirdieFlip?: boolean; // default true: a birdie flips the other team's number
+
+  // Match play (singles, or four-ball 1+2 vs 3+4; holes up/down, closes out early)
+  matchStakeCents?: number; // per player on the match
+  matchNet?: boolean; // default true: strokes off the low man by stroke index
+
+  // Six Sixes (4 players; partners rotate every six holes, each segment is a best-ball match)
+  sixesStakeCents?: number; // per player, per segment
+  sixesOverallCents?: number; // optional overall bet per pair of players (most holes won); 0 = off
+
+  // Hammer (singles or 1+2 vs 3+4 best ball; each hole starts at 1 point, an accepted hammer doubles it)
+  hammerDollarsPerPointCents?: number; // $ per point, per player
+  hammerByHole?: Record<HoleNumber, HammerCall[]>; // hammer history in order; absent = no hammer
+
+  // Quota / Chicago (gross points vs a personal target of 36 minus handicap)
+  quotaDollarsPerPointCents?: number; // paid on the difference in +/- vs quota between each pair
+  quotaByPlayer?: Record<PlayerId, number>; // overrides; absent = from the player's handicap
+
+  // Group / team pot (member-guests and outings: up to 16 players in foursomes)
+  groupTeams?: GroupTeam[]; // players missing from every team are placed in the first open foursome
+  groupFormat?: GroupFormat; // default bestBall
+  groupBestN?: number; // best-ball: low N scores count per hole (default 2)
+  groupNet?: boolean; // best-ball only: net of full handicap strokes
+  groupBuyInCents?: number; // per player, into one pot
+  groupPayoutPercents?: number[]; // by place: [60, 30, 10] = 1st 60%, 2nd 30%, 3rd 10%
+
+  // Junk / dots: side bets layered on top of any game
+  junkTypes?: JunkType[]; // dots in play; absent or empty = no junk
+  junkValueCents?: Partial<Record<JunkType, number>>; // per dot, from each opponent; negative = penalty
+  junkByHole?: Record<HoleNumber, JunkHoleDots>;
+
+  // Rabbit / Snake: holdover side games layered on top of any game; 0 or absent = off
+  rabbitCents?: number; // from each other player to whoever holds the rabbit at the 9th and 18th hole
+  snakeCents?: number; // the last player to three-putt pays this to each other player
+  puttsByHole?: Record<HoleNumber, Record<PlayerId, number | null>>; // for Snake
+
+  // Holes in play order (9 or 18; may start on any hole for shotguns). Missing = 1..18.
+  holes?: HoleNumber[];
+
+  // Optional course (par + stroke index); scores show relative to par when set.
+  course?: Course;
+
+  settlementMatcher?: SettlementMatcher; // default greedy
+  currency?: CurrencyCode; // the round's money; missing = the device's currency when it was first loaded
+  moneyRounding?: MoneyRounding; // default none (exact cents)
+  maxLossCents?: number; // most any player can lose on the round, all games together; 0 = no cap
+  maxWinCents?: number; // most any player can win; 0 = no cap
+  // Payments made against a locked round's settle-up lines (several per line when paid in parts).
+  payments?: SettlementPayment[];
+  // The settle-up lines saved at lock, so payments stay attached even if the lines would compute differently later.
+  lockedLines?: LockedLine[];
+
   players: Player[];
   strokesByHole: Record<HoleNumber, Record<PlayerId, number | null>>;
   createdAt: number;
   locked?: boolean;
 };
 
+// Players are matched across rounds by a key derived from their name (round player ids are per round).
+export type LedgerPlayerKey = string;
+
+export type LedgerLine = {
+  from: LedgerPlayerKey;
+  to: LedgerPlayerKey;
+  amountCents: number;
+};
+
+// One locked round's money, kept after the round itself ages out of saved rounds.
+export type LedgerEntry = {
+  roundId: string;
+  roundName: string;
+  games: GameType[];
+  playedAt: number; // round createdAt
+  lockedAt: number;
+  currency?: CurrencyCode; // the round's; entries in different currencies never net together
+  names: Record<LedgerPlayerKey, string>; // display name as entered in that round
+  netByPlayer: Record<LedgerPlayerKey, number>; // cents; + is owed to them, - they owe
+  lines: LedgerLine[]; // the round's suggested payments, for pair-by-pair balances
+  payments?: LedgerLine[]; // payments recorded against those lines since locking
+};
+
+// Ledger merges: a name key that counts as another player (a rename, a typo), e.g. { "jon": "john" }.
+export type LedgerAliases = Record<LedgerPlayerKey, LedgerPlayerKey>;
+
+// Manual line in a combined settlement, e.g. a cart fee one player paid, lunch, or a forgiven debt (entered the other way round).
+// `owedBy` split the amount evenly and owe their shares to `owedTo`.
+export type SettlementAdjustment = {
+  id: string;
+  label: string;
+  owedTo: LedgerPlayerKey;
+  owedBy: LedgerPlayerKey[];
+  amountCents: number;
+};
+
+// The combined settlement view's saved choices: which rounds to merge and any adjustments.
+export type CombinedSettlementDraft = {
+  roundIds: string[];
+  adjustments: SettlementAdjustment[];
+  settlementMatcher?: SettlementMatcher; // default greedy
+};
+
 export type SkinsHoleResult = {
   hole: HoleNumber;
   carrySkins: number;
   winnerId: PlayerId | null;
   wonSkins: number; // includes carry
+  carryAfter: number; // carry into the next hole
+  carryHeld: boolean; // won without par or better, so the carry stays (validation)
+  par: number | null; // from Round.course
+  lowScore: number | null; // low score on the hole (net in a net pot), once fully entered
+  grossScores: Record<PlayerId, number | null>;
+  netScores: Record<PlayerId, number | null>; // equals gross in a gross pot
+  strokesReceived: Record<PlayerId, number>; // dots on the Holes grid
 };
 
 export type SkinsSummary = {
+  pot: SkinsPot;
   holeResults: SkinsHoleResult[];
-  skinsWon: Record<PlayerId, number>;
+  skinsWon: Record<PlayerId, number>; // includes the resolved end-of-round carry (split may be fractional)
   carryToNext: number;
+  carryResolution: SkinsCarryResolution | null; // null until the last hole is in, or when nothing carried
+};
+
+// What happened to skins still carrying after the last hole.
+export type SkinsCarryResolution = {
+  rule: SkinsEndTies;
+  skins: number;
+  winnerIds: PlayerId[]; // split: tied low on the last hole; playoff: the playoff winner; forfeit: none
+  pending: boolean; // playoff not decided yet
 };